@@ -1,6 +1,16 @@
 import { GoogleGenAI, Type, FunctionDeclaration } from "@google/genai";
-import { UserFunction, DbConnection, HostImage, ApiSource, AgentConfig, McpState } from "./types";
-import { interpolateString } from "./utils";
+import { UserFunction, DbConnection, HostImage, ApiSource, AgentConfig, McpState, TemplateEngine, WorkspaceScope } from "./types";
+import { STANDARD_HELPER_GROUPS } from "./helpers";
+import { functionParametersSchema, formatSignature } from "./function-types";
+import { callFunctionInSandbox, interpolateInSandbox } from "./sandbox-client";
+import { engineLabel } from "./template-engines";
+import { VaultSecrets, maskSecretValues } from "./vault";
+import { EMPTY_SCOPE } from "./environments";
+
+// One line per helper group, e.g. "- Strings: uppercase text; lowercase text; ..."
+const HELPER_REFERENCE = STANDARD_HELPER_GROUPS
+    .map(group => `       - ${group.title}: ${group.helpers.map(h => h.signature).join('; ')}`)
+    .join('\n');
 
 const commonInstruction = `
     IMPORTANT SYNTAX RULES (STRICT HANDLEBARS):
@@ -12,20 +22,59 @@ const commonInstruction = `
        - For inline value injection: '{{#func:myFunc(arg1, arg2)}}' (Special preprocessor syntax).
        - For boolean logic inside IF: '{{#if (func 'myFunc' arg1) }} ... {{/if}}'.
        - DO NOT use the '#func:...' syntax as a block helper (e.g. {{#func:..}}..{{/func}} is INVALID).
-    5. Available helpers: split, join, first, last, uppercase, func, eq, ne, gt, lt, and, or, not.
+    5. Available helpers (use these instead of writing custom functions for the same job):
+${HELPER_REFERENCE}
+       Also: raw (no escaping), func (call a custom function by name).
+    6. Values are escaped for the output format (JSON, YAML, XML, SQL). Write "{{ name }}" inside quotes for strings and {{ count }} without quotes for literals.
+       Use '{{{ value }}}' or '{{raw value}}' only to insert pre-formatted text.
 `;
 
+const liquidInstruction = `
+    IMPORTANT SYNTAX RULES (STRICT LIQUID):
+    1. Output values with '{{ user.name }}' and transform them with filters: '{{ user.name | upcase | truncate: 20 }}'.
+    2. Use tags for logic: '{% if user.role == "admin" and user.active %} ... {% elsif ... %} ... {% else %} ... {% endif %}',
+       '{% for item in items %} ... {% endfor %}' (forloop.index, forloop.first, forloop.last), '{% assign total = items | sum: "price" %}'.
+    3. DO NOT use Handlebars syntax ({{#if}}, {{#each}}, subexpressions or {{#func:...}}). THIS WILL CAUSE ERRORS.
+    4. Custom Functions are filters; the piped value is the first argument: '{{ order.total | formatCurrency: "EUR" }}' calls formatCurrency(order.total, "EUR").
+    5. Standard filters: append, prepend, upcase, downcase, capitalize, strip, replace, remove, split, truncate, slice, escape, url_encode,
+       size, join, first, last, map, where, sort, reverse, uniq, compact, concat, sum, plus, minus, times, divided_by, modulo, round,
+       ceil, floor, abs, at_least, at_most, default, date (strftime, e.g. date: "%Y-%m-%d"), json, raw.
+    6. Values are escaped for the output format (JSON, YAML, XML, SQL). Write "{{ name }}" inside quotes for strings and {{ count }} without quotes for literals; '| raw' skips the escaping.
+    7. Partials: '{% render 'name', key: value %}'.
+`;
+
+const mustacheInstruction = `
+    IMPORTANT SYNTAX RULES (STRICT MUSTACHE):
+    1. Mustache is logic-less: '{{ user.name }}', sections '{{#items}} ... {{/items}}' (repeat for lists, render when truthy) and
+       inverted sections '{{^items}} ... {{/items}}' (render when falsy or empty). Inside a list section '{{.}}' is the current item.
+    2. There are NO helpers, comparisons or filters. DO NOT use Handlebars helpers ({{#if (eq ...)}}, {{#each}}) or Liquid tags. THIS WILL CAUSE ERRORS.
+       Prepare flags in the variables instead (e.g. 'isAdmin': true).
+    3. Custom Functions are lambdas: '{{#formatName}}{{ user.name }}{{/formatName}}' calls formatName with the rendered text; '{{today}}' calls today().
+    4. Values are escaped for the output format (JSON, YAML, XML, SQL). Write "{{ name }}" inside quotes for strings and {{ count }} without quotes for literals.
+       Use '{{{ value }}}' only to insert pre-formatted text.
+    5. Partials: '{{> name }}'.
+`;
+
+// Syntax rules for templates written in `engine`
+const templateInstruction = (engine: TemplateEngine = 'handlebars') =>
+    engine === 'liquid' ? liquidInstruction : engine === 'mustache' ? mustacheInstruction : commonInstruction;
+
+// How a hosted image is referenced in a template
+const imageReference = (engine: TemplateEngine, name: string) =>
+    engine === 'liquid' ? `{{ images["${name}"] }}` : engine === 'mustache' ? `{{ images.${name} }}` : `{{ images.[${name}] }}`;
+
 const getCommonContext = (variablesJson: string, functions: UserFunction[]) => {
-    const funcs = functions.map(f => `${f.name}(${f.params.join(',')})`).join('; ');
+    const funcs = functions.map(f => formatSignature(f) + (f.description ? ` - ${f.description}` : '')).join('; ');
     return `Available Variables (JSON): ${variablesJson}\nAvailable Functions: ${funcs}`;
 };
 
-const handleAiAssist = async (systemInstruction: string, prompt: string, context: string): Promise<string> => {
+const handleAiAssist = async (systemInstruction: string, prompt: string, context: string, secrets: VaultSecrets | null): Promise<string> => {
     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
     try {
         const response = await ai.models.generateContent({
             model: 'gemini-2.5-flash',
-            contents: `Context:\n${context}\n\nUser Request: ${prompt}`,
+            // Vault values pasted anywhere in the workspace go out as their {{ secret.NAME }} reference
+            contents: maskSecretValues(`Context:\n${context}\n\nUser Request: ${prompt}`, secrets),
             config: {
                 systemInstruction: systemInstruction,
             }
@@ -37,73 +86,73 @@ const handleAiAssist = async (systemInstruction: string, prompt: string, context
     }
 };
 
-export const generateJsonAssistResponse = async (prompt: string, content: string, variablesJson: string, functions: UserFunction[]) => {
+export const generateJsonAssistResponse = async (prompt: string, content: string, variablesJson: string, functions: UserFunction[], engine: TemplateEngine = 'handlebars', secrets: VaultSecrets | null = null) => {
     const context = `Current Content:\n${content}\n\n${getCommonContext(variablesJson, functions)}`;
     const systemInstruction = `You are a JSON expert assisting a developer in a specialized JSON editor.
-    The editor supports Handlebars syntax (e.g., {{ user.id }}) and custom helper functions.
+    The editor supports ${engineLabel(engine)} syntax (e.g., {{ user.id }}) and custom functions.
     
-    ${commonInstruction}
+    ${templateInstruction(engine)}
     
     Your goal is to help the user write, debug, or understand the JSON template.
     If providing code updates, provide the specific JSON snippet wrapped in a markdown code block (e.g. \`\`\`json ... \`\`\`).
     Be concise and helpful.`;
 
-    return handleAiAssist(systemInstruction, prompt, context);
+    return handleAiAssist(systemInstruction, prompt, context, secrets);
 };
 
-export const generateYamlAssistResponse = async (prompt: string, content: string, variablesJson: string, functions: UserFunction[]) => {
+export const generateYamlAssistResponse = async (prompt: string, content: string, variablesJson: string, functions: UserFunction[], engine: TemplateEngine = 'handlebars', secrets: VaultSecrets | null = null) => {
     const context = `Current Content:\n${content}\n\n${getCommonContext(variablesJson, functions)}`;
     const systemInstruction = `You are a YAML expert assisting a developer in a specialized YAML editor.
-    The editor supports Handlebars syntax (e.g., {{ user.id }}) and custom helper functions.
+    The editor supports ${engineLabel(engine)} syntax (e.g., {{ user.id }}) and custom functions.
     
-    ${commonInstruction}
+    ${templateInstruction(engine)}
     
     Your goal is to help the user write, debug, or understand the YAML template.
     If providing code updates, provide the specific YAML snippet wrapped in a markdown code block (e.g. \`\`\`yaml ... \`\`\`).
     Be concise and helpful.`;
 
-    return handleAiAssist(systemInstruction, prompt, context);
+    return handleAiAssist(systemInstruction, prompt, context, secrets);
 };
 
-export const generateHtmlAssistResponse = async (prompt: string, content: string, variablesJson: string, functions: UserFunction[], hostImages: HostImage[] = []) => {
+export const generateHtmlAssistResponse = async (prompt: string, content: string, variablesJson: string, functions: UserFunction[], hostImages: HostImage[] = [], engine: TemplateEngine = 'handlebars', secrets: VaultSecrets | null = null) => {
     let imagesContext = "";
     if (hostImages && hostImages.length > 0) {
         imagesContext = `\n\nAvailable Hosted Images (Use these names): \n${hostImages.map(img => `- ${img.name}`).join('\n')}`;
     }
     
     const context = `Current Content:\n${content}\n\n${getCommonContext(variablesJson, functions)}${imagesContext}`;
-    const systemInstruction = `You are an HTML Email expert. The user is working on an HTML email template that supports Handlebars syntax.
+    const systemInstruction = `You are an HTML Email expert. The user is working on an HTML email template that supports ${engineLabel(engine)} syntax.
     Use table-based layouts for email compatibility and inline CSS.
     
-    ${commonInstruction}
+    ${templateInstruction(engine)}
 
     You may be provided with a list of "Available Hosted Images". 
     If the user asks for an image that matches one of these (e.g. "logo"), DO NOT use the URL directly.
-    Instead, use the Handlebars syntax: \`<img src="{{ images.[Image Name] }}" ... />\`.
-    Example: If image name is 'Company Logo', use \`src="{{ images.[Company Logo] }}"\`.
+    Instead, use the ${engineLabel(engine)} syntax: \`<img src="${imageReference(engine, 'Image Name')}" ... />\`.
+    Example: If image name is 'Company Logo', use \`src="${imageReference(engine, 'Company Logo')}"\`.
     
     Your goal is to help the user write responsive, client-compatible email HTML.
     If providing code, provide the full HTML snippet or the specific table structure needed.
     ALWAYS wrap your code in a markdown code block (e.g. \`\`\`html ... \`\`\`).`;
 
-    return handleAiAssist(systemInstruction, prompt, context);
+    return handleAiAssist(systemInstruction, prompt, context, secrets);
 };
 
-export const generateSmsAssistResponse = async (prompt: string, content: string, variablesJson: string, functions: UserFunction[]) => {
+export const generateSmsAssistResponse = async (prompt: string, content: string, variablesJson: string, functions: UserFunction[], engine: TemplateEngine = 'handlebars', secrets: VaultSecrets | null = null) => {
     const context = `Current Content:\n${content}\n\n${getCommonContext(variablesJson, functions)}`;
-    const systemInstruction = `You are an SMS marketing expert. The user is writing an SMS message using Handlebars syntax.
+    const systemInstruction = `You are an SMS marketing expert. The user is writing an SMS message using ${engineLabel(engine)} syntax.
     
-    ${commonInstruction}
+    ${templateInstruction(engine)}
     
     Your goal is to help the user write concise, effective SMS messages.
     Keep messages short (under 160 chars is ideal, but concatenated is fine).
     Avoid complex HTML.
     ALWAYS wrap your code in a markdown code block (e.g. \`\`\`text ... \`\`\`).`;
 
-    return handleAiAssist(systemInstruction, prompt, context);
+    return handleAiAssist(systemInstruction, prompt, context, secrets);
 };
 
-export const generateScriptAssistResponse = async (prompt: string, content: string, variablesJson: string, functions: UserFunction[]) => {
+export const generateScriptAssistResponse = async (prompt: string, content: string, variablesJson: string, functions: UserFunction[], secrets: VaultSecrets | null = null) => {
     const context = `Current Content:\n${content}\n\n${getCommonContext(variablesJson, functions)}`;
     const systemInstruction = `You are a JavaScript expert. The user is writing a script to transform data.
     The script has access to 'input' (the variables object) and a 'log' function.
@@ -113,39 +162,39 @@ export const generateScriptAssistResponse = async (prompt: string, content: stri
     If providing code, provide valid JavaScript code that fits within the script environment.
     ALWAYS wrap your code in a markdown code block (e.g. \`\`\`javascript ... \`\`\`).`;
 
-    return handleAiAssist(systemInstruction, prompt, context);
+    return handleAiAssist(systemInstruction, prompt, context, secrets);
 };
 
-export const generateSqlAssistResponse = async (prompt: string, content: string, variablesJson: string, functions: UserFunction[], activeConnection?: DbConnection) => {
+export const generateSqlAssistResponse = async (prompt: string, content: string, variablesJson: string, functions: UserFunction[], activeConnection?: DbConnection, engine: TemplateEngine = 'handlebars', secrets: VaultSecrets | null = null) => {
     const dialect = activeConnection?.dialect || 'postgres';
     const context = `Current Content:\n${content}\n\n${getCommonContext(variablesJson, functions)}`;
 
     const systemInstruction = `You are a SQL expert. The user is writing a SQL query for a ${dialect} database.
-    The query supports Handlebars syntax for dynamic values (e.g. {{ user.id }}).
+    The query supports ${engineLabel(engine)} syntax for dynamic values (e.g. {{ user.id }}).
     
-    ${commonInstruction}
+    ${templateInstruction(engine)}
     
     Your goal is to help the user write efficient and correct SQL queries.
     If providing code, provide the specific SQL query.
     ALWAYS wrap your code in a markdown code block (e.g. \`\`\`sql ... \`\`\`).`;
 
-    return handleAiAssist(systemInstruction, prompt, context);
+    return handleAiAssist(systemInstruction, prompt, context, secrets);
 };
 
-export const generateXmlAssistResponse = async (prompt: string, content: string, variablesJson: string, functions: UserFunction[]) => {
+export const generateXmlAssistResponse = async (prompt: string, content: string, variablesJson: string, functions: UserFunction[], engine: TemplateEngine = 'handlebars', secrets: VaultSecrets | null = null) => {
     const context = `Current Content:\n${content}\n\n${getCommonContext(variablesJson, functions)}`;
-    const systemInstruction = `You are an XML expert. The user is working on an XML template that supports Handlebars syntax.
+    const systemInstruction = `You are an XML expert. The user is working on an XML template that supports ${engineLabel(engine)} syntax.
     
-    ${commonInstruction}
+    ${templateInstruction(engine)}
     
     Your goal is to help the user structure XML data correctly.
     If providing code, provide the specific XML snippet.
     ALWAYS wrap your code in a markdown code block (e.g. \`\`\`xml ... \`\`\`).`;
 
-    return handleAiAssist(systemInstruction, prompt, context);
+    return handleAiAssist(systemInstruction, prompt, context, secrets);
 };
 
-export const generateRestAssistResponse = async (prompt: string, variablesJson: string, functions: UserFunction[], apiSources: ApiSource[] = []) => {
+export const generateRestAssistResponse = async (prompt: string, variablesJson: string, functions: UserFunction[], apiSources: ApiSource[] = [], secrets: VaultSecrets | null = null) => {
     // 1. Summarize Sources and their Tags (Entities)
     // We only send the list of tags initially to keep the context small.
     const sourceSummaries = apiSources.map(s => {
@@ -254,7 +303,7 @@ export const generateRestAssistResponse = async (prompt: string, variablesJson:
 
     try {
         let result = await chat.sendMessage({
-            message: `Context:\n${context}\n\nUser Request: ${prompt}`
+            message: maskSecretValues(`Context:\n${context}\n\nUser Request: ${prompt}`, secrets)
         });
 
         // Loop for tool calls (max 3 turns)
@@ -341,7 +390,7 @@ export const generateRestAssistResponse = async (prompt: string, variablesJson:
     }
 };
 
-export const generateMcpAssistResponse = async (prompt: string, config: McpState, variablesJson: string, functions: UserFunction[]) => {
+export const generateMcpAssistResponse = async (prompt: string, config: McpState, variablesJson: string, functions: UserFunction[], secrets: VaultSecrets | null = null) => {
     const context = `Current Config:\n${JSON.stringify(config, null, 2)}\n\n${getCommonContext(variablesJson, functions)}`;
     const systemInstruction = `You are an MCP (Model Context Protocol) expert. The user is configuring an MCP Client.
     
@@ -351,14 +400,19 @@ export const generateMcpAssistResponse = async (prompt: string, config: McpState
     If providing JSON arguments, wrap them in markdown code blocks.
     Be concise and helpful.`;
 
-    return handleAiAssist(systemInstruction, prompt, context);
+    return handleAiAssist(systemInstruction, prompt, context, secrets);
 };
 
+// Tool call round trips per attempt before the model has to answer
+const MAX_TOOL_ROUNDS = 5;
+
 export const runAgentSimulation = async (
     config: AgentConfig, 
     userMessage: string, 
     variables: any, 
-    functions: UserFunction[]
+    functions: UserFunction[],
+    scope: WorkspaceScope = EMPTY_SCOPE,
+    sharedModule = ''
 ): Promise<string> => {
     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
     
@@ -366,31 +420,22 @@ export const runAgentSimulation = async (
         // 1. Interpolate System Message
         let systemInstruction = "";
         try {
-            systemInstruction = interpolateString(config.systemMessage, variables, functions);
+            systemInstruction = await interpolateInSandbox(config.systemMessage, variables, functions, { escape: 'none', sharedModule, scope });
         } catch (e) {
             systemInstruction = config.systemMessage; // Fallback
         }
 
         // 2. Prepare Tools (Function Declarations) - Only for connected tools
+        // Parameter schemas come from the declared types; calls run in the sandbox
         // Note: MCP tools would be handled here in a real implementation
-        /* 
-        const tools = config.connectedTools
+        const toolFunctions = config.connectedTools
             .map(id => functions.find(f => f.id === id))
-            .filter(Boolean)
-            .map(f => ({
-                name: f!.name,
-                description: `Custom function: ${f!.name}`,
-                parameters: {
-                    type: Type.OBJECT,
-                    properties: {
-                        // Simply map params to generic string inputs for simulation
-                        ...f!.params.reduce((acc, p) => ({ ...acc, [p]: { type: Type.STRING } }), {})
-                    },
-                    required: f!.params
-                }
-            }));
-        */
-       // Disabled real tool binding for simulation to avoid complex signature mapping for now
+            .filter((f): f is UserFunction => Boolean(f));
+        const tools: FunctionDeclaration[] = toolFunctions.map(f => ({
+            name: f.name,
+            description: f.description || `Custom function: ${f.name}`,
+            parametersJsonSchema: functionParametersSchema(f)
+        }));
 
         // 3. Inject Structured Output Instructions if enabled
         const isStructuredOutput = config.outputParser === 'JSON' || config.outputParser === 'AUTO_FIX';
@@ -409,12 +454,15 @@ export const runAgentSimulation = async (
             fullSystemPrompt += "\n\nExamples:\n" + config.fewShotExamples.map(ex => `User: ${ex.input}\nAgent: ${ex.output}`).join("\n\n");
         }
 
+        fullSystemPrompt = maskSecretValues(fullSystemPrompt, scope.secrets);
+
         // 5. Execution Loop (Auto-Repair)
         let attempts = 0;
         const maxAttempts = (isStructuredOutput && config.autoRepair) ? 3 : 1;
+        let toolRounds = 0;
         
         // Initial conversation history
-        const contents: any[] = [{ role: 'user', parts: [{ text: userMessage }] }];
+        const contents: any[] = [{ role: 'user', parts: [{ text: maskSecretValues(userMessage, scope.secrets) }] }];
 
         while (attempts < maxAttempts) {
             attempts++;
@@ -427,10 +475,32 @@ export const runAgentSimulation = async (
                     temperature: config.temperature,
                     maxOutputTokens: config.maxTokens,
                     topP: config.topP,
-                    responseMimeType: (config.jsonMode || isStructuredOutput) ? "application/json" : "text/plain",
+                    // Function calling does not support a JSON response type; the JSON check below still applies
+                    responseMimeType: (config.jsonMode || isStructuredOutput) && tools.length === 0 ? "application/json" : "text/plain",
+                    tools: tools.length > 0 ? [{ functionDeclarations: tools }] : undefined
                 }
             });
 
+            // Answer tool calls and ask again; these rounds do not count as attempts
+            const calls = response.functionCalls || [];
+            if (calls.length > 0 && toolRounds < MAX_TOOL_ROUNDS) {
+                toolRounds++;
+                attempts--;
+                contents.push(response.candidates?.[0]?.content);
+                const parts = await Promise.all(calls.map(async call => {
+                    const func = toolFunctions.find(f => f.name === call.name);
+                    try {
+                        if (!func) throw new Error(`Unknown tool '${call.name}'`);
+                        const result = await callFunctionInSandbox(func, func.params.map(p => (call.args as any)?.[p]), { functions, sharedModule });
+                        return { functionResponse: { id: call.id, name: call.name, response: { result } } };
+                    } catch (e: any) {
+                        return { functionResponse: { id: call.id, name: call.name, response: { error: e.message } } };
+                    }
+                }));
+                contents.push({ role: 'user', parts });
+                continue;
+            }
+
             const responseText = response.text || "No response generated.";
 
             // If not structured output, return immediately
@@ -471,12 +541,12 @@ export const runAgentSimulation = async (
     }
 };
 
-export const generateAgentAssistResponse = async (prompt: string, config: AgentConfig, variablesJson: string, functions: UserFunction[]) => {
+export const generateAgentAssistResponse = async (prompt: string, config: AgentConfig, variablesJson: string, functions: UserFunction[], secrets: VaultSecrets | null = null) => {
     const context = `Current Config:\n${JSON.stringify(config, null, 2)}\n\n${getCommonContext(variablesJson, functions)}`;
     const systemInstruction = `You are an AI Agent Architect. The user is configuring an AI agent.
     
     Your goal is to help the user refine prompts, select models, or configure output schemas.
     If providing code/JSON, wrap it in markdown blocks.`;
 
-    return handleAiAssist(systemInstruction, prompt, context);
+    return handleAiAssist(systemInstruction, prompt, context, secrets);
 };
\ No newline at end of file
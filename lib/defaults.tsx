@@ -1,4 +1,4 @@
-import { UserFunction, DbConnection, HostImage, AgentConfig, EmailMessageState, SmsMessageState, McpState, McpConnection } from './types';
+import { EditorType, UserFunction, TemplatePartial, TemplateTestsByEditor, VariableScenario, SandboxOptions, DbConnection, HostImage, AgentConfig, EmailMessageState, SmsMessageState, McpState, McpConnection, ApiSource, DocumentsByEditor, Environment, RestRequest } from './types';
 
 export const DEFAULT_VARIABLES_JSON = `{
   "meta": {
@@ -31,6 +31,98 @@ export const DEFAULT_VARIABLES_JSON = `{
   }
 }`;
 
+// JSON Schema for the variables. Fields the sample does not contain (user.locale,
+// order.couponCode) still show up in the tree and are known to the analyzer.
+export const DEFAULT_VARIABLES_SCHEMA = `{
+  "$schema": "https://json-schema.org/draft/2020-12/schema",
+  "type": "object",
+  "required": ["meta", "user", "order"],
+  "properties": {
+    "meta": {
+      "type": "object",
+      "required": ["requestId", "timestamp"],
+      "properties": {
+        "requestId": { "type": "string" },
+        "timestamp": { "type": "string", "format": "date-time" },
+        "environment": { "enum": ["development", "staging", "production"] }
+      }
+    },
+    "user": {
+      "type": "object",
+      "required": ["id", "name", "isActive", "roles"],
+      "properties": {
+        "id": { "type": "string" },
+        "name": { "type": "string", "minLength": 1 },
+        "email": { "type": "string" },
+        "phone": { "type": "string" },
+        "locale": { "type": "string", "enum": ["en-US", "de-DE", "fr-FR"], "description": "Preferred locale, falls back to en-US" },
+        "isActive": { "type": "boolean" },
+        "roles": { "type": "array", "items": { "enum": ["admin", "reviewer", "customer"] } },
+        "preferences": {
+          "type": "object",
+          "properties": {
+            "notifications": { "type": "boolean" },
+            "theme": { "enum": ["light", "dark"] }
+          }
+        }
+      }
+    },
+    "order": {
+      "type": "object",
+      "required": ["id", "currency", "total", "items"],
+      "properties": {
+        "id": { "type": "string" },
+        "currency": { "type": "string", "pattern": "^[A-Z]{3}$" },
+        "total": { "type": "number", "minimum": 0 },
+        "couponCode": { "type": "string", "description": "Applied discount code" },
+        "shippingAddress": { "type": "string" },
+        "items": {
+          "type": "array",
+          "items": { "$ref": "#/$defs/orderItem" }
+        }
+      }
+    }
+  },
+  "$defs": {
+    "orderItem": {
+      "type": "object",
+      "required": ["sku", "qty", "price"],
+      "properties": {
+        "sku": { "type": "string" },
+        "qty": { "type": "integer", "minimum": 1 },
+        "price": { "type": "number", "minimum": 0 }
+      }
+    }
+  }
+}`;
+
+// Derives a scenario dataset from the default variables
+const scenarioFromDefaults = (change: (vars: any) => void): string => {
+    const vars = JSON.parse(DEFAULT_VARIABLES_JSON);
+    change(vars);
+    return JSON.stringify(vars, null, 2);
+};
+
+export const DEFAULT_SCENARIOS: VariableScenario[] = [
+    { id: 'default', name: 'Admin user', variablesJson: DEFAULT_VARIABLES_JSON },
+    {
+        id: 'guest',
+        name: 'Guest user',
+        variablesJson: scenarioFromDefaults(vars => {
+            vars.user = { id: 'guest', name: 'Guest', email: '', phone: '', isActive: false, roles: [], preferences: { notifications: false, theme: 'light' } };
+        })
+    },
+    {
+        id: 'empty-cart',
+        name: 'Empty cart',
+        variablesJson: scenarioFromDefaults(vars => {
+            vars.order.items = [];
+            vars.order.total = 0;
+            vars.order.shippingAddress = '';
+        })
+    }
+];
+
 export const DEFAULT_JSON_CONTENT = `{
   "meta": {
     "requestId": "{{#func:generateReqId()}}",
@@ -215,14 +307,107 @@ export const DEFAULT_MCP_STATE: McpState = {
 };
 
 export const DEFAULT_FUNCTIONS: UserFunction[] = [
-    { id: '1', name: 'formatDate', params: ['ts'], body: 'return new Date(ts).toISOString().split("T")[0];' },
-    { id: '2', name: 'calcTax', params: ['amount'], body: 'return (Number(amount) * 0.1).toFixed(2);' },
-    { id: '3', name: 'formatCurrency', params: ['amount', 'currency'], body: 'return new Intl.NumberFormat("en-US", { style: "currency", currency: currency || "USD" }).format(amount);' },
-    { id: '4', name: 'generateReqId', params: [], body: "return 'req_' + Math.random().toString(36).substr(2, 9);" },
-    { id: '5', name: 'isProduction', params: ['env'], body: "return env === 'production';" },
-    { id: '6', name: 'calcLineTotal', params: ['qty', 'price'], body: "return (Number(qty) * Number(price)).toFixed(2);" },
-    { id: '7', name: 'isHighValue', params: ['qty', 'price'], body: "return (Number(qty) * Number(price)) > 60;" },
-    { id: '8', name: 'calcGrandTotal', params: ['total'], body: "return (Number(total) * 1.1).toFixed(2);" }
+    { id: '1', name: 'formatDate', params: ['ts'], paramTypes: ['number | string'], returnType: 'string', description: 'ISO date (yyyy-mm-dd) of a timestamp', body: 'return new Date(ts).toISOString().split("T")[0];' },
+    { id: '2', name: 'calcTax', params: ['amount'], paramTypes: ['number'], returnType: 'string', description: '10% tax with two decimals', body: 'return (Number(amount) * 0.1).toFixed(2);',
+        tests: [
+            { id: 'ft1', name: 'Round amount', args: ['100'], expected: '10.00' },
+            { id: 'ft2', name: 'Rounds to cents', args: ['19.99'], expected: '2.00' }
+        ] },
+    { id: '3', name: 'formatCurrency', params: ['amount', 'currency'], paramTypes: ['number', 'string | undefined'], returnType: 'string', description: 'Formats an amount in en-US, USD unless a currency code is given', body: 'return new Intl.NumberFormat("en-US", { style: "currency", currency: currency || "USD" }).format(amount);',
+        tests: [
+            { id: 'ft3', name: 'Defaults to USD', args: ['1234.5', ''], expected: '$1,234.50' },
+            { id: 'ft4', name: 'Given currency', args: ['5', 'EUR'], expected: '€5.00' }
+        ] },
+    { id: '4', name: 'generateReqId', params: [], returnType: 'string', description: 'Random request ID', body: "return 'req_' + Math.random().toString(36).substr(2, 9);" },
+    { id: '5', name: 'isProduction', params: ['env'], paramTypes: ['string'], returnType: 'boolean', body: "return env === 'production';" },
+    { id: '6', name: 'calcLineTotal', params: ['qty', 'price'], paramTypes: ['number', 'number'], returnType: 'string', body: "return (Number(qty) * Number(price)).toFixed(2);" },
+    { id: '7', name: 'isHighValue', params: ['qty', 'price'], paramTypes: ['number', 'number'], returnType: 'boolean', description: 'True when the line total exceeds 60', body: "return (Number(qty) * Number(price)) > 60;" },
+    { id: '8', name: 'calcGrandTotal', params: ['total'], paramTypes: ['number'], returnType: 'string', description: 'Total including 10% tax', body: "return (Number(total) * 1.1).toFixed(2);" }
+];
+
+// Shared code every user function and script can use; only exported names are visible
+export const DEFAULT_SHARED_MODULE = `// Shared across all user functions and scripts.
+// Exported names are in scope, as are _, dates and validate.
+
+export const TAX_RATE = 0.1;
+
+export function roundMoney(value) {
+    return Math.round(Number(value) * 100) / 100;
+}
+`;
+
+export const DEFAULT_PARTIALS: TemplatePartial[] = [
+    {
+        id: 'p1',
+        name: 'greeting',
+        description: 'Salutation with an optional name override: {{> greeting name=user.name}}',
+        content: 'Hi {{#if name}}{{ name }}{{else}}{{ user.name }}{{/if}},'
+    },
+    {
+        id: 'p2',
+        name: 'footer',
+        description: 'Company footer for emails and pages',
+        content: `<p style="color: #94a3b8; font-size: 12px;">
+    Acme Inc. · 123 Tech Blvd, Silicon Valley, CA<br/>
+    You receive this message because you have an account with us.
+</p>`
+    },
+    {
+        id: 'p3',
+        name: 'addressBlock',
+        description: 'Shipping address lines: {{> addressBlock address=order.shippingAddress}}',
+        content: '{{#if address}}Ship to: {{ address }}{{else}}Pickup at store{{/if}}'
+    }
+];
+
+// Example tests; request IDs come from a function, so these use assertions instead of a snapshot
+export const DEFAULT_TEMPLATE_TESTS: TemplateTestsByEditor = {
+    [EditorType.JSON_REST]: [
+        {
+            id: 't1',
+            name: 'Active admin user',
+            variablesJson: DEFAULT_VARIABLES_JSON,
+            assertions: [
+                { id: 'a1', kind: 'valid-json' },
+                { id: 'a2', kind: 'json-path-equals', path: '$.userInfo.status', expected: '"Active"' },
+                { id: 'a3', kind: 'json-path-equals', path: '$.userInfo.roles[0]', expected: '"ADMIN"' }
+            ]
+        }
+    ],
+    [EditorType.XML_TEMPLATE]: [
+        {
+            id: 't2',
+            name: 'Well-formed user envelope',
+            variablesJson: DEFAULT_VARIABLES_JSON,
+            assertions: [
+                { id: 'a1', kind: 'valid-xml' },
+                { id: 'a2', kind: 'contains', expected: '<name>Alex Rivera</name>' }
+            ]
+        }
+    ]
+};
+
+// Limits applied to user scripts and helper functions
+export const DEFAULT_SANDBOX_OPTIONS: SandboxOptions = {
+    timeoutMs: 2000,
+    maxIterations: 1000000,
+    maxLogEntries: 500
+};
+
+// Same keys in every environment; none is active until one is picked in the header
+const environment = (id: string, name: string, baseUrl: string): Environment => ({
+    id,
+    name,
+    variables: [
+        { id: `${id}_env`, key: 'meta.environment', value: id, enabled: true },
+        { id: `${id}_url`, key: 'api.baseUrl', value: baseUrl, enabled: true }
+    ]
+});
+
+export const DEFAULT_ENVIRONMENTS: Environment[] = [
+    environment('development', 'Development', 'http://localhost:8080'),
+    environment('staging', 'Staging', 'https://staging.api.example.com'),
+    environment('production', 'Production', 'https://api.example.com')
 ];
 
 export const DEFAULT_DB_CONNECTIONS: DbConnection[] = [
@@ -249,6 +434,35 @@ export const DEFAULT_MCP_CONNECTIONS: McpConnection[] = [
     }
 ];
 
+export const DEFAULT_API_SOURCES: ApiSource[] = [
+    {
+        id: 'src_petstore',
+        name: 'Petstore API',
+        baseUrl: 'https://petstore.swagger.io/v2',
+        specUrl: 'https://petstore.swagger.io/v2/swagger.json',
+        lastFetched: Date.now()
+    }
+];
+
+export const DEFAULT_REST_REQUESTS: RestRequest[] = [
+  {
+    id: 'req_default',
+    name: 'New Custom Request',
+    meta: { origin: 'custom' },
+    method: 'GET',
+    url: 'https://httpbin.org/get',
+    pathParams: [],
+    params: [],
+    headers: [
+      { id: 'h1', key: 'Content-Type', value: 'application/json', enabled: true },
+      { id: 'h2', key: 'Accept', value: 'application/json', enabled: true }
+    ],
+    auth: { type: 'none' },
+    bodyType: 'json',
+    body: '{\n  "key": "value"\n}'
+  }
+];
+
 export const DEFAULT_HOST_IMAGES: HostImage[] = [
   { id: '1', name: 'Company Logo', url: 'https://placehold.co/200x50?text=Logo' },
   { id: '2', name: 'Promo Banner', url: 'https://placehold.co/600x200?text=Summer+Sale' },
@@ -285,4 +499,23 @@ export const DEFAULT_AGENT_CONFIG: AgentConfig = {
     memoryBackend: 'NONE',
     sessionId: 'session_001',
     contextWindowLimit: 10
-};
\ No newline at end of file
+};
+
+// One document per editor, named after what the default content shows
+export const DEFAULT_DOCUMENTS: DocumentsByEditor = {
+    [EditorType.JSON_REST]: [{ id: 'default', name: 'User Info Payload', content: DEFAULT_JSON_CONTENT, tests: DEFAULT_TEMPLATE_TESTS[EditorType.JSON_REST] }],
+    [EditorType.YAML_CONFIG]: [{ id: 'default', name: 'User Info Config', content: DEFAULT_YAML_CONTENT }],
+    [EditorType.EMAIL_HTML]: [{ id: 'default', name: 'Welcome Email', content: DEFAULT_EMAIL_STATE }],
+    [EditorType.HTML_PAGE]: [{ id: 'default', name: 'Welcome Page', content: DEFAULT_HTML_CONTENT }],
+    [EditorType.SMS_MSG]: [{ id: 'default', name: 'Welcome SMS', content: DEFAULT_SMS_STATE }],
+    [EditorType.DB_QUERY]: [{
+        id: 'default',
+        name: 'User Orders Query',
+        content: DEFAULT_SQL_CONTENT,
+        settings: { connectionId: DEFAULT_DB_CONNECTIONS[0].id }
+    }],
+    [EditorType.XML_TEMPLATE]: [{ id: 'default', name: 'User Record', content: DEFAULT_XML_CONTENT, tests: DEFAULT_TEMPLATE_TESTS[EditorType.XML_TEMPLATE] }],
+    [EditorType.SCRIPT_JS]: [{ id: 'default', name: 'Script', content: DEFAULT_SCRIPT_CONTENT }],
+    [EditorType.MCP_CLIENT]: [{ id: 'default', name: 'MCP Request', content: DEFAULT_MCP_STATE, settings: { connectionId: DEFAULT_MCP_CONNECTIONS[0].id } }],
+    [EditorType.AGENT]: [{ id: 'default', name: 'New Agent', content: DEFAULT_AGENT_CONFIG }]
+};
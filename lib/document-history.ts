@@ -0,0 +1,234 @@
+import {
+  DocumentContents,
+  DocumentEditorType,
+  DocumentVersion,
+  EditorDocument,
+  EditorType,
+  PersistedAppState,
+  VersionRestoreOptions
+} from './types';
+import { HISTORY_STORE_NAME, withStore } from './persistence';
+import { DOCUMENT_EDITOR_TYPES } from './editor-documents';
+
+// Version history of the documents. Every save records an automatic version
+// of the documents it changed; checkpoints are named versions taken on
+// request. A version also holds the variables, functions and partials the
+// document was rendered with, so restoring it brings back a working state.
+
+// Older automatic versions are dropped beyond this many; checkpoints are always kept
+export const MAX_AUTO_VERSIONS = 50;
+
+// Automatic versions are kept at least this far apart
+export const AUTO_VERSION_INTERVAL_MS = 5 * 60 * 1000;
+
+const historyKey = (type: DocumentEditorType, documentId: string) => `${type}:${documentId}`;
+
+const createVersionId = () => `ver_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+// A version of `document` with the context it has in `state`
+export const createVersion = (
+  document: EditorDocument,
+  state: PersistedAppState,
+  kind: DocumentVersion['kind'],
+  label?: string
+): DocumentVersion => {
+  const scenario = state.scenarios.find(s => s.id === state.activeScenarioId) ?? state.scenarios[0];
+  const version: DocumentVersion = {
+    id: createVersionId(),
+    createdAt: Date.now(),
+    kind,
+    document,
+    scenario,
+    functions: state.userFunctions,
+    sharedModule: state.sharedModule,
+    partials: state.partials
+  };
+  if (label?.trim()) version.label = label.trim();
+  return version;
+};
+
+// -- Storage --
+
+// Versions of a document, newest first
+export const loadHistory = async (type: DocumentEditorType, documentId: string): Promise<DocumentVersion[]> =>
+  (await withStore<DocumentVersion[] | undefined>(HISTORY_STORE_NAME, 'readonly', store => store.get(historyKey(type, documentId)))) ?? [];
+
+const saveHistory = (type: DocumentEditorType, documentId: string, versions: DocumentVersion[]): Promise<void> =>
+  withStore(HISTORY_STORE_NAME, 'readwrite', store =>
+    versions.length > 0 ? store.put(versions, historyKey(type, documentId)) : store.delete(historyKey(type, documentId))
+  ).then(() => undefined);
+
+// Updates are chained so two changes of the same history never read the same list
+let queue: Promise<unknown> = Promise.resolve();
+
+const updateHistory = (
+  type: DocumentEditorType,
+  documentId: string,
+  change: (versions: DocumentVersion[]) => DocumentVersion[]
+): Promise<DocumentVersion[]> => {
+  const run = queue.then(async () => {
+    const versions = change(await loadHistory(type, documentId));
+    await saveHistory(type, documentId, versions);
+    return versions;
+  });
+  queue = run.catch(() => undefined);
+  return run;
+};
+
+const sameDocument = (a: EditorDocument, b: EditorDocument) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Adds a version to the history of its document. An automatic version is
+ * skipped when the document did not change since the newest version, and it
+ * replaces the newest automatic version when that one is less than
+ * AUTO_VERSION_INTERVAL_MS younger than its predecessor: the newest version is
+ * always the last save while older ones stay spaced out. `baseline` is
+ * recorded first when the history is still empty, e.g. the content a document
+ * had before its first recorded change.
+ */
+export const recordVersion = (type: DocumentEditorType, version: DocumentVersion, baseline?: DocumentVersion): Promise<DocumentVersion[]> =>
+  updateHistory(type, version.document.id, history => {
+    let versions = history.length === 0 && baseline ? [baseline] : history;
+    if (version.kind === 'auto') {
+      const [latest, previous] = versions;
+      if (latest && sameDocument(latest.document, version.document)) return versions;
+      if (latest?.kind === 'auto' && previous && latest.createdAt - previous.createdAt < AUTO_VERSION_INTERVAL_MS) {
+        versions = versions.slice(1);
+      }
+    }
+    let autoVersions = 0;
+    return [version, ...versions].filter(v => v.kind === 'checkpoint' || ++autoVersions <= MAX_AUTO_VERSIONS);
+  });
+
+export const deleteVersion = (type: DocumentEditorType, documentId: string, versionId: string): Promise<DocumentVersion[]> =>
+  updateHistory(type, documentId, versions => versions.filter(v => v.id !== versionId));
+
+export const clearHistory = (type: DocumentEditorType, documentId: string): Promise<DocumentVersion[]> =>
+  updateHistory(type, documentId, () => []);
+
+/**
+ * Rewrites the document of every stored version, e.g. to take plaintext
+ * secrets out of the history once they moved to the vault.
+ */
+export const rewriteHistory = async (rewrite: (type: DocumentEditorType, document: EditorDocument) => EditorDocument): Promise<void> => {
+  // After the pending updates, so a history they create is rewritten too
+  const keys = await queue.then(() => withStore<IDBValidKey[]>(HISTORY_STORE_NAME, 'readonly', store => store.getAllKeys()));
+  await Promise.all(
+    keys.map(String).flatMap(key => {
+      const type = DOCUMENT_EDITOR_TYPES.find(t => key.startsWith(`${t}:`));
+      if (!type) return [];
+      return updateHistory(type, key.slice(type.length + 1), versions => versions.map(v => ({ ...v, document: rewrite(type, v.document) })));
+    })
+  );
+};
+
+export const clearAllHistory = (): Promise<void> =>
+  withStore(HISTORY_STORE_NAME, 'readwrite', store => store.clear()).then(() => undefined);
+
+/**
+ * Records an automatic version of every document that changed between two
+ * saved states. Unchanged documents keep their object, so comparing the
+ * objects finds the changed ones.
+ */
+export const recordChangedDocuments = (previous: PersistedAppState, state: PersistedAppState): Promise<unknown> =>
+  Promise.all(
+    DOCUMENT_EDITOR_TYPES.flatMap(type => {
+      const before = previous.documents[type] as EditorDocument[];
+      return (state.documents[type] as EditorDocument[])
+        .filter(doc => !before.includes(doc))
+        .map(doc => {
+          const old = before.find(d => d.id === doc.id);
+          const baseline = old && { ...createVersion(old, previous, 'auto'), createdAt: previous.savedAt || Date.now() - 1 };
+          return recordVersion(type, createVersion(doc, state, 'auto'), baseline);
+        });
+    })
+  );
+
+// -- Restore --
+
+/**
+ * The app state with a version restored: the document always, the scenario
+ * it was rendered with and the functions, shared module and partials when
+ * `options` asks for them. A scenario that was deleted since is added back.
+ */
+export const restoreVersion = (
+  state: PersistedAppState,
+  type: DocumentEditorType,
+  version: DocumentVersion,
+  options: VersionRestoreOptions
+): PersistedAppState => {
+  const list = state.documents[type] as EditorDocument[];
+  const documents = list.some(doc => doc.id === version.document.id)
+    ? list.map(doc => (doc.id === version.document.id ? version.document : doc))
+    : [...list, version.document];
+  const restored: PersistedAppState = {
+    ...state,
+    documents: { ...state.documents, [type]: documents },
+    activeDocumentIds: { ...state.activeDocumentIds, [type]: version.document.id }
+  };
+  if (options.variables) {
+    const { scenario } = version;
+    restored.scenarios = state.scenarios.some(s => s.id === scenario.id)
+      ? state.scenarios.map(s => (s.id === scenario.id ? { ...s, variablesJson: scenario.variablesJson } : s))
+      : [...state.scenarios, scenario];
+    restored.activeScenarioId = scenario.id;
+  }
+  if (options.functions) {
+    restored.userFunctions = version.functions;
+    restored.sharedModule = version.sharedModule;
+    restored.partials = version.partials;
+  }
+  return restored;
+};
+
+// -- Diff --
+
+export type VersionPart = 'document' | 'variables' | 'functions';
+
+const withHeaders = (headers: Record<string, string>, body: string) =>
+  `${Object.entries(headers).map(([key, value]) => `${key}: ${value}`).join('\n')}\n\n${body}`;
+
+// The document as text: templates as they are, messages with their headers, the rest as JSON
+const documentText = (type: DocumentEditorType, content: DocumentContents[DocumentEditorType]): string => {
+  if (typeof content === 'string') return content;
+  if (type === EditorType.EMAIL_HTML) {
+    const { html, meta } = content as DocumentContents[EditorType.EMAIL_HTML];
+    return withHeaders({ Subject: meta.subject, From: meta.from, To: meta.to, Cc: meta.cc, Bcc: meta.bcc, 'Reply-To': meta.replyTo }, html);
+  }
+  if (type === EditorType.SMS_MSG) {
+    const { body, meta } = content as DocumentContents[EditorType.SMS_MSG];
+    return withHeaders({ From: meta.from, To: meta.to }, body);
+  }
+  return JSON.stringify(content, null, 2);
+};
+
+// One part of a version as text for the diff editor
+export const versionText = (type: DocumentEditorType, version: DocumentVersion, part: VersionPart): string => {
+  if (part === 'document') return documentText(type, version.document.content);
+  if (part === 'variables') return version.scenario.variablesJson;
+  return [
+    '// Shared module',
+    version.sharedModule,
+    ...version.functions.map(fn => `\n// Function ${fn.name}\nfunction ${fn.name}(${fn.params.join(', ')}) {\n${fn.body}\n}`),
+    ...version.partials.map(partial => `\n{{!-- Partial ${partial.name} --}}\n${partial.content}`)
+  ].join('\n');
+};
+
+// Monaco language of a part in the diff editor
+export const versionLanguage = (type: DocumentEditorType, part: VersionPart): string => {
+  if (part === 'variables') return 'json';
+  if (part === 'functions') return 'javascript';
+  const languages: Record<DocumentEditorType, string> = {
+    [EditorType.JSON_REST]: 'json',
+    [EditorType.YAML_CONFIG]: 'yaml',
+    [EditorType.EMAIL_HTML]: 'html',
+    [EditorType.HTML_PAGE]: 'html',
+    [EditorType.SMS_MSG]: 'plaintext',
+    [EditorType.DB_QUERY]: 'sql',
+    [EditorType.XML_TEMPLATE]: 'xml',
+    [EditorType.SCRIPT_JS]: 'javascript',
+    [EditorType.MCP_CLIENT]: 'json',
+    [EditorType.AGENT]: 'json'
+  };
+  return languages[type];
+};
@@ -0,0 +1,60 @@
+import { EditorType, EscapeMode, HostImage, RenderOptions, TemplateDocumentType, UserFunction } from './types';
+import { interpolateString, getTemplateEnvironment } from './utils';
+import { locateRenderError } from './template-analyzer';
+import { RenderOutcome } from './sandbox';
+
+export interface TemplateDocumentFormat {
+  label: string;
+  alias: string; // Short name, e.g. for the CLI's --editor
+  escape: EscapeMode;
+  extension: string; // Of the rendered output
+}
+
+// Output format of every template document, as its editor renders it
+export const TEMPLATE_DOCUMENTS: Record<TemplateDocumentType, TemplateDocumentFormat> = {
+  [EditorType.JSON_REST]: { label: 'JSON', alias: 'json', escape: 'json', extension: 'json' },
+  [EditorType.YAML_CONFIG]: { label: 'YAML', alias: 'yaml', escape: 'yaml', extension: 'yaml' },
+  [EditorType.EMAIL_HTML]: { label: 'Email', alias: 'email', escape: 'html', extension: 'html' },
+  [EditorType.HTML_PAGE]: { label: 'HTML', alias: 'html', escape: 'html', extension: 'html' },
+  [EditorType.SMS_MSG]: { label: 'SMS', alias: 'sms', escape: 'none', extension: 'txt' },
+  [EditorType.DB_QUERY]: { label: 'DB Query', alias: 'sql', escape: 'sql', extension: 'sql' },
+  [EditorType.XML_TEMPLATE]: { label: 'XML', alias: 'xml', escape: 'xml', extension: 'xml' }
+};
+
+export const isTemplateDocument = (type: string): type is TemplateDocumentType => type in TEMPLATE_DOCUMENTS;
+
+// Host images are exposed to templates as {{images.<name>}}
+export const hostImagesContext = (hostImages: HostImage[] = []) => ({
+  images: hostImages.reduce((acc, img) => {
+    acc[img.name] = img.url;
+    return acc;
+  }, {} as Record<string, string>)
+});
+
+/**
+ * Renders one template the way every preview does: a template error resolves
+ * with its position instead of throwing. With `lineMap`, Handlebars output
+ * lines are traced back to the template lines that produced them.
+ */
+export const renderTemplateOutcome = (
+  template: string,
+  context: Record<string, any>,
+  functions: UserFunction[],
+  options: RenderOptions,
+  lineMap = false
+): RenderOutcome => {
+  let output: string;
+  try {
+    output = interpolateString(template, context, functions, options);
+  } catch (e: any) {
+    return { error: e.message, issue: locateRenderError(template, e, options.engine) };
+  }
+  if (!lineMap || (options.engine ?? 'handlebars') !== 'handlebars') return { output };
+  try {
+    const env = getTemplateEnvironment(functions, options.sharedModule ?? '');
+    return { output, lineMap: env.mapOutputLines(template, context, options) };
+  } catch {
+    // The map is a best effort, e.g. a helper that only fails on the second run
+    return { output };
+  }
+};
@@ -0,0 +1,143 @@
+import {
+  DocumentContents,
+  DocumentEditorType,
+  DocumentSettings,
+  DocumentsByEditor,
+  EditorDocument,
+  EditorType,
+  TemplateEnginesByEditor,
+  TemplateTestsByEditor
+} from './types';
+import { DEFAULT_AGENT_CONFIG, DEFAULT_DOCUMENTS, DEFAULT_MCP_STATE } from './defaults';
+
+export interface DocumentEditorInfo {
+  label: string;
+  newName: string; // Name of a new document, numbered when taken
+}
+
+// Editors with named documents, in navigation order
+export const DOCUMENT_EDITORS: Record<DocumentEditorType, DocumentEditorInfo> = {
+  [EditorType.JSON_REST]: { label: 'JSON', newName: 'Untitled JSON' },
+  [EditorType.YAML_CONFIG]: { label: 'YAML', newName: 'Untitled YAML' },
+  [EditorType.EMAIL_HTML]: { label: 'Email', newName: 'Untitled Email' },
+  [EditorType.HTML_PAGE]: { label: 'HTML', newName: 'Untitled Page' },
+  [EditorType.SMS_MSG]: { label: 'SMS', newName: 'Untitled SMS' },
+  [EditorType.XML_TEMPLATE]: { label: 'XML', newName: 'Untitled XML' },
+  [EditorType.SCRIPT_JS]: { label: 'Script', newName: 'Untitled Script' },
+  [EditorType.DB_QUERY]: { label: 'DB Query', newName: 'Untitled Query' },
+  [EditorType.AGENT]: { label: 'Agent', newName: 'Untitled Agent' },
+  [EditorType.MCP_CLIENT]: { label: 'MCP', newName: 'Untitled Request' }
+};
+
+export const DOCUMENT_EDITOR_TYPES = Object.keys(DOCUMENT_EDITORS) as DocumentEditorType[];
+
+export const isDocumentEditor = (type: string): type is DocumentEditorType => type in DOCUMENT_EDITORS;
+
+const createDocumentId = () => `doc_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+// Content of a new, empty document
+export const emptyDocumentContent = <K extends DocumentEditorType>(type: K): DocumentContents[K] => {
+  const contents: { [T in DocumentEditorType]: () => DocumentContents[T] } = {
+    [EditorType.JSON_REST]: () => '{\n  \n}',
+    [EditorType.YAML_CONFIG]: () => '',
+    [EditorType.EMAIL_HTML]: () => ({ html: '', meta: { connectionId: '', to: '', from: '', subject: '', cc: '', bcc: '', replyTo: '' } }),
+    [EditorType.HTML_PAGE]: () => '',
+    [EditorType.SMS_MSG]: () => ({ body: '', meta: { connectionId: '', to: '', from: '' } }),
+    [EditorType.DB_QUERY]: () => '',
+    [EditorType.XML_TEMPLATE]: () => '<?xml version="1.0" encoding="UTF-8"?>\n',
+    [EditorType.SCRIPT_JS]: () => '',
+    [EditorType.MCP_CLIENT]: () => ({ ...DEFAULT_MCP_STATE, headers: [], env: [], args: [], toolName: '', toolArguments: '{}' }),
+    [EditorType.AGENT]: () => ({ ...DEFAULT_AGENT_CONFIG, id: `agent_${Date.now()}`, fewShotExamples: [], connectedTools: [], mcpServers: [] })
+  };
+  return contents[type]();
+};
+
+// `base`, or `base 2`, `base 3`... when the name is taken
+export const uniqueDocumentName = (documents: EditorDocument[], base: string): string => {
+  const names = new Set(documents.map(doc => doc.name));
+  if (!names.has(base)) return base;
+  let n = 2;
+  while (names.has(`${base} ${n}`)) n++;
+  return `${base} ${n}`;
+};
+
+export const createDocument = <K extends DocumentEditorType>(
+  type: K,
+  documents: EditorDocument<DocumentContents[K]>[],
+  settings?: DocumentSettings
+): EditorDocument<DocumentContents[K]> => ({
+  id: createDocumentId(),
+  name: uniqueDocumentName(documents, DOCUMENT_EDITORS[type].newName),
+  content: emptyDocumentContent(type),
+  settings
+});
+
+// A deep copy with a new id; test cases keep their ids, they are scoped to the document
+export const duplicateDocument = <T>(document: EditorDocument<T>, documents: EditorDocument<T>[]): EditorDocument<T> => ({
+  ...JSON.parse(JSON.stringify(document)),
+  id: createDocumentId(),
+  name: uniqueDocumentName(documents, `${document.name} copy`)
+});
+
+// The selected document of an editor, or its first one
+export const activeDocumentOf = <K extends DocumentEditorType>(
+  documents: DocumentsByEditor,
+  activeIds: Partial<Record<DocumentEditorType, string>>,
+  type: K
+): EditorDocument<DocumentContents[K]> => {
+  const list = documents[type] as EditorDocument<DocumentContents[K]>[];
+  return list.find(doc => doc.id === activeIds[type]) ?? list[0];
+};
+
+// Editors without documents get the default ones, so each editor always has a document to show
+export const withDefaultDocuments = (documents: Partial<DocumentsByEditor> = {}): DocumentsByEditor => {
+  const complete = { ...DEFAULT_DOCUMENTS } as DocumentsByEditor;
+  DOCUMENT_EDITOR_TYPES.forEach(type => {
+    const list = documents[type];
+    if (Array.isArray(list) && list.length > 0) (complete as any)[type] = list;
+  });
+  return complete;
+};
+
+export interface SingleDocumentState {
+  contents: Partial<DocumentContents>;
+  tests?: TemplateTestsByEditor;
+  engines?: TemplateEnginesByEditor;
+  sqlQueryName?: string;
+  activeConnectionId?: string;
+  activeMcpConnectionId?: string;
+}
+
+/**
+ * Wraps the one document per editor of older saves and workspace files into
+ * document lists. Engines, tests and the selected connections become settings
+ * of that document.
+ */
+export const fromSingleDocuments = ({
+  contents,
+  tests = {},
+  engines = {},
+  sqlQueryName,
+  activeConnectionId,
+  activeMcpConnectionId
+}: SingleDocumentState): Partial<DocumentsByEditor> => {
+  const documents: Partial<DocumentsByEditor> = {};
+  DOCUMENT_EDITOR_TYPES.forEach(type => {
+    const content = contents[type];
+    if (content === undefined) return;
+    const settings: DocumentSettings = {};
+    if (engines[type]) settings.engine = engines[type];
+    if (type === EditorType.DB_QUERY && activeConnectionId) settings.connectionId = activeConnectionId;
+    if (type === EditorType.MCP_CLIENT && activeMcpConnectionId) settings.connectionId = activeMcpConnectionId;
+
+    const document: EditorDocument = {
+      id: 'default',
+      name: (type === EditorType.DB_QUERY && sqlQueryName) || DEFAULT_DOCUMENTS[type][0].name,
+      content
+    };
+    if (Object.keys(settings).length > 0) document.settings = settings;
+    if (tests[type]?.length) document.tests = tests[type];
+    (documents as any)[type] = [document];
+  });
+  return documents;
+};
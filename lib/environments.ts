@@ -0,0 +1,91 @@
+import { Environment, EnvironmentVariable, WorkspaceScope } from './types';
+import { SECRET_MASK, SecretScope, maskSecretReferences, resolveSecretReferences, withMaskedSecrets, withSecrets } from './vault';
+
+// Environments, like those of Postman: named sets of variables such as the
+// base URL and credentials of dev, staging or prod. The active environment is
+// laid over the variables of every render and request, so the same documents
+// target another server by switching it. A key is a dot path into the
+// variables, e.g. "api.baseUrl"; a value that is valid JSON keeps its type.
+
+const createId = (prefix: string) => `${prefix}_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+// A new environment; a copy of `from` when given, with new ids
+export const createEnvironment = (name: string, from?: Environment): Environment => ({
+  id: createId('env'),
+  name,
+  variables: (from?.variables ?? []).map(variable => ({ ...variable, id: createId('var') }))
+});
+
+export const createEnvironmentVariable = (): EnvironmentVariable => ({ id: createId('var'), key: '', value: '', enabled: true });
+
+// No environment and no vault, e.g. for a render outside the workspace
+export const EMPTY_SCOPE: WorkspaceScope = { environment: [], secretNames: [], secrets: null };
+
+// The variables of an environment that apply: enabled and with a key
+export const environmentVariables = (environment: Environment): EnvironmentVariable[] =>
+  environment.variables.filter(variable => variable.enabled && variable.key.trim() !== '');
+
+// Numbers, booleans, null, arrays and objects written as JSON keep their type; anything else is a string
+export const parseEnvironmentValue = (value: string): any => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+// Copies an object with its getters, so resolving values waits until they are read
+const copyObject = (value: Record<string, any>) => Object.defineProperties({}, Object.getOwnPropertyDescriptors(value));
+
+// Sets a dot path, copying the objects along it so the original context is left alone
+const setPath = (context: Record<string, any>, path: string[], define: (target: Record<string, any>, key: string) => void) => {
+  const root = copyObject(context);
+  let target: Record<string, any> = root;
+  path.slice(0, -1).forEach(key => {
+    const value = target[key];
+    const copy = Array.isArray(value) ? [...value] : value && typeof value === 'object' ? copyObject(value) : {};
+    Object.defineProperty(target, key, { value: copy, enumerable: true, configurable: true, writable: true });
+    target = copy;
+  });
+  define(target, path[path.length - 1]);
+  return root;
+};
+
+/**
+ * Lays environment variables over a context. Previews ('mask') see secret
+ * variables and {{ secret.NAME }} references as a mask; requests ('resolve')
+ * read the vault when a value is used, so a reference that no template uses
+ * does not fail on a locked vault.
+ */
+export const applyEnvironment = <T extends Record<string, any>>(
+  context: T,
+  variables: EnvironmentVariable[],
+  mode: 'mask' | 'resolve' = 'mask',
+  vault: SecretScope = EMPTY_SCOPE
+): T =>
+  variables.reduce<T>((result, variable) => {
+    const path = variable.key.trim().split('.');
+    if (mode === 'mask') {
+      const value = variable.secret ? SECRET_MASK : parseEnvironmentValue(maskSecretReferences(variable.value));
+      return setPath(result, path, (target, key) => {
+        Object.defineProperty(target, key, { value, enumerable: true, configurable: true, writable: true });
+      }) as T;
+    }
+    return setPath(result, path, (target, key) => {
+      Object.defineProperty(target, key, {
+        get: () => parseEnvironmentValue(resolveSecretReferences(variable.value, vault)),
+        enumerable: true,
+        configurable: true
+      });
+    }) as T;
+  }, context);
+
+// What previews and the template analysis see: the environment laid over the context and the secrets masked
+export const previewContext = <T extends Record<string, any>>(context: T, scope: WorkspaceScope): T =>
+  withMaskedSecrets(applyEnvironment(context, scope.environment), scope.secretNames);
+
+// What requests render against: the variables, the environment and the vault secrets.
+// Built inside the sandbox (see the `request` render option), so secrets never reach a template on the page.
+export const requestContext = <T extends Record<string, any>>(variables: T, scope: WorkspaceScope) =>
+  // The environment goes last: spreading a context reads its getters
+  applyEnvironment(withSecrets(variables, scope), scope.environment, 'resolve', scope);
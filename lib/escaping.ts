@@ -0,0 +1,254 @@
+import Handlebars from 'handlebars';
+import yaml from 'js-yaml';
+import { EscapeMode } from './types';
+
+// Name of the helper every escaped mustache is routed through
+export const ESCAPE_HELPER = '__escape';
+
+// Where a mustache sits in the surrounding text. An unquoted one in YAML is either the whole
+// scalar ('none'), part of a plain scalar ('inline') or in a `|` or `>` block scalar ('block')
+export type QuoteContext = 'double' | 'single' | 'none' | 'inline' | 'block';
+
+// Where a mustache is in its template; lines count from 1, columns from 0
+export interface TagLocation {
+  start: { line: number; column: number };
+  end: { line: number; column: number }; // Past the closing delimiter
+}
+
+/**
+ * Text that is already written in a format, e.g. by toJsonString, and is
+ * written as-is in that mode. Without a format (`raw`) it is written as-is in
+ * every mode.
+ */
+export class FormattedString extends Handlebars.SafeString {
+  constructor(text: string, readonly format?: EscapeMode) {
+    super(text);
+  }
+}
+
+export const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// Contents of a JSON (or YAML double-quoted) string, without the quotes
+const escapeJsonString = (text: string) => JSON.stringify(text).slice(1, -1);
+
+const toText = (value: any) => (value === undefined || value === null ? '' : String(value));
+
+// A value written outside of quotes becomes a literal of the target format
+const toJsonLiteral = (value: any) => {
+  if (value === undefined || value === null) return 'null';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'null';
+  if (typeof value === 'boolean') return String(value);
+  return JSON.stringify(value);
+};
+
+const toYamlLiteral = (value: any) => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (typeof value !== 'string') return JSON.stringify(value);
+  // Keep plain scalars plain as long as YAML reads them back as the same string
+  try {
+    if (!value.includes('\n') && value.trim() === value && yaml.load(value) === value) {
+      return value;
+    }
+  } catch {
+    // Not a valid plain scalar, quote it below
+  }
+  return JSON.stringify(value);
+};
+
+// A YAML dump as the value of a key or item: collections go on the next lines, indented below the mustache's line
+const toYamlNode = (text: string, indent: string) => {
+  if (!text.includes('\n')) return text;
+  const [first, ...rest] = text.split('\n');
+  const nested = (line: string) => (line ? `${indent}  ${line}` : line);
+  // A block scalar keeps its header (`|-`) on the line of the key; its lines are already indented
+  if (/^[|>]/.test(first)) return [first, ...rest.map(line => (line ? `${indent}${line}` : line))].join('\n');
+  return `\n${[first, ...rest].map(nested).join('\n')}`;
+};
+
+const toSqlLiteral = (value: any): string => {
+  if (value === undefined || value === null) return 'NULL';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'NULL';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  // Arrays expand to a list, e.g. for IN ({{ ids }})
+  if (Array.isArray(value)) return value.map(toSqlLiteral).join(', ');
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return `'${text.replace(/'/g, "''")}'`;
+};
+
+// `indent` is the indentation of the mustache's line, which lines of a value in a YAML block scalar keep
+export const escapeValue = (mode: EscapeMode, context: QuoteContext, value: any, indent = ''): string => {
+  if (value instanceof FormattedString) {
+    if (value.format === undefined) return value.toHTML();
+    // A dump in the document's format is written as-is where it is the whole value; in quotes it is escaped as text
+    if (value.format === mode) {
+      const text = mode === 'yaml' ? value.toHTML().replace(/\n$/, '') : value.toHTML();
+      if (context === 'none') return mode === 'yaml' ? toYamlNode(text, indent) : text;
+      value = text;
+    }
+  }
+  // Other SafeStrings (triple-stash helpers, toHtmlDump...) are only safe for HTML
+  if (value && typeof value.toHTML === 'function') {
+    if (mode === 'html') return value.toHTML();
+    value = value.toHTML();
+  }
+
+  switch (mode) {
+    case 'html':
+      return Handlebars.escapeExpression(value);
+    case 'xml':
+      return escapeXml(toText(value));
+    case 'json':
+      return context === 'double' ? escapeJsonString(toText(value)) : toJsonLiteral(value);
+    case 'yaml':
+      if (context === 'double') return escapeJsonString(toText(value));
+      if (context === 'single') return toText(value).replace(/'/g, "''");
+      if (context === 'block') return toText(value).replace(/\n/g, `\n${indent}`);
+      // Part of a plain scalar cannot be quoted, and a line break would end the scalar
+      if (context === 'inline') return toText(value).replace(/\s*\n\s*/g, ' ');
+      return toYamlLiteral(value);
+    case 'sql':
+      if (context === 'single') return toText(value).replace(/'/g, "''");
+      if (context === 'double') return toText(value).replace(/"/g, '""');
+      return toSqlLiteral(value);
+    default:
+      return toText(value);
+  }
+};
+
+// Other mustaches stand for a value; Liquid tags write nothing
+const withoutTags = (text: string) => text.replace(/{{[\s\S]*?}}/g, 'x').replace(/{%[\s\S]*?%}/g, '');
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+const indentTextAt = (lines: string[], line: number) => (lines[line - 1] || '').match(/^\s*/)![0];
+
+// `key: |`, `- >-`...
+const YAML_BLOCK_HEADER = /(?:^|:\s|-\s)\s*[|>][-+1-9]*\s*(?:#.*)?$/;
+
+// True when the line is content of a block scalar: the closest line above with less indentation is its header
+const inYamlBlockScalar = (lines: string[], line: number) => {
+  const indent = indentOf(lines[line - 1] || '');
+  for (let i = line - 2; i >= 0; i--) {
+    // Lines of template tags only, e.g. {{#each}}, are not part of the YAML
+    if (!lines[i].replace(/{{[\s\S]*?}}|{%[\s\S]*?%}/g, '').trim() || indentOf(lines[i]) >= indent) continue;
+    return YAML_BLOCK_HEADER.test(withoutTags(lines[i]));
+  }
+  return false;
+};
+
+// A scalar starts at the line start, after `key: `, `- ` or `? `, or after `[`, `{` or `,` in a flow collection...
+const YAML_SCALAR_START = /(?:^|[\[{]|(?:^|\s)[-?]\s|:\s)\s*$/;
+// ...and ends with the line, before a comment, or before `:` when it is a key
+const YAML_SCALAR_END = /^(?:\s*|\s+#.*|\s*:(?:\s.*)?)$/;
+
+const isWholeYamlScalar = (before: string, after: string) => {
+  const flow = /[\[{]/.test(before);
+  const starts = YAML_SCALAR_START.test(before) || (flow && /,\s*$/.test(before));
+  return starts && (YAML_SCALAR_END.test(after) || (flow && /^\s*[,\]}]/.test(after)));
+};
+
+/**
+ * Finds out whether a mustache is inside a quoted string. Mustaches earlier on
+ * the line are skipped, so `"{{ a }}": "{{ b }}"` works. Only the quote
+ * characters of the target format count. In YAML an unquoted mustache is
+ * quoted as a literal only when it is the whole scalar.
+ */
+export const quoteContextAt = (lines: string[], location: TagLocation, mode: EscapeMode): QuoteContext => {
+  if (mode === 'yaml' && inYamlBlockScalar(lines, location.start.line)) return 'block';
+
+  const text = withoutTags((lines[location.start.line - 1] || '').slice(0, location.start.column));
+  let context: QuoteContext = 'none';
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (context === 'double') {
+      if (ch === '\\' && mode !== 'sql') i++;
+      else if (ch === '"') context = 'none';
+    } else if (context === 'single') {
+      if (ch === "'") context = 'none';
+    } else if (ch === '"') {
+      context = 'double';
+    } else if (ch === "'" && mode !== 'json') {
+      // In YAML a quote only starts a scalar at a token boundary, not in "it's"
+      if (mode === 'sql' || i === 0 || /[\s:\[\]{},-]/.test(text[i - 1])) context = 'single';
+    }
+  }
+  if (context !== 'none' || mode !== 'yaml') return context;
+
+  const after = withoutTags((lines[location.end.line - 1] || '').slice(location.end.column));
+  return isWholeYamlScalar(text, after) ? 'none' : 'inline';
+};
+
+// Escapes the value of a mustache for where it sits in the template
+export const escapeValueAt = (mode: EscapeMode, lines: string[], location: TagLocation, value: any) =>
+  escapeValue(mode, quoteContextAt(lines, location, mode), value, indentTextAt(lines, location.start.line));
+
+// True for `{{ user.name }}` or `{{ "text" }}`, false when the mustache calls a helper
+const isPlainValue = (node: hbs.AST.MustacheStatement, helpers: Record<string, any>) => {
+  if (node.params.length > 0 || node.hash) return false;
+  if (node.path.type !== 'PathExpression') return true;
+  const path = node.path as hbs.AST.PathExpression;
+  return !(path.parts.length === 1 && !path.data && helpers[path.parts[0]]);
+};
+
+/**
+ * Rewrites every escaped mustache `{{ x }}` of a parsed template into
+ * `{{{ __escape 'mode' 'context' 'indent' x }}}`. Triple-stash and `{{& x }}` are left alone.
+ * `source` must be the text the AST was parsed from so columns line up.
+ */
+export const applyContextEscaping = (
+  ast: hbs.AST.Program,
+  source: string,
+  mode: EscapeMode,
+  helpers: Record<string, any>
+): hbs.AST.Program => {
+  const lines = source.split('\n');
+  const literal = (value: string, loc: hbs.AST.SourceLocation): hbs.AST.StringLiteral =>
+    ({ type: 'StringLiteral', value, original: value, loc });
+
+  const visitProgram = (program: hbs.AST.Program | undefined) => {
+    if (!program) return;
+    program.body.forEach(statement => {
+      if (statement.type === 'BlockStatement') {
+        const block = statement as hbs.AST.BlockStatement;
+        visitProgram(block.program);
+        visitProgram(block.inverse);
+        return;
+      }
+      if (statement.type !== 'MustacheStatement') return;
+
+      const mustache = statement as hbs.AST.MustacheStatement;
+      if (!mustache.escaped) return;
+
+      const { loc } = mustache;
+      const context = quoteContextAt(lines, loc, mode);
+      const indent = indentTextAt(lines, loc.start.line);
+      // Plain paths are passed as-is; helper calls become a subexpression
+      const value = isPlainValue(mustache, helpers)
+        ? mustache.path
+        : ({ type: 'SubExpression', path: mustache.path, params: mustache.params, hash: mustache.hash, loc } as hbs.AST.SubExpression);
+
+      mustache.path = {
+        type: 'PathExpression',
+        data: false,
+        depth: 0,
+        parts: [ESCAPE_HELPER],
+        original: ESCAPE_HELPER,
+        loc
+      } as hbs.AST.PathExpression;
+      mustache.params = [literal(mode, loc), literal(context, loc), literal(indent, loc), value as hbs.AST.Expression];
+      mustache.hash = undefined as any;
+      mustache.escaped = false;
+    });
+  };
+
+  visitProgram(ast);
+  return ast;
+};
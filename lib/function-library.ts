@@ -0,0 +1,295 @@
+import { HelperGroup } from './types';
+import { toDate, getKey, formatDatePattern } from './helpers';
+
+// Utility library visible to user functions, the shared module and scripts as
+// `_`, `dates` and `validate`. Plain functions without dependencies, so it works
+// offline and inside the sandbox worker.
+
+type Iteratee = string | ((item: any) => any);
+
+const iterate = (iteratee: Iteratee) => (typeof iteratee === 'function' ? iteratee : (item: any) => getKey(item, iteratee));
+
+const compare = (a: any, b: any) => (a === b ? 0 : a === undefined || a === null ? 1 : b === undefined || b === null ? -1 : a < b ? -1 : 1);
+
+const isEqual = (a: any, b: any): boolean => {
+  if (a === b) return true;
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object' || Array.isArray(a) !== Array.isArray(b)) return false;
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => isEqual(a[key], b[key]));
+};
+
+const cloneDeep = <T>(value: T): T => {
+  if (value instanceof Date) return new Date(value.getTime()) as T;
+  if (Array.isArray(value)) return value.map(cloneDeep) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, cloneDeep(item)])) as T;
+  }
+  return value;
+};
+
+const groupBy = (list: any[], iteratee: Iteratee): Record<string, any[]> => {
+  const fn = iterate(iteratee);
+  return (list || []).reduce((groups, item) => {
+    const key = String(fn(item));
+    (groups[key] ||= []).push(item);
+    return groups;
+  }, {} as Record<string, any[]>);
+};
+
+const collections = {
+  get: (object: any, path: string, fallback?: any) => {
+    const value = getKey(object, path.replace(/\[(\d+)\]/g, '.$1'));
+    return value === undefined ? fallback : value;
+  },
+  pick: (object: Record<string, any>, keys: string[]) =>
+    Object.fromEntries(keys.filter(key => object && key in object).map(key => [key, object[key]])),
+  omit: (object: Record<string, any>, keys: string[]) =>
+    Object.fromEntries(Object.entries(object || {}).filter(([key]) => !keys.includes(key))),
+  mapValues: (object: Record<string, any>, fn: (value: any, key: string) => any) =>
+    Object.fromEntries(Object.entries(object || {}).map(([key, value]) => [key, fn(value, key)])),
+  groupBy,
+  keyBy: (list: any[], iteratee: Iteratee) => {
+    const fn = iterate(iteratee);
+    return Object.fromEntries((list || []).map(item => [String(fn(item)), item]));
+  },
+  countBy: (list: any[], iteratee: Iteratee) =>
+    Object.fromEntries(Object.entries(groupBy(list, iteratee)).map(([key, items]) => [key, items.length])),
+  // Sorts by one or more keys; prefix a key with "-" for descending order
+  sortBy: (list: any[], ...keys: Iteratee[]) => {
+    const orders = (keys.length ? keys : [(item: any) => item]).map(key =>
+      typeof key === 'string' && key.startsWith('-') ? { fn: iterate(key.slice(1)), dir: -1 } : { fn: iterate(key), dir: 1 }
+    );
+    return [...(list || [])].sort((a, b) => {
+      for (const { fn, dir } of orders) {
+        const result = compare(fn(a), fn(b));
+        if (result !== 0) return result * dir;
+      }
+      return 0;
+    });
+  },
+  uniq: (list: any[]) => Array.from(new Set(list || [])),
+  uniqBy: (list: any[], iteratee: Iteratee) => {
+    const fn = iterate(iteratee);
+    const seen = new Set();
+    return (list || []).filter(item => {
+      const key = fn(item);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  },
+  partition: (list: any[], predicate: (item: any) => boolean) => {
+    const pass: any[] = [];
+    const fail: any[] = [];
+    (list || []).forEach(item => (predicate(item) ? pass : fail).push(item));
+    return [pass, fail];
+  },
+  chunk: (list: any[], size: number) => {
+    const chunks: any[][] = [];
+    for (let i = 0; i < (list || []).length; i += Math.max(1, size)) chunks.push(list.slice(i, i + Math.max(1, size)));
+    return chunks;
+  },
+  flatten: (list: any[], depth = 1) => (list || []).flat(depth),
+  compact: (list: any[]) => (list || []).filter(Boolean),
+  difference: (list: any[], other: any[]) => (list || []).filter(item => !(other || []).includes(item)),
+  intersection: (list: any[], other: any[]) => (list || []).filter(item => (other || []).includes(item)),
+  zip: (...lists: any[][]) => Array.from({ length: Math.max(0, ...lists.map(l => l.length)) }, (_, i) => lists.map(l => l[i])),
+  range: (start: number, end?: number, step = 1) => {
+    const [from, to] = end === undefined ? [0, start] : [start, end];
+    const result: number[] = [];
+    for (let i = from; step > 0 ? i < to : i > to; i += step || 1) result.push(i);
+    return result;
+  },
+  sum: (list: number[]) => (list || []).reduce((total, value) => total + Number(value || 0), 0),
+  sumBy: (list: any[], iteratee: Iteratee) => (list || []).reduce((total, item) => total + Number(iterate(iteratee)(item) || 0), 0),
+  minBy: (list: any[], iteratee: Iteratee) =>
+    (list || []).reduce((min, item) => (min === undefined || compare(iterate(iteratee)(item), iterate(iteratee)(min)) < 0 ? item : min), undefined),
+  maxBy: (list: any[], iteratee: Iteratee) =>
+    (list || []).reduce((max, item) => (max === undefined || compare(iterate(iteratee)(item), iterate(iteratee)(max)) > 0 ? item : max), undefined),
+  isEqual,
+  isEmpty: (value: any) =>
+    value === undefined || value === null || value === '' ||
+    (Array.isArray(value) ? value.length === 0 : typeof value === 'object' ? Object.keys(value).length === 0 : false),
+  cloneDeep
+};
+
+const DAY_MS = 24 * 3600 * 1000;
+
+const requireDate = (value: any): Date => {
+  const date = toDate(value);
+  if (!date) throw new Error(`Invalid date: ${JSON.stringify(value)}`);
+  return date;
+};
+
+const dates = {
+  parse: (value: any) => toDate(value),
+  isValid: (value: any) => toDate(value) !== null,
+  // Token pattern as in the formatDateTime helper, e.g. "dd MMM yyyy HH:mm"
+  format: (value: any, pattern = 'yyyy-MM-dd', timeZone?: string, locale?: string) =>
+    formatDatePattern(requireDate(value), pattern, timeZone, locale),
+  toISODate: (value: any) => requireDate(value).toISOString().slice(0, 10),
+  addDays: (value: any, days: number) => new Date(requireDate(value).getTime() + days * DAY_MS),
+  addHours: (value: any, hours: number) => new Date(requireDate(value).getTime() + hours * 3600 * 1000),
+  addMonths: (value: any, months: number) => {
+    const date = new Date(requireDate(value).getTime());
+    const day = date.getUTCDate();
+    date.setUTCDate(1);
+    date.setUTCMonth(date.getUTCMonth() + months);
+    // Clamp to the last day of the target month (Jan 31 + 1 month = Feb 28/29)
+    const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+    date.setUTCDate(Math.min(day, lastDay));
+    return date;
+  },
+  startOfDay: (value: any) => {
+    const date = new Date(requireDate(value).getTime());
+    date.setUTCHours(0, 0, 0, 0);
+    return date;
+  },
+  endOfDay: (value: any) => {
+    const date = new Date(requireDate(value).getTime());
+    date.setUTCHours(23, 59, 59, 999);
+    return date;
+  },
+  // Whole days from a to b, negative when b is earlier
+  diffInDays: (a: any, b: any) => Math.trunc((requireDate(b).getTime() - requireDate(a).getTime()) / DAY_MS),
+  isBefore: (a: any, b: any) => requireDate(a).getTime() < requireDate(b).getTime(),
+  isAfter: (a: any, b: any) => requireDate(a).getTime() > requireDate(b).getTime()
+};
+
+const asText = (value: any) => (value === undefined || value === null ? '' : String(value));
+
+const validate = {
+  isEmail: (value: any) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(asText(value)),
+  isUrl: (value: any) => {
+    try {
+      return ['http:', 'https:'].includes(new URL(asText(value)).protocol);
+    } catch {
+      return false;
+    }
+  },
+  isUuid: (value: any) => /^[0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(asText(value)),
+  isIsoDate: (value: any) => /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/.test(asText(value)) && toDate(value) !== null,
+  // E.164, e.g. +4915112345678
+  isPhone: (value: any) => /^\+[1-9]\d{6,14}$/.test(asText(value).replace(/[\s()-]/g, '')),
+  isNumeric: (value: any) => typeof value === 'number' ? isFinite(value) : /^-?\d+(\.\d+)?$/.test(asText(value).trim()),
+  isEmpty: collections.isEmpty,
+  matches: (value: any, pattern: string | RegExp) => (pattern instanceof RegExp ? pattern : new RegExp(pattern)).test(asText(value)),
+  inRange: (value: any, min: number, max: number) => Number(value) >= min && Number(value) <= max,
+  hasLength: (value: any, min: number, max = Infinity) => {
+    const length = Array.isArray(value) ? value.length : asText(value).length;
+    return length >= min && length <= max;
+  }
+};
+
+// Frozen, since one instance is shared by all functions of a template environment
+export const FUNCTION_LIBRARY: Record<string, any> = Object.freeze({
+  _: Object.freeze(collections),
+  dates: Object.freeze(dates),
+  validate: Object.freeze(validate)
+});
+
+export const FUNCTION_LIBRARY_NAMES = Object.keys(FUNCTION_LIBRARY);
+
+// Reference shown next to the shared module editor
+export const FUNCTION_LIBRARY_GROUPS: HelperGroup[] = [
+  {
+    id: 'collections',
+    title: '_ (Collections)',
+    helpers: [
+      { name: '_.get', signature: '_.get(object, path, fallback?)', desc: 'Read a nested value like "items[0].sku"', example: '_.get(order, "shippingAddress.city", "n/a")' },
+      { name: '_.pick', signature: '_.pick(object, keys) / _.omit(object, keys)', desc: 'Copy with only / without the given keys', example: '_.pick(user, ["id", "email"])' },
+      { name: '_.groupBy', signature: '_.groupBy(list, key) / _.keyBy / _.countBy', desc: 'Group, index or count items by a key or function', example: '_.groupBy(items, "category")' },
+      { name: '_.sortBy', signature: '_.sortBy(list, ...keys)', desc: 'Stable sort by keys; "-key" sorts descending', example: '_.sortBy(items, "-price", "sku")' },
+      { name: '_.uniq', signature: '_.uniq(list) / _.uniqBy(list, key)', desc: 'Remove duplicates', example: '_.uniqBy(items, "sku")' },
+      { name: '_.sumBy', signature: '_.sum(list) / _.sumBy(list, key) / _.minBy / _.maxBy', desc: 'Aggregate numbers', example: '_.sumBy(items, i => i.qty * i.price)' },
+      { name: '_.chunk', signature: '_.chunk(list, size) / _.partition(list, fn)', desc: 'Split a list into pieces', example: '_.partition(items, i => i.qty > 1)' },
+      { name: '_.range', signature: '_.range(end) / _.range(start, end, step?)', desc: 'List of numbers', example: '_.range(1, 4) // [1, 2, 3]' },
+      { name: '_.isEqual', signature: '_.isEqual(a, b) / _.cloneDeep(value) / _.isEmpty(value)', desc: 'Deep comparison and copies', example: '_.isEqual(a.tags, b.tags)' },
+      { name: '_.flatten', signature: '_.flatten / _.compact / _.difference / _.intersection / _.zip / _.mapValues', desc: 'More list and object helpers', example: '_.compact([0, 1, null, 2]) // [1, 2]' }
+    ]
+  },
+  {
+    id: 'dates',
+    title: 'dates',
+    helpers: [
+      { name: 'dates.format', signature: 'dates.format(value, pattern?, timeZone?, locale?)', desc: 'Format with the formatDateTime tokens', example: 'dates.format(ts, "dd MMM yyyy", "Europe/Berlin")' },
+      { name: 'dates.parse', signature: 'dates.parse(value) / dates.isValid(value)', desc: 'Date from a timestamp or string, null when invalid', example: 'dates.parse("2024-01-31")' },
+      { name: 'dates.addDays', signature: 'dates.addDays / addHours / addMonths(value, n)', desc: 'Shift a date (UTC); months clamp to the month end', example: 'dates.addMonths("2024-01-31", 1)' },
+      { name: 'dates.diffInDays', signature: 'dates.diffInDays(a, b)', desc: 'Whole days from a to b', example: 'dates.diffInDays(order.createdAt, Date.now())' },
+      { name: 'dates.startOfDay', signature: 'dates.startOfDay / endOfDay / toISODate(value)', desc: 'Day boundaries (UTC) and yyyy-mm-dd', example: 'dates.toISODate(Date.now())' },
+      { name: 'dates.isBefore', signature: 'dates.isBefore(a, b) / dates.isAfter(a, b)', desc: 'Compare two dates', example: 'dates.isBefore(expiresAt, Date.now())' }
+    ]
+  },
+  {
+    id: 'validate',
+    title: 'validate',
+    helpers: [
+      { name: 'validate.isEmail', signature: 'validate.isEmail / isUrl / isUuid / isPhone(value)', desc: 'Format checks; phone numbers in E.164', example: 'validate.isEmail(user.email)' },
+      { name: 'validate.isIsoDate', signature: 'validate.isIsoDate / isNumeric / isEmpty(value)', desc: 'Value checks', example: 'validate.isNumeric("42.5")' },
+      { name: 'validate.matches', signature: 'validate.matches(value, pattern)', desc: 'Regular expression test', example: 'validate.matches(order.currency, "^[A-Z]{3}$")' },
+      { name: 'validate.inRange', signature: 'validate.inRange(value, min, max) / hasLength(value, min, max?)', desc: 'Bounds of numbers and of text or list length', example: 'validate.hasLength(user.name, 1, 80)' }
+    ]
+  }
+];
+
+// JSDoc declarations for the TypeScript check of function bodies, which are plain JavaScript
+export const FUNCTION_LIBRARY_DECLARATIONS = `
+/** @typedef {string | ((item: any) => any)} Iteratee */
+/** @type {{
+  get(object: any, path: string, fallback?: any): any;
+  pick(object: Record<string, any>, keys: string[]): Record<string, any>;
+  omit(object: Record<string, any>, keys: string[]): Record<string, any>;
+  mapValues(object: Record<string, any>, fn: (value: any, key: string) => any): Record<string, any>;
+  groupBy(list: any[], iteratee: Iteratee): Record<string, any[]>;
+  keyBy(list: any[], iteratee: Iteratee): Record<string, any>;
+  countBy(list: any[], iteratee: Iteratee): Record<string, number>;
+  sortBy<T>(list: T[], ...keys: Iteratee[]): T[];
+  uniq<T>(list: T[]): T[];
+  uniqBy<T>(list: T[], iteratee: Iteratee): T[];
+  partition<T>(list: T[], predicate: (item: T) => boolean): [T[], T[]];
+  chunk<T>(list: T[], size: number): T[][];
+  flatten(list: any[], depth?: number): any[];
+  compact<T>(list: T[]): T[];
+  difference<T>(list: T[], other: T[]): T[];
+  intersection<T>(list: T[], other: T[]): T[];
+  zip(...lists: any[][]): any[][];
+  range(start: number, end?: number, step?: number): number[];
+  sum(list: number[]): number;
+  sumBy(list: any[], iteratee: Iteratee): number;
+  minBy<T>(list: T[], iteratee: Iteratee): T | undefined;
+  maxBy<T>(list: T[], iteratee: Iteratee): T | undefined;
+  isEqual(a: any, b: any): boolean;
+  isEmpty(value: any): boolean;
+  cloneDeep<T>(value: T): T;
+}} */
+var _;
+/** @type {{
+  parse(value: any): Date | null;
+  isValid(value: any): boolean;
+  format(value: any, pattern?: string, timeZone?: string, locale?: string): string;
+  toISODate(value: any): string;
+  addDays(value: any, days: number): Date;
+  addHours(value: any, hours: number): Date;
+  addMonths(value: any, months: number): Date;
+  startOfDay(value: any): Date;
+  endOfDay(value: any): Date;
+  diffInDays(a: any, b: any): number;
+  isBefore(a: any, b: any): boolean;
+  isAfter(a: any, b: any): boolean;
+}} */
+var dates;
+/** @type {{
+  isEmail(value: any): boolean;
+  isUrl(value: any): boolean;
+  isUuid(value: any): boolean;
+  isIsoDate(value: any): boolean;
+  isPhone(value: any): boolean;
+  isNumeric(value: any): boolean;
+  isEmpty(value: any): boolean;
+  matches(value: any, pattern: string | RegExp): boolean;
+  inRange(value: any, min: number, max: number): boolean;
+  hasLength(value: any, min: number, max?: number): boolean;
+}} */
+var validate;
+`;
@@ -0,0 +1,70 @@
+import { UserFunction, FunctionTestCase, FunctionTestResult } from './types';
+import { callFunctionInSandbox, isSandboxAbort } from './sandbox-client';
+import { deepEqual, parseExpected } from './template-tests';
+import { paramType } from './function-types';
+
+/**
+ * Turns an argument typed into a test field into a value. Parameters declared
+ * as `string` are passed as typed; the others accept JSON values, numbers and
+ * booleans, falling back to the text itself.
+ */
+export const parseTestArg = (raw: string = '', type: string = ''): any => {
+  if (type.trim() === 'string') return raw;
+  if (raw === 'true') return true;
+  if (raw === 'false') return false;
+  if (raw === 'null') return null;
+  if (raw.trim() !== '' && !isNaN(Number(raw))) return Number(raw);
+  if (raw.startsWith('{') || raw.startsWith('[') || raw.startsWith('"')) {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      // Not JSON after all; passed as text
+    }
+  }
+  return raw;
+};
+
+export const parseTestArgs = (func: UserFunction, args: string[]): any[] =>
+  func.params.map((_, i) => parseTestArg(args[i], paramType(func, i)));
+
+// Result values as they are written in the expected field
+export const formatTestValue = (value: any): string =>
+  value === undefined ? 'undefined' : typeof value === 'string' ? value : JSON.stringify(value);
+
+// Compares a call outcome with the expected value of a test
+export const evaluateFunctionTest = (test: FunctionTestCase, outcome: { value?: any; error?: string }): FunctionTestResult => {
+  if (outcome.error !== undefined) {
+    return { testId: test.id, passed: false, error: outcome.error };
+  }
+  const actual = outcome.value;
+  const expected = test.expected.trim() === 'undefined' ? undefined : parseExpected(test.expected);
+  // A string result also matches the expected text as written ("0.70" vs. 0.70)
+  const passed = deepEqual(actual, expected) || (typeof actual === 'string' && actual === test.expected);
+  return { testId: test.id, passed, actual };
+};
+
+/**
+ * Runs every test of a function in the worker sandbox, one call per test.
+ * `functions` and the exports of `sharedModule` are callable from the body,
+ * as in templates. Aborts reject.
+ */
+export const runFunctionTests = async (
+  func: UserFunction,
+  functions: UserFunction[],
+  { signal, sharedModule }: { signal?: AbortSignal; sharedModule?: string } = {}
+): Promise<FunctionTestResult[]> => {
+  const results: FunctionTestResult[] = [];
+  for (const test of func.tests || []) {
+    try {
+      const value = await callFunctionInSandbox(func, parseTestArgs(func, test.args), { signal, functions, sharedModule });
+      results.push(evaluateFunctionTest(test, { value }));
+    } catch (e: any) {
+      if (isSandboxAbort(e)) throw e;
+      results.push(evaluateFunctionTest(test, { error: e.message }));
+    }
+  }
+  return results;
+};
+
+export const testStatusOf = (results: FunctionTestResult[]): UserFunction['testStatus'] =>
+  results.length === 0 ? undefined : results.every(r => r.passed) ? 'passed' : 'failed';
@@ -0,0 +1,257 @@
+import { UserFunction, JsonSchema } from './types';
+import { FUNCTION_LIBRARY_DECLARATIONS, FUNCTION_LIBRARY_NAMES } from './function-library';
+
+// Optional TypeScript-style annotations on user functions ('number', 'string[]',
+// '"asc" | "desc"', 'Record<string, number>', '{ id: number, tags?: string[] }'...).
+// Untyped parameters accept anything.
+
+type TypeNode =
+  | { kind: 'any' }
+  | { kind: 'primitive'; name: 'string' | 'number' | 'boolean' | 'null' | 'undefined' }
+  | { kind: 'literal'; value: string | number | boolean }
+  | { kind: 'array'; item: TypeNode }
+  | { kind: 'object'; properties?: ObjectProperty[] } // Properties of an object literal type
+  | { kind: 'union'; options: TypeNode[] }
+  | { kind: 'named'; name: string }; // Unknown names (Date, custom aliases) are not checked
+
+interface ObjectProperty {
+  name: string;
+  type: TypeNode;
+  optional: boolean; // `name?: type`, or a type that accepts undefined
+}
+
+// Splits on a separator outside of brackets and quotes: "a: Record<string, number>, b" -> 2 parts
+export const splitTopLevel = (text: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if ('<([{'.includes(char)) {
+      depth++;
+    } else if ('>)]}'.includes(char)) {
+      depth--;
+    } else if (char === separator && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current.trim());
+  return parts;
+};
+
+// "id: number" or "'first-name'?: string"
+const OBJECT_MEMBER = /^(?:(['"])(.*)\1|([\w$]+))\s*(\?)?\s*:([\s\S]*)$/;
+
+// Members of "{ a: string, b?: number; c: boolean }"; index signatures and methods are not checked
+const parseObjectType = (text: string): TypeNode => {
+  const properties: ObjectProperty[] = [];
+  splitTopLevel(text.slice(1, -1), ';')
+    .flatMap(part => splitTopLevel(part, ','))
+    .forEach(member => {
+      const match = OBJECT_MEMBER.exec(member);
+      if (!match) return;
+      const type = parseType(match[5]);
+      properties.push({ name: match[2] ?? match[3], type, optional: !!match[4] || acceptsUndefined(type) });
+    });
+  return { kind: 'object', properties };
+};
+
+const acceptsUndefined = (node: TypeNode): boolean =>
+  node.kind === 'union' && node.options.some(option => option.kind === 'primitive' && option.name === 'undefined');
+
+const parseType = (type: string): TypeNode => {
+  const text = type.trim();
+  if (!text || text === 'any' || text === 'unknown' || text === '*') return { kind: 'any' };
+
+  const options = splitTopLevel(text, '|').filter(Boolean);
+  if (options.length > 1) return { kind: 'union', options: options.map(parseType) };
+
+  if (text.startsWith('(') && text.endsWith(')')) return parseType(text.slice(1, -1));
+  if (text.endsWith('[]')) return { kind: 'array', item: parseType(text.slice(0, -2)) };
+  const generic = /^(Array|ReadonlyArray|Record|Partial)\s*<(.*)>$/.exec(text);
+  if (generic) return generic[1].endsWith('Array') ? { kind: 'array', item: parseType(generic[2]) } : { kind: 'object' };
+  if (text.startsWith('{') && text.endsWith('}')) return parseObjectType(text);
+  if (text === 'object' || text === 'Object') return { kind: 'object' };
+
+  if (/^(['"]).*\1$/.test(text)) return { kind: 'literal', value: text.slice(1, -1) };
+  if (/^-?\d+(\.\d+)?$/.test(text)) return { kind: 'literal', value: Number(text) };
+  if (text === 'true' || text === 'false') return { kind: 'literal', value: text === 'true' };
+  if (['string', 'number', 'boolean', 'null', 'undefined'].includes(text)) {
+    return { kind: 'primitive', name: text as 'string' };
+  }
+  if (text === 'String' || text === 'Number' || text === 'Boolean') return parseType(text.toLowerCase());
+  return { kind: 'named', name: text };
+};
+
+const describeValue = (value: any): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+// Returns false on a definite mismatch; `skip` marks nested values that cannot be judged
+const matchesNode = (value: any, node: TypeNode, skip: (value: any) => boolean): boolean => {
+  if (skip(value)) return true;
+  switch (node.kind) {
+    case 'any':
+    case 'named':
+      return true;
+    case 'primitive':
+      return node.name === 'null' ? value === null : typeof value === node.name;
+    case 'literal':
+      return value === node.value;
+    case 'array':
+      return Array.isArray(value) && value.every(item => matchesNode(item, node.item, skip));
+    case 'object':
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) return false;
+      return (node.properties ?? []).every(property =>
+        (property.optional && value[property.name] === undefined) || matchesNode(value[property.name], property.type, skip)
+      );
+    case 'union':
+      return node.options.some(option => matchesNode(value, option, skip));
+  }
+};
+
+/**
+ * Checks a value against a declared type. Returns a short description of the
+ * actual value when it does not match, undefined otherwise.
+ */
+export const checkValueType = (value: any, type: string | undefined, skip: (value: any) => boolean = () => false): string | undefined => {
+  if (!type || !type.trim()) return undefined;
+  return matchesNode(value, parseType(type), skip) ? undefined : describeValue(value);
+};
+
+const nodeToSchema = (node: TypeNode): JsonSchema => {
+  switch (node.kind) {
+    case 'any':
+    case 'named':
+      return {};
+    case 'primitive':
+      return node.name === 'undefined' ? {} : { type: node.name };
+    case 'literal':
+      return { const: node.value };
+    case 'array':
+      return { type: 'array', items: nodeToSchema(node.item) };
+    case 'object':
+      if (!node.properties?.length) return { type: 'object' };
+      return {
+        type: 'object',
+        properties: Object.fromEntries(node.properties.map(property => [property.name, nodeToSchema(property.type)])),
+        required: node.properties.filter(property => !property.optional).map(property => property.name)
+      };
+    case 'union': {
+      const options = node.options.filter(option => !(option.kind === 'primitive' && option.name === 'undefined'));
+      if (options.length === 1) return nodeToSchema(options[0]);
+      if (options.every(option => option.kind === 'literal')) {
+        return { enum: options.map(option => (option as { value: string | number | boolean }).value) };
+      }
+      return { anyOf: options.map(nodeToSchema) };
+    }
+  }
+};
+
+export const typeToJsonSchema = (type: string | undefined): JsonSchema => nodeToSchema(parseType(type || ''));
+
+export const paramType = (func: UserFunction, index: number): string => func.paramTypes?.[index]?.trim() || '';
+
+const isOptionalType = (type: string) => acceptsUndefined(parseType(type));
+
+// Trailing parameters that accept undefined may be left out of a call
+export const requiredParamCount = (func: UserFunction): number => {
+  let count = func.params.length;
+  while (count > 0 && isOptionalType(paramType(func, count - 1))) count--;
+  return count;
+};
+
+// "amount: number" or just "amount" when untyped
+export const formatParam = (func: UserFunction, index: number): string => {
+  const type = paramType(func, index);
+  return type ? `${func.params[index]}: ${type}` : func.params[index];
+};
+
+// formatCurrency(amount: number, currency: string | undefined): string
+export const formatSignature = (func: UserFunction): string =>
+  `${func.name}(${func.params.map((_, i) => formatParam(func, i)).join(', ')})${func.returnType?.trim() ? `: ${func.returnType.trim()}` : ''}`;
+
+// Tool parameters for LLM function calling; untyped parameters accept any JSON value
+export const functionParametersSchema = (func: UserFunction): JsonSchema => ({
+  type: 'object',
+  properties: Object.fromEntries(func.params.map((param, i) => [param, typeToJsonSchema(paramType(func, i))])),
+  required: func.params.filter((_, i) => !isOptionalType(paramType(func, i)))
+});
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+// `/** @type {(a: number, b?: string) => string} */ var name;` for a sibling function
+const functionDeclaration = (func: UserFunction): string => {
+  const params = func.params.map((param, i) => {
+    const type = paramType(func, i) || 'any';
+    return isOptionalType(type) ? `${param}?: ${type}` : `${param}: ${type}`;
+  });
+  return `/** @type {(${params.join(', ')}) => ${func.returnType?.trim() || 'any'}} */\nvar ${func.name};`;
+};
+
+/**
+ * Wraps the body in a JSDoc-typed function so the TypeScript worker can check
+ * it (checkJs). Diagnostics are reported relative to the full source, so
+ * callers subtract `prefix.length` to place them in the body. The utility
+ * library, the other functions and the shared module exports are declared
+ * first, as they are in scope at run time.
+ */
+export const functionCheckSource = (
+  func: UserFunction,
+  functions: UserFunction[] = [],
+  moduleExports: string[] = []
+): { prefix: string; suffix: string } => {
+  const doc = [
+    ...(func.description?.trim() ? func.description.trim().split('\n') : []),
+    ...func.params.map((param, i) => `@param {${paramType(func, i) || 'any'}} ${param}`),
+    ...(func.returnType?.trim() ? [`@returns {${func.returnType.trim()}}`] : [])
+  ];
+  const name = IDENTIFIER.test(func.name) ? func.name : 'userFunction';
+  const siblings = functions.filter(f => f.name !== name && IDENTIFIER.test(f.name) && f.params.every(p => IDENTIFIER.test(p)));
+  const taken = new Set([name, ...FUNCTION_LIBRARY_NAMES, ...siblings.map(f => f.name)]);
+  const declarations = [
+    FUNCTION_LIBRARY_DECLARATIONS.trim(),
+    ...siblings.map(functionDeclaration),
+    ...moduleExports.filter(exported => IDENTIFIER.test(exported) && !taken.has(exported)).map(exported => `/** @type {any} */\nvar ${exported};`)
+  ];
+  return {
+    prefix: `// @ts-check\n${declarations.join('\n')}\n/**\n${doc.map(line => ` * ${line}`).join('\n')}\n */\nfunction ${name}(${func.params.join(', ')}) {\n`,
+    // A module keeps the declaration out of the global scope shared with other scripts
+    suffix: '\n}\nexport {};\n'
+  };
+};
+
+// Parses the modal's "amount: number, currency?: string" field
+export const parseParamList = (text: string): { params: string[]; paramTypes: string[] } => {
+  const params: string[] = [];
+  const paramTypes: string[] = [];
+  splitTopLevel(text, ',').filter(Boolean).forEach(part => {
+    const match = /^([\w$]+)(\?)?\s*(?::\s*(.*))?$/.exec(part);
+    if (!match) return;
+    const type = (match[3] || '').trim();
+    params.push(match[1]);
+    paramTypes.push(match[2] ? `${type || 'any'} | undefined` : type);
+  });
+  return { params, paramTypes };
+};
+
+// Inverse of parseParamList: "T | undefined" is shown as an optional parameter
+export const formatParamList = (func: Pick<UserFunction, 'params' | 'paramTypes'>): string =>
+  func.params
+    .map((param, i) => {
+      const type = func.paramTypes?.[i]?.trim();
+      if (!type) return param;
+      const optional = /^(.*?)\s*\|\s*undefined$/.exec(type);
+      if (!optional) return `${param}: ${type}`;
+      return optional[1] === 'any' ? `${param}?` : `${param}?: ${optional[1]}`;
+    })
+    .join(', ');
@@ -0,0 +1,419 @@
+// Monaco languages that embed Handlebars in a host format. Kept free of Monaco
+// imports; `monaco` is the instance handed to the editor's beforeMount.
+
+export type TemplateLanguage = 'handlebars-json' | 'handlebars-sql' | 'handlebars-xml' | 'handlebars-yaml';
+
+export const TEMPLATE_LANGUAGES: TemplateLanguage[] = ['handlebars-json', 'handlebars-sql', 'handlebars-xml', 'handlebars-yaml'];
+
+export const isTemplateLanguage = (language: string): language is TemplateLanguage =>
+  (TEMPLATE_LANGUAGES as string[]).includes(language);
+
+// -- Tokenizers --
+
+// Shared Handlebars states; every host state includes @handlebars first so {{ }} wins over host syntax
+const HANDLEBARS_STATES = {
+  handlebars: [
+    [/\{\{!--/, 'comment.handlebars', '@hbsBlockComment'],
+    [/\{\{!/, 'comment.handlebars', '@hbsComment'],
+    [/\{\{\{?~?/, 'delimiter.handlebars', '@hbsExpression'],
+    // Liquid tags, for documents that use the Liquid engine
+    [/\{%-?/, 'delimiter.handlebars', '@liquidTag']
+  ],
+  liquidTag: [
+    [/-?%\}/, 'delimiter.handlebars', '@pop'],
+    [/\b(?:if|elsif|else|endif|unless|endunless|case|when|endcase|for|endfor|in|break|continue|assign|capture|endcapture|cycle|increment|decrement|echo|render|include|with|raw|endraw|comment|endcomment|and|or|contains|limit|offset|reversed)\b/, 'keyword.handlebars'],
+    [/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'/, 'string.handlebars'],
+    [/-?\d+(?:\.\d+)?\b/, 'number.handlebars'],
+    [/\b(?:true|false|nil|empty|blank)\b/, 'keyword.handlebars'],
+    [/[\w$][\w$\-]*(?:\.[\w$\-]+)*/, 'variable.handlebars'],
+    [/[|:()=,.[\]<>!]/, 'delimiter.handlebars'],
+    [/\s+/, 'white']
+  ],
+  hbsBlockComment: [
+    [/--~?\}\}/, 'comment.handlebars', '@pop'],
+    [/[^-]+|-/, 'comment.handlebars']
+  ],
+  hbsComment: [
+    [/\}\}/, 'comment.handlebars', '@pop'],
+    [/[^}]+|\}/, 'comment.handlebars']
+  ],
+  hbsExpression: [
+    [/~?\}\}\}?/, 'delimiter.handlebars', '@pop'],
+    [/[#^/]\s*(each|if|unless|with|else|lookup|log)\b/, 'keyword.handlebars'],
+    [/[#^/>]|\belse\b|\bas\b/, 'keyword.handlebars'],
+    [/\*?inline\b|func:/, 'keyword.handlebars'],
+    [/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'/, 'string.handlebars'],
+    [/-?\d+(?:\.\d+)?\b/, 'number.handlebars'],
+    [/\b(?:true|false|null|undefined)\b/, 'keyword.handlebars'],
+    [/[\w$-]+(?==)/, 'attribute.name.handlebars'],
+    [/@[\w$]+/, 'variable.predefined.handlebars'],
+    [/\|[^|]*\|/, 'variable.parameter.handlebars'],
+    [/(?:\.\.\/)*[\w$][\w$\-]*(?:\.(?:\[[^\]]*\]|[\w$\-]+))*|this\b/, 'variable.handlebars'],
+    [/[()=,.[\]]/, 'delimiter.handlebars'],
+    [/\s+/, 'white']
+  ]
+};
+
+const JSON_TOKENIZER = {
+  root: [
+    { include: '@handlebars' },
+    [/"(?:[^"\\{]|\\.|\{(?!\{))*"(?=\s*:)/, 'string.key'],
+    [/"/, 'string.value', '@string'],
+    [/-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/, 'number'],
+    [/\b(?:true|false|null)\b/, 'keyword'],
+    [/[{}[\]]/, '@brackets'],
+    [/[,:]/, 'delimiter'],
+    [/\s+/, 'white']
+  ],
+  string: [
+    { include: '@handlebars' },
+    [/[^"\\{]+/, 'string.value'],
+    [/\\./, 'string.escape'],
+    [/\{/, 'string.value'],
+    [/"/, 'string.value', '@pop']
+  ]
+};
+
+const SQL_KEYWORDS = [
+  'select', 'from', 'where', 'and', 'or', 'not', 'in', 'is', 'null', 'like', 'ilike', 'between', 'exists',
+  'insert', 'into', 'values', 'update', 'set', 'delete', 'create', 'alter', 'drop', 'table', 'index', 'view',
+  'join', 'inner', 'left', 'right', 'full', 'outer', 'cross', 'on', 'using', 'as', 'distinct', 'all', 'union',
+  'group', 'by', 'order', 'asc', 'desc', 'having', 'limit', 'offset', 'case', 'when', 'then', 'else', 'end',
+  'with', 'returning', 'true', 'false', 'primary', 'key', 'foreign', 'references', 'default', 'interval'
+];
+
+const SQL_TOKENIZER = {
+  root: [
+    { include: '@handlebars' },
+    [/--.*$/, 'comment'],
+    [/\/\*/, 'comment', '@blockComment'],
+    [/'/, 'string', '@string'],
+    [/"(?:[^"]|"")*"/, 'identifier.quote'],
+    [/-?\d+(?:\.\d+)?/, 'number'],
+    [/[a-zA-Z_][\w$]*/, { cases: { '@keywords': 'keyword', '@default': 'identifier' } }],
+    [/[()]/, '@brackets'],
+    [/[<>=!%&+\-*/|~^]+/, 'operator'],
+    [/[,;.]/, 'delimiter'],
+    [/\s+/, 'white']
+  ],
+  blockComment: [
+    [/\*\//, 'comment', '@pop'],
+    [/[^*]+|\*/, 'comment']
+  ],
+  string: [
+    { include: '@handlebars' },
+    [/[^'{]+/, 'string'],
+    [/''/, 'string.escape'],
+    [/\{/, 'string'],
+    [/'/, 'string', '@pop']
+  ]
+};
+
+const XML_TOKENIZER = {
+  root: [
+    { include: '@handlebars' },
+    [/<!--/, 'comment', '@comment'],
+    [/<!\[CDATA\[/, 'delimiter.cdata', '@cdata'],
+    [/<\?[\w-]+/, 'metatag', '@tag'],
+    [/<!\w+/, 'metatag', '@tag'],
+    [/(<\/?)([\w\-.:]+)/, ['delimiter', { token: 'tag', next: '@tag' }]],
+    [/&\w+;|&#\d+;|&#x[0-9a-fA-F]+;/, 'string.escape'],
+    [/[^<&{]+/, ''],
+    [/[&{]/, '']
+  ],
+  tag: [
+    { include: '@handlebars' },
+    [/[\w\-.:]+(?=\s*=)/, 'attribute.name'],
+    [/=/, 'delimiter'],
+    [/"/, 'attribute.value', '@doubleQuoted'],
+    [/'/, 'attribute.value', '@singleQuoted'],
+    [/\/?>|\?>/, 'delimiter', '@pop'],
+    [/\s+/, 'white']
+  ],
+  doubleQuoted: [
+    { include: '@handlebars' },
+    [/[^"{]+/, 'attribute.value'],
+    [/\{/, 'attribute.value'],
+    [/"/, 'attribute.value', '@pop']
+  ],
+  singleQuoted: [
+    { include: '@handlebars' },
+    [/[^'{]+/, 'attribute.value'],
+    [/\{/, 'attribute.value'],
+    [/'/, 'attribute.value', '@pop']
+  ],
+  comment: [
+    [/-->/, 'comment', '@pop'],
+    [/[^-]+|-/, 'comment']
+  ],
+  cdata: [
+    { include: '@handlebars' },
+    [/\]\]>/, 'delimiter.cdata', '@pop'],
+    [/[^\]{]+|\]|\{/, '']
+  ]
+};
+
+const YAML_TOKENIZER = {
+  root: [
+    { include: '@handlebars' },
+    [/#.*$/, 'comment'],
+    [/^\s*---\s*$/, 'delimiter'],
+    [/(?:[\w\-.$]+|"[^"]*"|'[^']*')(?=\s*:(?:\s|$))/, 'string.key'],
+    [/^\s*-(?=\s|$)/, 'delimiter'],
+    [/"/, 'string.value', '@doubleQuoted'],
+    [/'/, 'string.value', '@singleQuoted'],
+    [/[|>][+-]?(?=\s*$)/, 'operator'],
+    [/-?\d+(?:\.\d+)?(?=\s*(?:#|$|,|\]|\}))/, 'number'],
+    [/\b(?:true|false|null|yes|no|on|off|~)\b(?=\s*(?:#|$|,|\]|\}))/, 'keyword'],
+    [/[{}[\]]/, '@brackets'],
+    [/[:,]/, 'delimiter'],
+    [/[&*][\w-]+/, 'type'],
+    [/[^\s#{:,[\]]+/, 'string.value'],
+    [/\{/, 'string.value'],
+    [/\s+/, 'white']
+  ],
+  doubleQuoted: [
+    { include: '@handlebars' },
+    [/[^"\\{]+/, 'string.value'],
+    [/\\./, 'string.escape'],
+    [/\{/, 'string.value'],
+    [/"/, 'string.value', '@pop']
+  ],
+  singleQuoted: [
+    { include: '@handlebars' },
+    [/[^'{]+/, 'string.value'],
+    [/''/, 'string.escape'],
+    [/\{/, 'string.value'],
+    [/'/, 'string.value', '@pop']
+  ]
+};
+
+const TOKENIZERS: Record<TemplateLanguage, { tokenizer: Record<string, any[]>; [key: string]: any }> = {
+  'handlebars-json': { tokenizer: JSON_TOKENIZER },
+  'handlebars-sql': { tokenizer: SQL_TOKENIZER, ignoreCase: true, keywords: SQL_KEYWORDS },
+  'handlebars-xml': { tokenizer: XML_TOKENIZER },
+  'handlebars-yaml': { tokenizer: YAML_TOKENIZER }
+};
+
+const HOST_BRACKETS: Record<TemplateLanguage, [string, string][]> = {
+  'handlebars-json': [['{', '}'], ['[', ']']],
+  'handlebars-sql': [['(', ')']],
+  'handlebars-xml': [],
+  'handlebars-yaml': [['{', '}'], ['[', ']']]
+};
+
+const COMMENTS: Record<TemplateLanguage, { lineComment?: string; blockComment?: [string, string] }> = {
+  'handlebars-json': { blockComment: ['{{!--', '--}}'] },
+  'handlebars-sql': { lineComment: '--', blockComment: ['/*', '*/'] },
+  'handlebars-xml': { blockComment: ['<!--', '-->'] },
+  'handlebars-yaml': { lineComment: '#' }
+};
+
+// -- Folding --
+
+export interface FoldingRange {
+  start: number; // 1-based lines
+  end: number;
+}
+
+const HBS_BLOCK_TAG = /\{\{~?\s*([#^/])\s*([*>]?)([\w\-.:]*)/g;
+const XML_TAG = /<(\/?)([\w\-.:]+)[^>]*?(\/?)>/g;
+
+/**
+ * Foldable regions: {{#block}}…{{/block}} pairs plus the host structure
+ * (brackets for JSON and SQL, elements for XML, indentation for YAML).
+ * Registering a provider replaces Monaco's indentation folding, so the
+ * host regions have to be computed here too.
+ */
+export const getFoldingRanges = (text: string, language: TemplateLanguage): FoldingRange[] => {
+  const lines = text.split('\n');
+  const ranges: FoldingRange[] = [];
+  const add = (start: number, end: number) => {
+    if (end > start) ranges.push({ start, end });
+  };
+
+  const blocks: { name: string; line: number }[] = [];
+  const brackets: { char: string; line: number }[] = [];
+  const tags: { name: string; line: number }[] = [];
+  const [openers, closers] = [HOST_BRACKETS[language].map(b => b[0]), HOST_BRACKETS[language].map(b => b[1])];
+
+  lines.forEach((lineText, i) => {
+    const line = i + 1;
+    let match;
+
+    HBS_BLOCK_TAG.lastIndex = 0;
+    while ((match = HBS_BLOCK_TAG.exec(lineText)) !== null) {
+      const [, marker, prefix, name] = match;
+      const blockName = prefix === '>' && !name ? '' : name;
+      if (marker === '/') {
+        const index = blocks.map(b => b.name).lastIndexOf(blockName);
+        if (index >= 0) {
+          add(blocks[index].line, line - 1);
+          blocks.length = index;
+        }
+      } else if (!(marker === '^' && !name)) {
+        blocks.push({ name: blockName, line });
+      }
+    }
+
+    // Host brackets, outside of {{ }}, strings are not special-cased
+    if (openers.length > 0) {
+      const host = lineText.replace(/\{\{[\s\S]*?\}\}/g, '');
+      for (const char of host) {
+        if (openers.includes(char)) {
+          brackets.push({ char, line });
+        } else if (closers.includes(char)) {
+          const open = openers[closers.indexOf(char)];
+          const index = brackets.map(b => b.char).lastIndexOf(open);
+          if (index >= 0) {
+            add(brackets[index].line, line - 1);
+            brackets.length = index;
+          }
+        }
+      }
+    }
+
+    if (language === 'handlebars-xml') {
+      XML_TAG.lastIndex = 0;
+      while ((match = XML_TAG.exec(lineText.replace(/\{\{[\s\S]*?\}\}/g, m => ' '.repeat(m.length)))) !== null) {
+        const [, closing, name, selfClosing] = match;
+        if (selfClosing) continue;
+        if (closing) {
+          const index = tags.map(t => t.name).lastIndexOf(name);
+          if (index >= 0) {
+            add(tags[index].line, line - 1);
+            tags.length = index;
+          }
+        } else {
+          tags.push({ name, line });
+        }
+      }
+    }
+  });
+
+  if (language === 'handlebars-yaml') {
+    const indentOf = (lineText: string) => (lineText.trim() ? lineText.length - lineText.trimStart().length : -1);
+    lines.forEach((lineText, i) => {
+      const indent = indentOf(lineText);
+      if (indent < 0) return;
+      let end = i;
+      for (let j = i + 1; j < lines.length; j++) {
+        const next = indentOf(lines[j]);
+        if (next === -1) continue;
+        if (next <= indent) break;
+        end = j;
+      }
+      add(i + 1, end + 1);
+    });
+  }
+
+  return ranges;
+};
+
+// -- Formatting --
+
+const HBS_BLOCK_START = /^\{\{~?\s*[#^]/;
+const HBS_BLOCK_END = /\{\{~?\s*\//;
+const HBS_DEDENT = /^(\{\{~?\s*\/|\{\{~?\s*else|\{\{~?\s*\^\s*~?\}\})/;
+
+// Host rules: does the line close a level before it, does it open one after it
+const HOST_INDENT: Record<Exclude<TemplateLanguage, 'handlebars-yaml'>, { dedent: RegExp; indent: (line: string) => boolean }> = {
+  'handlebars-json': {
+    dedent: /^[}\]],?/,
+    indent: line => line.endsWith('{') || line.endsWith('[')
+  },
+  'handlebars-sql': {
+    dedent: /^\)/,
+    indent: line => line.endsWith('(')
+  },
+  'handlebars-xml': {
+    dedent: /^<\//,
+    indent: line => /^<[\w\-.:]/.test(line) && line.endsWith('>') && !line.endsWith('/>') && !/<\/[\w\-.:]+>$/.test(line)
+  }
+};
+
+/**
+ * Re-indents a template line by line from its host structure and its
+ * Handlebars blocks, keeping existing line breaks so inline blocks stay
+ * intact. YAML is indentation-sensitive, so there only standalone block
+ * lines ({{#if}}, {{else}}, {{/if}}) are aligned with the content they wrap.
+ */
+export const formatTemplateLines = (text: string, language: TemplateLanguage, indentSize = 2): string => {
+  const lines = text.split('\n');
+
+  if (language === 'handlebars-yaml') {
+    const isBlockLine = (line: string) => /^\{\{~?\s*[#^/]|^\{\{~?\s*else/.test(line.trim()) && /\}\}$/.test(line.trim());
+    return lines.map((line, i) => {
+      const trimmed = line.trimEnd();
+      if (!isBlockLine(trimmed)) return trimmed;
+      // Openers align with the content below them, {{else}} and closers with the content above
+      const opens = /^\{\{~?\s*[#^](?!\s*~?\}\})/.test(trimmed.trim());
+      const neighbours = opens ? lines.slice(i + 1) : lines.slice(0, i).reverse();
+      const content = neighbours.find(l => l.trim() && !isBlockLine(l));
+      const indent = content ? content.length - content.trimStart().length : 0;
+      return ' '.repeat(indent) + trimmed.trim();
+    }).join('\n');
+  }
+
+  const host = HOST_INDENT[language];
+  let indentLevel = 0;
+
+  return lines.map(line => {
+    const trimmed = line.trim();
+    if (!trimmed) return '';
+
+    if (HBS_DEDENT.test(trimmed) || host.dedent.test(trimmed)) {
+      indentLevel = Math.max(0, indentLevel - 1);
+    }
+    const indentedLine = ' '.repeat(indentLevel * indentSize) + trimmed;
+
+    if (host.indent(trimmed)) indentLevel++;
+    // A block closed on the same line (inline block) does not indent
+    if (HBS_BLOCK_START.test(trimmed) && !HBS_BLOCK_END.test(trimmed)) indentLevel++;
+    // Content after {{else}} is indented again
+    if (/^\{\{~?\s*else/.test(trimmed)) indentLevel++;
+
+    return indentedLine;
+  }).join('\n');
+};
+
+// -- Registration --
+
+let registered = false;
+
+// Registers the languages, their configuration and folding once per Monaco instance
+export const registerTemplateLanguages = (monaco: any) => {
+  if (registered) return;
+  registered = true;
+
+  TEMPLATE_LANGUAGES.forEach(language => {
+    monaco.languages.register({ id: language });
+    monaco.languages.setMonarchTokensProvider(language, {
+      defaultToken: '',
+      brackets: [
+        { open: '{{', close: '}}', token: 'delimiter.handlebars' },
+        ...HOST_BRACKETS[language].map(([open, close]) => ({ open, close, token: 'delimiter.bracket' }))
+      ],
+      ...TOKENIZERS[language],
+      tokenizer: { ...TOKENIZERS[language].tokenizer, ...HANDLEBARS_STATES }
+    });
+
+    const pairs = [...HOST_BRACKETS[language], ['(', ')'] as [string, string]];
+    monaco.languages.setLanguageConfiguration(language, {
+      comments: COMMENTS[language],
+      brackets: [['{{', '}}'], ...HOST_BRACKETS[language]],
+      autoClosingPairs: [
+        ...pairs.map(([open, close]) => ({ open, close })),
+        { open: '"', close: '"', notIn: ['string'] },
+        { open: "'", close: "'", notIn: ['string', 'comment'] },
+        ...(language === 'handlebars-xml' ? [{ open: '<!--', close: '-->' }] : [])
+      ],
+      surroundingPairs: [...pairs.map(([open, close]) => ({ open, close })), { open: '"', close: '"' }, { open: "'", close: "'" }]
+    });
+
+    monaco.languages.registerFoldingRangeProvider(language, {
+      provideFoldingRanges: (model: any) =>
+        getFoldingRanges(model.getValue(), language).map(range => ({ start: range.start, end: range.end }))
+    });
+  });
+};
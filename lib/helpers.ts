@@ -0,0 +1,432 @@
+import Handlebars from 'handlebars';
+import yaml from 'js-yaml';
+import { HelperGroup } from './types';
+import { FormattedString, escapeXml } from './escaping';
+
+// Documented standard helpers. Shown in the Functions panel and sent to the AI assistant,
+// so every helper registered below needs an entry here.
+export const STANDARD_HELPER_GROUPS: HelperGroup[] = [
+  {
+    id: 'strings',
+    title: 'Strings',
+    helpers: [
+      { name: 'uppercase', signature: 'uppercase text', desc: 'Upper-case text', example: '{{ uppercase user.name }}' },
+      { name: 'lowercase', signature: 'lowercase text', desc: 'Lower-case text', example: '{{ lowercase user.email }}' },
+      { name: 'capitalize', signature: 'capitalize text', desc: 'Upper-case the first letter', example: '{{ capitalize user.status }}' },
+      { name: 'truncate', signature: 'truncate text length [suffix]', desc: 'Cut text to a length, ending with "…" by default', example: '{{ truncate description 40 }}' },
+      { name: 'padStart', signature: 'padStart value length [char]', desc: 'Pad on the left, with spaces by default', example: '{{ padStart order.id 8 "0" }}' },
+      { name: 'padEnd', signature: 'padEnd value length [char]', desc: 'Pad on the right, with spaces by default', example: '{{ padEnd sku 12 }}' },
+      { name: 'slugify', signature: 'slugify text', desc: 'URL-safe lower-case slug', example: '{{ slugify product.title }}' },
+      { name: 'replace', signature: 'replace text search replacement', desc: 'Replace every occurrence of a substring', example: '{{ replace phone "-" "" }}' },
+      { name: 'split', signature: 'split text separator', desc: 'Split text into a list', example: '{{ last (split user.name " ") }}' },
+    ]
+  },
+  {
+    id: 'arrays',
+    title: 'Arrays',
+    helpers: [
+      { name: 'join', signature: 'join list separator', desc: 'Join a list into text', example: '{{ join user.roles ", " }}' },
+      { name: 'first', signature: 'first list', desc: 'First item', example: '{{ first items }}' },
+      { name: 'last', signature: 'last list', desc: 'Last item', example: '{{ last items }}' },
+      { name: 'sortBy', signature: 'sortBy list key [\'desc\']', desc: 'Sort objects by a property', example: '{{#each (sortBy order.items "price" "desc")}}\n  {{ sku }}\n{{/each}}' },
+      { name: 'filter', signature: 'filter list key [value]', desc: 'Keep items whose property equals value, or is truthy', example: '{{#each (filter users "isActive")}}\n  {{ name }}\n{{/each}}' },
+      { name: 'groupBy', signature: 'groupBy list key', desc: 'Group items into an object keyed by a property', example: '{{#each (groupBy order.items "category")}}\n  {{ @key }}: {{ this.length }}\n{{/each}}' },
+      { name: 'pluck', signature: 'pluck list key', desc: 'List of one property of every item', example: '{{ join (pluck order.items "sku") ", " }}' },
+      { name: 'sum', signature: 'sum list [key]', desc: 'Sum numbers, or one property of every item', example: '{{ sum order.items "price" }}' },
+    ]
+  },
+  {
+    id: 'math',
+    title: 'Math',
+    helpers: [
+      { name: 'add', signature: 'add a b', desc: 'a + b', example: '{{ add item.qty 1 }}' },
+      { name: 'subtract', signature: 'subtract a b', desc: 'a - b', example: '{{ subtract order.total discount }}' },
+      { name: 'multiply', signature: 'multiply a b', desc: 'a × b', example: '{{ multiply item.qty item.price }}' },
+      { name: 'divide', signature: 'divide a b', desc: 'a ÷ b, empty when b is 0', example: '{{ divide order.total order.items.length }}' },
+      { name: 'round', signature: 'round value [decimals]', desc: 'Round to a number of decimals', example: '{{ round order.total 2 }}' },
+      { name: 'abs', signature: 'abs value', desc: 'Absolute value', example: '{{ abs balance }}' },
+    ]
+  },
+  {
+    id: 'numbers',
+    title: 'Numbers & Currency',
+    helpers: [
+      { name: 'formatNumber', signature: 'formatNumber value [decimals] locale=', desc: 'Locale number format with grouping', example: '{{ formatNumber order.total 2 }}' },
+      { name: 'formatMoney', signature: 'formatMoney value [currency] locale=', desc: 'Currency format, USD by default', example: '{{ formatMoney order.total order.currency }}' },
+      { name: 'formatPercent', signature: 'formatPercent ratio [decimals] locale=', desc: '0.25 → 25%', example: '{{ formatPercent taxRate 1 }}' },
+      { name: 'pluralize', signature: 'pluralize count singular [plural] includeCount=', desc: 'Pick the singular or plural word for a count; irregular plurals need the plural argument', example: '{{ pluralize order.items.length "item" }}' },
+    ]
+  },
+  {
+    id: 'dates',
+    title: 'Dates & Time',
+    helpers: [
+      { name: 'formatDateTime', signature: 'formatDateTime date [pattern] timeZone= locale=', desc: 'Pattern (yyyy-MM-dd HH:mm) or short/medium/long/full/iso', example: '{{ formatDateTime meta.timestamp "dd MMM yyyy HH:mm" timeZone="Europe/Berlin" }}' },
+      { name: 'relativeTime', signature: 'relativeTime date [base] locale=', desc: 'Relative to now or base, e.g. "3 days ago"', example: '{{ relativeTime meta.timestamp }}' },
+      { name: 'addDays', signature: 'addDays date days', desc: 'Shift a date, returns an ISO timestamp', example: '{{ formatDateTime (addDays meta.timestamp 30) "yyyy-MM-dd" }}' },
+      { name: 'now', signature: 'now', desc: 'Current time as an ISO timestamp', example: '{{ now }}' },
+    ]
+  },
+  {
+    id: 'logic',
+    title: 'Logic',
+    helpers: [
+      { name: 'eq', signature: 'eq a b', desc: 'a == b', example: '{{#if (eq user.role "admin")}}\n\n{{/if}}' },
+      { name: 'ne', signature: 'ne a b', desc: 'a != b', example: '{{#if (ne status "closed")}}\n\n{{/if}}' },
+      { name: 'lt', signature: 'lt a b', desc: 'a < b', example: '{{#if (lt stock 10)}}\n\n{{/if}}' },
+      { name: 'gt', signature: 'gt a b', desc: 'a > b', example: '{{#if (gt order.total 100)}}\n\n{{/if}}' },
+      { name: 'lte', signature: 'lte a b', desc: 'a <= b', example: '{{#if (lte stock 0)}}\n\n{{/if}}' },
+      { name: 'gte', signature: 'gte a b', desc: 'a >= b', example: '{{#if (gte age 18)}}\n\n{{/if}}' },
+      { name: 'and', signature: 'and a b ...', desc: 'All arguments truthy', example: '{{#if (and user.isActive user.email)}}\n\n{{/if}}' },
+      { name: 'or', signature: 'or a b ...', desc: 'Any argument truthy', example: '{{#if (or user.phone user.email)}}\n\n{{/if}}' },
+      { name: 'not', signature: 'not value', desc: 'Negation', example: '{{#if (not user.isActive)}}\n\n{{/if}}' },
+    ]
+  },
+  {
+    id: 'dumps',
+    title: 'Format Dumps',
+    helpers: [
+      { name: 'toJsonString', signature: 'toJsonString value', desc: 'Pretty-printed JSON', example: '{{ toJsonString user }}' },
+      { name: 'toYamlString', signature: 'toYamlString value', desc: 'YAML document', example: '{{ toYamlString user }}' },
+      { name: 'toXmlString', signature: 'toXmlString value', desc: 'XML elements named after the keys', example: '{{ toXmlString user }}' },
+      { name: 'toHtmlDump', signature: 'toHtmlDump value', desc: 'JSON in a styled <pre> block', example: '{{ toHtmlDump user }}' },
+    ]
+  }
+];
+
+// Handlebars passes its options object as the last argument; hash arguments live on it
+const splitOptions = (args: any[]): [any[], Record<string, any>] => {
+  const options = args[args.length - 1];
+  return [args.slice(0, -1), options?.hash || {}];
+};
+
+// Optional positional arguments are simply missing after splitOptions
+const isGiven = (value: any) => value !== undefined && value !== null;
+
+const toNumber = (value: any) => Number(value ?? 0);
+
+// Moves the decimal point in the exponent rather than multiplying, so 1.005 rounds to 1.01 and not 1
+const shiftDecimals = (value: number, places: number) => {
+  const [mantissa, exponent = '0'] = String(value).split('e');
+  return Number(`${mantissa}e${Number(exponent) + places}`);
+};
+
+const roundDecimals = (value: number, decimals: number) => shiftDecimals(Math.round(shiftDecimals(value, decimals)), -decimals);
+
+// Regular English plurals; irregular words (child, person...) need the plural argument
+const pluralOf = (word: string) => {
+  if (/[^aeiou]y$/i.test(word)) return `${word.slice(0, -1)}ies`;
+  if (/(s|x|z|ch|sh)$/i.test(word)) return `${word}es`;
+  return `${word}s`;
+};
+
+export const toDate = (value: any): Date | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const date = value instanceof Date ? value : new Date(typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Reads a property path like "address.city" from an item
+export const getKey = (item: any, key: string) =>
+  String(key).split('.').reduce((acc, part) => (acc === undefined || acc === null ? undefined : acc[part]), item);
+
+const DATE_TOKENS = /'[^']*'|yyyy|yy|MMMM|MMM|MM|M|dd|d|EEEE|EEE|HH|H|hh|h|mm|ss|a/g;
+
+// Formats a date with a token pattern, evaluated in the given time zone
+export const formatDatePattern = (date: Date, pattern: string, timeZone?: string, locale?: string) => {
+  const numeric = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric', month: 'numeric', day: 'numeric',
+    hour: 'numeric', minute: '2-digit', second: '2-digit', hourCycle: 'h23'
+  }).formatToParts(date).reduce((acc, part) => ({ ...acc, [part.type]: part.value }), {} as Record<string, string>);
+  const named = (options: Intl.DateTimeFormatOptions) => new Intl.DateTimeFormat(locale, { timeZone, ...options }).format(date);
+
+  const hour = Number(numeric.hour);
+  const pad = (n: number | string) => String(n).padStart(2, '0');
+
+  return pattern.replace(DATE_TOKENS, token => {
+    switch (token) {
+      case 'yyyy': return numeric.year;
+      case 'yy': return numeric.year.slice(-2);
+      case 'MMMM': return named({ month: 'long' });
+      case 'MMM': return named({ month: 'short' });
+      case 'MM': return pad(numeric.month);
+      case 'M': return numeric.month;
+      case 'dd': return pad(numeric.day);
+      case 'd': return numeric.day;
+      case 'EEEE': return named({ weekday: 'long' });
+      case 'EEE': return named({ weekday: 'short' });
+      case 'HH': return pad(hour);
+      case 'H': return String(hour);
+      case 'hh': return pad(hour % 12 || 12);
+      case 'h': return String(hour % 12 || 12);
+      case 'mm': return numeric.minute;
+      case 'ss': return numeric.second;
+      case 'a': return hour < 12 ? 'AM' : 'PM';
+      default: return token.slice(1, -1); // Quoted literal
+    }
+  });
+};
+
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 365 * 24 * 3600],
+  ['month', 30 * 24 * 3600],
+  ['week', 7 * 24 * 3600],
+  ['day', 24 * 3600],
+  ['hour', 3600],
+  ['minute', 60],
+  ['second', 1]
+];
+
+// Register the standard helper library on a Handlebars instance
+export const registerStandardHelpers = (hbs: typeof Handlebars) => {
+  // String Helpers
+  hbs.registerHelper('uppercase', (str) => {
+    return String(str || '').toUpperCase();
+  });
+
+  // Array Helpers
+  hbs.registerHelper('split', (str, separator) => {
+    if (typeof str !== 'string') return [];
+    return str.split(separator);
+  });
+
+  hbs.registerHelper('join', (arr, separator) => {
+    if (!Array.isArray(arr)) return arr;
+    return arr.join(separator);
+  });
+
+  hbs.registerHelper('first', (arr) => {
+    if (!Array.isArray(arr)) return arr;
+    return arr[0];
+  });
+
+  hbs.registerHelper('last', (arr) => {
+    if (!Array.isArray(arr)) return arr;
+    return arr[arr.length - 1];
+  });
+
+  // Logical Helpers
+  hbs.registerHelper('eq', (a, b) => a == b);
+  hbs.registerHelper('ne', (a, b) => a != b);
+  hbs.registerHelper('lt', (a, b) => Number(a) < Number(b));
+  hbs.registerHelper('gt', (a, b) => Number(a) > Number(b));
+  hbs.registerHelper('lte', (a, b) => Number(a) <= Number(b));
+  hbs.registerHelper('gte', (a, b) => Number(a) >= Number(b));
+  hbs.registerHelper('and', (...args) => Array.prototype.slice.call(args, 0, args.length - 1).every(Boolean));
+  hbs.registerHelper('or', (...args) => Array.prototype.slice.call(args, 0, args.length - 1).some(Boolean));
+  hbs.registerHelper('not', (val) => !val);
+
+  // Format Dumping Helpers
+  hbs.registerHelper('toJsonString', (value) => {
+      try {
+          return new FormattedString(JSON.stringify(value, null, 2), 'json');
+      } catch (e) {
+          return String(value);
+      }
+  });
+
+  hbs.registerHelper('toYamlString', (value) => {
+      try {
+          return new FormattedString(yaml.dump(value), 'yaml');
+      } catch (e) {
+          return String(value);
+      }
+  });
+
+  hbs.registerHelper('toHtmlDump', (value) => {
+      try {
+          const json = JSON.stringify(value, null, 2);
+          return new Handlebars.SafeString(`<pre class="bg-slate-50 p-2 rounded text-xs font-mono border border-slate-200 overflow-auto max-h-64 whitespace-pre-wrap break-all">${json}</pre>`);
+      } catch (e) {
+          return String(value);
+      }
+  });
+
+  hbs.registerHelper('toXmlString', (value) => {
+    const toXml = (obj: any): string => {
+        if (obj === null || obj === undefined) return '';
+        
+        if (Array.isArray(obj)) {
+            return obj.map(item => `<item>${toXml(item)}</item>`).join('');
+        }
+        
+        if (typeof obj === 'object') {
+            return Object.entries(obj).map(([key, val]) => {
+                if (Array.isArray(val)) {
+                    return val.map(item => `<${key}>${toXml(item)}</${key}>`).join('');
+                } else if (typeof val === 'object' && val !== null) {
+                     return `<${key}>${toXml(val)}</${key}>`;
+                } else {
+                     return `<${key}>${escapeXml(String(val))}</${key}>`;
+                }
+            }).join('');
+        }
+        return escapeXml(String(obj));
+    };
+
+    try {
+        return new FormattedString(toXml(value), 'xml');
+    } catch (e) {
+        return String(value);
+    }
+  });
+
+  // String Helpers
+  hbs.registerHelper('lowercase', (str) => String(str ?? '').toLowerCase());
+
+  hbs.registerHelper('capitalize', (str) => {
+    const text = String(str ?? '');
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  });
+
+  hbs.registerHelper('truncate', (...args) => {
+    const [[str, length, suffix]] = splitOptions(args);
+    const text = String(str ?? '');
+    const max = toNumber(length);
+    const end = isGiven(suffix) ? String(suffix) : '…';
+    return text.length > max ? text.slice(0, Math.max(0, max - end.length)) + end : text;
+  });
+
+  hbs.registerHelper('padStart', (...args) => {
+    const [[value, length, char]] = splitOptions(args);
+    return String(value ?? '').padStart(toNumber(length), isGiven(char) ? String(char) : ' ');
+  });
+
+  hbs.registerHelper('padEnd', (...args) => {
+    const [[value, length, char]] = splitOptions(args);
+    return String(value ?? '').padEnd(toNumber(length), isGiven(char) ? String(char) : ' ');
+  });
+
+  hbs.registerHelper('slugify', (str) =>
+    String(str ?? '')
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+  );
+
+  hbs.registerHelper('replace', (str, search, replacement) =>
+    String(str ?? '').split(String(search)).join(String(replacement ?? ''))
+  );
+
+  // Collection Helpers
+  hbs.registerHelper('sortBy', (...args) => {
+    const [[arr, key, direction]] = splitOptions(args);
+    if (!Array.isArray(arr)) return arr;
+    const factor = direction === 'desc' ? -1 : 1;
+    return [...arr].sort((a, b) => {
+      const x = getKey(a, key);
+      const y = getKey(b, key);
+      if (x === y) return 0;
+      if (x === undefined || x === null) return 1;
+      if (y === undefined || y === null) return -1;
+      return (x < y ? -1 : 1) * factor;
+    });
+  });
+
+  hbs.registerHelper('filter', (...args) => {
+    const [[arr, key, value]] = splitOptions(args);
+    if (!Array.isArray(arr)) return [];
+    return arr.filter(item => (isGiven(value) ? getKey(item, key) == value : Boolean(getKey(item, key))));
+  });
+
+  hbs.registerHelper('groupBy', (arr, key) => {
+    if (!Array.isArray(arr)) return {};
+    return arr.reduce((groups, item) => {
+      const group = String(getKey(item, key));
+      (groups[group] = groups[group] || []).push(item);
+      return groups;
+    }, {} as Record<string, any[]>);
+  });
+
+  hbs.registerHelper('pluck', (arr, key) => (Array.isArray(arr) ? arr.map(item => getKey(item, key)) : []));
+
+  hbs.registerHelper('sum', (...args) => {
+    const [[arr, key]] = splitOptions(args);
+    if (!Array.isArray(arr)) return 0;
+    return arr.reduce((total, item) => total + toNumber(isGiven(key) ? getKey(item, key) : item), 0);
+  });
+
+  // Math Helpers
+  hbs.registerHelper('add', (a, b) => toNumber(a) + toNumber(b));
+  hbs.registerHelper('subtract', (a, b) => toNumber(a) - toNumber(b));
+  hbs.registerHelper('multiply', (a, b) => toNumber(a) * toNumber(b));
+  hbs.registerHelper('divide', (a, b) => (toNumber(b) === 0 ? '' : toNumber(a) / toNumber(b)));
+  hbs.registerHelper('abs', (value) => Math.abs(toNumber(value)));
+
+  hbs.registerHelper('round', (...args) => {
+    const [[value, decimals]] = splitOptions(args);
+    return roundDecimals(toNumber(value), isGiven(decimals) ? toNumber(decimals) : 0);
+  });
+
+  // Number & Currency Helpers (Intl)
+  hbs.registerHelper('formatNumber', (...args) => {
+    const [[value, decimals], hash] = splitOptions(args);
+    const digits = isGiven(decimals) ? toNumber(decimals) : undefined;
+    return new Intl.NumberFormat(hash.locale, { minimumFractionDigits: digits, maximumFractionDigits: digits }).format(toNumber(value));
+  });
+
+  hbs.registerHelper('formatMoney', (...args) => {
+    const [[value, currency], hash] = splitOptions(args);
+    return new Intl.NumberFormat(hash.locale, {
+      style: 'currency',
+      currency: isGiven(currency) ? String(currency) : 'USD'
+    }).format(toNumber(value));
+  });
+
+  hbs.registerHelper('formatPercent', (...args) => {
+    const [[value, decimals], hash] = splitOptions(args);
+    const digits = isGiven(decimals) ? toNumber(decimals) : 0;
+    return new Intl.NumberFormat(hash.locale, {
+      style: 'percent',
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits
+    }).format(toNumber(value));
+  });
+
+  hbs.registerHelper('pluralize', (...args) => {
+    const [[count, singular, plural], hash] = splitOptions(args);
+    const n = toNumber(count);
+    const word = new Intl.PluralRules(hash.locale).select(n) === 'one'
+      ? String(singular)
+      : isGiven(plural) ? String(plural) : pluralOf(String(singular));
+    return hash.includeCount === false ? word : `${n} ${word}`;
+  });
+
+  // Date Helpers (time zone aware through Intl)
+  hbs.registerHelper('formatDateTime', (...args) => {
+    const [[value, pattern], hash] = splitOptions(args);
+    const date = toDate(value);
+    if (!date) return value ?? '';
+
+    const format = isGiven(pattern) ? String(pattern) : 'medium';
+    if (format === 'iso') return date.toISOString();
+    if (['short', 'medium', 'long', 'full'].includes(format)) {
+      return new Intl.DateTimeFormat(hash.locale, {
+        dateStyle: format as Intl.DateTimeFormatOptions['dateStyle'],
+        timeZone: hash.timeZone
+      }).format(date);
+    }
+    return formatDatePattern(date, format, hash.timeZone, hash.locale);
+  });
+
+  hbs.registerHelper('relativeTime', (...args) => {
+    const [[value, base], hash] = splitOptions(args);
+    const date = toDate(value);
+    if (!date) return value ?? '';
+
+    const seconds = (date.getTime() - (toDate(base) || new Date()).getTime()) / 1000;
+    const [unit, size] = RELATIVE_UNITS.find(([, s]) => Math.abs(seconds) >= s) || RELATIVE_UNITS[RELATIVE_UNITS.length - 1];
+    return new Intl.RelativeTimeFormat(hash.locale, { numeric: 'auto' }).format(Math.round(seconds / size), unit);
+  });
+
+  hbs.registerHelper('addDays', (value, days) => {
+    const date = toDate(value);
+    if (!date) return value ?? '';
+    return new Date(date.getTime() + toNumber(days) * 24 * 3600 * 1000).toISOString();
+  });
+
+  hbs.registerHelper('now', () => new Date().toISOString());
+};
@@ -0,0 +1,156 @@
+import { JsonSchema, JsonSchemaType, SchemaError } from './types';
+
+// Parses the workspace schema; blank or invalid JSON means "no schema"
+export const parseSchema = (json: string | undefined): JsonSchema | undefined => {
+  if (!json || !json.trim()) return undefined;
+  try {
+    const schema = JSON.parse(json);
+    return schema !== null && typeof schema === 'object' && !Array.isArray(schema) ? schema : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Follows local references such as "#/definitions/address" or "#/$defs/item"
+const followRef = (ref: string, root: JsonSchema): JsonSchema | undefined => {
+  if (!ref.startsWith('#')) return undefined;
+  let current: any = root;
+  for (const part of ref.slice(1).split('/').filter(Boolean)) {
+    const key = decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~');
+    if (current === null || typeof current !== 'object' || !(key in current)) return undefined;
+    current = current[key];
+  }
+  return current;
+};
+
+/**
+ * Resolves $ref and folds allOf into a single schema, so callers only look
+ * at plain keywords. anyOf/oneOf are left to validation.
+ */
+export const resolveSchema = (schema: JsonSchema | undefined, root: JsonSchema, depth = 0): JsonSchema | undefined => {
+  if (!schema || depth > 32) return schema;
+  let resolved = schema;
+  if (schema.$ref) {
+    const { $ref, ...rest } = schema;
+    resolved = { ...resolveSchema(followRef($ref, root), root, depth + 1), ...rest };
+  }
+  if (resolved.allOf) {
+    const { allOf, ...rest } = resolved;
+    resolved = allOf.reduce<JsonSchema>((merged, part) => {
+      const sub = resolveSchema(part, root, depth + 1) || {};
+      return {
+        ...merged,
+        ...sub,
+        properties: { ...merged.properties, ...sub.properties },
+        required: [...(merged.required || []), ...(sub.required || [])]
+      };
+    }, rest);
+  }
+  return resolved;
+};
+
+const valueType = (value: any): JsonSchemaType => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+};
+
+export const schemaTypes = (schema: JsonSchema | undefined): JsonSchemaType[] => {
+  if (!schema) return [];
+  if (schema.type) return Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (schema.properties) return ['object'];
+  if (schema.items) return ['array'];
+  if (schema.const !== undefined) return [valueType(schema.const)];
+  if (schema.enum && schema.enum.length > 0) return Array.from(new Set(schema.enum.map(valueType)));
+  return [];
+};
+
+const matchesType = (value: any, type: JsonSchemaType) => {
+  const actual = valueType(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+const joinPath = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : /^[A-Za-z_$][\w$]*$/.test(key) ? (path ? `${path}.${key}` : key) : `${path}[${JSON.stringify(key)}]`;
+
+const deepEqual = (a: any, b: any): boolean => {
+  if (a === b) return true;
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object' || Array.isArray(a) !== Array.isArray(b)) return false;
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => deepEqual(a[key], b[key]));
+};
+
+const show = (value: any) => JSON.stringify(value);
+
+/**
+ * Validates a value against the schema and returns every violation with the
+ * path where it occurred. Covers types, required and additional properties,
+ * enum/const, string, number and array bounds, and allOf/anyOf/oneOf.
+ */
+export const validateAgainstSchema = (value: any, schema: JsonSchema, root: JsonSchema = schema, path = ''): SchemaError[] => {
+  const s = resolveSchema(schema, root);
+  if (!s) return [];
+  const errors: SchemaError[] = [];
+  const fail = (message: string, at = path) => errors.push({ path: at, message });
+
+  const types = s.type ? schemaTypes(s) : [];
+  if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+    fail(`Expected ${types.join(' or ')} but got ${valueType(value)}`);
+    return errors;
+  }
+  if (s.const !== undefined && !deepEqual(value, s.const)) fail(`Must be ${show(s.const)}`);
+  if (s.enum && !s.enum.some(option => deepEqual(value, option))) fail(`Must be one of ${s.enum.map(show).join(', ')}`);
+
+  if (typeof value === 'string') {
+    if (s.minLength !== undefined && value.length < s.minLength) fail(`Must be at least ${s.minLength} characters`);
+    if (s.maxLength !== undefined && value.length > s.maxLength) fail(`Must be at most ${s.maxLength} characters`);
+    if (s.pattern !== undefined) {
+      try {
+        if (!new RegExp(s.pattern, 'u').test(value)) fail(`Must match /${s.pattern}/`);
+      } catch {
+        fail(`Schema pattern /${s.pattern}/ is not a valid regex`);
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (s.minimum !== undefined && value < s.minimum) fail(`Must be >= ${s.minimum}`);
+    if (s.maximum !== undefined && value > s.maximum) fail(`Must be <= ${s.maximum}`);
+    if (s.exclusiveMinimum !== undefined && value <= s.exclusiveMinimum) fail(`Must be > ${s.exclusiveMinimum}`);
+    if (s.exclusiveMaximum !== undefined && value >= s.exclusiveMaximum) fail(`Must be < ${s.exclusiveMaximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (s.minItems !== undefined && value.length < s.minItems) fail(`Must have at least ${s.minItems} items`);
+    if (s.maxItems !== undefined && value.length > s.maxItems) fail(`Must have at most ${s.maxItems} items`);
+    if (s.items) value.forEach((item, i) => errors.push(...validateAgainstSchema(item, s.items!, root, joinPath(path, i))));
+  }
+
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    (s.required || []).forEach(key => {
+      if (!(key in value)) fail(`Missing required property '${key}'`);
+    });
+    const properties = s.properties || {};
+    Object.keys(value).forEach(key => {
+      const childPath = joinPath(path, key);
+      if (key in properties) {
+        errors.push(...validateAgainstSchema(value[key], properties[key], root, childPath));
+      } else if (s.additionalProperties === false) {
+        fail(`Property '${key}' is not allowed`, childPath);
+      } else if (typeof s.additionalProperties === 'object') {
+        errors.push(...validateAgainstSchema(value[key], s.additionalProperties, root, childPath));
+      }
+    });
+  }
+
+  if (s.anyOf && !s.anyOf.some(option => validateAgainstSchema(value, option, root, path).length === 0)) {
+    fail('Does not match any of the allowed schemas (anyOf)');
+  }
+  if (s.oneOf) {
+    const matches = s.oneOf.filter(option => validateAgainstSchema(value, option, root, path).length === 0).length;
+    if (matches !== 1) fail(`Must match exactly one schema (oneOf) but matches ${matches}`);
+  }
+
+  return errors;
+};
@@ -0,0 +1,1059 @@
+import { UserFunction, RenderOptions, TemplateAnalysis, TemplateIssue, EscapeMode } from './types';
+import { DEFAULT_SANDBOX_OPTIONS } from './defaults';
+import { createIterationGuard, createFunctionCompiler } from './sandbox';
+import { escapeValueAt } from './escaping';
+
+// A self-contained Liquid (Shopify flavour) engine: outputs with filters, the
+// control flow tags, assign/capture and render/include of workspace partials.
+// Output is escaped for the document's escape mode like Handlebars output;
+// the `raw` filter opts out.
+// User functions are filters that receive the piped value as first argument:
+// {{ order.total | formatCurrency: "EUR" }}.
+
+interface Position {
+  line: number; // 1-based
+  column: number; // 0-based, like Handlebars' exceptions
+}
+
+// Errors carry the fields of Handlebars' exceptions, so locateRenderError places them
+const liquidError = (message: string, position?: Position, endColumn?: number) =>
+  Object.assign(new Error(message), position ? {
+    lineNumber: position.line,
+    column: position.column,
+    endLineNumber: position.line,
+    endColumn: endColumn ?? position.column
+  } : {});
+
+// -- Expressions --
+
+type Expr =
+  | { type: 'literal'; value: any; float?: boolean } // `float`: a number written with a decimal point, e.g. 10.0
+  | { type: 'range'; from: Expr; to: Expr }
+  | { type: 'path'; head: string; segments: (string | Expr)[]; position: Position };
+
+interface FilterCall {
+  name: string;
+  args: Expr[];
+  named: Record<string, Expr>;
+  position: Position;
+  end: number; // Column after the filter name
+}
+
+interface FilteredExpr {
+  value: Expr;
+  filters: FilterCall[];
+}
+
+type Condition =
+  | { type: 'compare'; left: Expr; op?: string; right?: Expr }
+  | { type: 'logic'; op: 'and' | 'or'; left: Condition; right: Condition }
+  | { type: 'not'; condition: Condition };
+
+// Markers for the `empty` and `blank` keywords in comparisons
+const EMPTY = Symbol('empty');
+const BLANK = Symbol('blank');
+
+const KEYWORDS: Record<string, any> = { true: true, false: false, nil: null, null: null, empty: EMPTY, blank: BLANK };
+
+interface Lexeme {
+  kind: 'string' | 'number' | 'op' | 'ident' | 'punct';
+  text: string;
+  offset: number;
+}
+
+const LEXEME = /\s*(?:(\.\.)|('[^']*'|"[^"]*")|(-?\d+(?:\.\d+)?)|(==|!=|<>|<=|>=|<|>)|([A-Za-z_][\w-]*\??)|([.[\]()|:,=]))/y;
+
+// Reads one tag or output body; positions are relative to the document
+class ExpressionReader {
+  private lexemes: Lexeme[] = [];
+  private index = 0;
+
+  constructor(private markup: string, private start: number, private positionAt: (offset: number) => Position) {
+    let pos = 0;
+    while (markup.slice(pos).trim()) {
+      LEXEME.lastIndex = pos;
+      const match = LEXEME.exec(markup);
+      if (!match) {
+        const offset = pos + markup.slice(pos).search(/\S/);
+        throw liquidError(`Unexpected character '${markup[offset]}' in "${markup.trim()}"`, this.positionAt(start + offset));
+      }
+      const text = match[0].trimStart();
+      const kind = match[1] ? 'punct' : match[2] ? 'string' : match[3] ? 'number' : match[4] ? 'op' : match[5] ? 'ident' : 'punct';
+      this.lexemes.push({ kind, text, offset: pos + match[0].length - text.length });
+      pos += match[0].length;
+    }
+  }
+
+  position(lexeme = this.peek()): Position {
+    return this.positionAt(this.start + (lexeme ? lexeme.offset : this.markup.length));
+  }
+
+  peek(ahead = 0): Lexeme | undefined {
+    return this.lexemes[this.index + ahead];
+  }
+
+  done() {
+    return this.index >= this.lexemes.length;
+  }
+
+  next(): Lexeme {
+    const lexeme = this.lexemes[this.index++];
+    if (!lexeme) throw liquidError(`Unexpected end of "${this.markup.trim()}"`, this.position());
+    return lexeme;
+  }
+
+  accept(text: string): boolean {
+    if (this.peek()?.text !== text) return false;
+    this.index++;
+    return true;
+  }
+
+  expect(text: string) {
+    const lexeme = this.next();
+    if (lexeme.text !== text) throw liquidError(`Expected '${text}' but found '${lexeme.text}'`, this.position(lexeme));
+  }
+
+  ident(): string {
+    const lexeme = this.next();
+    if (lexeme.kind !== 'ident') throw liquidError(`Expected a name but found '${lexeme.text}'`, this.position(lexeme));
+    return lexeme.text;
+  }
+
+  end() {
+    if (!this.done()) throw liquidError(`Unexpected '${this.peek()!.text}'`, this.position());
+  }
+
+  primary(): Expr {
+    const lexeme = this.next();
+    if (lexeme.kind === 'string') return { type: 'literal', value: lexeme.text.slice(1, -1) };
+    if (lexeme.kind === 'number') return { type: 'literal', value: Number(lexeme.text), float: lexeme.text.includes('.') };
+    if (lexeme.text === '(') {
+      const from = this.primary();
+      this.expect('..');
+      const to = this.primary();
+      this.expect(')');
+      return { type: 'range', from, to };
+    }
+    if (lexeme.kind === 'ident' || lexeme.text === '[') {
+      if (lexeme.kind === 'ident' && lexeme.text in KEYWORDS) return { type: 'literal', value: KEYWORDS[lexeme.text] };
+      const position = this.position(lexeme);
+      let head = lexeme.text;
+      const segments: (string | Expr)[] = [];
+      if (lexeme.text === '[') {
+        // ["key with spaces"] at the start of a path
+        const key = this.primary();
+        this.expect(']');
+        head = key.type === 'literal' ? String(key.value) : '';
+      }
+      while (true) {
+        if (this.peek()?.text === '.' ) {
+          this.index++;
+          segments.push(this.ident());
+        } else if (this.peek()?.text === '[') {
+          this.index++;
+          const key = this.primary();
+          segments.push(key.type === 'literal' ? String(key.value) : key);
+          this.expect(']');
+        } else {
+          break;
+        }
+      }
+      return { type: 'path', head, segments, position };
+    }
+    throw liquidError(`Unexpected '${lexeme.text}'`, this.position(lexeme));
+  }
+
+  filtered(): FilteredExpr {
+    const value = this.primary();
+    const filters: FilterCall[] = [];
+    while (this.accept('|')) {
+      const nameLexeme = this.peek();
+      const name = this.ident();
+      const position = this.position(nameLexeme);
+      const call: FilterCall = { name, args: [], named: {}, position, end: position.column + name.length };
+      if (this.accept(':')) {
+        do {
+          if (this.peek()?.kind === 'ident' && this.peek(1)?.text === ':') {
+            const key = this.ident();
+            this.expect(':');
+            call.named[key] = this.primary();
+          } else {
+            call.args.push(this.primary());
+          }
+        } while (this.accept(','));
+      }
+      filters.push(call);
+    }
+    return { value, filters };
+  }
+
+  // Liquid has no precedence: `a or b and c` groups from the right
+  condition(): Condition {
+    const left = this.comparison();
+    const op = this.peek()?.text;
+    if (op === 'and' || op === 'or') {
+      this.index++;
+      return { type: 'logic', op, left, right: this.condition() };
+    }
+    return left;
+  }
+
+  private comparison(): Condition {
+    const left = this.primary();
+    const op = this.peek();
+    if (op && (op.kind === 'op' || op.text === 'contains')) {
+      this.index++;
+      return { type: 'compare', left, op: op.text, right: this.primary() };
+    }
+    return { type: 'compare', left };
+  }
+}
+
+// -- Templates --
+
+type LiquidNode =
+  | { type: 'text'; value: string }
+  | { type: 'output'; expr: FilteredExpr; lines: string[]; position: Position; end: Position }
+  | { type: 'if'; branches: { condition?: Condition; body: LiquidNode[] }[] }
+  | { type: 'case'; value: Expr; whens: { values: Expr[]; body: LiquidNode[] }[]; otherwise?: LiquidNode[] }
+  | { type: 'for'; variable: string; collection: Expr; limit?: Expr; offset?: Expr; reversed: boolean; body: LiquidNode[]; otherwise?: LiquidNode[]; position: Position }
+  | { type: 'assign'; name: string; value: FilteredExpr }
+  | { type: 'capture'; name: string; body: LiquidNode[] }
+  | { type: 'counter'; name: string; delta: 1 | -1 }
+  | { type: 'cycle'; group: string; values: Expr[] }
+  | { type: 'render'; partial: string; shared: boolean; bindings: Record<string, Expr>; with?: { value: Expr; alias: string }; each?: { value: Expr; alias: string }; position: Position }
+  | { type: 'break' }
+  | { type: 'continue' };
+
+interface RawTag {
+  kind: 'text' | 'output' | 'tag';
+  value: string; // Text, or the markup of an output or tag
+  name?: string;
+  start: number; // Offset of the markup
+  position: Position; // Of the opening delimiter
+  end?: Position; // Past the closing delimiter of an output or tag
+}
+
+const createPositionAt = (source: string) => {
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) if (source[i] === '\n') lineStarts.push(i + 1);
+  return (offset: number): Position => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { line: low + 1, column: offset - lineStarts[low] };
+  };
+};
+
+// Index of `close` after `from`, skipping quoted strings
+const findClose = (source: string, from: number, close: string): number => {
+  let quote: string | null = null;
+  for (let i = from; i < source.length; i++) {
+    const ch = source[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (source.startsWith(close, i)) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+const tokenize = (source: string, positionAt: (offset: number) => Position): RawTag[] => {
+  const tokens: RawTag[] = [];
+  const open = /\{\{-?|\{%-?/g;
+  let pos = 0;
+  let trimNext = false;
+
+  const pushText = (text: string, start: number) => {
+    const value = trimNext ? text.replace(/^\s+/, '') : text;
+    trimNext = false;
+    if (value) tokens.push({ kind: 'text', value, start, position: positionAt(start) });
+  };
+  const trimPrevious = () => {
+    const last = tokens[tokens.length - 1];
+    if (last?.kind === 'text') last.value = last.value.replace(/\s+$/, '');
+  };
+
+  while (pos < source.length) {
+    open.lastIndex = pos;
+    const match = open.exec(source);
+    if (!match) {
+      pushText(source.slice(pos), pos);
+      break;
+    }
+    pushText(source.slice(pos, match.index), pos);
+    const isOutput = match[0].startsWith('{{');
+    const close = isOutput ? '}}' : '%}';
+    const markupStart = match.index + match[0].length;
+    const end = findClose(source, markupStart, close);
+    if (end === -1) throw liquidError(`${isOutput ? "Output '{{'" : "Tag '{%'"} is not closed`, positionAt(match.index));
+
+    let markup = source.slice(markupStart, end);
+    if (match[0].endsWith('-')) trimPrevious();
+    const trimAfter = markup.endsWith('-');
+    if (trimAfter) markup = markup.slice(0, -1);
+    pos = end + close.length;
+
+    if (isOutput) {
+      tokens.push({ kind: 'output', value: markup, start: markupStart, position: positionAt(match.index), end: positionAt(pos) });
+    } else {
+      const name = /^\s*(#|[\w]+)/.exec(markup)?.[1] || '';
+      const rest = markup.slice(markup.indexOf(name) + name.length);
+      if (name === '#') {
+        // Inline comment
+      } else if (name === 'raw' || name === 'comment') {
+        const closing = new RegExp(`\\{%-?\\s*end${name}\\s*-?%\\}`, 'g');
+        closing.lastIndex = pos;
+        const endTag = closing.exec(source);
+        if (!endTag) throw liquidError(`'${name}' is not closed with 'end${name}'`, positionAt(match.index));
+        if (name === 'raw') tokens.push({ kind: 'text', value: source.slice(pos, endTag.index), start: pos, position: positionAt(pos) });
+        pos = endTag.index + endTag[0].length;
+        trimNext = endTag[0].endsWith('-%}');
+        continue;
+      } else {
+        tokens.push({ kind: 'tag', name, value: rest, start: markupStart + markup.indexOf(name) + name.length, position: positionAt(match.index), end: positionAt(pos) });
+      }
+    }
+    trimNext = trimAfter;
+  }
+  return tokens;
+};
+
+// Tags that end or split a block, checked by the enclosing parseBlock
+const BLOCK_MARKERS = ['elsif', 'else', 'when', 'endif', 'endunless', 'endcase', 'endfor', 'endcapture'];
+
+export interface ParsedLiquid {
+  nodes: LiquidNode[];
+  // Every filter call and partial reference, for the analyzer
+  filters: FilterCall[];
+  partials: { name: string; position: Position }[];
+}
+
+export const parseLiquid = (source: string): ParsedLiquid => {
+  const positionAt = createPositionAt(source);
+  const tokens = tokenize(source, positionAt);
+  const filters: FilterCall[] = [];
+  const partials: { name: string; position: Position }[] = [];
+  let index = 0;
+
+  const reader = (token: RawTag) => new ExpressionReader(token.value, token.start, positionAt);
+  // The quote context of an output depends on the text around it
+  const lines = source.split('\n');
+  const filtered = (r: ExpressionReader) => {
+    const expr = r.filtered();
+    filters.push(...expr.filters);
+    return expr;
+  };
+
+  const parseBlock = (until: string[], opener?: RawTag): { nodes: LiquidNode[]; stop?: RawTag } => {
+    const nodes: LiquidNode[] = [];
+    while (index < tokens.length) {
+      const token = tokens[index++];
+      if (token.kind === 'text') {
+        nodes.push({ type: 'text', value: token.value });
+        continue;
+      }
+      if (token.kind === 'output') {
+        const r = reader(token);
+        nodes.push({ type: 'output', expr: filtered(r), lines, position: token.position, end: token.end! });
+        r.end();
+        continue;
+      }
+      if (until.includes(token.name!)) return { nodes, stop: token };
+      if (BLOCK_MARKERS.includes(token.name!)) throw liquidError(`Unexpected '${token.name}'`, token.position);
+      nodes.push(parseTag(token));
+    }
+    if (opener) throw liquidError(`'${opener.name}' is not closed with '${until[until.length - 1]}'`, opener.position);
+    return { nodes };
+  };
+
+  const parseTag = (token: RawTag): LiquidNode => {
+    const r = reader(token);
+    switch (token.name) {
+      case 'if':
+      case 'unless': {
+        const closing = `end${token.name}`;
+        const branches: { condition?: Condition; body: LiquidNode[] }[] = [];
+        let condition: Condition | undefined = r.condition();
+        r.end();
+        if (token.name === 'unless') condition = { type: 'not', condition };
+        while (true) {
+          const { nodes, stop } = parseBlock(['elsif', 'else', closing], token);
+          branches.push({ condition, body: nodes });
+          if (stop!.name === closing) break;
+          if (stop!.name === 'else') {
+            condition = undefined;
+          } else {
+            const next = reader(stop!);
+            condition = next.condition();
+            next.end();
+          }
+        }
+        return { type: 'if', branches };
+      }
+      case 'case': {
+        const value = r.primary();
+        r.end();
+        const whens: { values: Expr[]; body: LiquidNode[] }[] = [];
+        let otherwise: LiquidNode[] | undefined;
+        // Anything before the first `when` is ignored
+        let { stop } = parseBlock(['when', 'else', 'endcase'], token);
+        while (stop!.name !== 'endcase') {
+          if (stop!.name === 'else') {
+            const block = parseBlock(['endcase'], token);
+            otherwise = block.nodes;
+            stop = block.stop;
+            break;
+          }
+          const whenReader = reader(stop!);
+          const values: Expr[] = [];
+          do values.push(whenReader.primary());
+          while (whenReader.accept(',') || whenReader.accept('or'));
+          whenReader.end();
+          const block = parseBlock(['when', 'else', 'endcase'], token);
+          whens.push({ values, body: block.nodes });
+          stop = block.stop;
+        }
+        return { type: 'case', value, whens, otherwise };
+      }
+      case 'for': {
+        const variable = r.ident();
+        if (r.ident() !== 'in') throw liquidError("Expected 'in' in for loop", token.position);
+        const collection = r.primary();
+        let limit: Expr | undefined;
+        let offset: Expr | undefined;
+        let reversed = false;
+        while (!r.done()) {
+          const option = r.ident();
+          if (option === 'reversed') {
+            reversed = true;
+          } else if (option === 'limit' || option === 'offset') {
+            r.expect(':');
+            if (option === 'limit') limit = r.primary();
+            else offset = r.primary();
+          } else {
+            throw liquidError(`Unknown for loop option '${option}'`, token.position);
+          }
+        }
+        const { nodes, stop } = parseBlock(['else', 'endfor'], token);
+        const otherwise = stop!.name === 'else' ? parseBlock(['endfor'], token).nodes : undefined;
+        return { type: 'for', variable, collection, limit, offset, reversed, body: nodes, otherwise, position: token.position };
+      }
+      case 'assign': {
+        const name = r.ident();
+        r.expect('=');
+        const value = filtered(r);
+        r.end();
+        return { type: 'assign', name, value };
+      }
+      case 'capture': {
+        const name = r.ident();
+        r.end();
+        return { type: 'capture', name, body: parseBlock(['endcapture'], token).nodes };
+      }
+      case 'increment':
+      case 'decrement': {
+        const name = r.ident();
+        r.end();
+        return { type: 'counter', name, delta: token.name === 'increment' ? 1 : -1 };
+      }
+      case 'cycle': {
+        const values: Expr[] = [r.primary()];
+        let group: string | undefined;
+        if (r.accept(':')) {
+          group = JSON.stringify(values[0]);
+          values.pop();
+          values.push(r.primary());
+        }
+        while (r.accept(',')) values.push(r.primary());
+        r.end();
+        return { type: 'cycle', group: group ?? JSON.stringify(values), values };
+      }
+      case 'echo': {
+        const expr = filtered(r);
+        r.end();
+        return { type: 'output', expr, lines, position: token.position, end: token.end! };
+      }
+      case 'render':
+      case 'include': {
+        const nameExpr = r.primary();
+        if (nameExpr.type !== 'literal' || typeof nameExpr.value !== 'string') {
+          throw liquidError(`'${token.name}' needs a quoted partial name`, token.position);
+        }
+        const node: LiquidNode = { type: 'render', partial: nameExpr.value, shared: token.name === 'include', bindings: {}, position: token.position };
+        if (r.peek()?.text === 'with' || r.peek()?.text === 'for') {
+          const keyword = r.ident();
+          const value = r.primary();
+          const alias = r.accept('as') ? r.ident() : nameExpr.value;
+          node[keyword === 'with' ? 'with' : 'each'] = { value, alias };
+        }
+        while (r.accept(',')) {
+          const key = r.ident();
+          r.expect(':');
+          node.bindings[key] = r.primary();
+        }
+        r.end();
+        partials.push({ name: nameExpr.value, position: token.position });
+        return node;
+      }
+      case 'break':
+      case 'continue':
+        r.end();
+        return { type: token.name };
+      default:
+        throw liquidError(`Unknown tag '${token.name}'`, token.position);
+    }
+  };
+
+  return { nodes: parseBlock([]).nodes, filters, partials };
+};
+
+// -- Values --
+
+const isTruthy = (value: any) => value !== false && value !== null && value !== undefined;
+
+const isEmpty = (value: any) =>
+  value === '' || (Array.isArray(value) && value.length === 0) || (value !== null && typeof value === 'object' && Object.keys(value).length === 0);
+
+const isBlank = (value: any) =>
+  value === null || value === undefined || value === false || (typeof value === 'string' && !value.trim()) || isEmpty(value);
+
+const toText = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(toText).join('');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const toNumber = (value: any): number => {
+  const number = Number(value);
+  return Number.isFinite(number) ? number : 0;
+};
+
+const toList = (value: any): any[] => {
+  if (Array.isArray(value)) return value;
+  if (value === null || value === undefined || value === '') return [];
+  if (typeof value === 'object') return Object.entries(value);
+  return [value];
+};
+
+const equals = (a: any, b: any): boolean => {
+  if (a === EMPTY) return isEmpty(b);
+  if (b === EMPTY) return isEmpty(a);
+  if (a === BLANK) return isBlank(b);
+  if (b === BLANK) return isBlank(a);
+  if (a === b) return true;
+  if (a === null || b === null || a === undefined || b === undefined) return (a ?? null) === (b ?? null);
+  if (typeof a === 'object' && typeof b === 'object') return JSON.stringify(a) === JSON.stringify(b);
+  return false;
+};
+
+const compare = (op: string, left: any, right: any): boolean => {
+  switch (op) {
+    case '==': return equals(left, right);
+    case '!=':
+    case '<>': return !equals(left, right);
+    case '<': return left < right;
+    case '>': return left > right;
+    case '<=': return left <= right;
+    case '>=': return left >= right;
+    case 'contains':
+      if (typeof left === 'string') return left.includes(toText(right));
+      if (Array.isArray(left)) return left.some(item => equals(item, right));
+      return false;
+    default:
+      throw new Error(`Unknown operator '${op}'`);
+  }
+};
+
+// -- Filters --
+
+const escapeHtml = (value: any) =>
+  toText(value).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Numbers are Unix seconds, as in Liquid; dates are formatted in UTC so previews are stable
+const toLiquidDate = (value: any): Date | null => {
+  if (value === 'now' || value === 'today') return new Date();
+  if (value instanceof Date) return value;
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d+$/.test(value))) return new Date(Number(value) * 1000);
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const strftime = (date: Date, format: string): string =>
+  format.replace(/%([-]?)([a-zA-Z%])/g, (match, flag: string, code: string) => {
+    const trim = (text: string) => (flag === '-' ? text.replace(/^0+(?=\d)/, '') : text);
+    const hours12 = date.getUTCHours() % 12 || 12;
+    switch (code) {
+      case 'Y': return String(date.getUTCFullYear());
+      case 'y': return pad(date.getUTCFullYear() % 100);
+      case 'm': return trim(pad(date.getUTCMonth() + 1));
+      case 'd': return trim(pad(date.getUTCDate()));
+      case 'e': return String(date.getUTCDate()).padStart(2, ' ');
+      case 'H': return trim(pad(date.getUTCHours()));
+      case 'I': return trim(pad(hours12));
+      case 'l': return String(hours12);
+      case 'M': return pad(date.getUTCMinutes());
+      case 'S': return pad(date.getUTCSeconds());
+      case 'L': return pad(date.getUTCMilliseconds(), 3);
+      case 'p': return date.getUTCHours() < 12 ? 'AM' : 'PM';
+      case 'P': return date.getUTCHours() < 12 ? 'am' : 'pm';
+      case 'B': return MONTHS[date.getUTCMonth()];
+      case 'b':
+      case 'h': return MONTHS[date.getUTCMonth()].slice(0, 3);
+      case 'A': return DAYS[date.getUTCDay()];
+      case 'a': return DAYS[date.getUTCDay()].slice(0, 3);
+      case 'j': return pad(Math.floor((date.getTime() - Date.UTC(date.getUTCFullYear(), 0, 1)) / 86400000) + 1, 3);
+      case 's': return String(Math.floor(date.getTime() / 1000));
+      case 'z': return '+0000';
+      case 'Z': return 'UTC';
+      case 'F': return date.toISOString().slice(0, 10);
+      case 'T': return date.toISOString().slice(11, 19);
+      case '%': return '%';
+      default: return match;
+    }
+  });
+
+const property = (item: any, key: string) => (item !== null && typeof item === 'object' ? item[key] : undefined);
+
+// Moves the decimal point in the exponent rather than multiplying, so 1.005 rounds to 1.01 and not 1
+const shiftDecimals = (value: number, places: number) => {
+  const [mantissa, exponent = '0'] = String(value).split('e');
+  return Number(`${mantissa}e${Number(exponent) + places}`);
+};
+
+const roundTo = (value: any, digits: any = 0) => shiftDecimals(Math.round(shiftDecimals(toNumber(value), toNumber(digits))), -toNumber(digits));
+
+// Two integers divide like integers, as in Ruby; a float such as 10.0 does not
+const divide = (value: any, divisor: any, float: boolean) => {
+  const a = toNumber(value);
+  const b = toNumber(divisor);
+  if (b === 0) throw new Error('divided by 0');
+  return !float && Number.isInteger(a) && Number.isInteger(b) && typeof divisor !== 'string' ? Math.floor(a / b) : a / b;
+};
+
+// `float`: the input or an argument is a float in Ruby's sense, e.g. the literal 10.0
+type Filter = (input: any, args: any[], named: Record<string, any>, float: boolean) => any;
+
+// Filters whose result stays a float when their input or an argument is one
+const ARITHMETIC_FILTERS = ['plus', 'minus', 'times', 'divided_by', 'modulo', 'abs', 'at_least', 'at_most'];
+
+// Filters whose result is already escaped for these modes; an output ending with one is written as-is
+const ESCAPING_FILTERS: Record<string, EscapeMode[]> = {
+  escape: ['html', 'xml'],
+  escape_once: ['html', 'xml'],
+  json: ['json']
+};
+
+const FILTERS: Record<string, Filter> = {
+  // Strings
+  append: (input, [text]) => toText(input) + toText(text),
+  prepend: (input, [text]) => toText(text) + toText(input),
+  capitalize: input => toText(input).charAt(0).toUpperCase() + toText(input).slice(1).toLowerCase(),
+  downcase: input => toText(input).toLowerCase(),
+  upcase: input => toText(input).toUpperCase(),
+  strip: input => toText(input).trim(),
+  lstrip: input => toText(input).replace(/^\s+/, ''),
+  rstrip: input => toText(input).replace(/\s+$/, ''),
+  strip_newlines: input => toText(input).replace(/\r?\n/g, ''),
+  newline_to_br: input => toText(input).replace(/\r?\n/g, '<br />\n'),
+  strip_html: input => toText(input).replace(/<script[\s\S]*?<\/script>|<style[\s\S]*?<\/style>|<!--[\s\S]*?-->|<[^>]*>/g, ''),
+  replace: (input, [search, replacement]) => toText(input).split(toText(search)).join(toText(replacement)),
+  replace_first: (input, [search, replacement]) => toText(input).replace(toText(search), () => toText(replacement)),
+  remove: (input, [search]) => toText(input).split(toText(search)).join(''),
+  remove_first: (input, [search]) => toText(input).replace(toText(search), ''),
+  split: (input, [separator]) => toText(input).split(toText(separator)),
+  truncate: (input, [length = 50, ellipsis = '...']) => {
+    const text = toText(input);
+    const max = toNumber(length);
+    if (text.length <= max) return text;
+    return text.slice(0, Math.max(max - toText(ellipsis).length, 0)) + toText(ellipsis);
+  },
+  truncatewords: (input, [count = 15, ellipsis = '...']) => {
+    const words = toText(input).split(/\s+/).filter(Boolean);
+    const max = Math.max(toNumber(count), 1);
+    return words.length <= max ? words.join(' ') : words.slice(0, max).join(' ') + toText(ellipsis);
+  },
+  slice: (input, [start, length = 1]) => {
+    const list = Array.isArray(input) ? input : toText(input);
+    const from = toNumber(start) < 0 ? list.length + toNumber(start) : toNumber(start);
+    return list.slice(from, from + toNumber(length));
+  },
+  escape: input => escapeHtml(input),
+  escape_once: input => escapeHtml(toText(input).replace(/&(amp|lt|gt|quot|#39);/g, (_m, entity) => ({ amp: '&', lt: '<', gt: '>', quot: '"', '#39': "'" } as any)[entity])),
+  url_encode: input => encodeURIComponent(toText(input)).replace(/%20/g, '+'),
+  url_decode: input => decodeURIComponent(toText(input).replace(/\+/g, ' ')),
+  // Lists
+  size: input => (Array.isArray(input) || typeof input === 'string' ? input.length : input && typeof input === 'object' ? Object.keys(input).length : 0),
+  join: (input, [separator = ' ']) => toList(input).map(toText).join(toText(separator)),
+  first: input => (Array.isArray(input) ? input[0] : typeof input === 'string' ? input[0] : undefined),
+  last: input => (Array.isArray(input) ? input[input.length - 1] : typeof input === 'string' ? input[input.length - 1] : undefined),
+  map: (input, [key]) => toList(input).map(item => property(item, toText(key))),
+  where: (input, [key, value], named) =>
+    toList(input).filter(item => (value === undefined && !('1' in named) ? isTruthy(property(item, toText(key))) : equals(property(item, toText(key)), value))),
+  sort: (input, [key]) => [...toList(input)].sort((a, b) => {
+    const x = key === undefined ? a : property(a, toText(key));
+    const y = key === undefined ? b : property(b, toText(key));
+    return x < y ? -1 : x > y ? 1 : 0;
+  }),
+  sort_natural: (input, [key]) => [...toList(input)].sort((a, b) =>
+    toText(key === undefined ? a : property(a, toText(key))).localeCompare(toText(key === undefined ? b : property(b, toText(key))), undefined, { sensitivity: 'base' })),
+  reverse: input => [...toList(input)].reverse(),
+  uniq: input => Array.from(new Set(toList(input))),
+  compact: input => toList(input).filter(item => item !== null && item !== undefined),
+  concat: (input, [other]) => [...toList(input), ...toList(other)],
+  sum: (input, [key]) => toList(input).reduce((total, item) => total + toNumber(key === undefined ? item : property(item, toText(key))), 0),
+  // Numbers
+  plus: (input, [n]) => toNumber(input) + toNumber(n),
+  minus: (input, [n]) => toNumber(input) - toNumber(n),
+  times: (input, [n]) => toNumber(input) * toNumber(n),
+  divided_by: (input, [n], _named, float) => divide(input, n, float),
+  modulo: (input, [n]) => toNumber(input) % toNumber(n),
+  round: (input, [digits]) => roundTo(input, digits),
+  ceil: input => Math.ceil(toNumber(input)),
+  floor: input => Math.floor(toNumber(input)),
+  abs: input => Math.abs(toNumber(input)),
+  at_least: (input, [n]) => Math.max(toNumber(input), toNumber(n)),
+  at_most: (input, [n]) => Math.min(toNumber(input), toNumber(n)),
+  // Other
+  default: (input, [fallback], named) => {
+    const missing = input === null || input === undefined || input === '' || isEmpty(input) || (input === false && !named.allow_false);
+    return missing ? fallback : input;
+  },
+  date: (input, [format]) => {
+    const date = toLiquidDate(input);
+    return date && format !== undefined ? strftime(date, toText(format)) : input;
+  },
+  json: input => JSON.stringify(input ?? null),
+  // Opts out of the output escaping
+  raw: input => input
+};
+
+export const LIQUID_FILTER_NAMES = Object.keys(FILTERS);
+
+// -- Rendering --
+
+type Signal = 'break' | 'continue' | undefined;
+
+interface RenderState {
+  scopes: Record<string, any>[]; // Looked up innermost (last) first
+  assigns: Record<string, any>; // Target of assign and capture, one of the scopes
+  counters: Record<string, number>;
+  cycles: Record<string, number>;
+  depth: number; // Partial nesting
+}
+
+const MAX_PARTIAL_DEPTH = 20;
+
+/**
+ * Renders a Liquid template. Partials are the workspace partials, included
+ * with {% render 'name' %} (isolated scope) or {% include 'name' %}.
+ */
+export const renderLiquid = (
+  template: string,
+  context: Record<string, any>,
+  functions: UserFunction[],
+  options: RenderOptions = {}
+): string => {
+  const { maxIterations, escape = 'html' } = { ...DEFAULT_SANDBOX_OPTIONS, ...options };
+  const guard = createIterationGuard(maxIterations);
+  const compile = createFunctionCompiler(functions, options.sharedModule ?? '', guard);
+  const userFunctions = new Map(functions.map(f => [f.name, f]));
+  const partials = new Map((options.partials || []).map(p => [p.name, p]));
+  const parsedPartials = new Map<string, ParsedLiquid>();
+
+  const lookup = (state: RenderState, name: string) => {
+    for (let i = state.scopes.length - 1; i >= 0; i--) {
+      if (name in state.scopes[i]) return state.scopes[i][name];
+    }
+    return undefined;
+  };
+
+  const evaluate = (expr: Expr, state: RenderState): any => {
+    if (expr.type === 'literal') return expr.value;
+    if (expr.type === 'range') {
+      const from = Math.trunc(toNumber(evaluate(expr.from, state)));
+      const to = Math.trunc(toNumber(evaluate(expr.to, state)));
+      const list: number[] = [];
+      for (let i = from; i <= to; i++) {
+        guard();
+        list.push(i);
+      }
+      return list;
+    }
+    let value = lookup(state, expr.head);
+    for (const segment of expr.segments) {
+      const key = typeof segment === 'string' ? segment : evaluate(segment, state);
+      if (value === null || value === undefined) return undefined;
+      if (Array.isArray(value) || typeof value === 'string') {
+        if (key === 'size') value = value.length;
+        else if (key === 'first') value = value[0];
+        else if (key === 'last') value = value[value.length - 1];
+        else if (typeof key === 'number' || /^-?\d+$/.test(String(key))) value = value[Number(key) < 0 ? value.length + Number(key) : Number(key)];
+        else value = (value as any)[key];
+      } else if (typeof value === 'object') {
+        value = key === 'size' && !('size' in value) ? Object.keys(value).length : value[key];
+      } else {
+        return undefined;
+      }
+    }
+    return value;
+  };
+
+  const isFloatLiteral = (expr: Expr) => expr.type === 'literal' && expr.float === true;
+
+  const applyFilters = (expr: FilteredExpr, state: RenderState): any => {
+    let value = evaluate(expr.value, state);
+    // Floats stay floats through arithmetic, so `10.0 | divided_by: 4` is 2.5
+    let float = isFloatLiteral(expr.value);
+    for (const filter of expr.filters) {
+      const args = filter.args.map(arg => evaluate(arg, state));
+      const floatInput = float || filter.args.some(isFloatLiteral);
+      const named = Object.fromEntries(Object.entries(filter.named).map(([key, arg]) => [key, evaluate(arg, state)]));
+      try {
+        const func = userFunctions.get(filter.name);
+        if (func) {
+          value = compile(func)(value, ...args);
+        } else if (FILTERS[filter.name]) {
+          value = FILTERS[filter.name](value, args, named, floatInput);
+        } else {
+          throw new Error(`Unknown filter '${filter.name}'`);
+        }
+      } catch (e: any) {
+        if (e instanceof Error && (e as any).lineNumber === undefined) {
+          Object.assign(e, { lineNumber: filter.position.line, column: filter.position.column, endLineNumber: filter.position.line, endColumn: filter.end });
+        }
+        throw e;
+      }
+      float = typeof value === 'number' && (!Number.isInteger(value) || (floatInput && ARITHMETIC_FILTERS.includes(filter.name)));
+    }
+    return value;
+  };
+
+  // JSON, YAML and SQL get the value itself, so outside quotes it becomes a literal of the format; other modes escape its text
+  const escapeOutput = (node: Extract<LiquidNode, { type: 'output' }>, value: any) => {
+    const last = node.expr.filters[node.expr.filters.length - 1]?.name;
+    if (escape === 'none' || last === 'raw' || (last !== undefined && ESCAPING_FILTERS[last]?.includes(escape))) return toText(value);
+    return escapeValueAt(escape, node.lines, { start: node.position, end: node.end }, ['json', 'yaml', 'sql'].includes(escape) ? value : toText(value));
+  };
+
+  const test = (condition: Condition, state: RenderState): boolean => {
+    if (condition.type === 'logic') {
+      return condition.op === 'and'
+        ? test(condition.left, state) && test(condition.right, state)
+        : test(condition.left, state) || test(condition.right, state);
+    }
+    if (condition.type === 'not') return !test(condition.condition, state);
+    const left = evaluate(condition.left, state);
+    if (!condition.op) return isTruthy(left) && left !== EMPTY && left !== BLANK;
+    return compare(condition.op, left, evaluate(condition.right!, state));
+  };
+
+  const renderNodes = (nodes: LiquidNode[], state: RenderState, out: string[]): Signal => {
+    for (const node of nodes) {
+      const signal = renderNode(node, state, out);
+      if (signal) return signal;
+    }
+    return undefined;
+  };
+
+  const renderNode = (node: LiquidNode, state: RenderState, out: string[]): Signal => {
+    switch (node.type) {
+      case 'text':
+        out.push(node.value);
+        return undefined;
+      case 'output':
+        out.push(escapeOutput(node, applyFilters(node.expr, state)));
+        return undefined;
+      case 'if': {
+        const branch = node.branches.find(b => !b.condition || test(b.condition, state));
+        return branch ? renderNodes(branch.body, state, out) : undefined;
+      }
+      case 'case': {
+        const value = evaluate(node.value, state);
+        const matching = node.whens.filter(when => when.values.some(v => equals(evaluate(v, state), value)));
+        for (const when of matching) {
+          const signal = renderNodes(when.body, state, out);
+          if (signal) return signal;
+        }
+        return matching.length === 0 && node.otherwise ? renderNodes(node.otherwise, state, out) : undefined;
+      }
+      case 'for': {
+        let items = toList(evaluate(node.collection, state));
+        const offset = node.offset ? Math.max(toNumber(evaluate(node.offset, state)), 0) : 0;
+        const limit = node.limit ? toNumber(evaluate(node.limit, state)) : undefined;
+        items = items.slice(offset, limit !== undefined ? offset + limit : undefined);
+        if (node.reversed) items = [...items].reverse();
+        if (items.length === 0) return node.otherwise ? renderNodes(node.otherwise, state, out) : undefined;
+
+        const scope: Record<string, any> = {};
+        state.scopes.push(scope);
+        try {
+          for (let i = 0; i < items.length; i++) {
+            guard();
+            scope[node.variable] = items[i];
+            scope.forloop = {
+              index: i + 1,
+              index0: i,
+              rindex: items.length - i,
+              rindex0: items.length - i - 1,
+              first: i === 0,
+              last: i === items.length - 1,
+              length: items.length
+            };
+            if (renderNodes(node.body, state, out) === 'break') break;
+          }
+        } finally {
+          state.scopes.pop();
+        }
+        return undefined;
+      }
+      case 'assign':
+        state.assigns[node.name] = applyFilters(node.value, state);
+        return undefined;
+      case 'capture': {
+        const captured: string[] = [];
+        const signal = renderNodes(node.body, state, captured);
+        state.assigns[node.name] = captured.join('');
+        return signal;
+      }
+      case 'counter': {
+        // Counters are separate from assigned variables; decrement starts below 0
+        const current = state.counters[node.name] ?? 0;
+        if (node.delta === 1) {
+          out.push(String(current));
+          state.counters[node.name] = current + 1;
+        } else {
+          out.push(String(current - 1));
+          state.counters[node.name] = current - 1;
+        }
+        return undefined;
+      }
+      case 'cycle': {
+        const position = state.cycles[node.group] ?? 0;
+        out.push(toText(evaluate(node.values[position % node.values.length], state)));
+        state.cycles[node.group] = position + 1;
+        return undefined;
+      }
+      case 'render':
+        renderPartial(node, state, out);
+        return undefined;
+      case 'break':
+      case 'continue':
+        return node.type;
+    }
+  };
+
+  const renderPartial = (node: Extract<LiquidNode, { type: 'render' }>, state: RenderState, out: string[]) => {
+    const partial = partials.get(node.partial);
+    if (!partial) throw liquidError(`The partial ${node.partial} could not be found`, node.position);
+    if (state.depth >= MAX_PARTIAL_DEPTH) throw liquidError(`Partials nested deeper than ${MAX_PARTIAL_DEPTH} levels`, node.position);
+
+    let parsed = parsedPartials.get(partial.name);
+    if (!parsed) {
+      try {
+        parsed = parseLiquid(partial.content);
+      } catch (e: any) {
+        throw Object.assign(e, { partial: partial.name });
+      }
+      parsedPartials.set(partial.name, parsed);
+    }
+
+    const bindings = Object.fromEntries(Object.entries(node.bindings).map(([key, expr]) => [key, evaluate(expr, state)]));
+    // `render` sees the data and what is passed in; `include` shares the caller's variables
+    const runWith = (extra: Record<string, any>) => {
+      const assigns = node.shared ? state.assigns : {};
+      const scoped: RenderState = {
+        ...state,
+        scopes: node.shared ? [...state.scopes, { ...bindings, ...extra }] : [context, { ...bindings, ...extra }, assigns],
+        assigns,
+        depth: state.depth + 1
+      };
+      try {
+        renderNodes(parsed!.nodes, scoped, out);
+      } catch (e: any) {
+        if (e instanceof Error && (e as any).partial === undefined) Object.assign(e, { partial: partial.name });
+        throw e;
+      }
+    };
+
+    if (node.each) {
+      const items = toList(evaluate(node.each.value, state));
+      items.forEach((item, i) => runWith({ [node.each!.alias]: item, forloop: { index: i + 1, index0: i, first: i === 0, last: i === items.length - 1, length: items.length } }));
+    } else if (node.with) {
+      runWith({ [node.with.alias]: evaluate(node.with.value, state) });
+    } else {
+      runWith({});
+    }
+  };
+
+  const { nodes } = parseLiquid(template);
+  const out: string[] = [];
+  // Assigns go into their own scope so the caller's context is never modified
+  const assigns = {};
+  renderNodes(nodes, { scopes: [context, assigns], assigns, counters: {}, cycles: {}, depth: 0 }, out);
+  return out.join('');
+};
+
+// -- Analysis --
+
+/**
+ * Syntax errors, unknown filters (reported as missing functions, so they can
+ * be created from the tools panel), argument counts of user function filters
+ * and missing partials. Variables are not checked.
+ */
+export const analyzeLiquid = (
+  template: string,
+  functions: UserFunction[],
+  partialNames: string[]
+): TemplateAnalysis => {
+  const issues: TemplateIssue[] = [];
+  let parsed: ParsedLiquid;
+  try {
+    parsed = parseLiquid(template);
+  } catch (e: any) {
+    issues.push({ kind: 'syntax', severity: 'error', message: e.message, line: e.lineNumber ?? 1, column: (e.column ?? 0) + 1 });
+    return { issues, missingFunctions: [], missingPartials: [] };
+  }
+
+  const userFunctions = new Map(functions.map(f => [f.name, f]));
+  const missing = new Set<string>();
+  parsed.filters.forEach(filter => {
+    const at = { line: filter.position.line, column: filter.position.column + 1, endLine: filter.position.line, endColumn: filter.end + 1, name: filter.name };
+    const func = userFunctions.get(filter.name);
+    if (func) {
+      // The piped value is the first argument
+      const argCount = filter.args.length + 1;
+      if (argCount > func.params.length && func.params.length > 0) {
+        issues.push({ kind: 'argument-count', severity: 'warning', message: `Function '${func.name}' expects ${func.params.length} argument${func.params.length === 1 ? '' : 's'} (${func.params.join(', ')}) but got ${argCount} (the piped value counts)`, ...at });
+      }
+      if (func.testStatus === 'failed') {
+        issues.push({ kind: 'failing-function', severity: 'warning', message: `Function '${func.name}' fails its tests`, ...at });
+      }
+    } else if (!FILTERS[filter.name]) {
+      missing.add(filter.name);
+      issues.push({ kind: 'missing-function', severity: 'error', message: `Filter '${filter.name}' is not defined`, ...at });
+    }
+  });
+
+  const known = new Set(partialNames);
+  const missingPartials = new Set<string>();
+  parsed.partials.forEach(partial => {
+    if (known.has(partial.name)) return;
+    missingPartials.add(partial.name);
+    issues.push({ kind: 'missing-partial', severity: 'error', message: `Partial '${partial.name}' is not defined`, line: partial.position.line, column: partial.position.column + 1, name: partial.name });
+  });
+
+  return { issues, missingFunctions: Array.from(missing), missingPartials: Array.from(missingPartials) };
+};
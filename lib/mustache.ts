@@ -0,0 +1,312 @@
+import { UserFunction, RenderOptions, TemplateAnalysis, TemplateIssue } from './types';
+import { DEFAULT_SANDBOX_OPTIONS } from './defaults';
+import { createIterationGuard, createFunctionCompiler } from './sandbox';
+import { escapeValue, escapeValueAt } from './escaping';
+
+// A self-contained Mustache engine following the spec: variables, sections,
+// inverted sections, comments, partials (with standalone indentation) and
+// delimiter changes. There is no helper syntax; a user function is used where
+// a name is not found in the data, as a lambda: {{#upper}}text{{/upper}}
+// calls upper(renderedText), {{today}} calls today().
+
+interface Position {
+  line: number; // 1-based
+  column: number; // 0-based, like Handlebars' exceptions
+}
+
+const mustacheError = (message: string, position: Position) =>
+  Object.assign(new Error(message), {
+    lineNumber: position.line,
+    column: position.column,
+    endLineNumber: position.line,
+    endColumn: position.column
+  });
+
+type MustacheNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string; escape: boolean; lines: string[]; position: Position; end: Position }
+  | { type: 'section'; name: string; inverted: boolean; children: MustacheNode[]; position: Position }
+  | { type: 'partial'; name: string; indent: string; position: Position };
+
+export interface ParsedMustache {
+  nodes: MustacheNode[];
+  // Every name and partial reference with the sections it is nested in, for the analyzer
+  references: { name: string; kind: 'variable' | 'section' | 'partial'; depth: number; position: Position }[];
+}
+
+const STANDALONE_TYPES = ['#', '^', '/', '!', '>', '='];
+
+export const parseMustache = (source: string): ParsedMustache => {
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) if (source[i] === '\n') lineStarts.push(i + 1);
+  const positionAt = (offset: number): Position => {
+    let line = lineStarts.length - 1;
+    while (lineStarts[line] > offset) line--;
+    return { line: line + 1, column: offset - lineStarts[line] };
+  };
+  // The quote context of a variable depends on the text around it
+  const lines = source.split('\n');
+
+  const root: MustacheNode[] = [];
+  const references: ParsedMustache['references'] = [];
+  // Open sections, innermost last
+  const stack: { node: Extract<MustacheNode, { type: 'section' }>; parent: MustacheNode[] }[] = [];
+  let current = root;
+  let open = '{{';
+  let close = '}}';
+  let pos = 0;
+
+  while (pos < source.length) {
+    const tagStart = source.indexOf(open, pos);
+    if (tagStart === -1) {
+      current.push({ type: 'text', value: source.slice(pos) });
+      break;
+    }
+    if (tagStart > pos) current.push({ type: 'text', value: source.slice(pos, tagStart) });
+
+    const position = positionAt(tagStart);
+    let contentStart = tagStart + open.length;
+    let type = source[contentStart];
+    let tagEnd: number;
+    let content: string;
+
+    if (type === '{' && open === '{{') {
+      // {{{name}}} ends with an extra brace
+      const end = source.indexOf('}' + close, contentStart + 1);
+      if (end === -1) throw mustacheError(`Tag '${open}{' is not closed with '}${close}'`, position);
+      content = source.slice(contentStart + 1, end);
+      tagEnd = end + 1 + close.length;
+      type = '&';
+    } else {
+      const end = source.indexOf(close, contentStart);
+      if (end === -1) throw mustacheError(`Tag '${open}' is not closed with '${close}'`, position);
+      if (['#', '^', '/', '!', '>', '&', '='].includes(type)) contentStart++;
+      else type = '';
+      content = source.slice(contentStart, end);
+      tagEnd = end + close.length;
+    }
+
+    // A standalone tag alone on its line removes the whole line
+    let indent = '';
+    if (STANDALONE_TYPES.includes(type)) {
+      const lineStart = source.lastIndexOf('\n', tagStart - 1) + 1;
+      const lineEnd = source.indexOf('\n', tagEnd);
+      const before = source.slice(lineStart, tagStart);
+      const after = source.slice(tagEnd, lineEnd === -1 ? source.length : lineEnd);
+      if (/^[ \t]*$/.test(before) && /^[ \t]*\r?$/.test(after)) {
+        const previous = current[current.length - 1];
+        if (before && previous?.type === 'text') {
+          previous.value = previous.value.slice(0, -before.length);
+          if (!previous.value) current.pop();
+        }
+        indent = before;
+        tagEnd = lineEnd === -1 ? source.length : lineEnd + 1;
+      }
+    }
+    pos = tagEnd;
+
+    const name = content.trim();
+    switch (type) {
+      case '!':
+        break;
+      case '=': {
+        const delimiters = content.replace(/=$/, '').trim().split(/\s+/);
+        if (delimiters.length !== 2 || !content.endsWith('=')) throw mustacheError(`Invalid delimiters '${content}'`, position);
+        [open, close] = delimiters;
+        break;
+      }
+      case '#':
+      case '^': {
+        const node: MustacheNode = { type: 'section', name, inverted: type === '^', children: [], position };
+        references.push({ name, kind: 'section', depth: stack.length, position });
+        current.push(node);
+        stack.push({ node, parent: current });
+        current = node.children;
+        break;
+      }
+      case '/': {
+        const section = stack.pop();
+        if (!section) throw mustacheError(`Closing tag '${name}' has no open section`, position);
+        if (section.node.name !== name) throw mustacheError(`Section '${section.node.name}' is closed with '${name}'`, position);
+        current = section.parent;
+        break;
+      }
+      case '>':
+        references.push({ name, kind: 'partial', depth: stack.length, position });
+        current.push({ type: 'partial', name, indent, position });
+        break;
+      default:
+        if (!name) throw mustacheError('Empty tag', position);
+        references.push({ name, kind: 'variable', depth: stack.length, position });
+        current.push({ type: 'variable', name, escape: type !== '&', lines, position, end: positionAt(tagEnd) });
+    }
+  }
+
+  if (stack.length > 0) {
+    const section = stack[stack.length - 1].node;
+    throw mustacheError(`Section '${section.name}' is not closed`, section.position);
+  }
+  return { nodes: root, references };
+};
+
+const MAX_PARTIAL_DEPTH = 20;
+
+const toText = (value: any) => escapeValue('none', 'none', value);
+
+/**
+ * Renders a Mustache template. `{{name}}` is escaped for the document's
+ * escape mode like Handlebars output; `{{{name}}}` and `{{&name}}` are not.
+ */
+export const renderMustache = (
+  template: string,
+  context: Record<string, any>,
+  functions: UserFunction[],
+  options: RenderOptions = {}
+): string => {
+  const { maxIterations, escape = 'html' } = { ...DEFAULT_SANDBOX_OPTIONS, ...options };
+  const guard = createIterationGuard(maxIterations);
+  const compile = createFunctionCompiler(functions, options.sharedModule ?? '', guard);
+  const userFunctions = new Map(functions.map(f => [f.name, f]));
+  const partials = new Map((options.partials || []).map(p => [p.name, p]));
+  const parsedPartials = new Map<string, ParsedMustache>();
+
+  // Names resolve against the innermost context that has their first part
+  const lookup = (stack: any[], name: string) => {
+    if (name === '.') return stack[stack.length - 1];
+    const [head, ...rest] = name.split('.');
+    let value: any;
+    let found = false;
+    for (let i = stack.length - 1; i >= 0; i--) {
+      const scope = stack[i];
+      if (scope !== null && typeof scope === 'object' && head in scope) {
+        value = scope[head];
+        found = true;
+        break;
+      }
+    }
+    if (!found) return undefined;
+    for (const key of rest) {
+      if (value === null || value === undefined) return undefined;
+      value = value[key];
+    }
+    return value;
+  };
+
+  const call = (name: string, node: { position: Position }, ...args: any[]) => {
+    try {
+      return compile(userFunctions.get(name)!)(...args);
+    } catch (e: any) {
+      if (e instanceof Error && (e as any).lineNumber === undefined) {
+        Object.assign(e, { lineNumber: node.position.line, column: node.position.column, endLineNumber: node.position.line, endColumn: node.position.column });
+      }
+      throw e;
+    }
+  };
+
+  const isFalsy = (value: any) => !value || (Array.isArray(value) && value.length === 0);
+
+  const renderNodes = (nodes: MustacheNode[], stack: any[], out: string[], depth: number) => {
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text':
+          out.push(node.value);
+          break;
+        case 'variable': {
+          let value = lookup(stack, node.name);
+          if (value === undefined && userFunctions.has(node.name)) value = call(node.name, node);
+          out.push(node.escape
+            ? escapeValueAt(escape, node.lines, { start: node.position, end: node.end }, value)
+            : toText(value));
+          break;
+        }
+        case 'section': {
+          const value = lookup(stack, node.name);
+          if (value === undefined && userFunctions.has(node.name)) {
+            if (node.inverted) break;
+            const inner: string[] = [];
+            renderNodes(node.children, stack, inner, depth);
+            out.push(toText(call(node.name, node, inner.join(''))));
+          } else if (node.inverted) {
+            if (isFalsy(value)) renderNodes(node.children, stack, out, depth);
+          } else if (Array.isArray(value)) {
+            for (const item of value) {
+              guard();
+              renderNodes(node.children, [...stack, item], out, depth);
+            }
+          } else if (!isFalsy(value)) {
+            renderNodes(node.children, [...stack, value], out, depth);
+          }
+          break;
+        }
+        case 'partial': {
+          const partial = partials.get(node.name);
+          if (!partial) throw mustacheError(`The partial ${node.name} could not be found`, node.position);
+          if (depth >= MAX_PARTIAL_DEPTH) throw mustacheError(`Partials nested deeper than ${MAX_PARTIAL_DEPTH} levels`, node.position);
+          // A standalone partial is indented like its tag
+          const key = `${node.indent}\u0000${partial.name}`;
+          let parsed = parsedPartials.get(key);
+          try {
+            if (!parsed) {
+              parsed = parseMustache(node.indent ? partial.content.replace(/^(?=.)/gm, node.indent) : partial.content);
+              parsedPartials.set(key, parsed);
+            }
+            renderNodes(parsed.nodes, stack, out, depth + 1);
+          } catch (e: any) {
+            if (e instanceof Error && (e as any).partial === undefined) Object.assign(e, { partial: partial.name });
+            throw e;
+          }
+          break;
+        }
+      }
+    }
+  };
+
+  const out: string[] = [];
+  renderNodes(parseMustache(template).nodes, [context], out, 0);
+  return out.join('');
+};
+
+/**
+ * Syntax errors, missing partials and functions that fail their tests. With a
+ * sample context, top-level names that are neither data nor a user function
+ * are reported; names inside sections may come from the section's value.
+ */
+export const analyzeMustache = (
+  template: string,
+  functions: UserFunction[],
+  partialNames: string[],
+  variables?: Record<string, any>
+): TemplateAnalysis => {
+  const issues: TemplateIssue[] = [];
+  let parsed: ParsedMustache;
+  try {
+    parsed = parseMustache(template);
+  } catch (e: any) {
+    issues.push({ kind: 'syntax', severity: 'error', message: e.message, line: e.lineNumber ?? 1, column: (e.column ?? 0) + 1 });
+    return { issues, missingFunctions: [], missingPartials: [] };
+  }
+
+  const userFunctions = new Map(functions.map(f => [f.name, f]));
+  const known = new Set(partialNames);
+  const missingPartials = new Set<string>();
+  parsed.references.forEach(ref => {
+    const at = { line: ref.position.line, column: ref.position.column + 1, name: ref.name };
+    if (ref.kind === 'partial') {
+      if (known.has(ref.name)) return;
+      missingPartials.add(ref.name);
+      issues.push({ kind: 'missing-partial', severity: 'error', message: `Partial '${ref.name}' is not defined`, ...at });
+      return;
+    }
+    const head = ref.name.split('.')[0];
+    const func = userFunctions.get(ref.name);
+    if (func && !(variables && head in variables)) {
+      if (func.testStatus === 'failed') {
+        issues.push({ kind: 'failing-function', severity: 'warning', message: `Function '${func.name}' fails its tests`, ...at });
+      }
+    } else if (variables && ref.depth === 0 && ref.name !== '.' && !(head in variables)) {
+      issues.push({ kind: 'unknown-variable', severity: 'warning', message: `Unknown variable '${ref.name}'`, ...at });
+    }
+  });
+
+  return { issues, missingFunctions: [], missingPartials: Array.from(missingPartials) };
+};
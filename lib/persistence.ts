@@ -0,0 +1,241 @@
+import { EditorType, PersistedAppState } from './types';
+import {
+  DEFAULT_SCENARIOS,
+  DEFAULT_VARIABLES_SCHEMA,
+  DEFAULT_DOCUMENTS,
+  DEFAULT_FUNCTIONS,
+  DEFAULT_PARTIALS,
+  DEFAULT_SHARED_MODULE,
+  DEFAULT_DB_CONNECTIONS,
+  DEFAULT_MCP_CONNECTIONS,
+  DEFAULT_API_SOURCES,
+  DEFAULT_REST_REQUESTS,
+  DEFAULT_HOST_IMAGES,
+  DEFAULT_ENVIRONMENTS
+} from './defaults';
+import { fromSingleDocuments, withDefaultDocuments } from './editor-documents';
+
+// Autosave of the whole app state to IndexedDB. Saved records carry a schema
+// version; older records are migrated step by step when they are loaded. The
+// same database keeps the version history of the documents.
+
+export const APP_STATE_VERSION = 3;
+
+const DB_NAME = 'devforge';
+const DB_VERSION = 2;
+const STORE_NAME = 'app-state';
+export const HISTORY_STORE_NAME = 'document-history';
+const RECORD_KEY = 'current';
+
+export const createDefaultAppState = (): PersistedAppState => ({
+  version: APP_STATE_VERSION,
+  savedAt: 0,
+  activeEditor: EditorType.JSON_REST,
+  documents: DEFAULT_DOCUMENTS,
+  activeDocumentIds: {},
+  scenarios: DEFAULT_SCENARIOS,
+  activeScenarioId: DEFAULT_SCENARIOS[0].id,
+  variablesSchema: DEFAULT_VARIABLES_SCHEMA,
+  userFunctions: DEFAULT_FUNCTIONS,
+  sharedModule: DEFAULT_SHARED_MODULE,
+  partials: DEFAULT_PARTIALS,
+  hostImages: DEFAULT_HOST_IMAGES,
+  dbConnections: DEFAULT_DB_CONNECTIONS,
+  mcpConnections: DEFAULT_MCP_CONNECTIONS,
+  authCredentials: [],
+  apiSources: DEFAULT_API_SOURCES,
+  restRequests: DEFAULT_REST_REQUESTS,
+  activeRestRequestId: DEFAULT_REST_REQUESTS[0].id,
+  vault: null,
+  environments: DEFAULT_ENVIRONMENTS,
+  activeEnvironmentId: null
+});
+
+// Each step upgrades a record of version `key` to the next version
+const MIGRATIONS: Record<number, (state: any) => any> = {
+  // Unversioned records have the `AppState` shape: a single variables document instead of scenarios
+  0: ({ variablesJson, ...state }) => ({
+    ...state,
+    scenarios: state.scenarios ?? (variablesJson !== undefined ? [{ id: 'default', name: 'Default', variablesJson }] : undefined),
+    activeScenarioId: state.activeScenarioId ?? (variablesJson !== undefined ? 'default' : undefined),
+    version: 1
+  }),
+  // One document per editor becomes a list of named documents
+  1: ({
+    jsonContent, yamlContent, emailContent, htmlPageContent, smsContent, scriptContent, sqlContent, sqlQueryName, xmlContent,
+    mcpContent, agentConfig, templateTests, templateEngines, activeConnectionId, activeMcpConnectionId, ...state
+  }) => ({
+    ...state,
+    documents: fromSingleDocuments({
+      contents: {
+        [EditorType.JSON_REST]: jsonContent,
+        [EditorType.YAML_CONFIG]: yamlContent,
+        [EditorType.EMAIL_HTML]: emailContent,
+        [EditorType.HTML_PAGE]: htmlPageContent,
+        [EditorType.SMS_MSG]: smsContent,
+        [EditorType.SCRIPT_JS]: scriptContent,
+        [EditorType.DB_QUERY]: sqlContent,
+        [EditorType.XML_TEMPLATE]: xmlContent,
+        [EditorType.MCP_CLIENT]: mcpContent,
+        [EditorType.AGENT]: agentConfig
+      },
+      tests: templateTests,
+      engines: templateEngines,
+      sqlQueryName,
+      activeConnectionId,
+      activeMcpConnectionId
+    }),
+    version: 2
+  }),
+  // The requests of the REST editor were not saved; records get the default request
+  2: state => ({
+    ...state,
+    restRequests: state.restRequests ?? DEFAULT_REST_REQUESTS,
+    activeRestRequestId: state.activeRestRequestId ?? DEFAULT_REST_REQUESTS[0].id,
+    version: 3
+  })
+};
+
+/**
+ * Brings a saved record up to the current version. Fields the record does not
+ * have yet take their defaults, so it only needs a migration when the meaning
+ * of an existing field changes. Records of a newer version are rejected.
+ */
+export const migrateAppState = (saved: any): PersistedAppState => {
+  if (!saved || typeof saved !== 'object') throw new Error('The saved workspace is not an object');
+  let state = saved;
+  let version = typeof state.version === 'number' ? state.version : 0;
+  if (version > APP_STATE_VERSION) {
+    throw new Error(`The saved workspace has version ${version}, newer than the supported version ${APP_STATE_VERSION}`);
+  }
+  while (version < APP_STATE_VERSION) {
+    state = MIGRATIONS[version](state);
+    version = state.version;
+  }
+
+  const defaults = createDefaultAppState();
+  const defined = Object.fromEntries(Object.entries(state).filter(([, value]) => value !== undefined && value !== null));
+  const migrated: PersistedAppState = { ...defaults, ...defined };
+  migrated.documents = withDefaultDocuments(migrated.documents);
+  // An empty scenario list or a dangling selection would leave the editors without variables
+  if (!Array.isArray(migrated.scenarios) || migrated.scenarios.length === 0) migrated.scenarios = defaults.scenarios;
+  if (!migrated.scenarios.some(s => s.id === migrated.activeScenarioId)) migrated.activeScenarioId = migrated.scenarios[0].id;
+  if (!migrated.environments.some(e => e.id === migrated.activeEnvironmentId)) migrated.activeEnvironmentId = null;
+  if (!Array.isArray(migrated.restRequests) || migrated.restRequests.length === 0) migrated.restRequests = defaults.restRequests;
+  if (!migrated.restRequests.some(r => r.id === migrated.activeRestRequestId)) migrated.activeRestRequestId = migrated.restRequests[0].id;
+  return migrated;
+};
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    // Creates the stores a database of an older version does not have yet
+    request.onupgradeneeded = () => {
+      [STORE_NAME, HISTORY_STORE_NAME].forEach(name => {
+        if (!request.result.objectStoreNames.contains(name)) request.result.createObjectStore(name);
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs one request in its own transaction and closes the database afterwards
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(storeName, mode);
+      const request = run(tx.objectStore(storeName));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// The saved app state, migrated; undefined when nothing was saved yet
+export const loadAppState = async (): Promise<PersistedAppState | undefined> => {
+  const saved = await withStore(STORE_NAME, 'readonly', store => store.get(RECORD_KEY));
+  return saved === undefined ? undefined : migrateAppState(saved);
+};
+
+export const saveAppState = (state: PersistedAppState): Promise<void> =>
+  withStore(STORE_NAME, 'readwrite', store => store.put({ ...state, version: APP_STATE_VERSION, savedAt: Date.now() }, RECORD_KEY)).then(() => undefined);
+
+export const clearAppState = (): Promise<void> =>
+  withStore(STORE_NAME, 'readwrite', store => store.delete(RECORD_KEY)).then(() => undefined);
+
+export interface Autosaver {
+  schedule: (state: PersistedAppState) => void;
+  // Saves a pending state right away, e.g. when the page is hidden
+  flush: () => void;
+  cancel: () => void;
+}
+
+/**
+ * Debounces saves: a state is written once no newer state arrived for
+ * `delayMs`. Saves never overlap; a state scheduled while one is being
+ * written follows it.
+ */
+export const createAutosaver = (
+  delayMs: number,
+  onStatus: (status: 'saving' | 'saved' | 'error', error?: string) => void,
+  // Called with every state once it is written
+  onSaved?: (state: PersistedAppState) => void
+): Autosaver => {
+  let pending: PersistedAppState | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let writing = false;
+
+  const write = async () => {
+    if (writing || !pending) return;
+    const state = pending;
+    pending = null;
+    writing = true;
+    onStatus('saving');
+    try {
+      await saveAppState(state);
+      onSaved?.(state);
+      if (!pending) onStatus('saved');
+    } catch (e: any) {
+      onStatus('error', e?.message ?? String(e));
+    } finally {
+      writing = false;
+    }
+    if (pending) write();
+  };
+
+  const clearTimer = () => {
+    if (timer !== null) clearTimeout(timer);
+    timer = null;
+  };
+
+  return {
+    schedule: state => {
+      pending = state;
+      clearTimer();
+      timer = setTimeout(() => {
+        timer = null;
+        write();
+      }, delayMs);
+    },
+    flush: () => {
+      clearTimer();
+      write();
+    },
+    cancel: () => {
+      clearTimer();
+      pending = null;
+    }
+  };
+};
@@ -0,0 +1,239 @@
+import { UserFunction, SandboxOptions, ScriptExecutionResult, EscapeMode, TemplatePartial, TemplateEngine, WorkspaceScope } from './types';
+import { DEFAULT_SANDBOX_OPTIONS } from './defaults';
+import { SandboxRequest, SandboxResponse, RenderOutcome, timeoutMessage } from './sandbox';
+import { EMPTY_SCOPE, previewContext } from './environments';
+
+interface RunOptions extends Partial<SandboxOptions> {
+  // Aborting terminates the worker, e.g. when a newer preview supersedes this one
+  signal?: AbortSignal;
+}
+
+interface RenderRunOptions extends RunOptions {
+  // A single mode for all templates, or one per template
+  escape?: EscapeMode | EscapeMode[];
+  partials?: TemplatePartial[];
+  // Report the template line behind each output line, for mapping output validation errors
+  lineMap?: boolean;
+  engine?: TemplateEngine;
+  // The environment laid over the context and the vault, whose secrets render masked
+  scope?: WorkspaceScope;
+  // Render a request: the environment and the vault secrets resolve, inside the worker
+  request?: boolean;
+}
+
+let globalOptions: SandboxOptions = { ...DEFAULT_SANDBOX_OPTIONS };
+
+// Overrides the workspace-wide limits used by every sandboxed run
+export const configureSandbox = (options: Partial<SandboxOptions>) => {
+  globalOptions = { ...globalOptions, ...options };
+};
+
+export const getSandboxOptions = (): SandboxOptions => globalOptions;
+
+// Options of one run; the shared module comes with the overrides of each call
+const runOptions = (overrides: Partial<SandboxOptions>): SandboxOptions => ({ ...globalOptions, ...overrides });
+
+const ABORT_MESSAGE = 'Sandbox execution aborted';
+
+export const isSandboxAbort = (e: any) => e?.message === ABORT_MESSAGE;
+
+const createWorker = () => new Worker(new URL('./sandbox.worker.ts', import.meta.url), { type: 'module' });
+
+// Renders reuse one warm worker so its template environments and compiled templates
+// survive between previews. Scripts and function calls always get a fresh worker.
+let warmWorker: Worker | null = null;
+
+const releaseWorker = (worker: Worker) => {
+  worker.onmessage = null;
+  worker.onerror = null;
+  if (warmWorker) {
+    worker.terminate();
+  } else {
+    warmWorker = worker;
+  }
+};
+
+/**
+ * Runs one request in a worker. A runaway loop is ended by terminating the
+ * worker once the time limit passes. `onMessage` returns true once the final
+ * reply arrived. With `reuse`, an aborted run is abandoned rather than killed:
+ * the caller is rejected right away and the worker returns to the pool when it
+ * finishes within the time limit.
+ */
+const runInWorker = <T>(
+  request: SandboxRequest,
+  signal: AbortSignal | undefined,
+  onMessage: (message: SandboxResponse, resolve: (value: T) => void) => boolean,
+  onTimeout: (resolve: (value: T) => void, reject: (e: Error) => void) => void,
+  reuse = false
+): Promise<T> => {
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error(ABORT_MESSAGE));
+      return;
+    }
+
+    const isWarm = reuse && warmWorker !== null;
+    const worker = isWarm ? warmWorker! : createWorker();
+    if (isWarm) warmWorker = null;
+
+    let timer: number | undefined;
+    let abandoned = false;
+
+    const finish = (completed: boolean) => {
+      window.clearTimeout(timer);
+      signal?.removeEventListener('abort', handleAbort);
+      if (completed && reuse) {
+        releaseWorker(worker);
+      } else {
+        worker.terminate();
+      }
+    };
+
+    const handleAbort = () => {
+      reject(new Error(ABORT_MESSAGE));
+      if (reuse && timer !== undefined) {
+        abandoned = true;
+        signal?.removeEventListener('abort', handleAbort);
+        return;
+      }
+      finish(false);
+    };
+    signal?.addEventListener('abort', handleAbort);
+
+    const start = () => {
+      timer = window.setTimeout(() => {
+        finish(false);
+        if (!abandoned) onTimeout(resolve, reject);
+      }, request.options.timeoutMs);
+      worker.postMessage(request);
+    };
+
+    worker.onmessage = (e: MessageEvent<SandboxResponse>) => {
+      if (e.data.type === 'ready') {
+        start();
+        return;
+      }
+      if (abandoned) {
+        if (e.data.type === request.kind) finish(true);
+        return;
+      }
+      if (onMessage(e.data, resolve)) {
+        finish(true);
+      }
+    };
+
+    worker.onerror = (e: ErrorEvent) => {
+      finish(false);
+      if (!abandoned) reject(new Error(e.message || 'Sandbox worker failed to start'));
+    };
+
+    // A warm worker already announced itself
+    if (isWarm) start();
+  });
+};
+
+// Runs a script in the worker sandbox; logs stream in through `onLog` so they survive a timeout
+export const executeScriptInSandbox = (
+  code: string,
+  input: Record<string, any>,
+  functions: UserFunction[],
+  { signal, ...overrides }: RunOptions = {},
+  onLog?: (entry: string) => void
+): Promise<ScriptExecutionResult> => {
+  const options = runOptions(overrides);
+  const logs: string[] = [];
+
+  return runInWorker<ScriptExecutionResult>(
+    { kind: 'script', code, input, functions, options },
+    signal,
+    (message, resolve) => {
+      if (message.type === 'log') {
+        logs.push(message.entry);
+        onLog?.(message.entry);
+        return false;
+      }
+      if (message.type === 'script') {
+        resolve(message.result);
+        return true;
+      }
+      return false;
+    },
+    resolve => resolve({ logs, result: undefined, error: timeoutMessage(options.timeoutMs), timedOut: true })
+  );
+};
+
+// Renders several templates against the same context in a single worker run; environment values and vault
+// secrets of the scope render masked, except for a `request`
+export const interpolateManyInSandbox = (
+  templates: string[],
+  context: Record<string, any>,
+  functions: UserFunction[],
+  { signal, escape = 'html', partials = [], lineMap = false, engine = 'handlebars', scope = EMPTY_SCOPE, request = false, ...overrides }: RenderRunOptions = {}
+): Promise<RenderOutcome[]> => {
+  const options = runOptions(overrides);
+  const escapes = templates.map((_, i) => (Array.isArray(escape) ? escape[i] ?? 'html' : escape));
+  const run = request ? { context, scope } : { context: previewContext(context, scope) };
+
+  return runInWorker<RenderOutcome[]>(
+    { kind: 'render', templates, escapes, ...run, functions, partials, lineMaps: lineMap, engine, options },
+    signal,
+    (message, resolve) => {
+      if (message.type !== 'render') return false;
+      resolve(message.results);
+      return true;
+    },
+    (_resolve, reject) => reject(new Error(timeoutMessage(options.timeoutMs))),
+    true
+  );
+};
+
+// Renders one template; template errors resolve with their position instead of rejecting
+export const renderInSandbox = async (
+  template: string,
+  context: Record<string, any>,
+  functions: UserFunction[],
+  options: RenderRunOptions & { escape?: EscapeMode } = {}
+): Promise<RenderOutcome> => {
+  const [outcome] = await interpolateManyInSandbox([template], context, functions, options);
+  return outcome;
+};
+
+// Sandboxed counterpart of interpolateString; rejects with the template or timeout error
+export const interpolateInSandbox = async (
+  template: string,
+  context: Record<string, any>,
+  functions: UserFunction[],
+  options: RenderRunOptions & { escape?: EscapeMode } = {}
+): Promise<string> => {
+  const outcome = await renderInSandbox(template, context, functions, options);
+  if (outcome.error !== undefined) {
+    throw new Error(outcome.error);
+  }
+  return outcome.output ?? '';
+};
+
+// Calls a single user function with the given arguments; `functions` can be called from its body
+export const callFunctionInSandbox = async (
+  func: UserFunction,
+  args: any[],
+  { signal, functions = [], ...overrides }: RunOptions & { functions?: UserFunction[] } = {}
+): Promise<any> => {
+  const options = runOptions(overrides);
+
+  const outcome = await runInWorker<{ value?: any; error?: string }>(
+    { kind: 'call', func, args, functions, options },
+    signal,
+    (message, resolve) => {
+      if (message.type !== 'call') return false;
+      resolve({ value: message.value, error: message.error });
+      return true;
+    },
+    (_resolve, reject) => reject(new Error(timeoutMessage(options.timeoutMs)))
+  );
+
+  if (outcome.error !== undefined) {
+    throw new Error(outcome.error);
+  }
+  return outcome.value;
+};
@@ -0,0 +1,323 @@
+import { UserFunction, SandboxOptions, ScriptExecutionResult, EscapeMode, TemplatePartial, TemplateIssue, TemplateEngine, WorkspaceScope } from './types';
+import { FUNCTION_LIBRARY, FUNCTION_LIBRARY_NAMES } from './function-library';
+
+// Name of the injected loop guard. Prefixed to avoid clashing with user identifiers.
+export const LOOP_GUARD = '__loopGuard';
+
+// Globals hidden from user code by shadowing them with undefined parameters.
+// Inside the worker most of these do not exist or are locked down as well;
+// on the main thread this keeps casual access to the page out of helpers.
+export const SHADOWED_GLOBALS = [
+  'window',
+  'self',
+  'globalThis',
+  'document',
+  'parent',
+  'top',
+  'opener',
+  'fetch',
+  'XMLHttpRequest',
+  'WebSocket',
+  'EventSource',
+  'localStorage',
+  'sessionStorage',
+  'indexedDB',
+  'caches',
+  'importScripts',
+  'postMessage',
+  'Worker',
+  'SharedWorker',
+  'BroadcastChannel',
+];
+
+export const timeoutMessage = (ms: number) => `Execution timed out after ${ms}ms`;
+
+// Returns a guard that throws once the loop budget of a run is spent.
+// It always returns true so it can be and-ed into loop conditions.
+export const createIterationGuard = (maxIterations: number) => {
+  let count = 0;
+  return () => {
+    if (++count > maxIterations) {
+      throw new Error(`Iteration limit exceeded (${maxIterations} loop iterations)`);
+    }
+    return true;
+  };
+};
+
+const isIdentChar = (ch: string | undefined) => !!ch && /[A-Za-z0-9_$]/.test(ch);
+
+// Skips a string or template literal starting at `start`, returns the index after it
+const skipQuoted = (code: string, start: number): number => {
+  const quote = code[start];
+  let i = start + 1;
+  while (i < code.length && code[i] !== quote) {
+    if (code[i] === '\\') i++;
+    i++;
+  }
+  return i + 1;
+};
+
+// Finds the ')' matching the '(' at `open`, ignoring parentheses inside strings
+const findClosingParen = (code: string, open: number): number => {
+  let depth = 0;
+  let i = open;
+  while (i < code.length) {
+    const ch = code[i];
+    if (ch === '"' || ch === "'" || ch === '`') {
+      i = skipQuoted(code, i);
+      continue;
+    }
+    if (ch === '(') depth++;
+    if (ch === ')') {
+      depth--;
+      if (depth === 0) return i;
+    }
+    i++;
+  }
+  return -1;
+};
+
+// Splits a for-header on its top-level semicolons
+const splitForHeader = (header: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let last = 0;
+  let i = 0;
+  while (i < header.length) {
+    const ch = header[i];
+    if (ch === '"' || ch === "'" || ch === '`') {
+      i = skipQuoted(header, i);
+      continue;
+    }
+    if (ch === '(' || ch === '[' || ch === '{') depth++;
+    if (ch === ')' || ch === ']' || ch === '}') depth--;
+    if (ch === ';' && depth === 0) {
+      parts.push(header.slice(last, i));
+      last = i + 1;
+    }
+    i++;
+  }
+  parts.push(header.slice(last));
+  return parts;
+};
+
+/**
+ * Rewrites `while (...)` and `for (...;...;...)` conditions so that every
+ * iteration calls the loop guard first. `do ... while` is covered by its
+ * trailing `while`. for-in/for-of loops iterate finite collections and are
+ * left untouched. Regex literals are not recognised by the scanner.
+ */
+export const instrumentLoops = (code: string, guard: string = LOOP_GUARD): string => {
+  let out = '';
+  let i = 0;
+
+  while (i < code.length) {
+    const ch = code[i];
+
+    // Comments
+    if (ch === '/' && code[i + 1] === '/') {
+      const end = code.indexOf('\n', i);
+      const stop = end === -1 ? code.length : end;
+      out += code.slice(i, stop);
+      i = stop;
+      continue;
+    }
+    if (ch === '/' && code[i + 1] === '*') {
+      const end = code.indexOf('*/', i + 2);
+      const stop = end === -1 ? code.length : end + 2;
+      out += code.slice(i, stop);
+      i = stop;
+      continue;
+    }
+
+    // Strings
+    if (ch === '"' || ch === "'" || ch === '`') {
+      const stop = skipQuoted(code, i);
+      out += code.slice(i, stop);
+      i = stop;
+      continue;
+    }
+
+    const keyword = /^(while|for)\b/.exec(code.slice(i, i + 6));
+    if (keyword && !isIdentChar(code[i - 1]) && code[i - 1] !== '.') {
+      const afterKeyword = i + keyword[1].length;
+      const open = code.slice(afterKeyword).search(/\S/) + afterKeyword;
+      if (code[open] === '(') {
+        const close = findClosingParen(code, open);
+        if (close !== -1) {
+          const header = code.slice(open + 1, close);
+          let rewritten: string | null = null;
+
+          if (keyword[1] === 'while') {
+            rewritten = `${guard}() && (${header})`;
+          } else {
+            const parts = splitForHeader(header);
+            if (parts.length === 3) {
+              const condition = parts[1].trim() ? `${guard}() && (${parts[1]})` : `${guard}()`;
+              rewritten = `${parts[0]};${condition};${parts[2]}`;
+            }
+          }
+
+          if (rewritten !== null) {
+            out += code.slice(i, open + 1) + rewritten + ')';
+            i = close + 1;
+            continue;
+          }
+        }
+      }
+    }
+
+    out += ch;
+    i++;
+  }
+
+  return out;
+};
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Compiles a user function with its loops guarded and the page globals
+ * shadowed. `scope` adds names the body can use (see createFunctionScope);
+ * parameters win over them. The returned wrapper forwards `this` so it can
+ * be registered as a Handlebars helper.
+ */
+export const compileUserFunction = (
+  func: UserFunction,
+  guard: () => boolean,
+  scope: Record<string, any> = {}
+): ((...args: any[]) => any) => {
+  const shadowed = SHADOWED_GLOBALS.filter(g => !func.params.includes(g));
+  const scopeNames = Object.keys(scope).filter(name => IDENTIFIER.test(name) && !func.params.includes(name) && !shadowed.includes(name));
+  // eslint-disable-next-line no-new-func
+  const jsFunc = new Function(LOOP_GUARD, ...shadowed, ...scopeNames, ...func.params, instrumentLoops(func.body));
+  const hidden = shadowed.map(() => undefined);
+  const scopeValues = scopeNames.map(name => scope[name]);
+
+  return function (this: any, ...args: any[]) {
+    return jsFunc.call(this, guard, ...hidden, ...scopeValues, ...args);
+  };
+};
+
+// -- Shared Module --
+
+// Workspace-wide module code; runs get it as `sharedModule` in their options
+
+const EXPORT_DECLARATION = /(^|;)([ \t]*)export\s+((?:async\s+)?function\*?|const|let|var|class)\s+([A-Za-z_$][\w$]*)/gm;
+const EXPORT_LIST = /^[ \t]*export\s*\{([^}]*)\}\s*;?/gm;
+
+// Names exported with `export const/function/class name` or `export { a, b }`
+export const sharedModuleExports = (code: string): string[] => {
+  const names: string[] = [];
+  code.replace(EXPORT_DECLARATION, (_match, _start, _indent, _kind, name) => (names.push(name), ''));
+  code.replace(EXPORT_LIST, (_match, list: string) => {
+    list.split(',').map(name => name.trim()).filter(name => IDENTIFIER.test(name)).forEach(name => names.push(name));
+    return '';
+  });
+  return Array.from(new Set(names));
+};
+
+/**
+ * Evaluates the shared module and returns its exports. The module sees the
+ * utility library and runs with the guard of the calling render or script,
+ * once per template environment or script run.
+ */
+export const compileSharedModule = (code: string, guard: () => boolean): Record<string, any> => {
+  if (!code.trim()) return {};
+  const names = sharedModuleExports(code);
+  const body = code
+    .replace(EXPORT_DECLARATION, (_match, start, indent, kind, name) => `${start}${indent}${kind} ${name}`)
+    .replace(EXPORT_LIST, '');
+  try {
+    // eslint-disable-next-line no-new-func
+    const run = new Function(LOOP_GUARD, ...SHADOWED_GLOBALS, ...FUNCTION_LIBRARY_NAMES, `"use strict";\n${instrumentLoops(body)}\nreturn { ${names.join(', ')} };`);
+    return run(guard, ...SHADOWED_GLOBALS.map(() => undefined), ...FUNCTION_LIBRARY_NAMES.map(name => FUNCTION_LIBRARY[name]));
+  } catch (e: any) {
+    throw new Error(`Shared module: ${e?.message ?? e}`);
+  }
+};
+
+/**
+ * Names visible inside user functions: the utility library, the shared
+ * module's exports and every user function, so functions can call each
+ * other. Functions are looked up through `resolve` at call time.
+ */
+export const createFunctionScope = (
+  functions: UserFunction[],
+  moduleExports: Record<string, any>,
+  resolve: (func: UserFunction) => (...args: any[]) => any
+): Record<string, any> => {
+  const scope: Record<string, any> = { ...FUNCTION_LIBRARY, ...moduleExports };
+  functions.forEach(func => {
+    scope[func.name] = (...args: any[]) => resolve(func)(...args);
+  });
+  return scope;
+};
+
+/**
+ * Returns a lookup that compiles each user function on first use. All of them
+ * share one scope, so they see the utility library, the shared module (only
+ * evaluated once a function is needed) and each other.
+ */
+export const createFunctionCompiler = (
+  functions: UserFunction[],
+  sharedModule: string,
+  guard: () => boolean
+): ((func: UserFunction) => (...args: any[]) => any) => {
+  const compiled = new Map<string, (...args: any[]) => any>();
+  let scope: Record<string, any> | null = null;
+  const compileOnce = (func: UserFunction) => {
+    let jsFunc = compiled.get(func.name);
+    if (!jsFunc) {
+      scope ??= createFunctionScope(functions, compileSharedModule(sharedModule, guard), compileOnce);
+      jsFunc = compileUserFunction(func, guard, scope);
+      compiled.set(func.name, jsFunc);
+    }
+    return jsFunc;
+  };
+  return compileOnce;
+};
+
+// -- Worker Protocol --
+
+export type SandboxRequest =
+  | {
+      kind: 'script';
+      code: string;
+      input: Record<string, any>;
+      functions: UserFunction[];
+      options: SandboxOptions;
+    }
+  | {
+      kind: 'render';
+      templates: string[];
+      escapes: EscapeMode[]; // One per template
+      context: Record<string, any>;
+      functions: UserFunction[];
+      partials: TemplatePartial[];
+      lineMaps: boolean; // Also map output lines back to template lines
+      engine: TemplateEngine;
+      scope?: WorkspaceScope; // Requests: the environment and the vault secrets resolve against the context in the worker
+      options: SandboxOptions;
+    }
+  | {
+      kind: 'call';
+      func: UserFunction;
+      args: any[];
+      functions: UserFunction[]; // Callable from the function's body
+      options: SandboxOptions;
+    };
+
+export interface RenderOutcome {
+  output?: string;
+  error?: string;
+  issue?: TemplateIssue; // Where `error` happened in the template, if known
+  lineMap?: number[]; // Template line behind each output line
+}
+
+export type SandboxResponse =
+  | { type: 'ready' }
+  | { type: 'log'; entry: string }
+  | { type: 'script'; result: ScriptExecutionResult }
+  | { type: 'render'; results: RenderOutcome[] }
+  | { type: 'call'; value?: any; error?: string };
@@ -0,0 +1,114 @@
+import { executeScript } from './utils';
+import { renderTemplateOutcome } from './documents';
+import { requestContext } from './environments';
+import {
+  SandboxRequest,
+  SandboxResponse,
+  RenderOutcome,
+  createIterationGuard,
+  createFunctionCompiler
+} from './sandbox';
+
+// Keep a private handle for replies before locking down the worker scope
+const ctx = self as unknown as Worker;
+const reply = (message: SandboxResponse) => {
+  try {
+    ctx.postMessage(message);
+  } catch {
+    // Values that cannot be cloned (functions, symbols...) are sent as plain JSON
+    ctx.postMessage(JSON.parse(JSON.stringify(message)));
+  }
+};
+
+// Cut off network, storage and nested workers for everything that runs in here
+['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB', 'caches', 'BroadcastChannel', 'Worker', 'SharedWorker'].forEach(name => {
+  try {
+    Object.defineProperty(self, name, { value: undefined, writable: false, configurable: false });
+  } catch {
+    // Some runtimes expose non-configurable globals; shadowing still applies to user code
+  }
+});
+
+// import() is syntax rather than a global, so it cannot be removed like the above: every way of
+// compiling code in here refuses code that contains it (template text reading "import(" included)
+const DYNAMIC_IMPORT = /\bimport\s*(?:\/\*[\s\S]*?\*\/\s*|\/\/[^\n]*\n\s*)*\(/;
+
+const assertNoImport = (code: unknown[]) => {
+  if (code.some(part => DYNAMIC_IMPORT.test(String(part)))) {
+    throw new Error('import() is not available in the sandbox');
+  }
+};
+
+// Replaces a function constructor, also where `(() => {}).constructor` reaches it
+const guardConstructor = (original: FunctionConstructor): FunctionConstructor => {
+  const guarded = function (...args: string[]) {
+    assertNoImport(args);
+    return original(...args);
+  };
+  guarded.prototype = original.prototype;
+  Object.defineProperty(original.prototype, 'constructor', { value: guarded, writable: false, configurable: false });
+  return guarded as unknown as FunctionConstructor;
+};
+
+const nativeEval = self.eval;
+const nativeSetTimeout = self.setTimeout;
+const nativeSetInterval = self.setInterval;
+[
+  ['Function', guardConstructor(Function)],
+  ['eval', (code: unknown) => {
+    assertNoImport([code]);
+    return nativeEval(code as string);
+  }],
+  // Timers given a string compile it
+  ['setTimeout', (handler: TimerHandler, ...rest: any[]) => {
+    assertNoImport([handler]);
+    return nativeSetTimeout(handler, ...rest);
+  }],
+  ['setInterval', (handler: TimerHandler, ...rest: any[]) => {
+    assertNoImport([handler]);
+    return nativeSetInterval(handler, ...rest);
+  }]
+].forEach(([name, value]) => {
+  Object.defineProperty(self, name as string, { value, writable: false, configurable: false });
+});
+guardConstructor((async () => {}).constructor as FunctionConstructor);
+guardConstructor(Object.getPrototypeOf(function* () {}).constructor);
+guardConstructor(Object.getPrototypeOf(async function* () {}).constructor);
+
+const handleRequest = (request: SandboxRequest) => {
+  switch (request.kind) {
+    case 'script': {
+      const result = executeScript(request.code, request.input, request.functions, request.options, entry => {
+        reply({ type: 'log', entry });
+      });
+      reply({ type: 'script', result });
+      return;
+    }
+    case 'render': {
+      // Secrets of requests are resolved in here, so no template runs on the page with them
+      const context = request.scope ? requestContext(request.context, request.scope) : request.context;
+      const results: RenderOutcome[] = request.templates.map((template, i) => {
+        const options = { ...request.options, escape: request.escapes[i], partials: request.partials, engine: request.engine };
+        return renderTemplateOutcome(template, context, request.functions, options, request.lineMaps);
+      });
+      reply({ type: 'render', results });
+      return;
+    }
+    case 'call': {
+      try {
+        const guard = createIterationGuard(request.options.maxIterations);
+        const others = request.functions.filter(f => f.name !== request.func.name);
+        const compile = createFunctionCompiler([request.func, ...others], request.options.sharedModule ?? '', guard);
+        reply({ type: 'call', value: compile(request.func)(...request.args) });
+      } catch (e: any) {
+        reply({ type: 'call', error: e.message });
+      }
+      return;
+    }
+  }
+};
+
+ctx.onmessage = (e: MessageEvent<SandboxRequest>) => handleRequest(e.data);
+
+// Signals that the module finished loading; the time limit starts from here
+reply({ type: 'ready' });
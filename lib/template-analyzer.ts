@@ -0,0 +1,497 @@
+import Handlebars from 'handlebars';
+import { UserFunction, TemplatePartial, TemplateIssue, TemplateAnalysis, JsonSchema, TemplateEngine } from './types';
+import { analyzeLiquid } from './liquid';
+import { analyzeMustache } from './mustache';
+import { BUILT_IN_HELPERS, HANDLEBARS_CORE_HELPERS, preprocessTemplateWithMap } from './utils';
+import { resolveSchema, schemaTypes } from './json-schema';
+import { checkValueType, paramType, requiredParamCount } from './function-types';
+
+interface AnalyzeOptions {
+  // Sample context the template renders against, with the environment and masked secrets (previewContext); undefined skips variable checks
+  variables?: Record<string, any>;
+  functions: UserFunction[];
+  partials?: TemplatePartial[];
+  // Fields the schema declares count as known even when the sample lacks them
+  schema?: JsonSchema;
+  engine?: TemplateEngine;
+}
+
+// Marks a sample value whose shape cannot be inferred (helper results, empty arrays...)
+const UNKNOWN = Symbol('unknown');
+// Marks a lookup that definitely does not exist in the sample
+const MISSING = Symbol('missing');
+
+interface Scope {
+  context: any;
+  data: Record<string, any>;
+  blockParams: Record<string, any>;
+  parent?: Scope;
+}
+
+const isPlainObject = (value: any) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Folds the items of a collection into one representative sample so that
+ * keys present on any element are known inside #each.
+ */
+const mergeSamples = (items: any[]): any => {
+  if (items.length === 0) return UNKNOWN;
+  if (items.every(isPlainObject)) {
+    const keys = new Set<string>();
+    items.forEach(item => Object.keys(item).forEach(k => keys.add(k)));
+    const merged: Record<string, any> = {};
+    keys.forEach(key => {
+      merged[key] = mergeSamples(items.filter(item => key in item).map(item => item[key]));
+    });
+    return merged;
+  }
+  if (items.every(Array.isArray)) {
+    return [mergeSamples(items.flat())];
+  }
+  return items[0];
+};
+
+// Resolves path parts against a sample. Returns MISSING with the failing index when a key does not exist.
+const resolveParts = (sample: any, parts: string[]): { value: any; failedAt?: number } => {
+  let current = sample;
+  for (let i = 0; i < parts.length; i++) {
+    if (current === UNKNOWN) return { value: UNKNOWN };
+    const part = parts[i];
+    if (Array.isArray(current)) {
+      if (part === 'length') return { value: current.length };
+      const merged = mergeSamples(current);
+      current = /^\d+$/.test(part) ? merged : MISSING;
+      if (current === MISSING) return { value: MISSING, failedAt: i };
+      continue;
+    }
+    if (!isPlainObject(current)) {
+      // Primitive properties (e.g. string length) depend on runtime values
+      return { value: UNKNOWN };
+    }
+    if (!(part in current)) return { value: MISSING, failedAt: i };
+    current = current[part];
+  }
+  return { value: current };
+};
+
+/**
+ * Overlays the schema on the sample: declared properties missing from the
+ * sample are added (as UNKNOWN when their shape is not described), and empty
+ * arrays get one item built from `items` so #each bodies are still checked.
+ */
+const withSchema = (sample: any, schema: JsonSchema | undefined, root: JsonSchema): any => {
+  const s = resolveSchema(schema, root);
+  if (!s) return sample === undefined ? UNKNOWN : sample;
+  const types = schemaTypes(s);
+
+  if (isPlainObject(sample) || (sample === undefined && types.includes('object') && s.properties)) {
+    const merged: Record<string, any> = { ...sample };
+    Object.entries(s.properties || {}).forEach(([key, sub]) => {
+      merged[key] = withSchema(merged[key], sub, root);
+    });
+    return merged;
+  }
+  if (Array.isArray(sample) || (sample === undefined && types.includes('array'))) {
+    const items = sample || [];
+    if (!s.items) return items.length ? items : UNKNOWN;
+    if (items.length === 0) {
+      const item = withSchema(undefined, s.items, root);
+      return item === UNKNOWN ? UNKNOWN : [item];
+    }
+    return items.map((item: any) => withSchema(item, s.items, root));
+  }
+  return sample === undefined ? UNKNOWN : sample;
+};
+
+const collectionSample = (value: any): any => {
+  if (Array.isArray(value)) return mergeSamples(value);
+  if (isPlainObject(value)) return mergeSamples(Object.values(value));
+  return UNKNOWN;
+};
+
+// Extracts a best-effort position from a jison parse error message
+const parseErrorPosition = (message: string, source: string): { line: number; column: number } => {
+  const lineMatch = /Parse error on line (\d+)/.exec(message);
+  const line = lineMatch ? Number(lineMatch[1]) : 1;
+  const [, snippet = '', caret = ''] = message.split('\n');
+  const caretIndex = caret.indexOf('^');
+  let column = 0;
+  if (caretIndex >= 0) {
+    const before = snippet.startsWith('...') ? snippet.slice(3, caretIndex) : snippet.slice(0, caretIndex);
+    const sourceLine = source.split('\n')[line - 1] || '';
+    const idx = before ? sourceLine.lastIndexOf(before) : -1;
+    column = idx >= 0 ? idx + before.length : Math.max(0, sourceLine.length - 1);
+  }
+  return { line, column };
+};
+
+/**
+ * Parses a template into the Handlebars AST and reports unknown variable
+ * paths, unknown helpers, user function argument mismatches and syntax
+ * errors such as unbalanced blocks. Positions refer to the original
+ * template, before the {{#func:...}} rewrite. Liquid and Mustache templates
+ * go to their own engine's analyzer.
+ */
+export const analyzeTemplate = (template: string, { variables, functions = [], partials = [], schema, engine }: AnalyzeOptions): TemplateAnalysis => {
+  if (engine === 'liquid') return analyzeLiquid(template, functions, partials.map(p => p.name));
+  if (engine === 'mustache') return analyzeMustache(template, functions, partials.map(p => p.name), variables);
+
+  const issues: TemplateIssue[] = [];
+  const missing = new Set<string>();
+  const missingPartials = new Set<string>();
+  const { source, toOriginalPosition } = preprocessTemplateWithMap(template);
+
+  const report = (
+    node: hbs.AST.Node,
+    kind: TemplateIssue['kind'],
+    severity: TemplateIssue['severity'],
+    message: string,
+    name?: string
+  ) => {
+    const start = node.loc?.start || { line: 1, column: 0 };
+    const position = toOriginalPosition(start.line, start.column);
+    // Only single-line nodes get a range, so a whole block is never underlined
+    const end = node.loc && node.loc.end.line === start.line ? toOriginalPosition(node.loc.end.line, node.loc.end.column) : undefined;
+    issues.push({ kind, severity, message, name, ...position, endLine: end?.line, endColumn: end?.column });
+  };
+
+  let ast: hbs.AST.Program;
+  try {
+    ast = Handlebars.parse(source);
+  } catch (e: any) {
+    const position = typeof e.lineNumber === 'number'
+      ? { line: e.lineNumber, column: e.column || 0 }
+      : parseErrorPosition(e.message, source);
+    const message = String(e.message).split('\n')[0].replace(/ - \d+:\d+$/, '');
+    const detail = String(e.message).split('\n').pop();
+    issues.push({
+      kind: 'syntax',
+      severity: 'error',
+      message: message.startsWith('Parse error') && detail && detail !== message ? `${message} ${detail}` : message,
+      ...toOriginalPosition(position.line, position.column)
+    });
+    return { issues, missingFunctions: [], missingPartials: [] };
+  }
+
+  const userFunctions = new Map(functions.map(f => [f.name, f]));
+  const knownHelpers = new Set([...BUILT_IN_HELPERS, ...HANDLEBARS_CORE_HELPERS, ...userFunctions.keys()]);
+  const checkVariables = variables !== undefined;
+
+  // Workspace partials plus {{#*inline "name"}} definitions anywhere in the template
+  const knownPartials = new Set(partials.map(p => p.name));
+  const collectInlinePartials = (program: hbs.AST.Program | undefined) => {
+    program?.body.forEach(statement => {
+      const node = statement as any;
+      if (statement.type === 'DecoratorBlock' && node.path.original === 'inline' && node.params[0]?.type === 'StringLiteral') {
+        knownPartials.add(node.params[0].value);
+      }
+      collectInlinePartials(node.program);
+      collectInlinePartials(node.inverse);
+    });
+  };
+  collectInlinePartials(ast);
+
+  const isHelperName = (path: hbs.AST.PathExpression) =>
+    !path.data && path.depth === 0 && path.parts.length === 1 && knownHelpers.has(path.parts[0]);
+
+  const checkArgumentCount = (node: hbs.AST.Node, func: UserFunction, argCount: number) => {
+    if (argCount > func.params.length || argCount < requiredParamCount(func)) {
+      report(
+        node,
+        'argument-count',
+        'warning',
+        `Function '${func.name}' expects ${func.params.length} argument${func.params.length === 1 ? '' : 's'} (${func.params.join(', ')}) but got ${argCount}`,
+        func.name
+      );
+    }
+  };
+
+  // Literals are checked as written; paths only when the sample value is known
+  const checkArgumentType = (param: hbs.AST.Expression, func: UserFunction, index: number, resolved: any) => {
+    const type = paramType(func, index);
+    if (!type || index >= func.params.length) return;
+    const literal = param as hbs.AST.Literal;
+    const value = param.type === 'NullLiteral' ? null
+      : param.type === 'UndefinedLiteral' ? undefined
+      : ['StringLiteral', 'NumberLiteral', 'BooleanLiteral'].includes(param.type) ? (literal as hbs.AST.StringLiteral).value
+      : param.type === 'PathExpression' && checkVariables ? resolved
+      : UNKNOWN;
+    if (value === UNKNOWN) return;
+    const actual = checkValueType(value, type, v => v === UNKNOWN);
+    if (actual) {
+      report(
+        param,
+        'argument-type',
+        'warning',
+        `Argument '${func.params[index]}' of '${func.name}' expects ${type} but got ${actual}`,
+        func.name
+      );
+    }
+  };
+
+  // Resolves a path expression against the scope chain, reporting unknown paths
+  const resolvePath = (path: hbs.AST.PathExpression, scope: Scope): any => {
+    if (path.data) {
+      const [head, ...rest] = path.parts;
+      if (head === 'root') {
+        let root = scope;
+        while (root.parent) root = root.parent;
+        return checkResolved(path, root.context, rest, '@root.');
+      }
+      for (let s: Scope | undefined = scope; s; s = s.parent) {
+        if (head in s.data) return rest.length ? UNKNOWN : s.data[head];
+      }
+      if (checkVariables) {
+        report(path, 'unknown-variable', 'warning', `Data variable '@${head}' is not available here`, `@${head}`);
+      }
+      return UNKNOWN;
+    }
+
+    if (path.depth === 0 && path.parts.length > 0) {
+      for (let s: Scope | undefined = scope; s; s = s.parent) {
+        if (path.parts[0] in s.blockParams) {
+          return checkResolved(path, s.blockParams[path.parts[0]], path.parts.slice(1), `${path.parts[0]}.`);
+        }
+      }
+    }
+
+    let target: Scope = scope;
+    for (let i = 0; i < path.depth && target.parent; i++) target = target.parent;
+    return checkResolved(path, target.context, path.parts, '');
+  };
+
+  const checkResolved = (path: hbs.AST.PathExpression, sample: any, parts: string[], prefix: string) => {
+    const { value, failedAt } = resolveParts(sample, parts);
+    if (value === MISSING) {
+      if (checkVariables) {
+        const known = parts.slice(0, failedAt).join('.');
+        report(
+          path,
+          'unknown-variable',
+          'warning',
+          `Unknown variable '${path.original}'${known ? ` ('${parts[failedAt!]}' is not defined on ${prefix}${known})` : ''}`,
+          path.original
+        );
+      }
+      return UNKNOWN;
+    }
+    return value;
+  };
+
+  const visitExpression = (expr: hbs.AST.Expression, scope: Scope): any => {
+    if (expr.type === 'PathExpression') return resolvePath(expr as hbs.AST.PathExpression, scope);
+    if (expr.type === 'SubExpression') {
+      visitCall(expr as hbs.AST.SubExpression, scope);
+      return UNKNOWN;
+    }
+    return UNKNOWN;
+  };
+
+  // Checks a helper invocation (mustache, block or subexpression with params) and its arguments
+  const visitCall = (
+    node: hbs.AST.MustacheStatement | hbs.AST.BlockStatement | hbs.AST.SubExpression,
+    scope: Scope
+  ): any[] => {
+    const path = node.path as hbs.AST.PathExpression;
+    const hasArgs = node.params.length > 0 || (node.hash && node.hash.pairs.length > 0);
+    const isBlock = node.type === 'BlockStatement';
+    // Called user function and the index of its first argument in node.params
+    let called: { func: UserFunction; offset: number } | undefined;
+
+    if (path.type === 'PathExpression') {
+      if (isHelperName(path)) {
+        const name = path.parts[0];
+        if (name === 'func') {
+          const [nameParam, ...args] = node.params;
+          if (nameParam && nameParam.type === 'StringLiteral') {
+            const funcName = (nameParam as hbs.AST.StringLiteral).value;
+            const func = userFunctions.get(funcName);
+            if (!func) {
+              missing.add(funcName);
+              report(node, 'missing-function', 'error', `Function '${funcName}' is not defined`, funcName);
+            } else {
+              checkArgumentCount(node, func, args.length);
+              called = { func, offset: 1 };
+            }
+          }
+        } else if (userFunctions.has(name)) {
+          checkArgumentCount(node, userFunctions.get(name)!, node.params.length);
+          called = { func: userFunctions.get(name)!, offset: 0 };
+        }
+      } else if (hasArgs) {
+        report(path, 'unknown-helper', 'error', `Unknown helper '${path.original}'`, path.original);
+      } else if (!isBlock) {
+        // Blocks without params are resolved as sections by visitBlock
+        resolvePath(path, scope);
+      }
+    }
+
+    node.hash?.pairs.forEach(pair => visitExpression(pair.value, scope));
+    const values = node.params.map(param => visitExpression(param, scope));
+    if (called) {
+      if (called.func.testStatus === 'failed') {
+        report(node, 'failing-function', 'warning', `Function '${called.func.name}' fails its tests`, called.func.name);
+      }
+      node.params.slice(called.offset).forEach((param, i) => {
+        checkArgumentType(param, called!.func, i, values[called!.offset + i]);
+      });
+    }
+    return values;
+  };
+
+  const childScope = (parent: Scope, context: any, data: Record<string, any>, program?: hbs.AST.Program, blockValues: any[] = []): Scope => {
+    const blockParams: Record<string, any> = {};
+    (program?.blockParams || []).forEach((name, i) => {
+      blockParams[name] = blockValues[i] ?? UNKNOWN;
+    });
+    return { context, data, blockParams, parent };
+  };
+
+  const visitBlock = (block: hbs.AST.BlockStatement, scope: Scope) => {
+    const path = block.path as hbs.AST.PathExpression;
+    const helper = path.type === 'PathExpression' && path.depth === 0 && !path.data ? path.parts[0] : '';
+
+    const [firstParam] = visitCall(block, scope);
+
+    if (helper === 'each' && block.params.length > 0) {
+      const collection = firstParam;
+      const item = collectionSample(collection);
+      const index = Array.isArray(collection) ? 0 : isPlainObject(collection) ? Object.keys(collection)[0] ?? UNKNOWN : UNKNOWN;
+      const data = { index: 0, key: index, first: true, last: true };
+      visitProgram(block.program, childScope(scope, item, data, block.program, [item, index]));
+      visitProgram(block.inverse, scope);
+      return;
+    }
+
+    if (helper === 'with' && block.params.length > 0) {
+      const value = firstParam;
+      visitProgram(block.program, childScope(scope, value === null || value === undefined ? UNKNOWN : value, {}, block.program, [value]));
+      visitProgram(block.inverse, scope);
+      return;
+    }
+
+    if (!knownHelpers.has(helper) && block.params.length === 0) {
+      // {{#path}}...{{/path}} sections iterate or push the value like #each / #with
+      const value = resolvePath(path, scope);
+      const context = Array.isArray(value) ? collectionSample(value) : value;
+      visitProgram(block.program, childScope(scope, context, {}, block.program));
+      visitProgram(block.inverse, scope);
+      return;
+    }
+
+    // Conditionals and custom block helpers keep the current context
+    visitProgram(block.program, block.program?.blockParams?.length ? childScope(scope, scope.context, {}, block.program) : scope);
+    visitProgram(block.inverse, scope);
+  };
+
+  // {{> name}} and {{#> name}}...{{/name}}; dynamic names and @partial-block are not checked
+  const visitPartial = (partial: hbs.AST.PartialStatement | hbs.AST.PartialBlockStatement, scope: Scope) => {
+    const name = partial.name as hbs.AST.PathExpression | hbs.AST.StringLiteral | hbs.AST.SubExpression;
+    const partialName = name.type === 'StringLiteral'
+      ? (name as hbs.AST.StringLiteral).value
+      : name.type === 'PathExpression' && !(name as hbs.AST.PathExpression).data ? (name as hbs.AST.PathExpression).original : null;
+
+    // A partial block renders its own content when the partial is missing
+    if (partialName !== null && !knownPartials.has(partialName) && partial.type === 'PartialStatement') {
+      missingPartials.add(partialName);
+      report(partial, 'missing-partial', 'error', `Partial '${partialName}' is not defined`, partialName);
+    }
+    if (name.type === 'SubExpression') visitExpression(name as hbs.AST.SubExpression, scope);
+
+    partial.params.forEach(param => visitExpression(param, scope));
+    partial.hash?.pairs.forEach(pair => visitExpression(pair.value, scope));
+    if (partial.type === 'PartialBlockStatement') {
+      visitProgram((partial as hbs.AST.PartialBlockStatement).program, scope);
+    }
+  };
+
+  const visitProgram = (program: hbs.AST.Program | undefined, scope: Scope) => {
+    if (!program) return;
+    program.body.forEach(statement => {
+      switch (statement.type) {
+        case 'MustacheStatement':
+          visitCall(statement as hbs.AST.MustacheStatement, scope);
+          break;
+        case 'BlockStatement':
+          visitBlock(statement as hbs.AST.BlockStatement, scope);
+          break;
+        case 'PartialStatement':
+        case 'PartialBlockStatement':
+          visitPartial(statement as hbs.AST.PartialStatement, scope);
+          break;
+        case 'DecoratorBlock':
+          // Inline partial bodies render with the caller's context, which is not known here
+          visitProgram((statement as any).program, { context: UNKNOWN, data: {}, blockParams: {}, parent: scope });
+          break;
+        default:
+          break;
+      }
+    });
+  };
+
+  const rootContext = checkVariables ? (schema ? withSchema(variables, schema, schema) : variables) : UNKNOWN;
+  visitProgram(ast, { context: rootContext, data: {}, blockParams: {} });
+
+  issues.sort((a, b) => a.line - b.line || a.column - b.column);
+  return { issues, missingFunctions: Array.from(missing), missingPartials: Array.from(missingPartials) };
+};
+
+/**
+ * Positions a render failure (the error thrown by interpolateString) in the
+ * original template. Returns undefined when Handlebars did not record where
+ * it happened, or when it happened inside a partial.
+ */
+export const locateRenderError = (template: string, error: any, engine: TemplateEngine = 'handlebars'): TemplateIssue | undefined => {
+  const cause = error?.cause ?? error;
+  if (typeof cause?.lineNumber !== 'number' || cause.partial !== undefined) return undefined;
+
+  // Liquid and Mustache report positions in the template as written
+  const toOriginalPosition = engine === 'handlebars'
+    ? preprocessTemplateWithMap(template).toOriginalPosition
+    : (line: number, column: number) => ({ line, column: column + 1 });
+  const position = toOriginalPosition(cause.lineNumber, cause.column || 0);
+  const end = cause.endLineNumber === cause.lineNumber && typeof cause.endColumn === 'number'
+    ? toOriginalPosition(cause.endLineNumber, cause.endColumn)
+    : undefined;
+  return {
+    kind: 'runtime',
+    severity: 'error',
+    message: String(cause.message).split('\n')[0],
+    ...position,
+    endLine: end?.line,
+    endColumn: end?.column
+  };
+};
+
+// 1-based output line of a JSON.parse, js-yaml or DOMParser error
+const outputErrorLine = (error: any, output: string): number | undefined => {
+  if (typeof error?.mark?.line === 'number') return error.mark.line + 1;
+  const message = String(error?.message ?? error);
+  const line = /\bline(?: number)? (\d+)/i.exec(message);
+  if (line) return Number(line[1]);
+  const position = /at position (\d+)/.exec(message);
+  if (position) return output.slice(0, Number(position[1])).split('\n').length;
+  return undefined;
+};
+
+/**
+ * Turns a validation error in the rendered output into an issue on the
+ * template line that produced the failing output line. `lineMap` comes from
+ * a render with `lineMap: true`.
+ */
+export const mapOutputError = (error: any, output: string, lineMap?: number[]): TemplateIssue | undefined => {
+  const outputLine = outputErrorLine(error, output);
+  const line = outputLine !== undefined ? lineMap?.[outputLine - 1] : undefined;
+  if (line === undefined) return undefined;
+  return {
+    kind: 'output',
+    severity: 'error',
+    message: `Invalid output on line ${outputLine}: ${String(error?.reason ?? error?.message ?? error).split('\n')[0]}`,
+    line,
+    column: 1
+  };
+};
+
+// Render issues are dropped while the template does not parse; the syntax error already covers them
+export const mergeRenderIssues = (issues: TemplateIssue[], renderIssues: TemplateIssue[]): TemplateIssue[] =>
+  issues.some(issue => issue.kind === 'syntax') ? issues : [...issues, ...renderIssues];
@@ -0,0 +1,666 @@
+import { UserFunction, TemplatePartial, JsonSchema, TemplateEngine } from './types';
+import { STANDARD_HELPER_GROUPS } from './helpers';
+import { resolveSchema, schemaTypes } from './json-schema';
+import { formatParam, formatSignature } from './function-types';
+import { LIQUID_FILTER_NAMES } from './liquid';
+
+export interface TemplateCompletionContext {
+  // With the environment and the masked secrets (previewContext), so {{ secret. completes their names
+  variables?: Record<string, any>;
+  schema?: JsonSchema;
+  functions: UserFunction[];
+  // Module the functions can use; hovers evaluate calls with it
+  sharedModule?: string;
+  partials?: TemplatePartial[];
+  // Helpers and {{#func:...}} are Handlebars-only; Liquid completes filters after |
+  engine?: TemplateEngine;
+}
+
+export type TemplateCompletionKind = 'variable' | 'data' | 'helper' | 'function' | 'partial' | 'keyword';
+
+export interface TemplateCompletion {
+  label: string;
+  kind: TemplateCompletionKind;
+  insertText: string;
+  snippet?: boolean; // insertText uses ${1:placeholder} tab stops
+  detail?: string;
+  documentation?: string;
+}
+
+export interface TemplateCompletionResult {
+  items: TemplateCompletion[];
+  // Offset where the word being completed starts; it is replaced by the item
+  replaceFrom: number;
+}
+
+export interface TemplateSignature {
+  label: string;
+  params: string[];
+  activeParameter: number;
+  documentation?: string;
+}
+
+const CORE_BLOCK_HELPERS: { name: string; signature: string; desc: string }[] = [
+  { name: 'each', signature: 'each list', desc: 'Repeat the block for every item; `this` is the item, `@index`/`@key` its position' },
+  { name: 'with', signature: 'with value', desc: 'Render the block with `value` as `this`' },
+  { name: 'if', signature: 'if value', desc: 'Render the block when value is truthy' },
+  { name: 'unless', signature: 'unless value', desc: 'Render the block when value is falsy' }
+];
+
+const CORE_INLINE_HELPERS: { name: string; signature: string; desc: string }[] = [
+  { name: 'lookup', signature: 'lookup object key', desc: 'Dynamic property or index lookup' },
+  { name: 'log', signature: 'log value', desc: 'Write a value to the console' },
+  { name: 'raw', signature: 'raw value', desc: 'Output a value without escaping, like {{{ value }}}' }
+];
+
+const STANDARD_HELPERS = STANDARD_HELPER_GROUPS.flatMap(group => group.helpers);
+
+// -- Scope --
+
+// A position in the variables: the sample value and the schema describing it
+interface ValueNode {
+  sample: any;
+  schema?: JsonSchema;
+}
+
+interface Frame {
+  helper: string;
+  context?: ValueNode; // Set when the block changes `this`
+  blockParams: Record<string, ValueNode>;
+  isEach: boolean;
+}
+
+const isPlainObject = (value: any) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const itemOf = (node: ValueNode, root?: JsonSchema): ValueNode => {
+  const schema = root ? resolveSchema(node.schema, root) : undefined;
+  const sample = Array.isArray(node.sample)
+    ? node.sample.find(isPlainObject) ?? node.sample[0]
+    : isPlainObject(node.sample) ? Object.values(node.sample)[0] : undefined;
+  return { sample, schema: schema?.items ?? (schema?.additionalProperties && typeof schema.additionalProperties === 'object' ? schema.additionalProperties : undefined) };
+};
+
+const childOf = (node: ValueNode, key: string, root?: JsonSchema): ValueNode => {
+  if (Array.isArray(node.sample) && key === 'length') return { sample: node.sample.length };
+  const index = /^\[?(\d+)\]?$/.exec(key);
+  if (Array.isArray(node.sample) || index) {
+    const item = itemOf(node, root);
+    return index && Array.isArray(node.sample) ? { ...item, sample: node.sample[Number(index[1])] } : item;
+  }
+  const schema = root ? resolveSchema(node.schema, root) : undefined;
+  return {
+    sample: isPlainObject(node.sample) ? node.sample[key] : undefined,
+    schema: schema?.properties?.[key]
+  };
+};
+
+const describeNode = (node: ValueNode, root?: JsonSchema): string => {
+  if (node.sample !== undefined) {
+    if (Array.isArray(node.sample)) return `array (${node.sample.length})`;
+    return node.sample === null ? 'null' : typeof node.sample;
+  }
+  const types = schemaTypes(root ? resolveSchema(node.schema, root) : undefined);
+  return types.length ? types.join(' | ') : 'any';
+};
+
+const preview = (value: any) => {
+  if (value === undefined || isPlainObject(value) || Array.isArray(value)) return undefined;
+  const text = JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
+
+// Properties of a node from the sample and the schema, schema order first
+const childEntries = (node: ValueNode, root?: JsonSchema): { key: string; node: ValueNode; required: boolean }[] => {
+  const schema = root ? resolveSchema(node.schema, root) : undefined;
+  const sample = isPlainObject(node.sample) ? node.sample : {};
+  const keys = Array.from(new Set([...Object.keys(schema?.properties || {}), ...Object.keys(sample)]));
+  return keys.map(key => ({ key, node: childOf(node, key, root), required: !!schema?.required?.includes(key) }));
+};
+
+// Block openers ({{#x}}, {{^x}}) and closers ({{/x}})
+const BLOCK_TAG = /\{\{~?\s*([#^/])\s*([^\s}~]+)([^}]*?)~?\}\}/g;
+
+/**
+ * Tracks the block nesting (#each, #with, sections, block params) while the
+ * block tags of a template are fed in order. Works on unfinished templates,
+ * where the Handlebars parser would fail.
+ */
+const createScope = (rootNode: ValueNode, root?: JsonSchema) => {
+  const frames: Frame[] = [];
+
+  const contextAt = (depth: number): ValueNode => {
+    const contexts = frames.filter(f => f.context).map(f => f.context!);
+    return contexts[contexts.length - 1 - depth] ?? rootNode;
+  };
+
+  const resolve = (path: string): ValueNode | undefined => {
+    let expr = path.trim();
+    if (!expr || /^["'\d(]/.test(expr)) return undefined;
+    if (expr.startsWith('@root')) {
+      return expr.replace(/^@root\.?/, '').split('.').filter(Boolean).reduce((node, key) => childOf(node, key, root), rootNode);
+    }
+    if (expr.startsWith('@')) return undefined;
+    let depth = 0;
+    while (expr.startsWith('../')) {
+      depth++;
+      expr = expr.slice(3);
+    }
+    expr = expr.replace(/^\.\/|^this\.?/, '');
+    const [head, ...rest] = expr.split('.').filter(Boolean);
+    const node = contextAt(depth);
+    if (head !== undefined && depth === 0) {
+      for (let i = frames.length - 1; i >= 0; i--) {
+        if (head in frames[i].blockParams) return rest.reduce((n, key) => childOf(n, key, root), frames[i].blockParams[head]);
+      }
+    }
+    return [head, ...rest].filter(k => k !== undefined).reduce((n, key) => childOf(n, key, root), node);
+  };
+
+  // Applies one block tag match of BLOCK_TAG
+  const enter = (marker: string, tag: string, rest: string) => {
+    const asMatch = /\bas\s*\|([^|]*)\|/.exec(rest);
+    const params = rest.replace(/\bas\s*\|[^|]*\|/, '').trim().split(/\s+/).filter(Boolean);
+    // {{#> layout}} and {{#*inline "row"}} close with {{/layout}} and {{/inline}}
+    const name = tag.replace(/^[*>]/, '') || params.shift() || '';
+    if (marker === '/') {
+      const index = frames.map(f => f.helper).lastIndexOf(name);
+      if (index >= 0) frames.length = index;
+      return;
+    }
+    const blockParamNames = asMatch ? asMatch[1].trim().split(/\s+/).filter(Boolean) : [];
+    const frame: Frame = { helper: name, blockParams: {}, isEach: false };
+
+    if (name === 'each' && params[0]) {
+      const item = itemOf(resolve(params[0]) ?? { sample: undefined }, root);
+      frame.context = item;
+      frame.isEach = true;
+      if (blockParamNames[0]) frame.blockParams[blockParamNames[0]] = item;
+      if (blockParamNames[1]) frame.blockParams[blockParamNames[1]] = { sample: 0 };
+    } else if (name === 'with' && params[0]) {
+      frame.context = resolve(params[0]) ?? { sample: undefined };
+      if (blockParamNames[0]) frame.blockParams[blockParamNames[0]] = frame.context;
+    } else if (marker === '#' && params.length === 0 && !/^[*>]|^(if|unless|func:)/.test(tag) && !isKnownHelper(name)) {
+      // {{#path}} sections iterate arrays and push objects
+      const value = resolve(name) ?? { sample: undefined };
+      const isList = Array.isArray(value.sample) || schemaTypes(root ? resolveSchema(value.schema, root) : undefined).includes('array');
+      frame.context = isList ? itemOf(value, root) : value;
+      frame.isEach = isList;
+    }
+    frames.push(frame);
+  };
+
+  return {
+    frames,
+    resolve,
+    enter,
+    context: () => contextAt(0),
+    inEach: () => frames.some(f => f.isEach)
+  };
+};
+
+// Scope at the end of `before`
+const scopeAt = (before: string, rootNode: ValueNode, root?: JsonSchema) => {
+  const scope = createScope(rootNode, root);
+  let match;
+  BLOCK_TAG.lastIndex = 0;
+  while ((match = BLOCK_TAG.exec(before)) !== null) {
+    scope.enter(match[1], match[2], match[3]);
+  }
+  return scope;
+};
+
+let knownHelperNames: Set<string> | null = null;
+const isKnownHelper = (name: string) => {
+  knownHelperNames ??= new Set([...STANDARD_HELPERS.map(h => h.name), ...CORE_BLOCK_HELPERS.map(h => h.name), ...CORE_INLINE_HELPERS.map(h => h.name)]);
+  return knownHelperNames.has(name);
+};
+
+// -- Completion --
+
+const functionSnippet = (func: UserFunction, separator: string) =>
+  func.params.map((param, i) => `\${${i + 1}:${param}}`).join(separator);
+
+// Failing tests are called out wherever the function is offered
+const functionDocumentation = (func: UserFunction): string =>
+  [func.description || 'User function', func.testStatus === 'failed' ? '**Fails its tests**' : ''].filter(Boolean).join('\n\n');
+
+const helperItems = (ctx: TemplateCompletionContext, block: boolean): TemplateCompletion[] => [
+  ...(block ? CORE_BLOCK_HELPERS : CORE_INLINE_HELPERS).map(helper => ({
+    label: helper.name,
+    kind: 'keyword' as const,
+    insertText: helper.name,
+    detail: helper.signature,
+    documentation: helper.desc
+  })),
+  ...STANDARD_HELPERS.map(helper => ({
+    label: helper.name,
+    kind: 'helper' as const,
+    insertText: helper.name,
+    detail: helper.signature,
+    documentation: helper.desc
+  })),
+  ...ctx.functions.map(func => ({
+    label: func.name,
+    kind: 'function' as const,
+    insertText: func.params.length ? `${func.name} ${functionSnippet(func, ' ')}` : func.name,
+    snippet: func.params.length > 0,
+    detail: formatSignature(func),
+    documentation: functionDocumentation(func)
+  }))
+];
+
+// Liquid filters after |: user functions take the piped value as their first argument
+const filterItems = (ctx: TemplateCompletionContext): TemplateCompletion[] => [
+  ...ctx.functions.map(func => ({
+    label: func.name,
+    kind: 'function' as const,
+    insertText: func.params.length > 1 ? `${func.name}: ${functionSnippet({ ...func, params: func.params.slice(1) }, ', ')}` : func.name,
+    snippet: func.params.length > 1,
+    detail: formatSignature(func),
+    documentation: functionDocumentation(func)
+  })),
+  ...LIQUID_FILTER_NAMES.filter(name => !ctx.functions.some(f => f.name === name)).map(name => ({
+    label: name,
+    kind: 'helper' as const,
+    insertText: name,
+    detail: 'Liquid filter'
+  }))
+];
+
+const variableItems = (entries: ReturnType<typeof childEntries>, root?: JsonSchema): TemplateCompletion[] =>
+  entries.map(({ key, node, required }) => {
+    const schema = root ? resolveSchema(node.schema, root) : undefined;
+    const docs = [schema?.description || schema?.title, schema?.enum ? `One of: ${schema.enum.map(v => JSON.stringify(v)).join(', ')}` : undefined, preview(node.sample) && `Sample: ${preview(node.sample)}`]
+      .filter(Boolean)
+      .join('\n');
+    return {
+      label: key,
+      kind: 'variable' as const,
+      insertText: /^[A-Za-z_$][\w$-]*$/.test(key) ? key : `[${key}]`,
+      detail: `${describeNode(node, root)}${required ? ' · required' : ''}${node.sample === undefined && schema ? ' · not in sample' : ''}`,
+      documentation: docs || undefined
+    };
+  });
+
+/**
+ * Suggestions at `offset` when it is inside {{ }}: variable paths of the
+ * current scope (with this, @index etc. inside #each), helpers, user
+ * functions, partial names after {{> and the matching block to close after
+ * {{/. Returns null outside of mustaches.
+ */
+export const getTemplateCompletions = (text: string, offset: number, ctx: TemplateCompletionContext): TemplateCompletionResult | null => {
+  const before = text.slice(0, offset);
+  const open = before.lastIndexOf('{{');
+  if (open === -1 || before.indexOf('}}', open) !== -1) return null;
+
+  const inner = before.slice(open + 2).replace(/^\{?~?/, '');
+  if (/^!/.test(inner)) return null;
+
+  const root = ctx.schema;
+  const rootNode: ValueNode = { sample: ctx.variables ?? {}, schema: root };
+  const scope = scopeAt(before.slice(0, open), rootNode, root);
+
+  // {{> partial
+  const partialMatch = /^#?>\s*([\w\-./]*)$/.exec(inner);
+  if (partialMatch) {
+    return {
+      replaceFrom: offset - partialMatch[1].length,
+      items: (ctx.partials || []).map(partial => ({
+        label: partial.name,
+        kind: 'partial',
+        insertText: partial.name,
+        detail: 'Partial',
+        documentation: partial.description || partial.content.slice(0, 200)
+      }))
+    };
+  }
+
+  // {{ value | filter
+  const filterMatch = ctx.engine === 'liquid' ? /\|\s*(\w*)$/.exec(inner) : null;
+  if (filterMatch) {
+    return { replaceFrom: offset - filterMatch[1].length, items: filterItems(ctx) };
+  }
+
+  // {{#func:name( or {{func:
+  const funcMatch = (ctx.engine ?? 'handlebars') !== 'handlebars' ? null : /^#?\s*func:(\w*)$/.exec(inner);
+  if (funcMatch) {
+    return {
+      replaceFrom: offset - funcMatch[1].length,
+      items: ctx.functions.map(func => ({
+        label: func.name,
+        kind: 'function',
+        insertText: `${func.name}(${functionSnippet(func, ', ')})`,
+        snippet: true,
+        detail: formatSignature(func),
+        documentation: functionDocumentation(func)
+      }))
+    };
+  }
+
+  // {{/ closes the innermost open block
+  const closeMatch = /^\/\s*([\w\-.:]*)$/.exec(inner);
+  if (closeMatch) {
+    const innermost = scope.frames[scope.frames.length - 1];
+    return {
+      replaceFrom: offset - closeMatch[1].length,
+      items: innermost ? [{ label: innermost.helper, kind: 'keyword', insertText: innermost.helper, detail: 'Close block' }] : []
+    };
+  }
+
+  const word = /[@\w$\-.\/\[\]]*$/.exec(inner)![0];
+  const head = inner.slice(0, inner.length - word.length);
+  const isBlockStart = /^[#^]\s*$/.test(head);
+  const isHelperPosition = isBlockStart || /^\s*$/.test(head) || /\(\s*$/.test(head);
+  const inString = (head.match(/"/g) || []).length % 2 === 1 || (head.match(/'/g) || []).length % 2 === 1;
+  if (inString) return null;
+
+  // Leading ../ segments walk up one context each
+  const [, prefix, path] = /^((?:\.\.\/)*)(.*)$/.exec(word)!;
+
+  // Member access: complete the properties of everything before the last dot
+  const lastDot = path.lastIndexOf('.');
+  if (lastDot >= 0) {
+    const parent = scope.resolve(prefix + path.slice(0, lastDot));
+    const items = parent ? variableItems(childEntries(parent, root), root) : [];
+    if (parent && Array.isArray(parent.sample)) items.push({ label: 'length', kind: 'variable', insertText: 'length', detail: 'number' });
+    return { replaceFrom: offset - (path.length - lastDot - 1), items };
+  }
+
+  const context = prefix ? scope.resolve(prefix) ?? rootNode : scope.context();
+  const items: TemplateCompletion[] = variableItems(childEntries(context, root), root);
+
+  if (ctx.engine === 'mustache') {
+    // User functions are lambdas, used where a name is not in the data
+    if (isHelperPosition && !prefix) items.push(...ctx.functions.map(func => ({ label: func.name, kind: 'function' as const, insertText: func.name, detail: formatSignature(func), documentation: functionDocumentation(func) })));
+  } else if (ctx.engine === 'liquid') {
+    // Nothing but data in front of the first filter
+  } else if (!prefix) {
+    Object.entries(Object.assign({}, ...scope.frames.map(f => f.blockParams))).forEach(([name, node]) => {
+      items.push({ label: name, kind: 'variable', insertText: name, detail: `${describeNode(node as ValueNode, root)} · block param` });
+    });
+    items.push({ label: 'this', kind: 'keyword', insertText: 'this', detail: describeNode(scope.context(), root), documentation: 'The current context' });
+    items.push({ label: '@root', kind: 'data', insertText: '@root', detail: 'object', documentation: 'The top-level variables' });
+    if (scope.inEach()) {
+      items.push(
+        { label: '@index', kind: 'data', insertText: '@index', detail: 'number', documentation: 'Zero-based position in the #each loop' },
+        { label: '@key', kind: 'data', insertText: '@key', detail: 'string | number', documentation: 'Key of the current item' },
+        { label: '@first', kind: 'data', insertText: '@first', detail: 'boolean', documentation: 'True for the first item' },
+        { label: '@last', kind: 'data', insertText: '@last', detail: 'boolean', documentation: 'True for the last item' }
+      );
+    }
+    if (scope.frames.length > 0) {
+      items.push({ label: '../', kind: 'keyword', insertText: '../', detail: 'Parent context' });
+    }
+    if (isHelperPosition) items.push(...helperItems(ctx, isBlockStart));
+    if (isBlockStart) {
+      items.push({ label: 'func:', kind: 'keyword', insertText: 'func:', detail: '{{#func:name(args)}}', documentation: 'Call a user function' });
+    }
+  }
+
+  return { replaceFrom: offset - path.length, items };
+};
+
+// -- Signature Help --
+
+// Counts the arguments before the cursor, split on commas or whitespace outside quotes and parentheses
+const countArguments = (args: string, byComma: boolean): number => {
+  let count = 0;
+  let depth = 0;
+  let quote = '';
+  let inToken = false;
+  for (const char of args) {
+    if (quote) {
+      if (char === quote) quote = '';
+      continue;
+    }
+    const isSeparator = byComma ? char === ',' : /\s/.test(char);
+    if (char === '"' || char === "'") {
+      quote = char;
+      inToken = true;
+    } else if (char === '(') {
+      depth++;
+      inToken = true;
+    } else if (char === ')') {
+      depth--;
+    } else if (depth === 0 && isSeparator) {
+      if (inToken || byComma) count++;
+      inToken = false;
+    } else {
+      inToken = true;
+    }
+  }
+  return count;
+};
+
+/**
+ * Parameter hints for the helper or user function being called at `offset`:
+ * `{{#func:name(a, |` as well as `{{ name a |` and `{{#name |`.
+ */
+export const getTemplateSignature = (text: string, offset: number, ctx: TemplateCompletionContext): TemplateSignature | null => {
+  const before = text.slice(0, offset);
+  const open = before.lastIndexOf('{{');
+  if (open === -1 || before.indexOf('}}', open) !== -1) return null;
+  const inner = before.slice(open + 2).replace(/^\{?~?\s*/, '');
+
+  const funcCall = /^#?\s*func:(\w+)\s*\(([^)]*)$/.exec(inner);
+  if (funcCall) {
+    const func = ctx.functions.find(f => f.name === funcCall[1]);
+    if (!func) return null;
+    return {
+      label: formatSignature(func),
+      params: func.params.map((_, i) => formatParam(func, i)),
+      activeParameter: Math.min(countArguments(funcCall[2], true), Math.max(func.params.length - 1, 0)),
+      documentation: func.description
+    };
+  }
+
+  const helperCall = /^[#^]?\s*([\w-]+)\s+([\s\S]*)$/.exec(inner);
+  if (!helperCall) return null;
+  const [, name, args] = helperCall;
+  const active = countArguments(args, false);
+
+  const func = ctx.functions.find(f => f.name === name);
+  if (func) {
+    const params = func.params.map((_, i) => formatParam(func, i));
+    return {
+      label: `${func.name} ${params.join(' ')}${func.returnType?.trim() ? `: ${func.returnType.trim()}` : ''}`,
+      params,
+      activeParameter: Math.min(active, Math.max(func.params.length - 1, 0)),
+      documentation: func.description
+    };
+  }
+
+  const helper = [...STANDARD_HELPERS, ...CORE_BLOCK_HELPERS, ...CORE_INLINE_HELPERS].find(h => h.name === name);
+  if (!helper) return null;
+  const params = helper.signature.split(' ').slice(1);
+  if (params.length === 0) return null;
+  return { label: helper.signature, params, activeParameter: Math.min(active, params.length - 1), documentation: helper.desc };
+};
+
+// -- Hover & Inline Values --
+
+export interface TemplateHover {
+  // Offsets of the hovered expression
+  start: number;
+  end: number;
+  expression: string;
+  kind: 'value' | 'helper' | 'function';
+  value?: any;
+  type?: string;
+  description?: string;
+  note?: string; // e.g. that the value is the first item of a loop
+  // User function calls; evaluate `func` with `args` for the return value
+  func?: UserFunction;
+  args?: any[];
+  argsResolved?: boolean;
+}
+
+const PATH_CHARS = /[@\w$\-.\/\[\]]/;
+const LITERAL = /^(?:-?\d+(?:\.\d+)?|"[^"]*"|'[^']*'|true|false|null|undefined)$/;
+
+const literalValue = (token: string): any => {
+  if (token === 'undefined') return undefined;
+  if (token.startsWith("'")) return token.slice(1, -1);
+  return JSON.parse(token);
+};
+
+// The mustache containing `offset`, as offsets of its inner text
+const mustacheAt = (text: string, offset: number): { start: number; end: number } | null => {
+  const open = text.lastIndexOf('{{', offset);
+  if (open === -1) return null;
+  const close = text.indexOf('}}', open + 2);
+  if (close === -1 || close + 2 < offset) return null;
+  return { start: open + 2, end: close };
+};
+
+// Splits helper arguments on whitespace or commas, keeping quoted strings and (subexpressions) whole
+const splitArguments = (args: string): string[] => {
+  const tokens: string[] = [];
+  let current = '';
+  let depth = 0;
+  let quote = '';
+  for (const char of args) {
+    if (quote) {
+      current += char;
+      if (char === quote) quote = '';
+      continue;
+    }
+    if (char === '"' || char === "'") quote = char;
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (depth === 0 && (char === ',' || /\s/.test(char))) {
+      if (current) tokens.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current) tokens.push(current);
+  return tokens;
+};
+
+/**
+ * Describes the expression under the cursor: the sample value and type of
+ * a variable path (resolved in its #each/#with scope), the documentation of
+ * a helper, or a user function call with its statically resolved arguments.
+ */
+export const getTemplateHover = (text: string, offset: number, ctx: TemplateCompletionContext): TemplateHover | null => {
+  const mustache = mustacheAt(text, offset);
+  if (!mustache || offset < mustache.start || offset > mustache.end) return null;
+
+  const root = ctx.schema;
+  const rootNode: ValueNode = { sample: ctx.variables ?? {}, schema: root };
+  const scope = scopeAt(text.slice(0, mustache.start - 2), rootNode, root);
+  const inner = text.slice(mustache.start, mustache.end);
+
+  const argValues = (args: string) => {
+    const values = splitArguments(args).map(token => {
+      if (LITERAL.test(token)) return { known: true, value: literalValue(token) };
+      const node = token.startsWith('(') ? undefined : scope.resolve(token);
+      return { known: node?.sample !== undefined, value: node?.sample };
+    });
+    return { args: values.map(v => v.value), argsResolved: values.every(v => v.known) };
+  };
+
+  // {{#func:name(args)}}
+  const funcCall = /^(\s*#?\s*func:)(\w+)\s*\(([\s\S]*)\)\s*$/.exec(inner);
+  // Only the name part; arguments are hovered like any other path
+  if (funcCall && offset <= mustache.start + inner.indexOf('(')) {
+    const func = ctx.functions.find(f => f.name === funcCall[2]);
+    if (!func) return null;
+    const start = mustache.start - 2;
+    return {
+      start,
+      end: mustache.end + 2,
+      expression: `${func.name}(${funcCall[3].trim()})`,
+      kind: 'function',
+      func,
+      ...argValues(funcCall[3])
+    };
+  }
+
+  // Word under the cursor
+  let start = offset;
+  let end = offset;
+  while (start > mustache.start && PATH_CHARS.test(text[start - 1])) start--;
+  while (end < mustache.end && PATH_CHARS.test(text[end])) end++;
+  const word = text.slice(start, end);
+  if (!word || LITERAL.test(word)) return null;
+
+  const head = text.slice(mustache.start, start);
+  const isCallee = /^[{~]?\s*[#^]?\s*$/.test(head) || /\(\s*$/.test(head);
+  const rest = text.slice(end, mustache.end).replace(/~?\}?$/, '');
+
+  const func = ctx.functions.find(f => f.name === word);
+  if (func && ctx.engine === 'liquid' && /\|\s*$/.test(head)) {
+    // The piped value is the first argument; it is only known in front of the first filter
+    const piped = head.replace(/\|\s*$/, '').trim();
+    const args = rest.replace(/\|[\s\S]*$/, '').replace(/^\s*:/, '').trim();
+    return { start, end, expression: `${piped} | ${word}${args ? `: ${args}` : ''}`, kind: 'function', func, ...argValues(`${piped.includes('|') ? '(piped)' : piped} ${args}`) };
+  }
+  if (func && isCallee) {
+    const args = rest.replace(/\)[\s\S]*$/, '');
+    return { start, end, expression: `${word} ${args.trim()}`.trim(), kind: 'function', func, ...argValues(args) };
+  }
+
+  const helper = [...STANDARD_HELPERS, ...CORE_BLOCK_HELPERS, ...CORE_INLINE_HELPERS].find(h => h.name === word);
+  if (helper && isCallee) {
+    return { start, end, expression: word, kind: 'helper', type: helper.signature, description: helper.desc };
+  }
+
+  if (word.startsWith('@') && !word.startsWith('@root')) {
+    return { start, end, expression: word, kind: 'value', type: 'data variable', note: scope.inEach() ? 'Set by the enclosing #each' : undefined };
+  }
+
+  const node = scope.resolve(word);
+  if (!node) return null;
+  const schema = root ? resolveSchema(node.schema, root) : undefined;
+  const loop = scope.frames.some(f => f.isEach) && !word.startsWith('@root');
+  return {
+    start,
+    end,
+    expression: word,
+    kind: 'value',
+    value: node.sample,
+    type: describeNode(node, root),
+    description: schema?.description || schema?.title,
+    note: node.sample === undefined
+      ? schema ? 'Declared in the schema, not in the sample' : 'Not in the variables'
+      : loop ? 'Value for the first item of the loop' : undefined
+  };
+};
+
+const shortValue = (value: any) => {
+  const text = JSON.stringify(value);
+  if (text === undefined) return String(value);
+  return text.length > 40 ? `${text.slice(0, 37)}...` : text;
+};
+
+// Path-only mustaches: {{ path }} or {{{ path }}}
+const INLINE_MUSTACHE = /\{\{(\{?)~?\s*([@\w$.\[][@\w$\-.\/\[\]]*)\s*~?\}?\}\}|\{\{~?\s*([#^/])\s*([^\s}~]+)([^}]*?)~?\}\}/g;
+
+/**
+ * Sample values of every `{{ path }}` in the template, placed after its
+ * closing braces. Used for inlay hints; helper calls and unknown paths are
+ * skipped.
+ */
+export const getTemplateInlineValues = (text: string, ctx: TemplateCompletionContext): { offset: number; label: string }[] => {
+  const root = ctx.schema;
+  const scope = createScope({ sample: ctx.variables ?? {}, schema: root }, root);
+  const values: { offset: number; label: string }[] = [];
+
+  let match;
+  INLINE_MUSTACHE.lastIndex = 0;
+  while ((match = INLINE_MUSTACHE.exec(text)) !== null) {
+    if (match[3]) {
+      scope.enter(match[3], match[4], match[5]);
+      continue;
+    }
+    const path = match[2];
+    if (path === 'else' || LITERAL.test(path) || isKnownHelper(path) || ctx.functions.some(f => f.name === path) || path.startsWith('@') && !path.startsWith('@root')) continue;
+    const node = scope.resolve(path);
+    if (!node || node.sample === undefined) continue;
+    values.push({ offset: match.index + match[0].length, label: shortValue(node.sample) });
+  }
+  return values;
+};
@@ -0,0 +1,29 @@
+import { TemplateEngine, UserFunction } from './types';
+
+export interface TemplateEngineInfo {
+  id: TemplateEngine;
+  label: string;
+  description: string;
+}
+
+export const TEMPLATE_ENGINES: TemplateEngineInfo[] = [
+  { id: 'handlebars', label: 'Handlebars', description: 'Helpers, subexpressions and {{#func:...}} calls' },
+  { id: 'liquid', label: 'Liquid', description: 'Filters ({{ total | formatCurrency }}) and {% tags %}' },
+  { id: 'mustache', label: 'Mustache', description: 'Logic-less; functions are lambdas ({{#fn}}text{{/fn}})' }
+];
+
+export const engineLabel = (engine: TemplateEngine = 'handlebars') =>
+  TEMPLATE_ENGINES.find(e => e.id === engine)?.label ?? engine;
+
+// What inserting a user function writes into a template of the engine
+export const functionCallSnippet = (engine: TemplateEngine | undefined, func: UserFunction): string => {
+  const [first, ...rest] = func.params;
+  switch (engine) {
+    case 'liquid':
+      return `{{ ${first ?? 'nil'} | ${func.name}${rest.length > 0 ? `: ${rest.join(', ')}` : ''} }}`;
+    case 'mustache':
+      return first ? `{{#${func.name}}}{{${first}}}{{/${func.name}}}` : `{{${func.name}}}`;
+    default:
+      return `{{#func:${func.name}(${func.params.join(', ')})}}`;
+  }
+};
@@ -0,0 +1,599 @@
+import Handlebars from 'handlebars';
+import { EscapeMode, UserFunction } from './types';
+import { BUILT_IN_HELPERS, preprocessTemplateWithMap } from './utils';
+
+// Converts the Handlebars subset used here (if/unless/each/with, comparison
+// and math helpers, {{#func:...}} calls, partials) into Jinja2 or Liquid for
+// reuse in backend services. Constructs without an equivalent are still
+// written out as closely as possible and reported as warnings.
+
+export type ExportTarget = 'jinja2' | 'liquid';
+
+export const EXPORT_TARGETS: { id: ExportTarget; label: string; extension: string }[] = [
+  { id: 'jinja2', label: 'Jinja2', extension: 'j2' },
+  { id: 'liquid', label: 'Liquid', extension: 'liquid' }
+];
+
+export interface ExportWarning {
+  message: string;
+  line: number; // 1-based, in the original template
+  column: number; // 1-based
+}
+
+export interface TemplateExport {
+  output: string;
+  warnings: ExportWarning[];
+  // Set when the template does not parse; nothing is converted then
+  error?: string;
+}
+
+interface ExportOptions {
+  // Output format of the document; decides how escaped {{ }} output translates
+  escape?: EscapeMode;
+  // Called without arguments ({{today}}) they are function calls, not variables
+  functions?: UserFunction[];
+}
+
+// Target-neutral expression; helpers are mapped to the target's filters while building it
+type Expr =
+  | { type: 'atom'; text: string } // Path or literal, already in target syntax
+  | { type: 'size'; of: Expr }
+  | { type: 'index'; object: Expr; key: Expr }
+  | { type: 'filter'; name: string; input: Expr; args: Expr[]; named: [string, Expr][] }
+  | { type: 'call'; name: string; args: Expr[]; named: [string, Expr][] }
+  | { type: 'method'; object: Expr; name: string; args: Expr[] } // Jinja2 only
+  | { type: 'binary'; op: string; left: Expr; right: Expr }
+  | { type: 'logic'; op: 'and' | 'or'; operands: Expr[] }
+  | { type: 'not'; operand: Expr };
+
+interface Scope {
+  // Target expression the Handlebars context refers to; undefined at the root
+  context?: string;
+  blockParams: Record<string, string>;
+  // Set for #each: how @index, @key, @first and @last are written
+  loop?: Record<string, string>;
+}
+
+const COMPARISONS: Record<string, string> = { eq: '==', ne: '!=', lt: '<', gt: '>', lte: '<=', gte: '>=' };
+const INVERTED: Record<string, string> = { '==': '!=', '!=': '==', '<': '>=', '>': '<=', '<=': '>', '>=': '<' };
+const ARITHMETIC: Record<string, [string, string]> = {
+  add: ['+', 'plus'],
+  subtract: ['-', 'minus'],
+  multiply: ['*', 'times'],
+  divide: ['/', 'divided_by']
+};
+
+const atom = (text: string): Expr => ({ type: 'atom', text });
+const isIdentifier = (name: string) => /^[A-Za-z_][A-Za-z0-9_]*$/.test(name);
+const isCondition = (e: Expr) => e.type === 'logic' || e.type === 'not' || (e.type === 'binary' && e.op in INVERTED);
+
+const unique = (base: string, taken: Set<string>) => {
+  let name = base;
+  for (let i = 2; taken.has(name); i++) name = `${base}${i}`;
+  return name;
+};
+
+// Singular loop variable for a collection: items -> item, addresses -> address
+const loopVariable = (collection: string, taken: Set<string>) => {
+  const last = collection.split(/[.[\]"]+/).filter(Boolean).pop() || '';
+  const singular = /ies$/.test(last) ? last.slice(0, -3) + 'y' : /(ss|[sxz]|ch|sh)es$/.test(last) ? last.slice(0, -2) : /[^s]s$/.test(last) ? last.slice(0, -1) : '';
+  return unique(isIdentifier(singular) ? singular : 'item', taken);
+};
+
+/**
+ * Converts a Handlebars template to Jinja2 or Liquid. Paths inside #each and
+ * #with are rewritten against the loop variable, since neither target changes
+ * the context in blocks. Standard helpers map to the target's filters.
+ */
+export const exportTemplate = (template: string, target: ExportTarget, { escape = 'html', functions = [] }: ExportOptions = {}): TemplateExport => {
+  const { source, toOriginalPosition } = preprocessTemplateWithMap(template);
+  let ast: hbs.AST.Program;
+  try {
+    ast = Handlebars.parse(source);
+  } catch (e: any) {
+    return { output: '', warnings: [], error: String(e.message).split('\n')[0] };
+  }
+
+  const jinja = target === 'jinja2';
+  const targetLabel = jinja ? 'Jinja2' : 'Liquid';
+  const userFunctions = new Set(functions.map(f => f.name));
+  const warnings: ExportWarning[] = [];
+  const warn = (node: hbs.AST.Node, message: string) => {
+    const start = node.loc?.start || { line: 1, column: 0 };
+    const position = toOriginalPosition(start.line, start.column);
+    if (!warnings.some(w => w.message === message && w.line === position.line && w.column === position.column)) {
+      warnings.push({ message, ...position });
+    }
+  };
+
+  // Innermost last; #if and #unless keep the context and push nothing
+  const scopes: Scope[] = [{ blockParams: {} }];
+  const takenNames = () => new Set(scopes.flatMap(s => [...Object.values(s.blockParams), ...Object.values(s.loop || {})]));
+
+  // Liquid filter arguments and comparison operands cannot be filter chains;
+  // those are assigned to a variable in front of the statement
+  let prelude: string[] = [];
+  let temporaries = 0;
+
+  // ---- Handlebars expressions -> Expr ----
+
+  const literal = (node: any): Expr => {
+    switch (node.type) {
+      case 'StringLiteral':
+        // Liquid strings have no escapes, only a choice of quotes
+        if (jinja) return atom(JSON.stringify(node.value));
+        return atom(node.value.includes('"') ? `'${node.value}'` : `"${node.value}"`);
+      case 'NumberLiteral':
+        return atom(String(node.value));
+      case 'BooleanLiteral':
+        return atom(String(node.value));
+      default:
+        return atom(jinja ? 'none' : 'nil');
+    }
+  };
+
+  const member = (base: string, part: string) =>
+    isIdentifier(part) ? `${base}.${part}` : /^\d+$/.test(part) ? `${base}[${part}]` : `${base}[${JSON.stringify(part)}]`;
+
+  const dataPath = (node: hbs.AST.PathExpression): Expr => {
+    const [head, ...rest] = node.parts;
+    if (head === 'root') {
+      if (rest.length === 0) warn(node, `@root cannot be referenced as a whole in ${targetLabel}`);
+      return path(node, rest, scopes.filter(s => s.context !== undefined).length);
+    }
+    const loops = scopes.filter(s => s.loop).reverse();
+    const loop = loops[node.depth];
+    if (!loop || !loop.loop![head]) {
+      warn(node, `@${head} has no ${targetLabel} equivalent here`);
+      return atom(head);
+    }
+    if (node.depth > 0) {
+      if (jinja) warn(node, `Jinja2 loops cannot reach the data of an outer loop (@../${head})`);
+      else if (/^forloop\./.test(loop.loop![head])) return atom(loop.loop![head].replace(/^forloop/, `forloop${'.parentloop'.repeat(node.depth)}`));
+    }
+    return atom(loop.loop![head]);
+  };
+
+  // Resolves a path against the context it refers to; `length` becomes the target's size
+  const path = (node: hbs.AST.PathExpression, parts = node.parts, depth = node.depth): Expr => {
+    let base: string | undefined;
+    let rest = parts;
+    const owner = depth === 0 && parts.length > 0 ? [...scopes].reverse().find(s => parts[0] in s.blockParams) : undefined;
+    if (owner) {
+      base = owner.blockParams[parts[0]];
+      rest = parts.slice(1);
+    } else {
+      const contexts = scopes.filter(s => s.context !== undefined || s === scopes[0]);
+      const scope = contexts[contexts.length - 1 - depth];
+      if (!scope) warn(node, `'${node.original}' goes above the root context`);
+      base = scope?.context;
+    }
+    const size = rest.length > 0 && rest[rest.length - 1] === 'length';
+    if (size) rest = rest.slice(0, -1);
+
+    let text = base;
+    rest.forEach(part => {
+      text = text === undefined ? part : member(text, part);
+    });
+    if (text === undefined) {
+      warn(node, `The root context cannot be referenced as a whole in ${targetLabel}`);
+      text = jinja ? 'none' : 'nil';
+    }
+    return size ? { type: 'size', of: atom(text) } : atom(text);
+  };
+
+  const expression = (node: any): Expr => {
+    if (node.type === 'PathExpression') return node.data ? dataPath(node) : path(node);
+    if (node.type === 'SubExpression') return helperCall(node, node.path, node.params, node.hash);
+    return literal(node);
+  };
+
+  const namedArgs = (hash: hbs.AST.Hash | undefined): [string, Expr][] =>
+    (hash?.pairs || []).map(pair => [pair.key, expression(pair.value)]);
+
+  const filter = (name: string, input: Expr, args: Expr[] = [], named: [string, Expr][] = []): Expr =>
+    ({ type: 'filter', name, input, args, named });
+
+  // Standard helpers with a counterpart in the target, given the converted arguments
+  const mapHelper = (name: string, args: Expr[], params: any[]): Expr | undefined => {
+    const [first, second, third] = args;
+    const stringParam = (i: number) => (params[i]?.type === 'StringLiteral' ? params[i].value as string : undefined);
+    switch (name) {
+      case 'uppercase': return first && filter(jinja ? 'upper' : 'upcase', first);
+      case 'lowercase': return first && filter(jinja ? 'lower' : 'downcase', first);
+      case 'capitalize': return first && filter('capitalize', first);
+      case 'abs': return first && filter('abs', first);
+      case 'first':
+      case 'last': return first && filter(name, first);
+      case 'round': return first && filter('round', first, second ? [second] : []);
+      case 'join': return first && filter('join', first, second ? [second] : []);
+      case 'replace': return third && filter('replace', first, [second, third]);
+      case 'truncate': {
+        if (!second) return undefined;
+        const suffix = third || atom('"…"');
+        return jinja ? filter('truncate', first, [second, atom('true'), suffix, atom('0')]) : filter('truncate', first, [second, suffix]);
+      }
+      case 'split':
+        if (!second) return undefined;
+        return jinja ? { type: 'method', object: first, name: 'split', args: [second] } : filter('split', first, [second]);
+      case 'pluck':
+        if (!second) return undefined;
+        return jinja ? filter('list', filter('map', first, [], [['attribute', second]])) : filter('map', first, [second]);
+      case 'sum':
+        if (!first) return undefined;
+        if (!second) return filter('sum', first);
+        return jinja ? filter('sum', first, [], [['attribute', second]]) : filter('sum', first, [second]);
+      case 'filter':
+        if (!second) return undefined;
+        if (jinja) return filter('selectattr', first, third ? [second, atom('"equalto"'), third] : [second]);
+        return filter('where', first, third ? [second, third] : [second]);
+      case 'sortBy': {
+        if (!second) return undefined;
+        const order = stringParam(2);
+        if (third && order === undefined) return undefined;
+        const descending = order === 'desc';
+        if (jinja) return filter('sort', first, [], descending ? [['attribute', second], ['reverse', atom('true')]] : [['attribute', second]]);
+        const sorted = filter('sort', first, [second]);
+        return descending ? filter('reverse', sorted) : sorted;
+      }
+      case 'toJsonString': return first && (jinja ? filter('tojson', first, [], [['indent', atom('2')]]) : filter('json', first));
+      case 'lookup': return second && { type: 'index', object: first, key: second };
+    }
+    if (name in COMPARISONS && second) return { type: 'binary', op: COMPARISONS[name], left: first, right: second };
+    if (name in ARITHMETIC && second) {
+      const [operator, liquidFilter] = ARITHMETIC[name];
+      return jinja ? { type: 'binary', op: operator, left: first, right: second } : filter(liquidFilter, first, [second]);
+    }
+    if ((name === 'and' || name === 'or') && second) return { type: 'logic', op: name, operands: args };
+    if (name === 'not' && first) return { type: 'not', operand: first };
+    return undefined;
+  };
+
+  const helperCall = (node: hbs.AST.Node, pathNode: any, params: any[], hash?: hbs.AST.Hash): Expr => {
+    const name: string = pathNode.original;
+    // {{#func:name(a, b)}} arrives as {{ func 'name' a b }}
+    if (name === 'func' && params[0]?.type === 'StringLiteral') {
+      return { type: 'call', name: params[0].value, args: params.slice(1).map(expression), named: namedArgs(hash) };
+    }
+    const args = params.map(expression);
+    const mapped = mapHelper(name, args, params);
+    if (mapped) {
+      if (hash?.pairs.length) warn(node, `Hash arguments of '${name}' are dropped in ${targetLabel}`);
+      return mapped;
+    }
+    if (!userFunctions.has(name)) {
+      warn(node, BUILT_IN_HELPERS.includes(name)
+        ? `Helper '${name}' has no ${targetLabel} equivalent; it is written as a call to a '${name}' ${jinja ? 'function' : 'filter'} you need to provide`
+        : `Unknown helper '${name}' is written as a ${jinja ? 'function' : 'filter'} call`);
+    }
+    return { type: 'call', name, args, named: namedArgs(hash) };
+  };
+
+  // ---- Expr -> Jinja2 ----
+
+  const jinjaAtomic = (e: Expr) => e.type === 'atom' || e.type === 'index' || e.type === 'call' || e.type === 'method';
+  const jinjaWrap = (e: Expr) => (jinjaAtomic(e) ? toJinja(e) : `(${toJinja(e)})`);
+  const jinjaArgs = (args: Expr[], named: [string, Expr][]) =>
+    [...args.map(toJinja), ...named.map(([key, value]) => `${key}=${toJinja(value)}`)].join(', ');
+
+  const toJinja = (e: Expr): string => {
+    switch (e.type) {
+      case 'atom': return e.text;
+      case 'size': return `${jinjaWrap(e.of)} | length`;
+      case 'index': return `${jinjaWrap(e.object)}[${toJinja(e.key)}]`;
+      case 'filter': {
+        const input = e.input.type === 'filter' || e.input.type === 'size' ? toJinja(e.input) : jinjaWrap(e.input);
+        const args = jinjaArgs(e.args, e.named);
+        return `${input} | ${e.name}${args ? `(${args})` : ''}`;
+      }
+      case 'call': return `${e.name}(${jinjaArgs(e.args, e.named)})`;
+      case 'method': return `${jinjaWrap(e.object)}.${e.name}(${jinjaArgs(e.args, [])})`;
+      case 'binary': return `${jinjaWrap(e.left)} ${e.op} ${jinjaWrap(e.right)}`;
+      case 'logic': return e.operands.map(operand => (operand.type === 'logic' ? `(${toJinja(operand)})` : isCondition(operand) ? toJinja(operand) : jinjaWrap(operand))).join(` ${e.op} `);
+      case 'not':
+        if (e.operand.type === 'binary' && e.operand.op in INVERTED) return toJinja({ ...e.operand, op: INVERTED[e.operand.op] });
+        return `not ${jinjaWrap(e.operand)}`;
+    }
+  };
+
+  // ---- Expr -> Liquid ----
+
+  // A filter chain is allowed; arguments of its filters must be simple
+  const toLiquid = (e: Expr, node: hbs.AST.Node): string => {
+    switch (e.type) {
+      case 'filter': {
+        const args = [...e.args.map(arg => liquidOperand(arg, node)), ...e.named.map(([key, value]) => `${key}: ${liquidOperand(value, node)}`)];
+        return `${toLiquid(e.input, node)} | ${e.name}${args.length ? `: ${args.join(', ')}` : ''}`;
+      }
+      case 'call': {
+        const [input, ...rest] = e.args;
+        return toLiquid(filter(e.name, input || atom('nil'), rest, e.named), node);
+      }
+      case 'size': return e.of.type === 'atom' ? `${e.of.text}.size` : `${toLiquid(e.of, node)} | size`;
+      case 'binary':
+      case 'logic':
+      case 'not':
+        warn(node, `Liquid cannot output the result of a condition; use it in {% if %}`);
+        return liquidCondition(e, node);
+      default:
+        return liquidOperand(e, node);
+    }
+  };
+
+  const liquidOperand = (e: Expr, node: hbs.AST.Node): string => {
+    if (e.type === 'atom') return e.text;
+    if (e.type === 'size' && e.of.type === 'atom') return `${e.of.text}.size`;
+    if (e.type === 'index') return `${liquidOperand(e.object, node)}[${liquidOperand(e.key, node)}]`;
+    if (isCondition(e)) {
+      warn(node, 'Liquid has no parentheses; a nested condition cannot be used as a value');
+      return liquidCondition(e, node);
+    }
+    const name = `tmp${++temporaries}`;
+    prelude.push(`{% assign ${name} = ${toLiquid(e, node)} %}`);
+    return name;
+  };
+
+  const liquidCondition = (e: Expr, node: hbs.AST.Node): string => {
+    switch (e.type) {
+      case 'binary':
+        return `${liquidOperand(e.left, node)} ${e.op} ${liquidOperand(e.right, node)}`;
+      case 'logic':
+        if (e.operands.some(operand => operand.type === 'logic')) {
+          warn(node, "Liquid evaluates 'and'/'or' from right to left without grouping; check the combined condition");
+        }
+        return e.operands.map(operand => liquidCondition(operand, node)).join(` ${e.op} `);
+      case 'not':
+        if (e.operand.type === 'binary' && e.operand.op in INVERTED) {
+          return liquidCondition({ ...e.operand, op: INVERTED[e.operand.op] }, node);
+        }
+        // blank covers nil, false and empty text or lists, but not 0
+        warn(node, "Liquid has no 'not' operator inside a condition; it is written as a comparison with blank");
+        return `${liquidOperand(e.operand, node)} == blank`;
+      default:
+        return liquidOperand(e, node);
+    }
+  };
+
+  // ---- Statements ----
+
+  const tag = (body: string, strip?: { open: boolean; close: boolean }) =>
+    `{%${strip?.open ? '-' : ''} ${body} ${strip?.close ? '-' : ''}%}`;
+  const output = (body: string, strip?: { open: boolean; close: boolean }) =>
+    `{{${strip?.open ? '-' : ''} ${body} ${strip?.close ? '-' : ''}}}`;
+
+  // Takes the prelude gathered while converting one statement
+  const withPrelude = (text: string) => {
+    const lines = prelude.join('');
+    prelude = [];
+    return lines + text;
+  };
+
+  // `{% if %}` or, for a negated Liquid condition, `{% unless %}`
+  const condition = (e: Expr, node: hbs.AST.Node): { keyword: string; text: string } => {
+    if (jinja) return { keyword: 'if', text: toJinja(e) };
+    if (e.type === 'not' && !(e.operand.type === 'binary' && e.operand.op in INVERTED)) {
+      return { keyword: 'unless', text: liquidCondition(e.operand, node) };
+    }
+    return { keyword: 'if', text: liquidCondition(e, node) };
+  };
+
+  let escapeWarned = false;
+  const mustache = (node: any): string => {
+    const name: string | undefined = node.path.type === 'PathExpression' && !node.path.data ? node.path.original : undefined;
+    if (name === 'log') {
+      warn(node, `{{log}} has no ${targetLabel} equivalent and is dropped`);
+      return '';
+    }
+    let escaped: boolean = node.escaped;
+    let e: Expr;
+    if (name === 'raw' && node.params.length === 1) {
+      escaped = false;
+      e = expression(node.params[0]);
+    } else if (node.params.length > 0 || node.hash || (name !== undefined && (userFunctions.has(name) || BUILT_IN_HELPERS.includes(name)))) {
+      e = helperCall(node, node.path, node.params, node.hash);
+    } else {
+      e = expression(node.path);
+    }
+
+    const markup = escape === 'html' || escape === 'xml';
+    if (escaped && !markup && escape !== 'none' && !escapeWarned) {
+      escapeWarned = true;
+      warn(node, `Values are escaped for ${escape.toUpperCase()} here; ${targetLabel} writes them as they are`);
+    }
+    if (jinja) {
+      const value = e.type === 'filter' ? toJinja(e) : jinjaWrap(e);
+      return output(!escaped && markup ? `${value} | safe` : toJinja(e), node.strip);
+    }
+    const text = toLiquid(e, node);
+    return withPrelude(output(escaped && markup ? `${text} | escape` : text, node.strip));
+  };
+
+  // Whether a block body reads @key of its own loop, so the collection is iterated as an object
+  const usesKey = (program: hbs.AST.Program | undefined, depth = 0): boolean => {
+    let found = false;
+    const visit = (node: any, loopDepth: number) => {
+      if (!node || typeof node !== 'object' || found) return;
+      if (node.type === 'PathExpression' && node.data && node.parts[0] === 'key' && node.depth === loopDepth) {
+        found = true;
+        return;
+      }
+      const nested = node.type === 'BlockStatement' && node.path.original === 'each';
+      Object.entries(node).forEach(([key, value]) => {
+        if (key === 'loc') return;
+        const inner = nested && (key === 'program' || key === 'inverse') ? loopDepth + 1 : loopDepth;
+        if (Array.isArray(value)) value.forEach(item => visit(item, inner));
+        else visit(value, inner);
+      });
+    };
+    visit(program, depth);
+    return found;
+  };
+
+  const ifChain = (node: any): string => {
+    // {{#if a}}..{{else if b}}..{{else}}..{{/if}}: conditions are converted first so
+    // the Liquid prelude of every branch goes in front of the opening tag
+    const branches: { node: any; keyword: string; text: string }[] = [];
+    let current = node;
+    for (;;) {
+      const params = current.params;
+      let e = params.length > 0 ? expression(params[0]) : atom(jinja ? 'none' : 'nil');
+      if (current.path.original === 'unless') e = { type: 'not', operand: e };
+      if (current.hash?.pairs.length) warn(current, `Hash arguments of #${current.path.original} are dropped`);
+      const converted = condition(e, current);
+      if (branches.length > 0 && converted.keyword === 'unless') {
+        // Only the opening branch can be an unless
+        converted.keyword = 'if';
+        converted.text = liquidCondition(e, current);
+      }
+      branches.push({ node: current, ...converted });
+      const inverse = current.inverse;
+      const next = inverse?.chained ? inverse.body[0] : undefined;
+      if (!next || next.type !== 'BlockStatement' || !['if', 'unless'].includes(next.path.original)) break;
+      current = next;
+    }
+
+    let text = withPrelude('');
+    branches.forEach((branch, i) => {
+      const keyword = i === 0 ? branch.keyword : jinja ? 'elif' : 'elsif';
+      // The strip flags of {{~else if}} are recorded on the branch before it
+      text += tag(`${keyword} ${branch.text}`, i === 0 ? branch.node.openStrip : branches[i - 1].node.inverseStrip);
+      text += program(branch.node.program);
+    });
+    const last = branches[branches.length - 1].node;
+    if (last.inverse) {
+      text += tag('else', last.inverseStrip) + program(last.inverse);
+    }
+    return text + tag(`end${branches[0].keyword}`, node.closeStrip);
+  };
+
+  const eachBlock = (node: any): string => {
+    if (node.params.length === 0) {
+      warn(node, '#each without a collection');
+      return program(node.program);
+    }
+    const collection = expression(node.params[0]);
+    const collectionText = jinja ? toJinja(collection) : liquidOperand(collection, node);
+    const [itemParam, indexParam] = node.program.blockParams || [];
+    const taken = takenNames();
+    const asObject = usesKey(node.program);
+    const item = itemParam && !taken.has(itemParam) ? itemParam : loopVariable(collectionText, taken);
+    const loopName = jinja ? 'loop' : 'forloop';
+
+    let header: string;
+    let context: string;
+    const loop: Record<string, string> = { index: `${loopName}.index0`, first: `${loopName}.first`, last: `${loopName}.last` };
+    if (asObject && jinja) {
+      const key = unique('key', new Set([...taken, item]));
+      header = `for ${key}, ${item} in ${jinjaWrap(collection)}.items()`;
+      context = item;
+      loop.key = key;
+    } else if (asObject) {
+      const pair = unique('pair', new Set([...taken, item]));
+      header = `for ${pair} in ${collectionText}`;
+      context = `${pair}[1]`;
+      loop.key = `${pair}[0]`;
+    } else {
+      header = `for ${item} in ${collectionText}`;
+      context = item;
+    }
+    header = withPrelude(tag(header, node.openStrip));
+
+    const blockParams: Record<string, string> = {};
+    if (itemParam) blockParams[itemParam] = context;
+    if (indexParam) blockParams[indexParam] = asObject ? loop.key : loop.index;
+
+    scopes.push({ context, blockParams, loop });
+    let text = header + program(node.program);
+    scopes.pop();
+    if (node.inverse) text += tag('else', node.inverseStrip) + program(node.inverse);
+    return text + tag('endfor', node.closeStrip);
+  };
+
+  const withBlock = (node: any): string => {
+    if (node.params.length === 0) {
+      warn(node, '#with without a value');
+      return program(node.program);
+    }
+    const value = expression(node.params[0]);
+    // The value is tested once and its paths are written out in full inside the block
+    const converted = condition(value, node);
+    const context = jinja ? jinjaWrap(value) : liquidOperand(value, node);
+    const [alias] = node.program.blockParams || [];
+    let text = withPrelude(tag(`${converted.keyword} ${converted.text}`, node.openStrip));
+    scopes.push({ context, blockParams: alias ? { [alias]: context } : {} });
+    text += program(node.program);
+    scopes.pop();
+    if (node.inverse) text += tag('else', node.inverseStrip) + program(node.inverse);
+    return text + tag('endif', node.closeStrip);
+  };
+
+  const partial = (node: any): string => {
+    if (node.name.type !== 'PathExpression') {
+      warn(node, `Dynamic partial names have no ${targetLabel} equivalent`);
+      return '';
+    }
+    const name: string = node.name.original;
+    if (node.params.length > 0) warn(node, `The context argument of partial '${name}' is dropped; pass values as hash arguments`);
+    if (scopes.length > 1 && !node.hash && node.params.length === 0) {
+      warn(node, `Partial '${name}' renders with the block's context in Handlebars; in ${targetLabel} it sees the outer variables and the loop variable`);
+    }
+    const pairs = namedArgs(node.hash);
+    if (jinja) {
+      const include = tag(`include ${JSON.stringify(name)}`, node.strip);
+      return pairs.length ? `${tag(`with ${pairs.map(([key, value]) => `${key}=${toJinja(value)}`).join(', ')}`)}${include}${tag('endwith')}` : include;
+    }
+    const args = pairs.map(([key, value]) => `, ${key}: ${liquidOperand(value, node)}`).join('');
+    return withPrelude(tag(`include '${name}'${args}`, node.strip));
+  };
+
+  const content = (node: any): string => {
+    const text: string = node.original;
+    const needsRaw = jinja ? /\{[{%#]/.test(text) : /\{[{%]/.test(text);
+    return needsRaw ? `{% raw %}${text}{% endraw %}` : text;
+  };
+
+  const comment = (node: any): string => {
+    if (jinja) return `{#${node.strip?.open ? '-' : ''} ${node.value.trim()} ${node.strip?.close ? '-' : ''}#}`;
+    return `${tag('comment', node.strip)}${node.value.trim()}{% endcomment %}`;
+  };
+
+  const statement = (node: any): string => {
+    switch (node.type) {
+      case 'ContentStatement':
+        return content(node);
+      case 'CommentStatement':
+        return comment(node);
+      case 'MustacheStatement':
+        return mustache(node);
+      case 'PartialStatement':
+        return partial(node);
+      case 'PartialBlockStatement':
+        warn(node, `Partial blocks have no ${targetLabel} equivalent; the fallback content is dropped`);
+        return partial(node);
+      case 'DecoratorBlock':
+      case 'Decorator':
+        warn(node, `Inline partials and decorators have no ${targetLabel} equivalent and are dropped`);
+        return '';
+      case 'BlockStatement': {
+        switch (node.path.original) {
+          case 'if':
+          case 'unless':
+            return ifChain(node);
+          case 'each':
+            return eachBlock(node);
+          case 'with':
+            return withBlock(node);
+          default:
+            warn(node, `Block helper '${node.path.original}' has no ${targetLabel} equivalent; only its content is kept`);
+            return program(node.program);
+        }
+      }
+      default:
+        return '';
+    }
+  };
+
+  const program = (node: hbs.AST.Program | undefined): string => (node ? node.body.map(statement).join('') : '');
+
+  return { output: program(ast), warnings };
+};
@@ -0,0 +1,324 @@
+import yaml from 'js-yaml';
+import {
+  UserFunction,
+  TemplatePartial,
+  EscapeMode,
+  TemplateEngine,
+  TemplateAssertion,
+  TemplateAssertionKind,
+  TemplateTestCase,
+  TemplateTestResult
+} from './types';
+import { interpolateString } from './utils';
+import { diffLines } from './diff';
+
+export const ASSERTION_LABELS: Record<TemplateAssertionKind, string> = {
+  'contains': 'Contains',
+  'not-contains': 'Does not contain',
+  'matches': 'Matches regex',
+  'json-path-equals': 'Path equals',
+  'valid-json': 'Valid JSON',
+  'valid-yaml': 'Valid YAML',
+  'valid-xml': 'Valid XML'
+};
+
+// Assertions that compare against `expected`; the others only look at the output
+export const ASSERTIONS_WITH_EXPECTED: TemplateAssertionKind[] = ['contains', 'not-contains', 'matches', 'json-path-equals'];
+
+export const describeAssertion = (assertion: TemplateAssertion): string => {
+  const label = ASSERTION_LABELS[assertion.kind];
+  if (assertion.kind === 'json-path-equals') return `${assertion.path || '$'} equals ${assertion.expected ?? ''}`;
+  if (ASSERTIONS_WITH_EXPECTED.includes(assertion.kind)) return `${label} "${assertion.expected ?? ''}"`;
+  return label;
+};
+
+// Builds the render context of a test: its fixture plus editor extras such as hosted images
+export const fixtureContext = (test: TemplateTestCase, extra: Record<string, any> = {}): Record<string, any> => {
+  let fixture: any;
+  try {
+    fixture = JSON.parse(test.variablesJson || '{}');
+  } catch (e: any) {
+    throw new Error(`Fixture is not valid JSON: ${e.message}`);
+  }
+  return { ...fixture, ...extra };
+};
+
+// -- Output Checks --
+
+const lineAt = (text: string, index: number) => text.slice(0, index).split('\n').length;
+
+const PREDEFINED_ENTITIES = ['amp', 'lt', 'gt', 'quot', 'apos'];
+const XML_NAME = /^[A-Za-z_:][\w.\-:]*/;
+
+/**
+ * Well-formedness check for XML that needs no DOM, so tests behave the same
+ * in the browser, in workers and in Node. Checks tag nesting, a single root,
+ * attribute quoting and entity references. Returns an error message or null.
+ */
+export const checkXml = (text: string): string | null => {
+  const stack: { name: string; index: number }[] = [];
+  let rootSeen = false;
+  let i = 0;
+
+  const fail = (index: number, message: string) => `line ${lineAt(text, index)}: ${message}`;
+
+  const checkText = (start: number, end: number): string | null => {
+    const chunk = text.slice(start, end);
+    if (stack.length === 0 && chunk.trim()) return fail(start, 'Text outside of the root element');
+    const entity = /&([^;\s&<]*)(;?)/g;
+    let match;
+    while ((match = entity.exec(chunk)) !== null) {
+      const [, name, semicolon] = match;
+      const valid = semicolon && (PREDEFINED_ENTITIES.includes(name) || /^#(\d+|x[0-9a-fA-F]+)$/.test(name));
+      if (!valid) return fail(start + match.index, `Invalid entity reference '&${name}${semicolon}'`);
+    }
+    return null;
+  };
+
+  while (i < text.length) {
+    const open = text.indexOf('<', i);
+    const textError = checkText(i, open === -1 ? text.length : open);
+    if (textError) return textError;
+    if (open === -1) break;
+
+    const rest = text.slice(open);
+    const skipTo = (terminator: string) => {
+      const end = text.indexOf(terminator, open);
+      return end === -1 ? -1 : end + terminator.length;
+    };
+
+    if (rest.startsWith('<!--')) {
+      i = skipTo('-->');
+      if (i === -1) return fail(open, 'Unclosed comment');
+      continue;
+    }
+    if (rest.startsWith('<![CDATA[')) {
+      if (stack.length === 0) return fail(open, 'CDATA outside of the root element');
+      i = skipTo(']]>');
+      if (i === -1) return fail(open, 'Unclosed CDATA section');
+      continue;
+    }
+    if (rest.startsWith('<?')) {
+      i = skipTo('?>');
+      if (i === -1) return fail(open, 'Unclosed processing instruction');
+      continue;
+    }
+    if (rest.startsWith('<!')) {
+      // DOCTYPE; internal subsets are not inspected
+      i = skipTo('>');
+      if (i === -1) return fail(open, 'Unclosed declaration');
+      continue;
+    }
+
+    const closing = rest.startsWith('</');
+    const nameMatch = XML_NAME.exec(text.slice(open + (closing ? 2 : 1)));
+    if (!nameMatch) return fail(open, "'<' must start a tag; escape it as &lt;");
+    const name = nameMatch[0];
+    let j = open + (closing ? 2 : 1) + name.length;
+
+    if (closing) {
+      const end = text.indexOf('>', j);
+      if (end === -1 || text.slice(j, end).trim()) return fail(open, `Malformed closing tag </${name}>`);
+      const top = stack.pop();
+      if (!top) return fail(open, `Unexpected closing tag </${name}>`);
+      if (top.name !== name) return fail(open, `Expected </${top.name}> but found </${name}>`);
+      i = end + 1;
+      continue;
+    }
+
+    // Attributes
+    const seen = new Set<string>();
+    let selfClosing = false;
+    while (true) {
+      const space = /^\s*/.exec(text.slice(j))![0].length;
+      j += space;
+      if (text[j] === '>') break;
+      if (text.startsWith('/>', j)) {
+        selfClosing = true;
+        j++;
+        break;
+      }
+      if (j >= text.length) return fail(open, `Unclosed tag <${name}>`);
+      if (!space) return fail(j, `Expected whitespace before attribute in <${name}>`);
+
+      const attr = XML_NAME.exec(text.slice(j));
+      if (!attr) return fail(j, `Invalid attribute in <${name}>`);
+      if (seen.has(attr[0])) return fail(j, `Duplicate attribute '${attr[0]}' in <${name}>`);
+      seen.add(attr[0]);
+      j += attr[0].length;
+
+      const value = /^\s*=\s*(["'])/.exec(text.slice(j));
+      if (!value) return fail(j, `Attribute '${attr[0]}' needs a quoted value`);
+      const valueStart = j + value[0].length;
+      const valueEnd = text.indexOf(value[1], valueStart);
+      if (valueEnd === -1) return fail(j, `Unclosed value of attribute '${attr[0]}'`);
+      if (text.slice(valueStart, valueEnd).includes('<')) return fail(valueStart, `'<' is not allowed in attribute '${attr[0]}'`);
+      j = valueEnd + 1;
+    }
+
+    if (stack.length === 0) {
+      if (rootSeen) return fail(open, `Second root element <${name}>`);
+      rootSeen = true;
+    }
+    if (!selfClosing) stack.push({ name, index: open });
+    i = j + 1;
+  }
+
+  if (stack.length > 0) {
+    const top = stack[stack.length - 1];
+    return fail(top.index, `Element <${top.name}> is not closed`);
+  }
+  return rootSeen ? null : 'No root element';
+};
+
+// Output as data: JSON first, YAML (a JSON superset) as the fallback
+const parseData = (output: string): any => {
+  try {
+    return JSON.parse(output);
+  } catch {
+    return yaml.load(output);
+  }
+};
+
+// Reads `$.order.items[0].sku`, `order.items.0.sku` or `$['a key']`
+const readPath = (data: any, path: string): { found: boolean; value?: any } => {
+  const keys: string[] = [];
+  const token = /\[\s*(?:'([^']*)'|"([^"]*)"|(\d+))\s*\]|\.?([^.[\]]+)/g;
+  const source = path.trim().replace(/^\$/, '');
+  let match;
+  while ((match = token.exec(source)) !== null) {
+    keys.push(match[1] ?? match[2] ?? match[3] ?? match[4]);
+  }
+
+  let current = data;
+  for (const key of keys) {
+    if (current === null || typeof current !== 'object' || !(key in current)) return { found: false };
+    current = current[key];
+  }
+  return { found: true, value: current };
+};
+
+export const deepEqual = (a: any, b: any): boolean => {
+  if (a === b) return true;
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object' || Array.isArray(a) !== Array.isArray(b)) return false;
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => deepEqual(a[key], b[key]));
+};
+
+// Expected values are JSON when they parse, plain strings otherwise
+export const parseExpected = (expected = ''): any => {
+  try {
+    return JSON.parse(expected);
+  } catch {
+    return expected;
+  }
+};
+
+// Returns why the assertion failed, or null when it holds
+const checkAssertion = (assertion: TemplateAssertion, output: string): string | null => {
+  const expected = assertion.expected ?? '';
+  switch (assertion.kind) {
+    case 'contains':
+      return output.includes(expected) ? null : `Output does not contain "${expected}"`;
+    case 'not-contains':
+      return output.includes(expected) ? `Output contains "${expected}"` : null;
+    case 'matches': {
+      try {
+        return new RegExp(expected, 'm').test(output) ? null : `Output does not match /${expected}/`;
+      } catch (e: any) {
+        return `Invalid regex: ${e.message}`;
+      }
+    }
+    case 'json-path-equals': {
+      let data: any;
+      try {
+        data = parseData(output);
+      } catch (e: any) {
+        return `Output is not valid JSON or YAML: ${e.message}`;
+      }
+      const path = assertion.path || '$';
+      const { found, value } = readPath(data, path);
+      if (!found) return `${path} does not exist`;
+      return deepEqual(value, parseExpected(expected)) ? null : `${path} is ${JSON.stringify(value)}, expected ${expected}`;
+    }
+    case 'valid-json':
+      try {
+        JSON.parse(output);
+        return null;
+      } catch (e: any) {
+        return `Invalid JSON: ${e.message}`;
+      }
+    case 'valid-yaml':
+      try {
+        yaml.load(output);
+        return null;
+      } catch (e: any) {
+        return `Invalid YAML: ${String(e.message).split('\n')[0]}`;
+      }
+    case 'valid-xml': {
+      const error = checkXml(output);
+      return error ? `Invalid XML, ${error}` : null;
+    }
+    default:
+      return null;
+  }
+};
+
+const normalizeLineEndings = (text: string) => text.replace(/\r\n/g, '\n');
+
+// Checks one rendered output (or render error) against the snapshot and assertions of a test
+export const evaluateTemplateTest = (test: TemplateTestCase, outcome: { output?: string; error?: string }): TemplateTestResult => {
+  if (outcome.error !== undefined) {
+    return { testId: test.id, passed: false, error: outcome.error, failures: [] };
+  }
+
+  const output = outcome.output ?? '';
+  const failures: string[] = [];
+  let diff;
+
+  if (test.expectedOutput !== undefined) {
+    const expected = normalizeLineEndings(test.expectedOutput);
+    const actual = normalizeLineEndings(output);
+    if (expected !== actual) {
+      failures.push('Output does not match the expected snapshot');
+      diff = diffLines(expected, actual);
+    }
+  }
+
+  test.assertions.forEach(assertion => {
+    const failure = checkAssertion(assertion, output);
+    if (failure) failures.push(failure);
+  });
+
+  return { testId: test.id, passed: failures.length === 0, output, failures, diff };
+};
+
+export interface TemplateTestOptions {
+  functions: UserFunction[];
+  partials?: TemplatePartial[];
+  escape?: EscapeMode;
+  engine?: TemplateEngine;
+  sharedModule?: string;
+  // Merged over every fixture, e.g. the hosted images of the email editor
+  context?: Record<string, any>;
+}
+
+/**
+ * Headless runner: renders the template for every test with the same
+ * interpolateString pipeline the editors use, without a worker or DOM, so
+ * tests also run in Node. User functions are not time limited here.
+ */
+export const runTemplateTests = (
+  template: string,
+  tests: TemplateTestCase[],
+  { functions, partials = [], escape = 'html', engine, sharedModule, context }: TemplateTestOptions
+): TemplateTestResult[] =>
+  tests.map(test => {
+    let output: string;
+    try {
+      output = interpolateString(template, fixtureContext(test, context), functions, { escape, partials, engine, sharedModule });
+    } catch (e: any) {
+      return evaluateTemplateTest(test, { error: e.message });
+    }
+    return evaluateTemplateTest(test, { output });
+  });
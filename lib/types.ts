@@ -55,12 +55,331 @@ export interface UserFunction {
   id: string;
   name: string;
   params: string[]; // e.g., ['a', 'b']
+  // TypeScript type per param, e.g. ['number', 'string | undefined']; blank means any
+  paramTypes?: string[];
+  returnType?: string;
+  description?: string;
   body: string;
+  tests?: FunctionTestCase[];
+  // Outcome of the last run of all its tests; cleared when the function is edited without running them
+  testStatus?: 'passed' | 'failed';
+}
+
+// Stored unit test of a user function
+export interface FunctionTestCase {
+  id: string;
+  name: string;
+  args: string[]; // One per parameter, as typed: JSON values, or plain text
+  expected: string; // JSON value compared deeply; plain text matches a string result
+}
+
+export interface FunctionTestResult {
+  testId: string;
+  passed: boolean;
+  actual?: any;
+  error?: string; // Thrown by the function or the sandbox
+}
+
+export interface SandboxOptions {
+  timeoutMs: number; // Wall-clock limit for a single sandboxed run
+  maxIterations: number; // Loop iterations allowed per run before aborting
+  maxLogEntries: number; // Console entries kept per script run
+  sharedModule?: string; // Workspace module code; none when omitted
+}
+
+// How `{{ value }}` is escaped, chosen by the output format of the editor.
+// `{{{ value }}}` and the `raw` helper always opt out.
+export type EscapeMode = 'html' | 'json' | 'yaml' | 'xml' | 'sql' | 'none';
+
+// Template language of a document; see lib/template-engines.ts
+export type TemplateEngine = 'handlebars' | 'liquid' | 'mustache';
+
+export type TemplateEnginesByEditor = Partial<Record<EditorType, TemplateEngine>>;
+
+export interface RenderOptions extends Partial<SandboxOptions> {
+  escape?: EscapeMode; // Defaults to 'html', Handlebars' own escaping
+  partials?: TemplatePartial[]; // Available as {{> name}}
+  engine?: TemplateEngine; // Defaults to 'handlebars'
+}
+
+// Reusable template fragment shared by all editors of a workspace
+export interface TemplatePartial {
+  id: string;
+  name: string;
+  content: string;
+  description?: string;
+}
+
+// -- Template Tests --
+
+export type TemplateAssertionKind = 'contains' | 'not-contains' | 'matches' | 'json-path-equals' | 'valid-json' | 'valid-yaml' | 'valid-xml';
+
+export interface TemplateAssertion {
+  id: string;
+  kind: TemplateAssertionKind;
+  path?: string; // json-path-equals: `$.order.items[0].sku`
+  expected?: string; // Text, regex source, or JSON value for json-path-equals
+}
+
+export interface TemplateTestCase {
+  id: string;
+  name: string;
+  variablesJson: string; // Fixture used instead of the shared variables
+  expectedOutput?: string; // Snapshot; the whole output must match when set
+  assertions: TemplateAssertion[];
+}
+
+export type TemplateTestsByEditor = Partial<Record<EditorType, TemplateTestCase[]>>;
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface TemplateTestResult {
+  testId: string;
+  passed: boolean;
+  output?: string;
+  error?: string; // Fixture or render error; the test fails without running assertions
+  failures: string[];
+  diff?: DiffLine[]; // Expected snapshot vs. actual output, when they differ
+}
+
+export interface ScriptExecutionResult {
+  logs: string[];
+  result: any;
+  error?: string;
+  timedOut?: boolean;
+}
+
+// 'runtime' and 'output' come from rendering: helper errors and invalid rendered JSON/YAML/XML
+export type TemplateIssueKind = 'syntax' | 'unknown-variable' | 'unknown-helper' | 'missing-function' | 'missing-partial' | 'argument-count' | 'argument-type' | 'failing-function' | 'runtime' | 'output';
+
+export interface TemplateIssue {
+  kind: TemplateIssueKind;
+  severity: 'error' | 'warning';
+  message: string;
+  line: number; // 1-based
+  column: number; // 1-based
+  endLine?: number;
+  endColumn?: number; // Exclusive; without an end the word at the position is marked
+  name?: string; // Offending variable path, helper or function name
+}
+
+export interface TemplateAnalysis {
+  issues: TemplateIssue[];
+  missingFunctions: string[];
+  missingPartials: string[];
+}
+
+// -- Variables Schema --
+// The subset of JSON Schema (draft-07 / 2020-12) that validation and the variable tree understand
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JsonSchema {
+  $ref?: string;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: any[];
+  const?: any;
+  default?: any;
+  examples?: any[];
+  format?: string;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  definitions?: Record<string, JsonSchema>;
+  $defs?: Record<string, JsonSchema>;
+}
+
+export interface SchemaError {
+  path: string; // e.g. "order.items[0].qty", empty for the root
+  message: string;
+}
+
+// A named variables dataset, e.g. "Guest user" or "Empty cart"
+export interface VariableScenario {
+  id: string;
+  name: string;
+  variablesJson: string;
 }
 
 export interface AppState {
-  variablesJson: string; // The JSON string for the context variables
+  variablesJson: string; // The JSON string for the context variables (the active scenario)
+  variablesSchema?: string; // Optional JSON Schema the variables are validated against
   userFunctions: UserFunction[];
+  sharedModule?: string; // Module code whose exports all user functions and scripts can use
+  scenarios?: VariableScenario[];
+  activeScenarioId?: string;
+  templateEngines?: TemplateEnginesByEditor; // Documents without an entry use Handlebars
+}
+
+// -- Documents --
+// Editors whose document is a template rendered against the shared variables
+export type TemplateDocumentType =
+  | EditorType.JSON_REST
+  | EditorType.YAML_CONFIG
+  | EditorType.EMAIL_HTML
+  | EditorType.HTML_PAGE
+  | EditorType.SMS_MSG
+  | EditorType.DB_QUERY
+  | EditorType.XML_TEMPLATE;
+
+// Editors that keep any number of named documents
+export type DocumentEditorType = TemplateDocumentType | EditorType.SCRIPT_JS | EditorType.MCP_CLIENT | EditorType.AGENT;
+
+export interface DocumentContents {
+  [EditorType.JSON_REST]: string;
+  [EditorType.YAML_CONFIG]: string;
+  [EditorType.EMAIL_HTML]: EmailMessageState;
+  [EditorType.HTML_PAGE]: string;
+  [EditorType.SMS_MSG]: SmsMessageState;
+  [EditorType.DB_QUERY]: string;
+  [EditorType.XML_TEMPLATE]: string;
+  [EditorType.SCRIPT_JS]: string;
+  [EditorType.MCP_CLIENT]: McpState;
+  [EditorType.AGENT]: AgentConfig;
+}
+
+export interface DocumentSettings {
+  engine?: TemplateEngine; // Template documents; Handlebars when unset
+  connectionId?: string; // DB query and MCP documents
+}
+
+export interface EditorDocument<T = any> {
+  id: string;
+  name: string;
+  content: T;
+  settings?: DocumentSettings;
+  tests?: TemplateTestCase[]; // Template documents
+}
+
+export type DocumentsByEditor = { [K in DocumentEditorType]: EditorDocument<DocumentContents[K]>[] };
+
+// The whole app state as it is autosaved; run results and other transient state are left out
+export interface PersistedAppState extends Required<Omit<AppState, 'variablesJson' | 'templateEngines'>> {
+  version: number;
+  savedAt: number;
+  activeEditor: EditorType;
+  documents: DocumentsByEditor; // Every editor type has at least one document
+  activeDocumentIds: Partial<Record<DocumentEditorType, string>>;
+  partials: TemplatePartial[];
+  hostImages: HostImage[];
+  dbConnections: DbConnection[];
+  mcpConnections: McpConnection[];
+  authCredentials: NamedAuthConfig[];
+  apiSources: ApiSource[];
+  restRequests: RestRequest[]; // Requests of the REST editor; at least one
+  activeRestRequestId: string;
+  vault: EncryptedVault | null; // Null until a passphrase is set
+  environments: Environment[];
+  activeEnvironmentId: string | null; // Null when no environment is laid over the variables
+}
+
+// -- Document History --
+
+// A saved version of a document with the variables, functions and partials it was rendered with
+export interface DocumentVersion {
+  id: string;
+  createdAt: number;
+  kind: 'auto' | 'checkpoint'; // Automatic versions are taken on save; checkpoints are named and kept
+  label?: string; // Name of a checkpoint
+  document: EditorDocument;
+  scenario: VariableScenario; // The active scenario at the time
+  functions: UserFunction[];
+  sharedModule: string;
+  partials: TemplatePartial[];
+}
+
+// Which parts of a version a restore puts back; the document itself always is
+export interface VersionRestoreOptions {
+  variables: boolean;
+  functions: boolean; // Also the shared module and the partials
+}
+
+// -- Secret Vault --
+
+// Secrets encrypted with AES-GCM under a key derived from a passphrase (PBKDF2, SHA-256)
+export interface EncryptedVault {
+  version: number;
+  salt: string; // Base64
+  iterations: number;
+  iv: string; // Base64, new for every save
+  data: string; // Base64 ciphertext of the secrets as a JSON object
+  names: string[]; // Readable, so references can be completed and checked while the vault is locked
+}
+
+// -- Environments --
+
+// A variable of an environment; the key is a dot path into the variables, e.g. "api.baseUrl"
+export interface EnvironmentVariable extends RestParam {
+  secret?: boolean; // Hidden in the editor, masked in previews and redacted on export
+}
+
+// Named variables laid over every scenario, e.g. the base URL and credentials of staging
+export interface Environment {
+  id: string;
+  name: string;
+  variables: EnvironmentVariable[];
+}
+
+// What renders and requests see next to their variables: the active environment
+// and the vault. Passed along with every run; previews see the secrets masked.
+export interface WorkspaceScope {
+  environment: EnvironmentVariable[]; // The variables of the active environment that apply
+  secretNames: string[];
+  secrets: Record<string, string> | null; // The values while the vault is unlocked
+}
+
+// -- Workspace File --
+
+// A secret that was replaced with a placeholder when the workspace was exported
+export interface RedactedSecret {
+  location: string; // e.g. "DB connection 'Main Postgres'"
+  field: string;
+}
+
+/**
+ * A saved workspace: everything the headless core and the CLI need to render
+ * the documents and, from version 2, the connections, credentials and API
+ * sources so a colleague gets the complete setup. Version 3 holds many named
+ * documents per editor; older files are upgraded when they are read.
+ */
+export interface WorkspaceFile {
+  version: number;
+  exportedAt?: number;
+  documents: Partial<DocumentsByEditor>;
+  activeDocumentIds?: Partial<Record<DocumentEditorType, string>>;
+  scenarios: VariableScenario[];
+  activeScenarioId?: string;
+  variablesSchema?: string;
+  functions: UserFunction[];
+  sharedModule?: string;
+  partials: TemplatePartial[];
+  hostImages?: HostImage[]; // Exposed as {{images.<name>}} in the email and HTML page
+  dbConnections?: DbConnection[];
+  mcpConnections?: McpConnection[];
+  authCredentials?: NamedAuthConfig[];
+  apiSources?: ApiSource[];
+  restRequests?: RestRequest[];
+  vault?: EncryptedVault; // Only exported with the secrets; still encrypted
+  environments?: Environment[];
+  activeEnvironmentId?: string | null;
+  redactedSecrets?: RedactedSecret[]; // Placeholders the recipient has to fill in
 }
 
 export interface VariableNode {
@@ -69,6 +388,11 @@ export interface VariableNode {
   type: 'string' | 'number' | 'boolean' | 'object' | 'array' | 'null';
   value: any;
   children?: VariableNode[];
+  // Filled in when a schema describes the node
+  required?: boolean;
+  enum?: any[];
+  description?: string;
+  inSample?: boolean; // false when only the schema declares the field
 }
 
 // -- Email Tool Definitions --
@@ -131,6 +455,20 @@ export interface XmlSnippetGroup {
   snippets: XmlSnippet[];
 }
 
+// -- Template Helper Definitions --
+export interface HelperDoc {
+    name: string;
+    signature: string; // e.g. 'formatMoney value [currency] locale='
+    desc: string;
+    example: string; // Inserted when clicked in the Functions panel
+}
+
+export interface HelperGroup {
+    id: string;
+    title: string;
+    helpers: HelperDoc[];
+}
+
 // -- SQL Tool Definitions --
 export interface SqlItem {
     name: string;
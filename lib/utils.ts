@@ -1,103 +1,39 @@
-import { UserFunction } from './types';
+import { UserFunction, SandboxOptions, ScriptExecutionResult, EscapeMode, RenderOptions } from './types';
 import Handlebars from 'handlebars';
-import yaml from 'js-yaml';
+import { DEFAULT_SANDBOX_OPTIONS } from './defaults';
+import {
+  LOOP_GUARD,
+  SHADOWED_GLOBALS,
+  createIterationGuard,
+  createFunctionCompiler,
+  instrumentLoops,
+  compileSharedModule
+} from './sandbox';
+import { FUNCTION_LIBRARY, FUNCTION_LIBRARY_NAMES } from './function-library';
+import { ESCAPE_HELPER, FormattedString, applyContextEscaping, escapeValue } from './escaping';
+import { STANDARD_HELPER_GROUPS, registerStandardHelpers } from './helpers';
+import { renderLiquid } from './liquid';
+import { renderMustache } from './mustache';
 
-// Register user functions as Handlebars helpers
-const registerHelpers = (functions: UserFunction[]) => {
-  // Built-in Helper: uppercase
-  Handlebars.registerHelper('uppercase', (str) => {
-    return String(str || '').toUpperCase();
-  });
-
-  // Array/String Helpers
-  Handlebars.registerHelper('split', (str, separator) => {
-    if (typeof str !== 'string') return [];
-    return str.split(separator);
-  });
-
-  Handlebars.registerHelper('join', (arr, separator) => {
-    if (!Array.isArray(arr)) return arr;
-    return arr.join(separator);
-  });
-
-  Handlebars.registerHelper('first', (arr) => {
-    if (!Array.isArray(arr)) return arr;
-    return arr[0];
-  });
-
-  Handlebars.registerHelper('last', (arr) => {
-    if (!Array.isArray(arr)) return arr;
-    return arr[arr.length - 1];
-  });
-
-  // Logical Helpers
-  Handlebars.registerHelper('eq', (a, b) => a == b);
-  Handlebars.registerHelper('ne', (a, b) => a != b);
-  Handlebars.registerHelper('lt', (a, b) => Number(a) < Number(b));
-  Handlebars.registerHelper('gt', (a, b) => Number(a) > Number(b));
-  Handlebars.registerHelper('lte', (a, b) => Number(a) <= Number(b));
-  Handlebars.registerHelper('gte', (a, b) => Number(a) >= Number(b));
-  Handlebars.registerHelper('and', (...args) => Array.prototype.slice.call(args, 0, args.length - 1).every(Boolean));
-  Handlebars.registerHelper('or', (...args) => Array.prototype.slice.call(args, 0, args.length - 1).some(Boolean));
-  Handlebars.registerHelper('not', (val) => !val);
-
-  // New Format Dumping Helpers
-  Handlebars.registerHelper('toJsonString', (value) => {
-      try {
-          return new Handlebars.SafeString(JSON.stringify(value, null, 2));
-      } catch (e) {
-          return String(value);
-      }
-  });
-
-  Handlebars.registerHelper('toYamlString', (value) => {
-      try {
-          return new Handlebars.SafeString(yaml.dump(value));
-      } catch (e) {
-          return String(value);
-      }
-  });
+// Register built-ins and user functions as helpers on an isolated Handlebars instance
+// All user code shares the iteration guard of the current render
+const registerHelpers = (hbs: typeof Handlebars, functions: UserFunction[], sharedModule: string, guard: () => boolean) => {
+  // Standard library: strings, arrays, logic, dates, numbers, dumps
+  registerStandardHelpers(hbs);
 
-  Handlebars.registerHelper('toHtmlDump', (value) => {
-      try {
-          const json = JSON.stringify(value, null, 2);
-          return new Handlebars.SafeString(`<pre class="bg-slate-50 p-2 rounded text-xs font-mono border border-slate-200 overflow-auto max-h-64 whitespace-pre-wrap break-all">${json}</pre>`);
-      } catch (e) {
-          return String(value);
-      }
+  // Built-in Helper: raw (Opts a single value out of escaping, like {{{ value }}})
+  hbs.registerHelper('raw', (value) => {
+    return new FormattedString(value === undefined || value === null ? '' : String(value));
   });
 
-  Handlebars.registerHelper('toXmlString', (value) => {
-    const toXml = (obj: any): string => {
-        if (obj === null || obj === undefined) return '';
-        
-        if (Array.isArray(obj)) {
-            return obj.map(item => `<item>${toXml(item)}</item>`).join('');
-        }
-        
-        if (typeof obj === 'object') {
-            return Object.entries(obj).map(([key, val]) => {
-                if (Array.isArray(val)) {
-                    return val.map(item => `<${key}>${toXml(item)}</${key}>`).join('');
-                } else if (typeof val === 'object' && val !== null) {
-                     return `<${key}>${toXml(val)}</${key}>`;
-                } else {
-                     return `<${key}>${val}</${key}>`;
-                }
-            }).join('');
-        }
-        return String(obj);
-    };
+  // Internal: every escaped {{ value }} is routed here when a format escaping mode is active
+  hbs.registerHelper(ESCAPE_HELPER, (mode, context, indent, value) => escapeValue(mode, context, value, indent));
 
-    try {
-        return new Handlebars.SafeString(toXml(value));
-    } catch (e) {
-        return String(value);
-    }
-  });
+  // User functions are compiled once per environment, on first use
+  const compileOnce = createFunctionCompiler(functions, sharedModule, guard);
 
   // Built-in Helper: func (Executes a user-defined function by name)
-  Handlebars.registerHelper('func', function(name, ...args) {
+  hbs.registerHelper('func', function(name, ...args) {
       // The last argument is the Handlebars options object
       const options = args.pop();
       
@@ -108,10 +44,7 @@ const registerHelpers = (functions: UserFunction[]) => {
           result = `[Function '${name}' not found]`;
       } else {
           try {
-              // Create a real JS function from the definition
-              // eslint-disable-next-line no-new-func
-              const jsFunc = new Function(...funcDef.params, funcDef.body);
-              result = jsFunc(...args);
+              result = compileOnce(funcDef)(...args);
           } catch (e: any) {
               result = `[Error in '${name}': ${e.message}]`;
           }
@@ -129,56 +62,343 @@ const registerHelpers = (functions: UserFunction[]) => {
       return result;
   });
 
-  // Also register direct helpers for convenience {{myFunc arg1}}
+  // Also register direct helpers for convenience {{myFunc arg1}}; compiled on the first call, under the
+  // guard of the render that makes it, so a broken function or shared module fails at that call
   if (Array.isArray(functions)) {
     functions.forEach(func => {
-      try {
-        // eslint-disable-next-line no-new-func
-        const jsFunc = new Function(...func.params, func.body);
-        Handlebars.registerHelper(func.name, jsFunc as any);
-      } catch (e) {
-        console.error(`Failed to register helper ${func.name}`, e);
-      }
+      hbs.registerHelper(func.name, function (this: any, ...args: any[]) {
+        return compileOnce(func).apply(this, args);
+      });
     });
   }
+
+  locateHelperErrors(hbs);
 };
 
+/**
+ * Wraps every registered helper so an error thrown inside it records where the
+ * call sits in the template, using the location Handlebars passes in `options.loc`.
+ * The fields match Handlebars' own exceptions. Errors that already carry a
+ * position keep it, so the innermost failing call wins over enclosing blocks.
+ */
+const locateHelperErrors = (hbs: typeof Handlebars) => {
+  Object.keys(hbs.helpers).forEach(name => {
+    const helper = hbs.helpers[name];
+    hbs.helpers[name] = function (this: any, ...args: any[]) {
+      try {
+        return helper.apply(this, args);
+      } catch (e: any) {
+        const loc = args[args.length - 1]?.loc;
+        if (e instanceof Error && loc && (e as any).lineNumber === undefined) {
+          Object.assign(e, {
+            lineNumber: loc.start.line,
+            column: loc.start.column,
+            endLineNumber: loc.end.line,
+            endColumn: loc.end.column
+          });
+        }
+        throw e;
+      }
+    };
+  });
+};
+
+// Helpers registered by registerHelpers besides user functions
+export const BUILT_IN_HELPERS = [
+  ...STANDARD_HELPER_GROUPS.flatMap(group => group.helpers.map(helper => helper.name)),
+  'raw',
+  'func'
+];
+
+// Helpers that ship with Handlebars itself
+export const HANDLEBARS_CORE_HELPERS = ['if', 'unless', 'each', 'with', 'lookup', 'log'];
+
+export interface PreprocessedTemplate {
+  source: string;
+  // Maps an offset in `source` back to the matching offset in the original template
+  toOriginalOffset: (offset: number) => number;
+  // Maps a Handlebars position in `source` (1-based line, 0-based column) to a 1-based template position
+  toOriginalPosition: (line: number, column: number) => { line: number; column: number };
+}
+
+interface RewrittenSegment {
+  start: number;
+  end: number;
+  originalStart: number;
+  originalEnd: number;
+  argsStart: number;
+  originalArgsStart: number;
+  argsLength: number;
+}
+
 /**
  * Pre-processes the template to support custom syntax:
  * {{#func:NAME(ARGS)}} -> {{ func 'myFunc' x y z }}
+ * Arguments keep their length and line breaks so positions inside them map back 1:1.
  */
-const preprocessTemplate = (template: string): string => {
+export const preprocessTemplateWithMap = (template: string): PreprocessedTemplate => {
+    const segments: RewrittenSegment[] = [];
+    let delta = 0;
+
     // Regex matches: {{#func:NAME(ARGS)}}
     // Updated to be tolerant of whitespace/newlines which might be introduced by editors
     // Note: We deliberately strip the '#' to treating it as an inline helper expression
-    return template.replace(/\{\{\s*#func:([a-zA-Z0-9_]+)\s*\(([\s\S]*?)\)\s*\}\}/g, (match, name, argsString) => {
+    const source = template.replace(/\{\{\s*#func:([a-zA-Z0-9_]+)\s*\(([\s\S]*?)\)\s*\}\}/g, (match, name, argsString, offset: number) => {
         // We need to convert comma-separated args to space-separated for Handlebars
-        // First collapse any newlines in arguments to spaces to ensure clean processing
-        const cleanArgs = argsString.replace(/[\r\n]+/g, ' ');
         // We carefully replace commas only if they are NOT inside quotes
-        const args = cleanArgs.replace(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/g, ' ');
-        return `{{ func '${name}' ${args} }}`;
+        const args = argsString.replace(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/g, ' ');
+        const prefix = `{{ func '${name}' `;
+        const replacement = `${prefix}${args} }}`;
+
+        const start = offset + delta;
+        segments.push({
+            start,
+            end: start + replacement.length,
+            originalStart: offset,
+            originalEnd: offset + match.length,
+            argsStart: start + prefix.length,
+            originalArgsStart: offset + match.indexOf('(') + 1,
+            argsLength: args.length
+        });
+        delta += replacement.length - match.length;
+        return replacement;
+    });
+
+    const toOriginalOffset = (offset: number): number => {
+        let shift = 0;
+        for (const seg of segments) {
+            if (offset < seg.start) break;
+            if (offset < seg.end) {
+                const inArgs = offset >= seg.argsStart && offset < seg.argsStart + seg.argsLength;
+                return inArgs ? seg.originalArgsStart + (offset - seg.argsStart) : seg.originalStart;
+            }
+            shift = seg.end - seg.originalEnd;
+        }
+        return offset - shift;
+    };
+
+    const lineStarts = (text: string) => {
+        const starts = [0];
+        for (let i = 0; i < text.length; i++) {
+            if (text[i] === '\n') starts.push(i + 1);
+        }
+        return starts;
+    };
+    const sourceLineStarts = lineStarts(source);
+    const originalLineStarts = lineStarts(template);
+
+    const toOriginalPosition = (line: number, column: number) => {
+        const offset = toOriginalOffset((sourceLineStarts[line - 1] ?? 0) + column);
+        let lineIndex = originalLineStarts.length - 1;
+        while (lineIndex > 0 && originalLineStarts[lineIndex] > offset) lineIndex--;
+        return { line: lineIndex + 1, column: offset - originalLineStarts[lineIndex] + 1 };
+    };
+
+    return { source, toOriginalOffset, toOriginalPosition };
+};
+
+// 53-bit string hash (cyrb53), used as a cache key for templates and function sets
+export const hashString = (str: string, seed = 0): string => {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+const MAX_ENVIRONMENTS = 8;
+const MAX_COMPILED_TEMPLATES = 200;
+
+/**
+ * A Handlebars instance with the built-in and user helpers of one function set.
+ * Helpers never touch the global Handlebars object, so editors cannot leak
+ * helpers into each other and a deleted function disappears with its environment.
+ */
+export interface TemplateEnvironment {
+  handlebars: typeof Handlebars;
+  render: (template: string, context: Record<string, any>, options?: RenderOptions) => string;
+  // Template line (1-based) that produced each line of the rendered output
+  mapOutputLines: (template: string, context: Record<string, any>, options?: RenderOptions) => number[];
+}
+
+// Brackets a template line number injected into the output by mapOutputLines
+const LINE_MARK_START = '\uE000';
+const LINE_MARK_END = '\uE001';
+const LINE_MARK = new RegExp(`${LINE_MARK_START}(\\d+)${LINE_MARK_END}`);
+
+/**
+ * Prefixes the text of every content statement, and every line inside it, with
+ * a mark naming its line in the original template. Whitespace control may have
+ * stripped the start of a statement, so the line is counted from `original`.
+ */
+const markContentLines = (
+  program: hbs.AST.Program | undefined,
+  toOriginalPosition: PreprocessedTemplate['toOriginalPosition']
+) => {
+  program?.body.forEach(statement => {
+    const node = statement as any;
+    if (statement.type === 'ContentStatement') {
+      const content = statement as hbs.AST.ContentStatement;
+      // The typings declare `original` as strip flags; at runtime it is the unstripped text
+      const original: string = (content as any).original ?? content.value;
+      const skipped = Math.max(0, original.indexOf(content.value));
+      const start = content.loc.start;
+      let line = toOriginalPosition(start.line, start.column).line + (original.slice(0, skipped).match(/\n/g) || []).length;
+      const mark = () => `${LINE_MARK_START}${line}${LINE_MARK_END}`;
+      content.value = mark() + content.value.replace(/\n/g, () => {
+        line++;
+        return `\n${mark()}`;
+      });
+      return;
+    }
+    markContentLines(node.program, toOriginalPosition);
+    markContentLines(node.inverse, toOriginalPosition);
+  });
+};
+
+// Strips the marks again and returns, per output line, the template line in effect where it starts
+const readLineMarks = (output: string): number[] => {
+  const lines: number[] = [];
+  let current = 1;
+  let lineStarted = false;
+  output.split(LINE_MARK).forEach((part, i) => {
+    // split() puts the captured line numbers at odd indexes
+    if (i % 2 === 1) {
+      current = Number(part);
+      return;
+    }
+    part.split('\n').forEach((segment, j, segments) => {
+      if (j > 0) lineStarted = false;
+      if (!lineStarted && (segment || j < segments.length - 1)) {
+        lines.push(current);
+        lineStarted = true;
+      }
     });
+  });
+  if (!lineStarted) lines.push(current);
+  return lines;
 };
 
-export const interpolateString = (template: string, context: Record<string, any>, functions: UserFunction[]): string => {
+const createTemplateEnvironment = (functions: UserFunction[], sharedModule: string): TemplateEnvironment => {
+  const hbs = Handlebars.create();
+  // Helpers are registered once; each render swaps in a fresh iteration budget
+  let activeGuard = createIterationGuard(DEFAULT_SANDBOX_OPTIONS.maxIterations);
+  registerHelpers(hbs, functions, sharedModule, () => activeGuard());
+
+  // Compiled templates keyed by content hash, oldest evicted first
+  const templates = new Map<string, HandlebarsTemplateDelegate>();
+  const compile = (template: string, mode: EscapeMode, markLines = false) => {
+    const key = hashString(`${mode}\u0000${markLines ? 'lines' : ''}\u0000${template}`);
+    let compiled = templates.get(key);
+    if (!compiled) {
+      const { source, toOriginalPosition } = preprocessTemplateWithMap(template);
+      let ast = hbs.parse(source);
+      if (markLines) markContentLines(ast, toOriginalPosition);
+      if (mode !== 'html' && mode !== 'none') {
+        ast = applyContextEscaping(ast, source, mode, hbs.helpers);
+      }
+      compiled = hbs.compile(ast, { noEscape: mode === 'none' });
+      templates.set(key, compiled);
+      if (templates.size > MAX_COMPILED_TEMPLATES) {
+        templates.delete(templates.keys().next().value!);
+      }
+    }
+    return compiled;
+  };
+
+  const run = (template: string, context: Record<string, any>, options: RenderOptions, markLines: boolean) => {
+    const { maxIterations } = { ...DEFAULT_SANDBOX_OPTIONS, ...options };
+    activeGuard = createIterationGuard(maxIterations);
+    const mode = options.escape || 'html';
+    // Partials share the compiled-template cache and the escaping mode of the caller.
+    // Positions inside a partial do not belong to the template, so its errors are tagged instead.
+    const partials: Record<string, HandlebarsTemplateDelegate> = {};
+    (options.partials || []).forEach(partial => {
+      const compiled = compile(partial.content, mode);
+      partials[partial.name] = (partialContext, partialOptions) => {
+        try {
+          return compiled(partialContext, partialOptions);
+        } catch (e: any) {
+          if (e instanceof Error && (e as any).partial === undefined) Object.assign(e, { partial: partial.name });
+          throw e;
+        }
+      };
+    });
+    return compile(template, mode, markLines)(context, { partials });
+  };
+
+  return {
+    handlebars: hbs,
+    render: (template, context, options = {}) => run(template, context, options, false),
+    mapOutputLines: (template, context, options = {}) => readLineMarks(run(template, context, options, true))
+  };
+};
+
+const environments = new Map<string, TemplateEnvironment>();
+const environmentsByList = new WeakMap<UserFunction[], { sharedModule: string; env: TemplateEnvironment }>();
+
+// Returns the environment for a function set and shared module, rebuilding it only when either changed
+export const getTemplateEnvironment = (functions: UserFunction[], sharedModule = ''): TemplateEnvironment => {
+  const list = Array.isArray(functions) ? functions : [];
+  const known = environmentsByList.get(list);
+  if (known && known.sharedModule === sharedModule) return known.env;
+
+  const key = hashString(JSON.stringify([sharedModule, list.map(f => [f.name, f.params, f.body])]));
+  let env = environments.get(key);
+  if (env) {
+    // Refresh its position so the least recently used environment is evicted
+    environments.delete(key);
+  } else {
+    env = createTemplateEnvironment(list, sharedModule);
+  }
+  environments.set(key, env);
+  if (environments.size > MAX_ENVIRONMENTS) {
+    environments.delete(environments.keys().next().value!);
+  }
+
+  environmentsByList.set(list, { sharedModule, env });
+  return env;
+};
+
+export const interpolateString = (
+  template: string,
+  context: Record<string, any>,
+  functions: UserFunction[],
+  options: RenderOptions = {}
+): string => {
   try {
-    registerHelpers(functions);
-    const preprocessed = preprocessTemplate(template);
-    const compiled = Handlebars.compile(preprocessed);
-    return compiled(context);
+    switch (options.engine) {
+      case 'liquid':
+        return renderLiquid(template, context, functions, options);
+      case 'mustache':
+        return renderMustache(template, context, functions, options);
+      default:
+        return getTemplateEnvironment(functions, options.sharedModule ?? '').render(template, context, options);
+    }
   } catch (e: any) {
-    throw new Error(`Template Error: ${e.message}`);
+    // The original error stays attached as `cause`; it carries the template position if known
+    const where = e?.partial ? `in partial '${e.partial}': ` : '';
+    throw new Error(`Template Error: ${where}${e?.message ?? e}`, { cause: e });
   }
 };
 
 // Execute a single script string
+// Loops are guarded and page globals shadowed; use the sandbox client for isolation and timeouts
+// Scripts see the utility library and the shared module's exports next to the user functions
 export const executeScript = (
   code: string, 
   input: Record<string, any>,
-  functions: UserFunction[]
-): { logs: string[], result: any, error?: string } => {
+  functions: UserFunction[],
+  options: Partial<SandboxOptions> = {},
+  onLog?: (entry: string) => void
+): ScriptExecutionResult => {
   
+  const { maxIterations, maxLogEntries, sharedModule = '' } = { ...DEFAULT_SANDBOX_OPTIONS, ...options };
   const logs: string[] = [];
   const inputData = JSON.parse(JSON.stringify(input));
 
@@ -188,25 +408,46 @@ export const executeScript = (
   }).join('\n');
 
   const logFn = (msg: any) => {
-    logs.push(typeof msg === 'object' ? JSON.stringify(msg, null, 2) : String(msg));
+    if (logs.length >= maxLogEntries) return;
+    const entry = logs.length === maxLogEntries - 1
+      ? `[Log limit of ${maxLogEntries} entries reached, further output dropped]`
+      : typeof msg === 'object' ? JSON.stringify(msg, null, 2) : String(msg);
+    logs.push(entry);
+    onLog?.(entry);
   };
 
   try {
+    const guard = createIterationGuard(maxIterations);
+    // User functions declared in the script take precedence over module exports of the same name
+    const moduleExports = compileSharedModule(sharedModule, guard);
+    const moduleNames = Object.keys(moduleExports).filter(name => !functions.some(f => f.name === name));
+
     // Create a function that wraps the user code with access to context and helper functions
     const runCode = new Function(
       'input', 
       'log',
+      LOOP_GUARD,
+      ...SHADOWED_GLOBALS,
+      ...FUNCTION_LIBRARY_NAMES,
+      ...moduleNames,
       `
       "use strict";
-      ${funcDecls}
+      ${instrumentLoops(funcDecls)}
       
       // User Code Start
-      ${code}
+      ${instrumentLoops(code)}
       // User Code End
       `
     );
 
-    const result = runCode(inputData, logFn);
+    const result = runCode(
+      inputData,
+      logFn,
+      guard,
+      ...SHADOWED_GLOBALS.map(() => undefined),
+      ...FUNCTION_LIBRARY_NAMES.map(name => FUNCTION_LIBRARY[name]),
+      ...moduleNames.map(name => moduleExports[name])
+    );
     return { logs, result };
   } catch (e: any) {
     return { logs, result: undefined, error: e.message };
@@ -0,0 +1,147 @@
+import { EncryptedVault, WorkspaceScope } from './types';
+
+// Secret vault: named secrets encrypted with AES-GCM under a key derived from
+// a passphrase with PBKDF2. Only the encrypted vault is saved; the key and the
+// values stay in memory while the vault is unlocked. Templates and connection
+// fields refer to a secret as {{ secret.NAME }}: previews and analysis see it
+// masked, requests see the value.
+
+export const VAULT_VERSION = 1;
+
+const PBKDF2_ITERATIONS = 310_000;
+
+export const SECRET_MASK = '••••••';
+
+// Names are plain identifiers so {{ secret.NAME }} works in every template engine
+export const SECRET_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const SECRET_REFERENCE = /\{\{\s*secret\.([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+export type VaultSecrets = Record<string, string>;
+
+// A vault while it is unlocked; sealVault() turns it into what is saved
+export interface UnlockedVault {
+  key: CryptoKey;
+  salt: string;
+  iterations: number;
+  secrets: VaultSecrets;
+}
+
+export const secretReference = (name: string) => `{{ secret.${name} }}`;
+
+export const hasSecretReference = (text: string) => new RegExp(SECRET_REFERENCE.source).test(text);
+
+// `base` as a secret name: upper case, other characters as _, numbered when taken
+export const uniqueSecretName = (base: string, taken: string[]): string => {
+  const name = base.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '').replace(/^(?=\d)/, '_') || 'SECRET';
+  if (!taken.includes(name)) return name;
+  let n = 2;
+  while (taken.includes(`${name}_${n}`)) n++;
+  return `${name}_${n}`;
+};
+
+// -- Encryption --
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''));
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// An empty vault under a new passphrase, or the given secrets under it, e.g. to change the passphrase
+export const createVault = async (passphrase: string, secrets: VaultSecrets = {}): Promise<UnlockedVault> => {
+  if (!passphrase) throw new Error('The passphrase is empty');
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return { key: await deriveKey(passphrase, salt, PBKDF2_ITERATIONS), salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, secrets };
+};
+
+// Encrypts the secrets with a fresh IV; the names stay readable so references can be checked while the vault is locked
+export const sealVault = async (vault: UnlockedVault): Promise<EncryptedVault> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, vault.key, new TextEncoder().encode(JSON.stringify(vault.secrets)));
+  return {
+    version: VAULT_VERSION,
+    salt: vault.salt,
+    iterations: vault.iterations,
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(data)),
+    names: Object.keys(vault.secrets).sort()
+  };
+};
+
+// Decrypts a saved vault; throws on a wrong passphrase, which AES-GCM detects
+export const unlockVault = async (vault: EncryptedVault, passphrase: string): Promise<UnlockedVault> => {
+  if (vault.version > VAULT_VERSION) {
+    throw new Error(`Vault version ${vault.version} is newer than the supported version ${VAULT_VERSION}`);
+  }
+  const key = await deriveKey(passphrase, fromBase64(vault.salt), vault.iterations);
+  let plain: ArrayBuffer;
+  try {
+    plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(vault.iv) }, key, fromBase64(vault.data));
+  } catch {
+    throw new Error('Wrong passphrase');
+  }
+  return { key, salt: vault.salt, iterations: vault.iterations, secrets: JSON.parse(new TextDecoder().decode(plain)) };
+};
+
+// -- Use --
+
+// The vault as a run sees it; part of the WorkspaceScope passed along with each render and request
+export type SecretScope = Pick<WorkspaceScope, 'secretNames' | 'secrets'>;
+
+const secretValue = ({ secretNames, secrets }: SecretScope, name: string): string => {
+  if (!secretNames.includes(name)) throw new Error(`Unknown secret '${name}'`);
+  if (secrets === null) throw new Error(`The vault is locked; unlock it to use secret '${name}'`);
+  return secrets[name] ?? '';
+};
+
+// Previews and template analysis: every secret of the vault as a mask
+export const withMaskedSecrets = <T extends Record<string, any>>(context: T, names: string[]): T =>
+  names.length > 0 ? { ...context, secret: Object.fromEntries(names.map(name => [name, SECRET_MASK])) } : context;
+
+/**
+ * Requests: `secret` reads the values when a template uses them, so an
+ * unused secret of a locked vault does not fail the request. Reading a
+ * secret of a locked vault throws.
+ */
+export const withSecrets = <T extends Record<string, any>>(context: T, scope: SecretScope): T & { secret: VaultSecrets } => {
+  const { secretNames } = scope;
+  const secret = new Proxy({} as VaultSecrets, {
+    get: (_, name) => (typeof name === 'string' && secretNames.includes(name) ? secretValue(scope, name) : undefined),
+    has: (_, name) => typeof name === 'string' && secretNames.includes(name),
+    ownKeys: () => secretNames,
+    getOwnPropertyDescriptor: (_, name) =>
+      typeof name === 'string' && secretNames.includes(name)
+        ? { value: secretValue(scope, name), enumerable: true, configurable: true, writable: false }
+        : undefined
+  });
+  return { ...context, secret };
+};
+
+// Fills in the references of a field that is used as it is rather than rendered, e.g. an OAuth client secret
+export const resolveSecretReferences = (text: string, scope: SecretScope): string =>
+  text.replace(SECRET_REFERENCE, (_, name) => secretValue(scope, name));
+
+// Replaces the references of a field that is shown as it is, e.g. an environment value in a preview
+export const maskSecretReferences = (text: string): string => text.replace(SECRET_REFERENCE, SECRET_MASK);
+
+// Shorter values are not masked; they would replace unrelated text
+const MIN_MASKED_LENGTH = 4;
+
+// Replaces the values of the unlocked vault with their references, e.g. in text sent to the AI assistant
+export const maskSecretValues = (text: string, secrets: VaultSecrets | null): string => {
+  if (!secrets) return text;
+  return Object.entries(secrets)
+    .filter(([, value]) => value.length >= MIN_MASKED_LENGTH)
+    .sort(([, a], [, b]) => b.length - a.length)
+    .reduce((masked, [name, value]) => masked.split(value).join(secretReference(name)), text);
+};
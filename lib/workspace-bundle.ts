@@ -0,0 +1,396 @@
+import {
+  DocumentContents,
+  DocumentEditorType,
+  DocumentsByEditor,
+  EditorDocument,
+  EditorType,
+  PersistedAppState,
+  RedactedSecret,
+  RestParam,
+  WorkspaceFile
+} from './types';
+import { migrateAppState } from './persistence';
+import { DOCUMENT_EDITOR_TYPES, fromSingleDocuments } from './editor-documents';
+import { VaultSecrets, hasSecretReference, secretReference, uniqueSecretName } from './vault';
+
+// Workspace files: the portable format of a complete setup. Version 1 holds
+// the template documents and what renders them; version 2 adds the other
+// documents, the connections, credentials and API sources; version 3 holds
+// many named documents per editor and the requests of the REST editor.
+// Secrets are replaced with placeholders on export unless they are explicitly
+// included; {{ secret.NAME }} references to the vault are kept, and the
+// encrypted vault goes with the included secrets.
+
+export const WORKSPACE_VERSION = 3;
+
+export const SECRET_PLACEHOLDER = '__REDACTED__';
+
+// merge: imported items replace local items with the same id, the rest is kept.
+// replace: every part the file contains replaces the local one.
+export type WorkspaceImportMode = 'merge' | 'replace';
+
+export interface WorkspaceImport {
+  state: PersistedAppState;
+  // Placeholders no local secret could fill in
+  unresolved: RedactedSecret[];
+}
+
+// Reads a saved workspace; throws when the text is not one
+export const parseWorkspace = (json: string): WorkspaceFile => {
+  const data = JSON.parse(json);
+  if (!data || typeof data !== 'object' || typeof data.documents !== 'object' || !Array.isArray(data.scenarios)) {
+    throw new Error('Not a workspace file: documents or scenarios are missing');
+  }
+  if (typeof data.version === 'number' && data.version > WORKSPACE_VERSION) {
+    throw new Error(`Workspace version ${data.version} is newer than the supported version ${WORKSPACE_VERSION}`);
+  }
+  if ((data.version ?? 1) < 3) {
+    // One document per editor, with its engine, tests and connection next to the documents
+    const { tests, templateEngines, sqlQueryName, activeConnectionId, activeMcpConnectionId, ...rest } = data;
+    const documents = fromSingleDocuments({
+      contents: data.documents,
+      tests,
+      engines: templateEngines,
+      sqlQueryName,
+      activeConnectionId,
+      activeMcpConnectionId
+    });
+    return { functions: [], partials: [], ...rest, documents, version: WORKSPACE_VERSION };
+  }
+  return { functions: [], partials: [], ...data };
+};
+
+// -- Secrets --
+
+// Replaces the password of a URL or of a `Password=...` key, keeping the host and database visible.
+// A password that refers to the vault is kept.
+export const redactConnectionString = (value: string): string =>
+  value
+    .replace(/^([a-z][\w+.-]*:\/\/[^:/@]*:)([^@/]+)@/i, (match, prefix, password) =>
+      hasSecretReference(password) ? match : `${prefix}${SECRET_PLACEHOLDER}@`)
+    .replace(/\b(password|pwd)=([^;&]+)/gi, (match, key, password) =>
+      hasSecretReference(password) ? match : `${key}=${SECRET_PLACEHOLDER}`);
+
+const redactValue = (value: string): string => (value && !hasSecretReference(value) ? SECRET_PLACEHOLDER : value);
+
+// Called for every secret field; returns the value to keep. `redact` is how the field is redacted.
+type SecretVisitor = (value: string, secret: RedactedSecret, localValue: string | undefined, redact: (value: string) => string) => string;
+
+const byId = <T extends { id: string }>(items: T[] | undefined, id: string): T | undefined => items?.find(item => item.id === id);
+
+const visitParams = (params: RestParam[], local: RestParam[] | undefined, location: string, visit: SecretVisitor): RestParam[] =>
+  params.map(param => ({
+    ...param,
+    value: visit(param.value, { location, field: param.key || 'unnamed' }, byId(local, param.id)?.value, redactValue)
+  }));
+
+const AUTH_SECRET_FIELDS = ['password', 'token', 'apiKeyValue'] as const;
+
+// Headers and query parameters of REST requests whose name says they carry a credential
+const CREDENTIAL_PARAM = /auth|token|key|secret|password|session|cookie/i;
+
+const visitCredentialParams = (params: RestParam[], local: RestParam[] | undefined, location: string, visit: SecretVisitor): RestParam[] =>
+  params.map(param => (CREDENTIAL_PARAM.test(param.key) ? visitParams([param], local, location, visit)[0] : param));
+
+// The JSON configuration of a local (stdio) MCP server when it has an `env` object; null otherwise
+const parseStdIoConfig = (config: string | undefined): { env: Record<string, unknown> } | null => {
+  try {
+    const parsed = config ? JSON.parse(config) : null;
+    return parsed && typeof parsed === 'object' && parsed.env && typeof parsed.env === 'object' ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+// The env values inside a local server's configuration, where its credentials usually go.
+// The configuration is only rewritten when a value changes.
+const visitStdIoEnv = (config: string | undefined, local: string | undefined, location: string, visit: SecretVisitor): string | undefined => {
+  const parsed = parseStdIoConfig(config);
+  if (!parsed) return config;
+  const localEnv = parseStdIoConfig(local)?.env;
+  let changed = false;
+  const env = Object.fromEntries(Object.entries(parsed.env).map(([key, value]) => {
+    const text = String(value ?? '');
+    const localValue = localEnv?.[key];
+    const visited = visit(text, { location, field: key }, localValue === undefined ? undefined : String(localValue), redactValue);
+    if (visited !== text) changed = true;
+    return [key, visited];
+  }));
+  return changed ? JSON.stringify({ ...parsed, env }, null, 2) : config;
+};
+
+/**
+ * Maps every secret of a workspace: DB connection strings, REST credentials,
+ * the auth and credential headers and parameters of REST requests, MCP
+ * connection auth, headers and env values (also those in the configuration of
+ * a local server), the headers and env of MCP
+ * documents and the secret variables of environments. `local` is the
+ * workspace whose items with the same id hold the local values.
+ */
+const visitSecrets = (workspace: WorkspaceFile, local: WorkspaceFile | undefined, visit: SecretVisitor): WorkspaceFile => {
+  const result: WorkspaceFile = { ...workspace };
+
+  result.dbConnections = workspace.dbConnections?.map(connection => ({
+    ...connection,
+    connectionString: visit(
+      connection.connectionString,
+      { location: `DB connection '${connection.name}'`, field: 'connection string' },
+      byId(local?.dbConnections, connection.id)?.connectionString,
+      redactConnectionString
+    )
+  }));
+
+  result.authCredentials = workspace.authCredentials?.map(credential => {
+    const localCredential = byId(local?.authCredentials, credential.id);
+    const mapped = { ...credential };
+    AUTH_SECRET_FIELDS.forEach(field => {
+      if (credential[field] === undefined) return;
+      mapped[field] = visit(credential[field]!, { location: `Credential '${credential.name}'`, field }, localCredential?.[field], redactValue);
+    });
+    return mapped;
+  });
+
+  result.restRequests = workspace.restRequests?.map(request => {
+    const localRequest = byId(local?.restRequests, request.id);
+    const location = `REST request '${request.name}'`;
+    const auth = { ...request.auth };
+    AUTH_SECRET_FIELDS.forEach(field => {
+      if (request.auth[field] === undefined) return;
+      auth[field] = visit(request.auth[field]!, { location, field }, localRequest?.auth[field], redactValue);
+    });
+    return {
+      ...request,
+      auth,
+      headers: visitCredentialParams(request.headers, localRequest?.headers, `${location} header`, visit),
+      params: visitCredentialParams(request.params, localRequest?.params, `${location} parameter`, visit)
+    };
+  });
+
+  result.mcpConnections = workspace.mcpConnections?.map(connection => {
+    const localConnection = byId(local?.mcpConnections, connection.id);
+    const location = `MCP connection '${connection.name}'`;
+    const mapped = {
+      ...connection,
+      headers: visitParams(connection.headers || [], localConnection?.headers, `${location} header`, visit),
+      env: visitParams(connection.env || [], localConnection?.env, `${location} env`, visit),
+      stdIoConfig: visitStdIoEnv(connection.stdIoConfig, localConnection?.stdIoConfig, `${location} local server env`, visit)
+    };
+    const auth = connection.auth;
+    const localAuth = localConnection?.auth;
+    if (auth?.basic) {
+      mapped.auth = { ...mapped.auth!, basic: { ...auth.basic, password: visit(auth.basic.password, { location, field: 'basic password' }, localAuth?.basic?.password, redactValue) } };
+    }
+    if (auth?.bearer) {
+      mapped.auth = { ...mapped.auth!, bearer: { token: visit(auth.bearer.token, { location, field: 'bearer token' }, localAuth?.bearer?.token, redactValue) } };
+    }
+    if (auth?.oauth2?.clientSecret !== undefined) {
+      mapped.auth = {
+        ...mapped.auth!,
+        oauth2: { ...auth.oauth2, clientSecret: visit(auth.oauth2.clientSecret, { location, field: 'OAuth client secret' }, localAuth?.oauth2?.clientSecret, redactValue) }
+      };
+    }
+    return mapped;
+  });
+
+  result.environments = workspace.environments?.map(environment => {
+    const localVariables = byId(local?.environments, environment.id)?.variables;
+    const location = `Environment '${environment.name}'`;
+    return {
+      ...environment,
+      variables: environment.variables.map(variable =>
+        variable.secret
+          ? { ...variable, value: visit(variable.value, { location, field: variable.key || 'unnamed' }, byId(localVariables, variable.id)?.value, redactValue) }
+          : variable
+      )
+    };
+  });
+
+  const mcpDocuments = workspace.documents?.[EditorType.MCP_CLIENT];
+  if (mcpDocuments) {
+    const localDocuments = local?.documents[EditorType.MCP_CLIENT];
+    result.documents = {
+      ...workspace.documents,
+      [EditorType.MCP_CLIENT]: mcpDocuments.map(document => {
+        const localContent = byId(localDocuments, document.id)?.content;
+        const location = `MCP request '${document.name}'`;
+        return {
+          ...document,
+          content: {
+            ...document.content,
+            headers: visitParams(document.content.headers || [], localContent?.headers, `${location} header`, visit),
+            env: visitParams(document.content.env || [], localContent?.env, `${location} env`, visit)
+          }
+        };
+      })
+    };
+  }
+  return result;
+};
+
+// -- Export --
+
+/**
+ * The workspace file of the whole app state. Without `includeSecrets` every
+ * secret is replaced with a placeholder and listed in `redactedSecrets`.
+ */
+export const createWorkspaceFile = (state: PersistedAppState, { includeSecrets = false } = {}): WorkspaceFile => {
+  const workspace: WorkspaceFile = {
+    version: WORKSPACE_VERSION,
+    exportedAt: Date.now(),
+    documents: state.documents,
+    activeDocumentIds: state.activeDocumentIds,
+    scenarios: state.scenarios,
+    activeScenarioId: state.activeScenarioId,
+    variablesSchema: state.variablesSchema,
+    functions: state.userFunctions,
+    sharedModule: state.sharedModule,
+    partials: state.partials,
+    hostImages: state.hostImages,
+    dbConnections: state.dbConnections,
+    mcpConnections: state.mcpConnections,
+    authCredentials: state.authCredentials,
+    apiSources: state.apiSources,
+    restRequests: state.restRequests,
+    environments: state.environments,
+    activeEnvironmentId: state.activeEnvironmentId
+  };
+  if (includeSecrets) return state.vault ? { ...workspace, vault: state.vault } : workspace;
+
+  const redacted: RedactedSecret[] = [];
+  const result = visitSecrets(workspace, undefined, (value, secret, _local, redact) => {
+    const replaced = redact(value);
+    if (replaced !== value) redacted.push(secret);
+    return replaced;
+  });
+  return { ...result, redactedSecrets: redacted };
+};
+
+// -- Import --
+
+const mergeById = <T extends { id: string }>(local: T[], imported: T[] | undefined): T[] => {
+  if (!imported) return local;
+  const importedIds = new Set(imported.map(item => item.id));
+  const replaced = local.map(item => (importedIds.has(item.id) ? imported.find(i => i.id === item.id)! : item));
+  return [...replaced, ...imported.filter(item => !local.some(l => l.id === item.id))];
+};
+
+/**
+ * Applies a workspace file to the app state. Placeholders are filled in from
+ * local items with the same id, when only the secret differs. Single values in
+ * the file always win; documents and other lists are merged by id or replaced.
+ */
+export const importWorkspace = (current: PersistedAppState, file: WorkspaceFile, mode: WorkspaceImportMode): WorkspaceImport => {
+  const unresolved: RedactedSecret[] = [];
+  const local = createWorkspaceFile(current, { includeSecrets: true });
+  const workspace = visitSecrets(file, local, (value, secret, localValue, redact) => {
+    if (!value.includes(SECRET_PLACEHOLDER)) return value;
+    if (localValue !== undefined && redact(localValue) === value) return localValue;
+    unresolved.push(secret);
+    return value;
+  });
+
+  const list = <T extends { id: string }>(localItems: T[], imported: T[] | undefined): T[] =>
+    mode === 'merge' ? mergeById(localItems, imported) : imported ?? localItems;
+
+  const state: PersistedAppState = { ...current, documents: { ...current.documents } };
+  DOCUMENT_EDITOR_TYPES.forEach(type => {
+    const imported = workspace.documents[type] as EditorDocument<DocumentContents[DocumentEditorType]>[] | undefined;
+    if (imported?.length) (state.documents as any)[type] = list(current.documents[type], imported);
+  });
+  if (workspace.variablesSchema !== undefined) state.variablesSchema = workspace.variablesSchema;
+  if (workspace.sharedModule !== undefined) state.sharedModule = workspace.sharedModule;
+
+  state.scenarios = list(current.scenarios, workspace.scenarios);
+  state.userFunctions = list(current.userFunctions, workspace.functions);
+  state.partials = list(current.partials, workspace.partials);
+  state.hostImages = list(current.hostImages, workspace.hostImages);
+  state.dbConnections = list(current.dbConnections, workspace.dbConnections);
+  state.mcpConnections = list(current.mcpConnections, workspace.mcpConnections);
+  state.authCredentials = list(current.authCredentials, workspace.authCredentials);
+  state.apiSources = list(current.apiSources, workspace.apiSources);
+  state.restRequests = list(current.restRequests, workspace.restRequests);
+  state.environments = list(current.environments, workspace.environments);
+
+  // Vaults cannot be merged without both passphrases; the local one is kept unless it is overwritten
+  if (workspace.vault && (mode === 'replace' || !current.vault)) state.vault = workspace.vault;
+
+  if (mode === 'replace') {
+    state.activeScenarioId = workspace.activeScenarioId ?? current.activeScenarioId;
+    state.activeDocumentIds = { ...current.activeDocumentIds, ...workspace.activeDocumentIds };
+    if (workspace.activeEnvironmentId !== undefined) state.activeEnvironmentId = workspace.activeEnvironmentId;
+  }
+
+  // Normalizes the selections, e.g. a scenario that the file does not have
+  return { state: migrateAppState(state), unresolved };
+};
+
+// -- Vault --
+
+export interface SecretsMove {
+  state: PersistedAppState;
+  secrets: VaultSecrets; // The vault's secrets with the moved ones added
+  moved: RedactedSecret[];
+}
+
+// The plaintext secret of a field with the text around it, e.g. the password of a connection string;
+// null when the field holds none
+const plaintextSecret = (value: string, redact: (value: string) => string) => {
+  if (!value || hasSecretReference(value) || value.includes(SECRET_PLACEHOLDER)) return null;
+  // The redacted value marks which part of the field is secret
+  const parts = redact(value).split(SECRET_PLACEHOLDER);
+  if (parts.length !== 2) return null;
+  const [before, after] = parts;
+  return { before, plain: value.slice(before.length, value.length - after.length), after };
+};
+
+/**
+ * Moves every plaintext secret of the app state into the vault: the secret
+ * part of a field becomes a {{ secret.NAME }} reference, named after where
+ * it was found. A value the vault already holds reuses that secret.
+ */
+export const moveSecretsToVault = (current: PersistedAppState, vaultSecrets: VaultSecrets): SecretsMove => {
+  const secrets = { ...vaultSecrets };
+  const moved: RedactedSecret[] = [];
+  const workspace = visitSecrets(createWorkspaceFile(current, { includeSecrets: true }), undefined, (value, secret, _local, redact) => {
+    const found = plaintextSecret(value, redact);
+    if (!found) return value;
+    const { before, plain, after } = found;
+    // Only the password of a connection string is secret
+    const field = before || after ? 'password' : secret.field;
+    const name = Object.keys(secrets).find(key => secrets[key] === plain) ?? uniqueSecretName(`${secret.location} ${field}`, Object.keys(secrets));
+    secrets[name] = plain;
+    moved.push(secret);
+    return `${before}${secretReference(name)}${after}`;
+  });
+  const state: PersistedAppState = {
+    ...current,
+    documents: { ...current.documents, ...workspace.documents },
+    dbConnections: workspace.dbConnections ?? current.dbConnections,
+    mcpConnections: workspace.mcpConnections ?? current.mcpConnections,
+    authCredentials: workspace.authCredentials ?? current.authCredentials,
+    restRequests: workspace.restRequests ?? current.restRequests,
+    environments: workspace.environments ?? current.environments
+  };
+  return { state, secrets, moved };
+};
+
+/**
+ * Parts of the app state with the plaintext secrets the vault holds replaced
+ * by their {{ secret.NAME }} references, e.g. the state as it is once
+ * moveSecretsToVault stored them. Other plaintext secrets are kept, or
+ * replaced with a placeholder with `redactOthers`.
+ */
+export const referenceVaultSecrets = <T extends Partial<WorkspaceFile>>(parts: T, secrets: VaultSecrets, { redactOthers = false } = {}): T =>
+  visitSecrets(parts as WorkspaceFile, undefined, (value, _secret, _local, redact) => {
+    const found = plaintextSecret(value, redact);
+    if (!found) return value;
+    const name = Object.keys(secrets).find(key => secrets[key] === found.plain);
+    if (name) return `${found.before}${secretReference(name)}${found.after}`;
+    return redactOthers ? `${found.before}${SECRET_PLACEHOLDER}${found.after}` : value;
+  }) as unknown as T;
+
+// A document with no plaintext secret left, e.g. a version in its history: what the vault holds becomes a reference, the rest is redacted
+export const redactDocumentSecrets = (type: DocumentEditorType, document: EditorDocument, secrets: VaultSecrets): EditorDocument => {
+  const documents = { [type]: [document] } as Partial<DocumentsByEditor>;
+  return referenceVaultSecrets({ documents }, secrets, { redactOthers: true }).documents[type]![0];
+};
@@ -1,7 +1,9 @@
 import React, { useState, useCallback, useMemo } from 'react';
-import { AgentConfig, UserFunction, EditorType } from '../../lib/types';
+import { AgentConfig, UserFunction, EditorType, WorkspaceScope } from '../../lib/types';
+import { EMPTY_SCOPE } from '../../lib/environments';
 import { ToolsPanel } from '../shared-ui/ToolsPanel';
-import { interpolateString, insertIntoNativeInput } from '../../lib/utils';
+import { insertIntoNativeInput } from '../../lib/utils';
+import { interpolateInSandbox, isSandboxAbort } from '../../lib/sandbox-client';
 import { 
     Play, Edit2, AlertCircle
 } from 'lucide-react';
@@ -17,11 +19,17 @@ interface AgentEditorProps {
     config: AgentConfig;
     variablesJson: string;
     onVariablesChange: (json: string) => void;
+    variablesSchema?: string;
+    onVariablesSchemaChange?: (schema: string) => void;
+    sharedModule?: string;
+    onSharedModuleChange?: (code: string) => void;
+    // The active environment and the vault
+    scope?: WorkspaceScope;
     functions: UserFunction[];
 
     // Callbacks
     onChange: (config: AgentConfig) => void;
-    onFunctionsChange: (funcs: UserFunction[]) => void;
+    onFunctionsChange: (funcs: React.SetStateAction<UserFunction[]>) => void;
     
     // Services
     onAiAssist?: (prompt: string) => Promise<string>;
@@ -43,6 +51,11 @@ export const AgentEditor: React.FC<AgentEditorProps> = ({
     onChange, 
     variablesJson = '{}', 
     onVariablesChange, 
+    variablesSchema,
+    onVariablesSchemaChange,
+    sharedModule,
+    onSharedModuleChange,
+    scope = EMPTY_SCOPE,
     functions = [],
     onFunctionsChange,
     onAiAssist,
@@ -73,23 +86,26 @@ export const AgentEditor: React.FC<AgentEditorProps> = ({
 
     // Handle External Run Trigger (from App)
     React.useEffect(() => {
-        if (externalRunTrigger) {
-            try {
-                // Interpolate before sending to chat panel
-                const interpolated = interpolateString(config.userMessageInput, variablesObj, functions);
+        if (!externalRunTrigger) return;
+        const controller = new AbortController();
+        // Interpolate in the sandbox before sending to chat panel
+        interpolateInSandbox(config.userMessageInput, variablesObj, functions, { signal: controller.signal, escape: 'none', sharedModule, scope })
+            .then(interpolated => {
                 setProcessedRunTrigger({ 
                     message: interpolated, 
                     timestamp: externalRunTrigger.timestamp 
                 });
-            } catch (e: any) {
+            })
+            .catch((e: any) => {
+                if (isSandboxAbort(e)) return;
                 // If interpolation fails, we still trigger but might show raw template
                 setProcessedRunTrigger({ 
                     message: config.userMessageInput, 
                     timestamp: externalRunTrigger.timestamp 
                 });
-            }
-        }
-    }, [externalRunTrigger, config.userMessageInput, variablesObj, functions]);
+            });
+        return () => controller.abort();
+    }, [externalRunTrigger, config.userMessageInput, variablesObj, functions, sharedModule, scope]);
 
     return (
         <div className="flex h-full w-full relative">
@@ -155,6 +171,8 @@ export const AgentEditor: React.FC<AgentEditorProps> = ({
                         onChange={onChange} 
                         variables={variablesObj}
                         functions={functions}
+                        sharedModule={sharedModule}
+                        scope={scope}
                     />
 
                     <AgentOutputPanel 
@@ -166,6 +184,7 @@ export const AgentEditor: React.FC<AgentEditorProps> = ({
                         config={config} 
                         onChange={onChange} 
                         functions={functions}
+                        sharedModule={sharedModule}
                     />
 
                 </div>
@@ -175,6 +194,11 @@ export const AgentEditor: React.FC<AgentEditorProps> = ({
             <ToolsPanel 
                 variablesJson={variablesJson}
                 onVariablesChange={onVariablesChange}
+                variablesSchema={variablesSchema}
+                onVariablesSchemaChange={onVariablesSchemaChange}
+                sharedModule={sharedModule}
+                onSharedModuleChange={onSharedModuleChange}
+                scope={scope}
                 functions={functions}
                 onFunctionsChange={onFunctionsChange}
                 activeEditorType={EditorType.AGENT}
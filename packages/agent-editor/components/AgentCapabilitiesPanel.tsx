@@ -5,6 +5,7 @@ import {
     Box, HardDrive, Cpu, CircleOff, Zap, Database, Terminal, Globe
 } from 'lucide-react';
 import { McpConnectionModal } from '../../mcp-editor/McpConnectionModal';
+import { formatParamList } from '../../../lib/function-types';
 
 interface Props {
     config: AgentConfig;
@@ -201,9 +202,12 @@ export const AgentCapabilitiesPanel: React.FC<Props> = ({ config, onChange, func
                                     <div>
                                         <div className={`text-xs font-bold ${isSelected ? 'text-teal-800' : 'text-slate-700'}`}>
                                             {fn.name}
+                                            {fn.testStatus === 'failed' && (
+                                                <span className="ml-1.5 text-[9px] font-bold text-red-600 bg-red-50 px-1 rounded" title="This function fails its tests">tests failing</span>
+                                            )}
                                         </div>
                                         <div className="text-[10px] text-slate-400 mt-1 truncate">
-                                            ({fn.params.join(', ')})
+                                            ({formatParamList(fn)})
                                         </div>
                                     </div>
                                 </div>
@@ -1,30 +1,47 @@
-import React, { useState } from 'react';
-import { AgentConfig, UserFunction } from '../../../lib/types';
+import React, { useState, useEffect } from 'react';
+import { AgentConfig, UserFunction, WorkspaceScope } from '../../../lib/types';
 import { CodeEditor } from '../../shared-ui/CodeEditor';
 import { Bot, Eye, EyeOff } from 'lucide-react';
-import { interpolateString } from '../../../lib/utils';
+import { interpolateManyInSandbox, isSandboxAbort } from '../../../lib/sandbox-client';
+import { EMPTY_SCOPE } from '../../../lib/environments';
 
 interface Props {
     config: AgentConfig;
     onChange: (config: AgentConfig) => void;
     variables: Record<string, any>;
     functions: UserFunction[];
+    sharedModule?: string;
+    // The active environment and the vault, whose secrets preview masked
+    scope?: WorkspaceScope;
 }
 
-export const AgentPromptPanel: React.FC<Props> = ({ config, onChange, variables, functions }) => {
+const previewError = (message: string) => `[Preview Error: ${message}]`;
+
+export const AgentPromptPanel: React.FC<Props> = ({ config, onChange, variables, functions, sharedModule, scope = EMPTY_SCOPE }) => {
     const [isPreview, setIsPreview] = useState(false);
+    // System and user message, rendered
+    const [previews, setPreviews] = useState<string[]>(['', '']);
 
     const update = (key: keyof AgentConfig, value: any) => {
         onChange({ ...config, [key]: value });
     };
 
-    const getPreview = (template: string) => {
-        try {
-            return interpolateString(template, variables, functions);
-        } catch (e: any) {
-            return `[Preview Error: ${e.message}]`;
-        }
-    };
+    // Both prompts render in the sandbox while the preview is shown; a newer edit aborts the pending run
+    useEffect(() => {
+        if (!isPreview) return;
+        const controller = new AbortController();
+        interpolateManyInSandbox([config.systemMessage, config.userMessageInput], variables, functions, {
+            signal: controller.signal,
+            escape: 'none',
+            sharedModule,
+            scope
+        })
+            .then(results => setPreviews(results.map(({ output = '', error }) => (error !== undefined ? previewError(error) : output))))
+            .catch((e: any) => {
+                if (!isSandboxAbort(e)) setPreviews([previewError(e.message), previewError(e.message)]);
+            });
+        return () => controller.abort();
+    }, [isPreview, config.systemMessage, config.userMessageInput, variables, functions, sharedModule, scope]);
 
     return (
         <div>
@@ -58,7 +75,7 @@ export const AgentPromptPanel: React.FC<Props> = ({ config, onChange, variables,
                         <div className="flex-1 border border-slate-300 rounded-xl overflow-hidden bg-slate-50 shadow-inner">
                             <CodeEditor 
                                 language="text" // Using text to avoid markdown parsing issues in preview for now
-                                value={getPreview(config.systemMessage)}
+                                value={previews[0]}
                                 onChange={() => {}}
                                 readOnly={true}
                             />
@@ -92,7 +109,7 @@ export const AgentPromptPanel: React.FC<Props> = ({ config, onChange, variables,
                         <div className="flex-1 border border-slate-300 rounded-xl overflow-hidden bg-slate-50 shadow-inner">
                             <CodeEditor 
                                 language="text"
-                                value={getPreview(config.userMessageInput)}
+                                value={previews[1]}
                                 onChange={() => {}}
                                 readOnly={true}
                             />
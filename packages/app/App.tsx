@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { EditorType, UserFunction, DbConnection, HostImage, NamedAuthConfig, ApiSource, AgentConfig, EmailMessageState, SmsMessageState, McpState, McpConnection } from '../../lib/types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { EditorType, UserFunction, TemplatePartial, TemplateTestCase, TemplateEngine, VariableScenario, DbConnection, HostImage, NamedAuthConfig, ApiSource, RestRequest, McpConnection, PersistedAppState, DocumentsByEditor, DocumentEditorType, DocumentContents, DocumentSettings, EditorDocument, TemplateDocumentType, DocumentVersion, VersionRestoreOptions, EncryptedVault, Environment, WorkspaceScope } from '../../lib/types';
 import { JsonEditor } from '../json-editor/JsonEditor';
 import { YamlEditor } from '../yaml-editor/YamlEditor';
 import { EmailEditor } from '../email-editor/EmailEditor';
@@ -11,25 +11,23 @@ import { XmlEditor } from '../xml-editor/XmlEditor';
 import { RestEditor } from '../rest-editor/RestEditor';
 import { AgentEditor } from '../agent-editor/AgentEditor';
 import { McpEditor } from '../mcp-editor/McpEditor';
-import { FileJson, Mail, Workflow, Leaf, Settings, Database, FileCode, Globe, Bot, FileText, MessageSquare, PanelTop, Server } from 'lucide-react';
+import { ScenarioSwitcher } from '../shared-ui/ScenarioSwitcher';
+import { WorkspaceBundleModal } from '../shared-ui/WorkspaceBundleModal';
+import { DocumentExplorer, DocumentActions } from '../shared-ui/DocumentExplorer';
+import { DocumentTabs } from '../shared-ui/DocumentTabs';
+import { VersionHistoryModal } from '../shared-ui/VersionHistoryModal';
+import { VaultModal } from '../shared-ui/VaultModal';
+import { EnvironmentSwitcher } from '../shared-ui/EnvironmentSwitcher';
+import { EnvironmentsModal } from '../shared-ui/EnvironmentsModal';
+import { FileJson, Mail, Workflow, Leaf, Settings, Database, FileCode, Globe, Bot, FileText, MessageSquare, PanelTop, Server, Package, RotateCcw, Loader2, CloudOff, Check, Lock, LockOpen } from 'lucide-react';
 import { DEFAULT_EMAIL_SNIPPET_GROUPS, DEFAULT_SQL_DIALECT_DATA, DEFAULT_XML_SNIPPET_GROUPS } from '../../lib/constants';
-import {
-  DEFAULT_VARIABLES_JSON,
-  DEFAULT_JSON_CONTENT,
-  DEFAULT_YAML_CONTENT,
-  DEFAULT_EMAIL_STATE,
-  DEFAULT_HTML_CONTENT,
-  DEFAULT_SMS_STATE,
-  DEFAULT_SCRIPT_CONTENT,
-  DEFAULT_SQL_CONTENT,
-  DEFAULT_XML_CONTENT,
-  DEFAULT_MCP_STATE,
-  DEFAULT_FUNCTIONS,
-  DEFAULT_DB_CONNECTIONS,
-  DEFAULT_MCP_CONNECTIONS,
-  DEFAULT_HOST_IMAGES,
-  DEFAULT_AGENT_CONFIG
-} from '../../lib/defaults';
+import { createDefaultAppState, createAutosaver, loadAppState, clearAppState } from '../../lib/persistence';
+import { activeDocumentOf, createDocument, duplicateDocument, uniqueDocumentName, isDocumentEditor } from '../../lib/editor-documents';
+import { clearAllHistory, clearHistory, createVersion, recordChangedDocuments, recordVersion, restoreVersion, rewriteHistory } from '../../lib/document-history';
+import { UnlockedVault, VaultSecrets, createVault, sealVault, unlockVault } from '../../lib/vault';
+import { moveSecretsToVault, redactDocumentSecrets, referenceVaultSecrets } from '../../lib/workspace-bundle';
+import { environmentVariables } from '../../lib/environments';
+import { interpolateInSandbox } from '../../lib/sandbox-client';
 import {
   generateJsonAssistResponse,
   generateYamlAssistResponse,
@@ -44,61 +42,209 @@ import {
   generateMcpAssistResponse
 } from '../../lib/ai-service';
 
+const NO_TESTS: TemplateTestCase[] = [];
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+type SaveStatus = 'restoring' | 'saving' | 'saved' | 'error';
+
 export default function App() {
+  // Initial state until the saved workspace is restored
+  const [defaults] = useState(createDefaultAppState);
+
   // Global Store State
-  const [activeEditor, setActiveEditor] = useState<EditorType>(EditorType.JSON_REST);
+  const [activeEditor, setActiveEditor] = useState<EditorType>(defaults.activeEditor);
   
-  // Content State
-  const [jsonContent, setJsonContent] = useState(DEFAULT_JSON_CONTENT);
-  const [yamlContent, setYamlContent] = useState(DEFAULT_YAML_CONTENT);
-  const [emailContent, setEmailContent] = useState<EmailMessageState>(DEFAULT_EMAIL_STATE);
-  const [htmlPageContent, setHtmlPageContent] = useState(DEFAULT_HTML_CONTENT);
-  const [smsContent, setSmsContent] = useState<SmsMessageState>(DEFAULT_SMS_STATE);
-  const [scriptContent, setScriptContent] = useState(DEFAULT_SCRIPT_CONTENT);
-  const [sqlContent, setSqlContent] = useState(DEFAULT_SQL_CONTENT);
-  const [sqlQueryName, setSqlQueryName] = useState('User Orders Query');
-  const [xmlContent, setXmlContent] = useState(DEFAULT_XML_CONTENT);
-  const [mcpContent, setMcpContent] = useState<McpState>(DEFAULT_MCP_STATE);
+  // Document State: every editor with documents keeps a list and the open one
+  const [documents, setDocuments] = useState<DocumentsByEditor>(defaults.documents);
+  const [activeDocumentIds, setActiveDocumentIds] = useState<Partial<Record<DocumentEditorType, string>>>(defaults.activeDocumentIds);
+  const [isExplorerOpen, setIsExplorerOpen] = useState(false);
   
   // Agent State
-  const [agentConfig, setAgentConfig] = useState<AgentConfig>(DEFAULT_AGENT_CONFIG);
   const [agentRunResult, setAgentRunResult] = useState<string | null>(null);
   const [isAgentRunning, setIsAgentRunning] = useState(false);
   const [externalRunTrigger, setExternalRunTrigger] = useState<{message: string, timestamp: number} | null>(null);
 
   // Context State
-  const [variablesJson, setVariablesJson] = useState<string>(DEFAULT_VARIABLES_JSON);
-  const [functions, setFunctions] = useState<UserFunction[]>(DEFAULT_FUNCTIONS);
+  const [scenarios, setScenarios] = useState<VariableScenario[]>(defaults.scenarios);
+  const [activeScenarioId, setActiveScenarioId] = useState<string>(defaults.activeScenarioId);
+  const [variablesSchema, setVariablesSchema] = useState<string>(defaults.variablesSchema);
+  const [functions, setFunctions] = useState<UserFunction[]>(defaults.userFunctions);
+  const [partials, setPartials] = useState<TemplatePartial[]>(defaults.partials);
+  const [sharedModule, setSharedModule] = useState<string>(defaults.sharedModule);
 
   // Image State
-  const [hostImages, setHostImages] = useState<HostImage[]>(DEFAULT_HOST_IMAGES);
+  const [hostImages, setHostImages] = useState<HostImage[]>(defaults.hostImages);
 
   // DB Connection & Execution State
-  const [dbConnections, setDbConnections] = useState<DbConnection[]>(DEFAULT_DB_CONNECTIONS);
-  const [activeConnectionId, setActiveConnectionId] = useState<string>('1');
+  const [dbConnections, setDbConnections] = useState<DbConnection[]>(defaults.dbConnections);
   const [isDbExecuting, setIsDbExecuting] = useState(false);
   const [dbExecutionResult, setDbExecutionResult] = useState<string | null>(null);
   const executionTimeoutRef = useRef<number | null>(null);
 
   // MCP Connections State
-  const [mcpConnections, setMcpConnections] = useState<McpConnection[]>(DEFAULT_MCP_CONNECTIONS);
-  const [activeMcpConnectionId, setActiveMcpConnectionId] = useState<string>('mcp_local');
+  const [mcpConnections, setMcpConnections] = useState<McpConnection[]>(defaults.mcpConnections);
 
   // Auth Credentials State for REST Editor
-  const [authCredentials, setAuthCredentials] = useState<NamedAuthConfig[]>([]);
+  const [authCredentials, setAuthCredentials] = useState<NamedAuthConfig[]>(defaults.authCredentials);
 
   // REST Editor API Sources
-  const [apiSources, setApiSources] = useState<ApiSource[]>([
-    {
-        id: 'src_petstore',
-        name: 'Petstore API',
-        baseUrl: 'https://petstore.swagger.io/v2',
-        specUrl: 'https://petstore.swagger.io/v2/swagger.json',
-        lastFetched: Date.now()
-    }
-  ]);
+  const [apiSources, setApiSources] = useState<ApiSource[]>(defaults.apiSources);
+
+  // REST Editor Requests
+  const [restRequests, setRestRequests] = useState<RestRequest[]>(defaults.restRequests);
+  const [activeRestRequestId, setActiveRestRequestId] = useState<string>(defaults.activeRestRequestId);
+
+  // Secret Vault State: only the encrypted vault is saved, the unlocked one lives in memory
+  const [vault, setVault] = useState<EncryptedVault | null>(defaults.vault);
+  const [unlockedVault, setUnlockedVault] = useState<UnlockedVault | null>(null);
+  const [isVaultOpen, setIsVaultOpen] = useState(false);
+
+  // Environment State: the active environment is laid over the variables of every scenario
+  const [environments, setEnvironments] = useState<Environment[]>(defaults.environments);
+  const [activeEnvironmentId, setActiveEnvironmentId] = useState<string | null>(defaults.activeEnvironmentId);
+  const [isEnvironmentsOpen, setIsEnvironmentsOpen] = useState(false);
+
+  // Persistence State
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('restoring');
+  const [saveError, setSaveError] = useState<string | null>(null);
+  // Off when the saved workspace could not be restored, so it is not overwritten
+  const [isAutosaveEnabled, setIsAutosaveEnabled] = useState(false);
+  const [isWorkspaceFileOpen, setIsWorkspaceFileOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  // The last written state; documents that differ from it get a new version in their history
+  const lastSavedRef = useRef<PersistedAppState>(defaults);
+  const [autosaver] = useState(() => createAutosaver(AUTOSAVE_DELAY_MS, (status, error) => {
+      setSaveStatus(status);
+      setSaveError(error ?? null);
+  }, state => {
+      const previous = lastSavedRef.current;
+      lastSavedRef.current = state;
+      // The history is a convenience; a failed write must not mark the workspace as unsaved
+      recordChangedDocuments(previous, state).catch(() => {});
+  }));
+
+  // The active scenario is what every editor sees as its variables
+  const activeScenario = scenarios.find(s => s.id === activeScenarioId) || scenarios[0];
+  const variablesJson = activeScenario.variablesJson;
+
+  // --- Documents ---
+
+  const activeDocument = <K extends DocumentEditorType>(type: K) => activeDocumentOf(documents, activeDocumentIds, type);
+
+  const updateDocument = <K extends DocumentEditorType>(
+      type: K,
+      id: string,
+      change: (doc: EditorDocument<DocumentContents[K]>) => EditorDocument<DocumentContents[K]>
+  ) => {
+      setDocuments(prev => ({
+          ...prev,
+          [type]: (prev[type] as EditorDocument<DocumentContents[K]>[]).map(doc => (doc.id === id ? change(doc) : doc))
+      }));
+  };
+
+  const setDocumentContent = <K extends DocumentEditorType>(type: K) => {
+      const id = activeDocument(type).id;
+      return (content: DocumentContents[K]) => updateDocument(type, id, doc => ({ ...doc, content }));
+  };
+
+  const setDocumentSettings = <K extends DocumentEditorType>(type: K, settings: DocumentSettings) => {
+      updateDocument(type, activeDocument(type).id, doc => ({ ...doc, settings: { ...doc.settings, ...settings } }));
+  };
+
+  const handleOpenDocument = (type: DocumentEditorType, id: string) => {
+      setActiveEditor(type);
+      setActiveDocumentIds(prev => ({ ...prev, [type]: id }));
+  };
+
+  // New documents start on the connection of the open one
+  const handleCreateDocument = (type: DocumentEditorType) => {
+      const current = activeDocument(type);
+      const settings = current.settings?.connectionId ? { connectionId: current.settings.connectionId } : undefined;
+      const doc = createDocument(type, documents[type], settings);
+      setDocuments(prev => ({ ...prev, [type]: [...prev[type], doc] }));
+      handleOpenDocument(type, doc.id);
+  };
+
+  const handleRenameDocument = (type: DocumentEditorType, id: string, name: string) => {
+      const others = (documents[type] as EditorDocument[]).filter(doc => doc.id !== id);
+      updateDocument(type, id, doc => ({ ...doc, name: uniqueDocumentName(others, name.trim() || doc.name) }));
+  };
+
+  const handleDuplicateDocument = (type: DocumentEditorType, id: string) => {
+      const list = documents[type] as EditorDocument[];
+      const original = list.find(doc => doc.id === id);
+      if (!original) return;
+      const copy = duplicateDocument(original, list);
+      setDocuments(prev => {
+          const docs = [...(prev[type] as EditorDocument[])];
+          docs.splice(docs.findIndex(doc => doc.id === id) + 1, 0, copy);
+          return { ...prev, [type]: docs };
+      });
+      handleOpenDocument(type, copy.id);
+  };
+
+  // The last document of an editor cannot be deleted
+  const handleDeleteDocument = (type: DocumentEditorType, id: string) => {
+      const list = documents[type] as EditorDocument[];
+      const doc = list.find(d => d.id === id);
+      if (!doc || list.length <= 1) return;
+      if (!window.confirm(`Delete '${doc.name}'? This cannot be undone.`)) return;
+      const index = list.indexOf(doc);
+      setDocuments(prev => ({ ...prev, [type]: (prev[type] as EditorDocument[]).filter(d => d.id !== id) }));
+      if (activeDocument(type).id === id) {
+          setActiveDocumentIds(prev => ({ ...prev, [type]: list[index === 0 ? 1 : index - 1].id }));
+      }
+      clearHistory(type, id).catch(() => {});
+  };
+
+  const documentActions: DocumentActions = {
+      onOpen: handleOpenDocument,
+      onCreate: handleCreateDocument,
+      onRename: handleRenameDocument,
+      onDuplicate: handleDuplicateDocument,
+      onDelete: handleDeleteDocument
+  };
+
+  const jsonDocument = activeDocument(EditorType.JSON_REST);
+  const yamlDocument = activeDocument(EditorType.YAML_CONFIG);
+  const emailDocument = activeDocument(EditorType.EMAIL_HTML);
+  const htmlPageDocument = activeDocument(EditorType.HTML_PAGE);
+  const smsDocument = activeDocument(EditorType.SMS_MSG);
+  const scriptDocument = activeDocument(EditorType.SCRIPT_JS);
+  const sqlDocument = activeDocument(EditorType.DB_QUERY);
+  const xmlDocument = activeDocument(EditorType.XML_TEMPLATE);
+  const mcpDocument = activeDocument(EditorType.MCP_CLIENT);
+  const agentDocument = activeDocument(EditorType.AGENT);
+  const agentConfig = agentDocument.content;
+  const activeConnectionId = sqlDocument.settings?.connectionId ?? dbConnections[0]?.id ?? '';
+  const activeMcpConnectionId = mcpDocument.settings?.connectionId ?? mcpConnections[0]?.id ?? '';
+
+  // What every render and request sees next to the variables; previews re-render when it changes
+  const scope = useMemo((): WorkspaceScope => {
+      const activeEnvironment = environments.find(e => e.id === activeEnvironmentId);
+      return {
+          environment: activeEnvironment ? environmentVariables(activeEnvironment) : [],
+          secretNames: vault?.names ?? [],
+          secrets: unlockedVault?.secrets ?? null
+      };
+  }, [environments, activeEnvironmentId, vault, unlockedVault]);
+
+  const setVariablesJson = (json: string) => {
+      setScenarios(prev => prev.map(s => (s.id === activeScenario.id ? { ...s, variablesJson: json } : s)));
+  };
+
+  const handleExecuteQuery = async (query: string, connection: DbConnection) => {
+      // The connection string is resolved first, so an unknown variable or a locked vault fails the run
+      let variablesObj = {};
+      try { variablesObj = JSON.parse(variablesJson); } catch {}
+      try {
+          await interpolateInSandbox(connection.connectionString, variablesObj, functions, { escape: 'none', sharedModule, scope, request: true });
+      } catch (e: any) {
+          setDbExecutionResult(`Cannot connect to '${connection.name}': ${e.message}`);
+          return;
+      }
 
-  const handleExecuteQuery = (query: string, connection: DbConnection) => {
       setIsDbExecuting(true);
       setDbExecutionResult(null);
 
@@ -158,43 +304,214 @@ export default function App() {
       };
   }, []);
 
+  // --- Persistence ---
+
+  const applyAppState = (state: PersistedAppState) => {
+      // Another vault, e.g. from an imported workspace, starts locked
+      applyVault(state.vault, state.vault === vault ? unlockedVault : null);
+      applyEnvironments(state.environments, state.activeEnvironmentId);
+      setActiveEditor(state.activeEditor);
+      setDocuments(state.documents);
+      setActiveDocumentIds(state.activeDocumentIds);
+      setScenarios(state.scenarios);
+      setActiveScenarioId(state.activeScenarioId);
+      setVariablesSchema(state.variablesSchema);
+      setFunctions(state.userFunctions);
+      setSharedModule(state.sharedModule);
+      setPartials(state.partials);
+      setHostImages(state.hostImages);
+      setDbConnections(state.dbConnections);
+      setMcpConnections(state.mcpConnections);
+      setAuthCredentials(state.authCredentials);
+      setApiSources(state.apiSources);
+      setRestRequests(state.restRequests);
+      setActiveRestRequestId(state.activeRestRequestId);
+  };
+
+  const appState = useMemo((): PersistedAppState => ({
+      ...defaults,
+      activeEditor,
+      documents,
+      activeDocumentIds,
+      scenarios,
+      activeScenarioId,
+      variablesSchema,
+      userFunctions: functions,
+      sharedModule,
+      partials,
+      hostImages,
+      dbConnections,
+      mcpConnections,
+      authCredentials,
+      apiSources,
+      restRequests,
+      activeRestRequestId,
+      vault,
+      environments,
+      activeEnvironmentId
+  }), [
+      defaults, activeEditor, documents, activeDocumentIds, scenarios, activeScenarioId, variablesSchema, functions,
+      sharedModule, partials, hostImages, dbConnections, mcpConnections, authCredentials, apiSources, restRequests,
+      activeRestRequestId, vault, environments, activeEnvironmentId
+  ]);
+
+  // Restore the saved workspace once; the editors wait for it so early edits are not overwritten
+  useEffect(() => {
+      let cancelled = false;
+      loadAppState().then(saved => {
+          if (cancelled) return;
+          if (saved) {
+              applyAppState(saved);
+              lastSavedRef.current = saved;
+          }
+          setSaveStatus('saved');
+          setIsAutosaveEnabled(true);
+      }).catch((e: any) => {
+          if (cancelled) return;
+          setSaveStatus('error');
+          setSaveError(`The saved workspace could not be restored, autosave is off: ${e?.message ?? e}`);
+      });
+      return () => { cancelled = true; };
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Every change is saved once edits pause
+  useEffect(() => {
+      if (isAutosaveEnabled) autosaver.schedule(appState);
+  }, [appState, isAutosaveEnabled, autosaver]);
+
+  // A pending save is written before the page goes away
+  useEffect(() => {
+      const flush = () => autosaver.flush();
+      window.addEventListener('pagehide', flush);
+      return () => {
+          window.removeEventListener('pagehide', flush);
+          flush();
+      };
+  }, [autosaver]);
+
+  const handleResetWorkspace = async () => {
+      if (!window.confirm('Reset the workspace to the defaults? All documents, variables, environments, functions, connections, images and the secret vault are replaced and the document history is deleted.')) return;
+      autosaver.cancel();
+      try {
+          await Promise.all([clearAppState(), clearAllHistory()]);
+      } catch {
+          // The defaults below are saved over the old state anyway
+      }
+      const state = createDefaultAppState();
+      lastSavedRef.current = state;
+      applyAppState(state);
+      setIsAutosaveEnabled(true);
+  };
+
+  // The state before a restore is kept as a checkpoint, so the restore can be undone
+  const handleRestoreVersion = (version: DocumentVersion, options: VersionRestoreOptions) => {
+      if (!isDocumentEditor(activeEditor)) return;
+      const current = (documents[activeEditor] as EditorDocument[]).find(doc => doc.id === version.document.id);
+      if (current) {
+          recordVersion(activeEditor, createVersion(current, appState, 'checkpoint', 'Before restore')).catch(() => {});
+      }
+      applyAppState(restoreVersion(appState, activeEditor, version, options));
+  };
+
+  // --- Secret Vault ---
+
+  const applyVault = (next: EncryptedVault | null, unlocked: UnlockedVault | null) => {
+      setVault(next);
+      setUnlockedVault(unlocked);
+  };
+
+  const handleCreateVault = async (passphrase: string) => {
+      const unlocked = await createVault(passphrase);
+      applyVault(await sealVault(unlocked), unlocked);
+  };
+
+  const handleUnlockVault = async (passphrase: string) => {
+      if (vault) applyVault(vault, await unlockVault(vault, passphrase));
+  };
+
+  const handleChangePassphrase = async (passphrase: string) => {
+      if (!unlockedVault) return;
+      const unlocked = await createVault(passphrase, unlockedVault.secrets);
+      applyVault(await sealVault(unlocked), unlocked);
+  };
+
+  const handleVaultSecretsChange = async (secrets: VaultSecrets) => {
+      if (!unlockedVault) return;
+      const unlocked = { ...unlockedVault, secrets };
+      applyVault(await sealVault(unlocked), unlocked);
+  };
+
+  const handleMoveSecretsToVault = async () => {
+      if (!unlockedVault) return;
+      const { secrets } = moveSecretsToVault(appState, unlockedVault.secrets);
+      await handleVaultSecretsChange(secrets);
+      // Applied to the state as it is now, so edits made while the vault was sealed are kept
+      setDocuments(current => referenceVaultSecrets({ documents: current }, secrets).documents);
+      setDbConnections(current => referenceVaultSecrets({ dbConnections: current }, secrets).dbConnections);
+      setMcpConnections(current => referenceVaultSecrets({ mcpConnections: current }, secrets).mcpConnections);
+      setAuthCredentials(current => referenceVaultSecrets({ authCredentials: current }, secrets).authCredentials);
+      setRestRequests(current => referenceVaultSecrets({ restRequests: current }, secrets).restRequests);
+      setEnvironments(current => referenceVaultSecrets({ environments: current }, secrets).environments);
+      // Older versions of the documents must not keep the plaintext either, nor the baseline of the next version
+      rewriteHistory((type, document) => redactDocumentSecrets(type, document, secrets)).catch(() => {});
+      const lastSaved = lastSavedRef.current;
+      lastSavedRef.current = { ...lastSaved, documents: referenceVaultSecrets({ documents: lastSaved.documents }, secrets, { redactOthers: true }).documents };
+  };
+
+  // Fields that still hold a plaintext secret, offered to be moved while the vault is open
+  const plaintextSecrets = useMemo(
+      () => (isVaultOpen && unlockedVault ? moveSecretsToVault(appState, unlockedVault.secrets).moved : []),
+      [isVaultOpen, unlockedVault, appState]
+  );
+
+  // --- Environments ---
+
+  // An active id that is not among the environments turns the environment off
+  const applyEnvironments = (next: Environment[], activeId: string | null) => {
+      setEnvironments(next);
+      setActiveEnvironmentId(next.some(e => e.id === activeId) ? activeId : null);
+  };
+
+  const engineOf = (type: TemplateDocumentType): TemplateEngine => activeDocument(type).settings?.engine ?? 'handlebars';
+
   // --- AI Assistance Handlers ---
 
   const handleJsonAssist = async (prompt: string): Promise<string> => {
-    return generateJsonAssistResponse(prompt, jsonContent, variablesJson, functions);
+    return generateJsonAssistResponse(prompt, jsonDocument.content, variablesJson, functions, engineOf(EditorType.JSON_REST), scope.secrets);
   };
 
   const handleYamlAssist = async (prompt: string): Promise<string> => {
-    return generateYamlAssistResponse(prompt, yamlContent, variablesJson, functions);
+    return generateYamlAssistResponse(prompt, yamlDocument.content, variablesJson, functions, engineOf(EditorType.YAML_CONFIG), scope.secrets);
   };
 
   const handleEmailAssist = async (prompt: string): Promise<string> => {
-    return generateHtmlAssistResponse(prompt, emailContent.html, variablesJson, functions, hostImages);
+    return generateHtmlAssistResponse(prompt, emailDocument.content.html, variablesJson, functions, hostImages, engineOf(EditorType.EMAIL_HTML), scope.secrets);
   };
 
   const handleHtmlPageAssist = async (prompt: string): Promise<string> => {
-    return generateHtmlAssistResponse(prompt, htmlPageContent, variablesJson, functions, hostImages);
+    return generateHtmlAssistResponse(prompt, htmlPageDocument.content, variablesJson, functions, hostImages, engineOf(EditorType.HTML_PAGE), scope.secrets);
   };
 
   const handleSmsAssist = async (prompt: string): Promise<string> => {
-    return generateSmsAssistResponse(prompt, smsContent.body, variablesJson, functions);
+    return generateSmsAssistResponse(prompt, smsDocument.content.body, variablesJson, functions, engineOf(EditorType.SMS_MSG), scope.secrets);
   };
 
   const handleScriptAssist = async (prompt: string): Promise<string> => {
-    return generateScriptAssistResponse(prompt, scriptContent, variablesJson, functions);
+    return generateScriptAssistResponse(prompt, scriptDocument.content, variablesJson, functions, scope.secrets);
   };
 
   const handleSqlAssist = async (prompt: string): Promise<string> => {
     const activeConnection = dbConnections.find(c => c.id === activeConnectionId);
-    return generateSqlAssistResponse(prompt, sqlContent, variablesJson, functions, activeConnection);
+    return generateSqlAssistResponse(prompt, sqlDocument.content, variablesJson, functions, activeConnection, engineOf(EditorType.DB_QUERY), scope.secrets);
   };
 
   const handleXmlAssist = async (prompt: string): Promise<string> => {
-    return generateXmlAssistResponse(prompt, xmlContent, variablesJson, functions);
+    return generateXmlAssistResponse(prompt, xmlDocument.content, variablesJson, functions, engineOf(EditorType.XML_TEMPLATE), scope.secrets);
   };
 
   const handleRestAssist = async (prompt: string): Promise<string> => {
-    return generateRestAssistResponse(prompt, variablesJson, functions, apiSources);
+    return generateRestAssistResponse(prompt, variablesJson, functions, apiSources, scope.secrets);
   };
 
   const handleAgentAssist = async (prompt: string): Promise<string> => {
@@ -202,85 +519,132 @@ export default function App() {
       try {
           let variablesObj = {};
           try { variablesObj = JSON.parse(variablesJson); } catch {}
-          return await runAgentSimulation(agentConfig, prompt, variablesObj, functions);
+          return await runAgentSimulation(agentConfig, prompt, variablesObj, functions, scope, sharedModule);
       } finally {
           setIsAgentRunning(false);
       }
   };
 
   const handleMcpAssist = async (prompt: string): Promise<string> => {
-      return generateMcpAssistResponse(prompt, mcpContent, variablesJson, functions);
+      return generateMcpAssistResponse(prompt, mcpDocument.content, variablesJson, functions, scope.secrets);
   };
 
   // Common props for all editors
   const commonProps = {
     variablesJson,
     onVariablesChange: setVariablesJson,
+    variablesSchema,
+    onVariablesSchemaChange: setVariablesSchema,
     functions,
-    onFunctionsChange: setFunctions
+    onFunctionsChange: setFunctions,
+    sharedModule,
+    onSharedModuleChange: setSharedModule,
+    scope
+  };
+
+  // Template editors also share the partials library and the variable scenarios
+  const templateProps = {
+    ...commonProps,
+    partials,
+    onPartialsChange: setPartials,
+    scenarios,
+    activeScenarioId: activeScenario.id,
+    onScenariosChange: setScenarios,
+    onActiveScenarioChange: setActiveScenarioId
+  };
+
+  // Each template document keeps its own test cases
+  const testProps = (type: TemplateDocumentType) => {
+    const doc = activeDocument(type);
+    return {
+      tests: doc.tests || NO_TESTS,
+      onTestsChange: (tests: TemplateTestCase[]) => updateDocument(type, doc.id, d => ({ ...d, tests }))
+    };
   };
 
+  // ...and chooses its template engine
+  const engineProps = (type: TemplateDocumentType) => ({
+    templateEngine: engineOf(type),
+    onTemplateEngineChange: (engine: TemplateEngine) => setDocumentSettings(type, { engine })
+  });
+
   const renderActiveEditor = () => {
     switch (activeEditor) {
       case EditorType.JSON_REST:
         return (
           <JsonEditor 
-            content={jsonContent}
-            onChange={setJsonContent}
+            key={jsonDocument.id}
+            content={jsonDocument.content}
+            onChange={setDocumentContent(EditorType.JSON_REST)}
             onAiAssist={handleJsonAssist}
-            {...commonProps}
+            {...templateProps}
+            {...testProps(EditorType.JSON_REST)}
+            {...engineProps(EditorType.JSON_REST)}
           />
         );
       case EditorType.YAML_CONFIG:
         return (
           <YamlEditor 
-            content={yamlContent}
-            onChange={setYamlContent}
+            key={yamlDocument.id}
+            content={yamlDocument.content}
+            onChange={setDocumentContent(EditorType.YAML_CONFIG)}
             onAiAssist={handleYamlAssist}
-            {...commonProps}
+            {...templateProps}
+            {...testProps(EditorType.YAML_CONFIG)}
+            {...engineProps(EditorType.YAML_CONFIG)}
           />
         );
       case EditorType.EMAIL_HTML:
         return (
           <EmailEditor 
-            content={emailContent}
-            onChange={setEmailContent}
+            key={emailDocument.id}
+            content={emailDocument.content}
+            onChange={setDocumentContent(EditorType.EMAIL_HTML)}
             emailBlockGroups={DEFAULT_EMAIL_SNIPPET_GROUPS}
             hostImages={hostImages}
             onAddImage={handleAddImage}
             onDeleteImage={handleDeleteImage}
             connections={dbConnections}
             onAiAssist={handleEmailAssist}
-            {...commonProps}
+            {...templateProps}
+            {...testProps(EditorType.EMAIL_HTML)}
+            {...engineProps(EditorType.EMAIL_HTML)}
           />
         );
       case EditorType.HTML_PAGE:
         return (
           <HtmlEditor 
-            content={htmlPageContent}
-            onChange={setHtmlPageContent}
+            key={htmlPageDocument.id}
+            content={htmlPageDocument.content}
+            onChange={setDocumentContent(EditorType.HTML_PAGE)}
             hostImages={hostImages}
             onAddImage={handleAddImage}
             onDeleteImage={handleDeleteImage}
             onAiAssist={handleHtmlPageAssist}
-            {...commonProps}
+            {...templateProps}
+            {...testProps(EditorType.HTML_PAGE)}
+            {...engineProps(EditorType.HTML_PAGE)}
           />
         );
       case EditorType.SMS_MSG:
         return (
           <SmsEditor 
-            content={smsContent}
-            onChange={setSmsContent}
+            key={smsDocument.id}
+            content={smsDocument.content}
+            onChange={setDocumentContent(EditorType.SMS_MSG)}
             connections={dbConnections}
             onAiAssist={handleSmsAssist}
-            {...commonProps}
+            {...templateProps}
+            {...testProps(EditorType.SMS_MSG)}
+            {...engineProps(EditorType.SMS_MSG)}
           />
         );
       case EditorType.SCRIPT_JS:
         return (
           <ScriptEditor 
-            content={scriptContent}
-            onChange={setScriptContent}
+            key={scriptDocument.id}
+            content={scriptDocument.content}
+            onChange={setDocumentContent(EditorType.SCRIPT_JS)}
             onAiAssist={handleScriptAssist}
             {...commonProps}
           />
@@ -288,13 +652,14 @@ export default function App() {
       case EditorType.DB_QUERY:
         return (
             <DbQueryEditor
-                content={sqlContent}
-                onChange={setSqlContent}
-                queryName={sqlQueryName}
-                onQueryNameChange={setSqlQueryName}
+                key={sqlDocument.id}
+                content={sqlDocument.content}
+                onChange={setDocumentContent(EditorType.DB_QUERY)}
+                queryName={sqlDocument.name}
+                onQueryNameChange={name => updateDocument(EditorType.DB_QUERY, sqlDocument.id, doc => ({ ...doc, name }))}
                 connections={dbConnections}
                 activeConnectionId={activeConnectionId}
-                onActiveConnectionChange={setActiveConnectionId}
+                onActiveConnectionChange={connectionId => setDocumentSettings(EditorType.DB_QUERY, { connectionId })}
                 onUpdateConnections={setDbConnections}
                 onExecuteQuery={handleExecuteQuery}
                 isExecuting={isDbExecuting}
@@ -302,17 +667,22 @@ export default function App() {
                 onCancelQuery={handleCancelQuery}
                 sqlLibrary={DEFAULT_SQL_DIALECT_DATA}
                 onAiAssist={handleSqlAssist}
-                {...commonProps}
+                {...templateProps}
+                {...testProps(EditorType.DB_QUERY)}
+                {...engineProps(EditorType.DB_QUERY)}
             />
         );
       case EditorType.XML_TEMPLATE:
         return (
           <XmlEditor 
-            content={xmlContent}
-            onChange={setXmlContent}
+            key={xmlDocument.id}
+            content={xmlDocument.content}
+            onChange={setDocumentContent(EditorType.XML_TEMPLATE)}
             xmlBlockGroups={DEFAULT_XML_SNIPPET_GROUPS}
             onAiAssist={handleXmlAssist}
-            {...commonProps}
+            {...templateProps}
+            {...testProps(EditorType.XML_TEMPLATE)}
+            {...engineProps(EditorType.XML_TEMPLATE)}
           />
         );
       case EditorType.REST_API:
@@ -322,6 +692,10 @@ export default function App() {
             onAuthCredentialsChange={setAuthCredentials}
             apiSources={apiSources}
             onApiSourcesChange={setApiSources}
+            requests={restRequests}
+            onRequestsChange={setRestRequests}
+            activeRequestId={activeRestRequestId}
+            onActiveRequestIdChange={setActiveRestRequestId}
             onAiAssist={handleRestAssist}
             {...commonProps}
           />
@@ -329,8 +703,9 @@ export default function App() {
       case EditorType.AGENT:
         return (
             <AgentEditor 
+                key={agentDocument.id}
                 config={agentConfig}
-                onChange={setAgentConfig}
+                onChange={setDocumentContent(EditorType.AGENT)}
                 onAiAssist={handleAgentAssist}
                 onRun={handleRunAgent}
                 isRunning={isAgentRunning}
@@ -342,12 +717,13 @@ export default function App() {
       case EditorType.MCP_CLIENT:
         return (
             <McpEditor 
-                config={mcpContent}
-                onChange={setMcpContent}
+                key={mcpDocument.id}
+                config={mcpDocument.content}
+                onChange={setDocumentContent(EditorType.MCP_CLIENT)}
                 connections={mcpConnections}
                 onUpdateConnections={setMcpConnections}
                 activeConnectionId={activeMcpConnectionId}
-                onActiveConnectionChange={setActiveMcpConnectionId}
+                onActiveConnectionChange={connectionId => setDocumentSettings(EditorType.MCP_CLIENT, { connectionId })}
                 onAiAssist={handleMcpAssist}
                 {...commonProps}
             />
@@ -442,6 +818,39 @@ export default function App() {
 
         {/* Actions */}
         <div className="flex items-center gap-3">
+           <ScenarioSwitcher
+              scenarios={scenarios}
+              activeScenarioId={activeScenario.id}
+              onChange={setActiveScenarioId}
+           />
+           <EnvironmentSwitcher
+              environments={environments}
+              activeEnvironmentId={activeEnvironmentId}
+              onChange={id => applyEnvironments(environments, id)}
+              onManage={() => setIsEnvironmentsOpen(true)}
+           />
+           <SaveIndicator status={saveStatus} error={saveError} />
+           <button
+              onClick={() => setIsVaultOpen(true)}
+              className={`p-2 hover:bg-slate-100 rounded-lg transition-colors ${unlockedVault ? 'text-teal-600' : 'text-slate-400 hover:text-slate-600'}`}
+              title={unlockedVault ? 'Secret vault (unlocked)' : vault ? 'Secret vault (locked)' : 'Secret vault'}
+           >
+              {unlockedVault ? <LockOpen size={20} /> : <Lock size={20} />}
+           </button>
+           <button
+              onClick={handleResetWorkspace}
+              className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+              title="Reset workspace to defaults"
+           >
+              <RotateCcw size={20} />
+           </button>
+           <button
+              onClick={() => setIsWorkspaceFileOpen(true)}
+              className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+              title="Export or import the workspace"
+           >
+              <Package size={20} />
+           </button>
            <button className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors">
               <Settings size={20} />
            </button>
@@ -451,10 +860,82 @@ export default function App() {
       </div>
 
       {/* Main Workspace */}
-      <div className="flex-1 overflow-hidden relative">
-          {renderActiveEditor()}
+      <div className="flex-1 overflow-hidden relative flex">
+          {saveStatus === 'restoring' ? (
+              <div className="flex-1 flex items-center justify-center gap-2 text-sm text-slate-400">
+                  <Loader2 size={16} className="animate-spin" /> Restoring workspace...
+              </div>
+          ) : (
+              <>
+                  {isExplorerOpen && (
+                      <DocumentExplorer
+                          documents={documents}
+                          activeEditor={activeEditor}
+                          activeDocumentIds={activeDocumentIds}
+                          actions={documentActions}
+                      />
+                  )}
+                  <div className="flex-1 min-w-0 flex flex-col">
+                      {isDocumentEditor(activeEditor) && (
+                          <DocumentTabs
+                              editorType={activeEditor}
+                              documents={documents[activeEditor]}
+                              activeDocumentId={activeDocument(activeEditor).id}
+                              actions={documentActions}
+                              isExplorerOpen={isExplorerOpen}
+                              onToggleExplorer={() => setIsExplorerOpen(open => !open)}
+                              onShowHistory={() => setIsHistoryOpen(true)}
+                          />
+                      )}
+                      <div className="flex-1 overflow-hidden relative">
+                          {renderActiveEditor()}
+                      </div>
+                  </div>
+              </>
+          )}
       </div>
 
+      <WorkspaceBundleModal
+          isOpen={isWorkspaceFileOpen}
+          appState={appState}
+          onImport={applyAppState}
+          onClose={() => setIsWorkspaceFileOpen(false)}
+      />
+
+      <VaultModal
+          isOpen={isVaultOpen}
+          vault={vault}
+          secrets={unlockedVault?.secrets ?? null}
+          plaintextSecrets={plaintextSecrets}
+          onCreate={handleCreateVault}
+          onUnlock={handleUnlockVault}
+          onLock={() => applyVault(vault, null)}
+          onChangePassphrase={handleChangePassphrase}
+          onSecretsChange={handleVaultSecretsChange}
+          onMoveSecrets={handleMoveSecretsToVault}
+          onClose={() => setIsVaultOpen(false)}
+      />
+
+      <EnvironmentsModal
+          isOpen={isEnvironmentsOpen}
+          environments={environments}
+          activeEnvironmentId={activeEnvironmentId}
+          onChange={next => applyEnvironments(next, activeEnvironmentId)}
+          onActivate={id => applyEnvironments(environments, id)}
+          onClose={() => setIsEnvironmentsOpen(false)}
+      />
+
+      {isDocumentEditor(activeEditor) && (
+          <VersionHistoryModal
+              isOpen={isHistoryOpen}
+              editorType={activeEditor}
+              document={activeDocument(activeEditor)}
+              appState={appState}
+              onRestore={handleRestoreVersion}
+              onClose={() => setIsHistoryOpen(false)}
+          />
+      )}
+
     </div>
   );
 }
@@ -471,4 +952,20 @@ const NavPill = ({ active, onClick, icon, label }: { active: boolean; onClick: (
         <span className={active ? 'text-teal-600' : 'text-slate-400'}>{icon}</span>
         {label}
     </button>
-);
\ No newline at end of file
+);
+
+const SaveIndicator = ({ status, error }: { status: SaveStatus; error: string | null }) => {
+    if (status === 'error') {
+        return (
+            <span className="flex items-center gap-1 text-xs text-red-500" title={error ?? undefined}>
+                <CloudOff size={14} /> Not saved
+            </span>
+        );
+    }
+    return (
+        <span className="flex items-center gap-1 text-xs text-slate-400" title="Changes are saved in this browser">
+            {status === 'saved' ? <Check size={14} /> : <Loader2 size={14} className="animate-spin" />}
+            {status === 'restoring' ? 'Restoring' : status === 'saving' ? 'Saving' : 'Saved'}
+        </span>
+    );
+};
\ No newline at end of file
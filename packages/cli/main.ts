@@ -0,0 +1,229 @@
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { TemplateDocumentType, WorkspaceFile } from '../../lib/types';
+import {
+  TEMPLATE_DOCUMENTS,
+  EMAIL_META_FIELDS,
+  WorkspaceDocument,
+  parseWorkspace,
+  render,
+  runTests,
+  validate,
+  validateVariables,
+  withEnvironment,
+  workspaceDocuments,
+  workspaceEnvironment,
+  workspaceOptions,
+  workspaceVariables
+} from '../core';
+
+// Renders, validates and tests the documents of a saved workspace file in Node.
+// Exit codes: 0 success, 1 render errors, problems or failed tests, 2 usage errors.
+
+const USAGE = `Usage: devforge <command> <workspace.json> [options]
+
+Commands:
+  render     Render documents to stdout, or one file per document with --out
+  validate   Report template problems, render errors and invalid output
+  test       Run the template tests
+
+Options:
+  --editor <name>     ${Object.values(TEMPLATE_DOCUMENTS).map(f => f.alias).join(', ')} (repeatable; default: every editor)
+  --document <name>   Document name or id (repeatable; default: every document)
+  --scenario <name>   Variables scenario by name or id (default: the active one)
+  --vars <file>       Variables JSON file used instead of a scenario
+  --env <name>        Environment by name or id laid over the variables (default: the active one)
+  --out <dir>         Directory for the rendered files
+  --help              Show this help`;
+
+class UsageError extends Error {}
+
+const label = ({ editorType, document }: WorkspaceDocument) => `${TEMPLATE_DOCUMENTS[editorType].alias}/${document.name}`;
+
+const selectDocuments = (workspace: WorkspaceFile, editors: string[] = [], names: string[] = []): WorkspaceDocument[] => {
+  const available = workspaceDocuments(workspace);
+  const types = editors.map(name => {
+    const type = (Object.keys(TEMPLATE_DOCUMENTS) as TemplateDocumentType[]).find(t => TEMPLATE_DOCUMENTS[t].alias === name || t === name);
+    if (!type) throw new UsageError(`Unknown editor '${name}'`);
+    if (!available.some(d => d.editorType === type)) throw new UsageError(`The workspace has no ${TEMPLATE_DOCUMENTS[type].label} document`);
+    return type;
+  });
+  const selected = available.filter(d => types.length === 0 || types.includes(d.editorType));
+  names.forEach(name => {
+    if (!selected.some(d => d.document.name === name || d.document.id === name)) throw new UsageError(`Document '${name}' does not exist`);
+  });
+  return names.length === 0 ? selected : selected.filter(d => names.includes(d.document.name) || names.includes(d.document.id));
+};
+
+// File name of a document's output; names that only differ in punctuation get the id appended
+const outputPath = (out: string, entry: WorkspaceDocument, used: Set<string>) => {
+  const { alias, extension } = TEMPLATE_DOCUMENTS[entry.editorType];
+  const slug = entry.document.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'untitled';
+  const base = used.has(`${alias}/${slug}`) ? `${slug}-${entry.document.id}` : slug;
+  used.add(`${alias}/${base}`);
+  return { dir: join(out, alias), base };
+};
+
+const readVariables = (workspace: WorkspaceFile, scenario?: string, varsFile?: string): Record<string, any> => {
+  if (!varsFile) return workspaceVariables(workspace, scenario);
+  try {
+    return JSON.parse(readFileSync(varsFile, 'utf8'));
+  } catch (e: any) {
+    throw new UsageError(`Cannot read variables from ${varsFile}: ${e.message}`);
+  }
+};
+
+// The variables with the environment laid over them, also over a variables file
+const contextVariables = (workspace: WorkspaceFile, values: { scenario?: string; vars?: string; env?: string }) => {
+  const variables = readVariables(workspace, values.scenario, values.vars);
+  try {
+    return withEnvironment(variables, workspaceEnvironment(workspace, values.env));
+  } catch (e: any) {
+    throw new UsageError(e.message);
+  }
+};
+
+const renderCommand = (workspace: WorkspaceFile, entries: WorkspaceDocument[], variables: Record<string, any>, out?: string): boolean => {
+  let ok = true;
+  const used = new Set<string>();
+
+  entries.forEach(entry => {
+    const { editorType, document } = entry;
+    const result = render(editorType, document.content, variables, workspace.functions, workspaceOptions(workspace, document));
+    if (result.error !== undefined) {
+      ok = false;
+      const at = result.issue ? ` (line ${result.issue.line}, column ${result.issue.column})` : '';
+      process.stderr.write(`[${label(entry)}] ${result.error}${at}\n`);
+      return;
+    }
+
+    const output = result.output ?? '';
+    if (out) {
+      const { dir, base } = outputPath(out, entry, used);
+      mkdirSync(dir, { recursive: true });
+      const file = join(dir, `${base}.${TEMPLATE_DOCUMENTS[editorType].extension}`);
+      writeFileSync(file, output);
+      if (result.meta) writeFileSync(join(dir, `${base}.meta.json`), JSON.stringify(result.meta, null, 2) + '\n');
+      process.stderr.write(`[${label(entry)}] ${file}\n`);
+      return;
+    }
+
+    // Several documents on stdout are separated by a header line
+    if (entries.length > 1) process.stdout.write(`==> ${label(entry)} <==\n`);
+    if (result.meta) {
+      EMAIL_META_FIELDS.forEach(field => {
+        if (result.meta![field]) process.stdout.write(`${field}: ${result.meta![field]}\n`);
+      });
+      process.stdout.write('\n');
+    }
+    process.stdout.write(output.endsWith('\n') || entries.length === 1 ? output : `${output}\n`);
+  });
+  return ok;
+};
+
+const validateCommand = (workspace: WorkspaceFile, entries: WorkspaceDocument[], variables: Record<string, any>): boolean => {
+  let errors = 0;
+  let warnings = 0;
+
+  validateVariables(variables, workspace.variablesSchema).forEach(error => {
+    errors++;
+    process.stdout.write(`[variables] error ${error.path ? `${error.path}: ` : ''}${error.message}\n`);
+  });
+
+  entries.forEach(entry => {
+    const { editorType, document } = entry;
+    const { issues, error } = validate(editorType, document.content, variables, workspace.functions, workspaceOptions(workspace, document));
+    issues.forEach(issue => {
+      if (issue.severity === 'error') errors++;
+      else warnings++;
+      process.stdout.write(`[${label(entry)}] ${issue.line}:${issue.column} ${issue.severity} ${issue.message}\n`);
+    });
+    // Errors inside partials have no position in the document
+    if (error !== undefined && !issues.some(issue => issue.kind === 'runtime' || issue.kind === 'syntax')) {
+      errors++;
+      process.stdout.write(`[${label(entry)}] error ${error}\n`);
+    }
+  });
+
+  process.stdout.write(`${errors} error(s), ${warnings} warning(s)\n`);
+  return errors === 0;
+};
+
+const testCommand = (workspace: WorkspaceFile, entries: WorkspaceDocument[]): boolean => {
+  let passed = 0;
+  let failed = 0;
+
+  entries.forEach(entry => {
+    const { editorType, document } = entry;
+    const tests = document.tests || [];
+    const results = runTests(editorType, document.content, tests, workspace.functions, workspaceOptions(workspace, document));
+    results.forEach((result, i) => {
+      const name = tests[i].name;
+      if (result.passed) {
+        passed++;
+        process.stdout.write(`[${label(entry)}] ✓ ${name}\n`);
+        return;
+      }
+      failed++;
+      process.stdout.write(`[${label(entry)}] ✗ ${name}\n`);
+      if (result.error !== undefined) process.stdout.write(`    ${result.error}\n`);
+      result.failures.forEach(failure => process.stdout.write(`    ${failure}\n`));
+      result.diff?.filter(line => line.type !== 'same').forEach(line => {
+        process.stdout.write(`      ${line.type === 'added' ? '+' : '-'} ${line.text}\n`);
+      });
+    });
+  });
+
+  process.stdout.write(`${passed} passed, ${failed} failed\n`);
+  return failed === 0;
+};
+
+const main = (argv: string[]): number => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      editor: { type: 'string', multiple: true },
+      document: { type: 'string', multiple: true },
+      scenario: { type: 'string' },
+      vars: { type: 'string' },
+      env: { type: 'string' },
+      out: { type: 'string' },
+      help: { type: 'boolean' }
+    }
+  });
+
+  const [command, workspacePath] = positionals;
+  if (values.help || !command) {
+    process.stdout.write(`${USAGE}\n`);
+    return values.help ? 0 : 2;
+  }
+  if (!['render', 'validate', 'test'].includes(command)) throw new UsageError(`Unknown command '${command}'`);
+  if (!workspacePath) throw new UsageError('The workspace file is missing');
+
+  let workspace: WorkspaceFile;
+  try {
+    workspace = parseWorkspace(readFileSync(workspacePath, 'utf8'));
+  } catch (e: any) {
+    throw new UsageError(`Cannot read ${workspacePath}: ${e.message}`);
+  }
+  const entries = selectDocuments(workspace, values.editor, values.document);
+
+  switch (command) {
+    case 'render':
+      return renderCommand(workspace, entries, contextVariables(workspace, values), values.out) ? 0 : 1;
+    case 'validate':
+      return validateCommand(workspace, entries, contextVariables(workspace, values)) ? 0 : 1;
+    default:
+      return testCommand(workspace, entries) ? 0 : 1;
+  }
+};
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (e: any) {
+  process.stderr.write(`${e.message}\n`);
+  if (e instanceof UsageError || e?.code?.startsWith?.('ERR_PARSE_ARGS')) process.stderr.write(`\n${USAGE}\n`);
+  process.exitCode = 2;
+}
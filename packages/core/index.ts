@@ -0,0 +1,245 @@
+import yaml from 'js-yaml';
+import {
+  EditorDocument,
+  EditorType,
+  EmailMessageState,
+  EmailMeta,
+  Environment,
+  HostImage,
+  SchemaError,
+  SmsMessageState,
+  TemplateDocumentType,
+  TemplateEngine,
+  TemplateIssue,
+  TemplatePartial,
+  TemplateTestCase,
+  TemplateTestResult,
+  UserFunction,
+  WorkspaceFile
+} from '../../lib/types';
+import { TEMPLATE_DOCUMENTS, hostImagesContext, renderTemplateOutcome } from '../../lib/documents';
+import { analyzeTemplate, mapOutputError, mergeRenderIssues } from '../../lib/template-analyzer';
+import { checkXml, runTemplateTests } from '../../lib/template-tests';
+import { parseSchema, validateAgainstSchema } from '../../lib/json-schema';
+import { withMaskedSecrets } from '../../lib/vault';
+import { applyEnvironment, environmentVariables } from '../../lib/environments';
+
+// Headless core: the rendering, validation and template tests of the editors
+// without React, Monaco or a browser, for CI and backend services. Templates
+// render in-process with the loop guard but without the worker's time limit,
+// so only trusted workspaces should be rendered this way.
+
+export { TEMPLATE_DOCUMENTS, isTemplateDocument } from '../../lib/documents';
+export type { TemplateDocumentFormat } from '../../lib/documents';
+
+// A string, or for email and SMS the whole message with its header fields
+export type DocumentContent = string | EmailMessageState | SmsMessageState;
+
+export interface CoreOptions {
+  partials?: TemplatePartial[];
+  engine?: TemplateEngine; // Defaults to Handlebars
+  sharedModule?: string;
+  hostImages?: HostImage[]; // Email and HTML page only
+  variablesSchema?: string; // Fields it declares count as known when validating
+  secretNames?: string[]; // Vault secrets; {{ secret.NAME }} renders masked
+  maxIterations?: number;
+}
+
+export const EMAIL_META_FIELDS = ['to', 'from', 'subject', 'cc', 'bcc', 'replyTo'] as const;
+
+export type EmailMetaField = typeof EMAIL_META_FIELDS[number];
+
+export interface DocumentRender {
+  output?: string;
+  error?: string;
+  issue?: TemplateIssue; // Where the render error happened, when known
+  // Email header fields; a field that fails to render keeps its template
+  meta?: Record<EmailMetaField, string>;
+}
+
+export interface DocumentValidation {
+  // Analyzer findings, the render error and invalid JSON, YAML or XML output
+  issues: TemplateIssue[];
+  error?: string;
+}
+
+const isEmail = (content: DocumentContent): content is EmailMessageState => typeof content !== 'string' && 'html' in content;
+
+// The template of a document; for email and SMS that is the body
+export const documentTemplate = (content: DocumentContent): string => {
+  if (typeof content === 'string') return content;
+  return isEmail(content) ? content.html : content.body;
+};
+
+const usesImages = (editorType: TemplateDocumentType) => editorType === EditorType.EMAIL_HTML || editorType === EditorType.HTML_PAGE;
+
+const documentContext = (editorType: TemplateDocumentType, context: Record<string, any>, { hostImages, secretNames = [] }: CoreOptions) =>
+  withMaskedSecrets(usesImages(editorType) ? { ...context, ...hostImagesContext(hostImages) } : context, secretNames);
+
+const renderOptions = (editorType: TemplateDocumentType, { hostImages, variablesSchema, secretNames, ...options }: CoreOptions) => ({
+  ...options,
+  escape: TEMPLATE_DOCUMENTS[editorType].escape
+});
+
+/**
+ * Renders a document like its editor's preview. Template errors are returned
+ * with their position rather than thrown.
+ */
+export const render = (
+  editorType: TemplateDocumentType,
+  content: DocumentContent,
+  context: Record<string, any>,
+  functions: UserFunction[],
+  options: CoreOptions = {}
+): DocumentRender => {
+  const fullContext = documentContext(editorType, context, options);
+  const { output, error, issue } = renderTemplateOutcome(documentTemplate(content), fullContext, functions, renderOptions(editorType, options));
+  const result: DocumentRender = { output, error, issue };
+
+  if (editorType === EditorType.EMAIL_HTML && isEmail(content)) {
+    // Header fields are plain text
+    const meta = {} as Record<EmailMetaField, string>;
+    EMAIL_META_FIELDS.forEach(field => {
+      const template = content.meta[field as keyof EmailMeta] ?? '';
+      const outcome = renderTemplateOutcome(template, fullContext, functions, { ...renderOptions(editorType, options), escape: 'none' });
+      meta[field] = outcome.error === undefined ? outcome.output ?? '' : template;
+    });
+    result.meta = meta;
+  }
+  return result;
+};
+
+// Parses the output of formats with a syntax of their own; errors land on the template line behind them
+const checkOutput = (editorType: TemplateDocumentType, output: string, lineMap?: number[]): TemplateIssue | undefined => {
+  try {
+    switch (editorType) {
+      case EditorType.JSON_REST:
+        JSON.parse(output);
+        break;
+      case EditorType.YAML_CONFIG:
+        yaml.load(output);
+        break;
+      case EditorType.XML_TEMPLATE: {
+        const error = checkXml(output);
+        if (error) throw new Error(error);
+        break;
+      }
+    }
+  } catch (e: any) {
+    return mapOutputError(e, output, lineMap) ?? {
+      kind: 'output',
+      severity: 'error',
+      message: `Invalid output: ${String(e?.message ?? e).split('\n')[0]}`,
+      line: 1,
+      column: 1
+    };
+  }
+  return undefined;
+};
+
+/**
+ * Checks a document like the Problems panel of its editor: unknown variables,
+ * helpers and partials, wrong function calls, render errors and output that
+ * is not valid JSON, YAML or XML.
+ */
+export const validate = (
+  editorType: TemplateDocumentType,
+  content: DocumentContent,
+  context: Record<string, any>,
+  functions: UserFunction[],
+  options: CoreOptions = {}
+): DocumentValidation => {
+  const template = documentTemplate(content);
+  const fullContext = documentContext(editorType, context, options);
+  const analysis = analyzeTemplate(template, {
+    variables: fullContext,
+    functions,
+    partials: options.partials,
+    schema: parseSchema(options.variablesSchema),
+    engine: options.engine
+  });
+
+  const outcome = renderTemplateOutcome(template, fullContext, functions, renderOptions(editorType, options), true);
+  const renderIssues = outcome.issue ? [outcome.issue] : [];
+  if (outcome.error === undefined) {
+    const outputIssue = checkOutput(editorType, outcome.output ?? '', outcome.lineMap);
+    if (outputIssue) renderIssues.push(outputIssue);
+  }
+  return { issues: mergeRenderIssues(analysis.issues, renderIssues), error: outcome.error };
+};
+
+// Runs the template tests of a document; fixtures replace the variables
+export const runTests = (
+  editorType: TemplateDocumentType,
+  content: DocumentContent,
+  tests: TemplateTestCase[],
+  functions: UserFunction[],
+  options: CoreOptions = {}
+): TemplateTestResult[] =>
+  runTemplateTests(documentTemplate(content), tests, {
+    functions,
+    partials: options.partials,
+    escape: TEMPLATE_DOCUMENTS[editorType].escape,
+    engine: options.engine,
+    sharedModule: options.sharedModule,
+    context: usesImages(editorType) ? hostImagesContext(options.hostImages) : undefined
+  });
+
+// Variables that do not match the workspace schema; none without a schema
+export const validateVariables = (variables: Record<string, any>, variablesSchema?: string): SchemaError[] => {
+  const schema = parseSchema(variablesSchema);
+  return schema ? validateAgainstSchema(variables, schema) : [];
+};
+
+// -- Workspace Files --
+
+export { WORKSPACE_VERSION, parseWorkspace } from '../../lib/workspace-bundle';
+
+export interface WorkspaceDocument {
+  editorType: TemplateDocumentType;
+  document: EditorDocument<DocumentContent>;
+}
+
+// Template documents the workspace contains, in editor order
+export const workspaceDocuments = (workspace: WorkspaceFile): WorkspaceDocument[] =>
+  (Object.keys(TEMPLATE_DOCUMENTS) as TemplateDocumentType[]).flatMap(editorType =>
+    (workspace.documents[editorType] || []).map(document => ({ editorType, document: document as EditorDocument<DocumentContent> }))
+  );
+
+// Variables of a scenario, by id or name; the active scenario by default
+export const workspaceVariables = (workspace: WorkspaceFile, scenario?: string): Record<string, any> => {
+  const found = scenario
+    ? workspace.scenarios.find(s => s.id === scenario || s.name === scenario)
+    : workspace.scenarios.find(s => s.id === workspace.activeScenarioId) ?? workspace.scenarios[0];
+  if (!found) {
+    throw new Error(scenario ? `Scenario '${scenario}' does not exist` : 'The workspace has no variables');
+  }
+  try {
+    return JSON.parse(found.variablesJson || '{}');
+  } catch (e: any) {
+    throw new Error(`Variables of scenario '${found.name}' are not valid JSON: ${e.message}`);
+  }
+};
+
+// An environment by id or name; the active one by default, if any
+export const workspaceEnvironment = (workspace: WorkspaceFile, environment?: string): Environment | undefined => {
+  const environments = workspace.environments ?? [];
+  if (!environment) return environments.find(e => e.id === workspace.activeEnvironmentId);
+  const found = environments.find(e => e.id === environment || e.name === environment);
+  if (!found) throw new Error(`Environment '${environment}' does not exist`);
+  return found;
+};
+
+// Variables with an environment laid over them; secret values and vault references render masked
+export const withEnvironment = (variables: Record<string, any>, environment?: Environment): Record<string, any> =>
+  environment ? applyEnvironment(variables, environmentVariables(environment)) : variables;
+
+// Render options of one document of the workspace
+export const workspaceOptions = (workspace: WorkspaceFile, document: EditorDocument): CoreOptions => ({
+  partials: workspace.partials,
+  engine: document.settings?.engine,
+  sharedModule: workspace.sharedModule ?? '',
+  hostImages: workspace.hostImages,
+  variablesSchema: workspace.variablesSchema,
+  secretNames: workspace.vault?.names
+});
@@ -7,6 +7,7 @@ interface ConnectionManagerModalProps {
   connections: DbConnection[];
   onClose: () => void;
   onUpdateConnections: (connections: DbConnection[]) => void;
+  resolveConnectionString?: (value: string) => Promise<string>; // Fills in variables in the sandbox, e.g. the host of the active environment
 }
 
 export const ConnectionManagerModal: React.FC<ConnectionManagerModalProps> = ({
@@ -14,6 +15,7 @@ export const ConnectionManagerModal: React.FC<ConnectionManagerModalProps> = ({
   connections = [],
   onClose,
   onUpdateConnections,
+  resolveConnectionString = async value => value
 }) => {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [name, setName] = useState('');
@@ -23,6 +25,7 @@ export const ConnectionManagerModal: React.FC<ConnectionManagerModalProps> = ({
   // Test Connection State
   const [isTesting, setIsTesting] = useState(false);
   const [testResult, setTestResult] = useState<'success' | 'error' | null>(null);
+  const [testError, setTestError] = useState('');
 
   // Reset test state when editing a different connection
   useEffect(() => {
@@ -84,14 +87,18 @@ export const ConnectionManagerModal: React.FC<ConnectionManagerModalProps> = ({
     setTestResult(null);
     
     // Simulation
-    setTimeout(() => {
-        setIsTesting(false);
-        // Fail if empty, otherwise succeed for simulation
-        if (connectionString && connectionString.trim().length > 0) {
-            setTestResult('success');
-        } else {
-            setTestResult('error');
+    setTimeout(async () => {
+        // Fail if it does not resolve or is empty, otherwise succeed for simulation
+        let error = '';
+        try {
+            const resolved = await resolveConnectionString(connectionString);
+            if (resolved.trim().length === 0) error = 'empty string';
+        } catch (e: any) {
+            error = e.message;
         }
+        setIsTesting(false);
+        setTestError(error);
+        setTestResult(error ? 'error' : 'success');
     }, 1200);
   };
 
@@ -248,7 +255,7 @@ export const ConnectionManagerModal: React.FC<ConnectionManagerModalProps> = ({
                         )}
                         {testResult === 'error' && (
                              <p className="text-xs text-red-600 mt-1 flex items-center gap-1 animate-in slide-in-from-top-1 fade-in duration-200">
-                                <AlertCircle size={12} /> Connection failed (empty string)
+                                <AlertCircle size={12} /> Connection failed ({testError})
                              </p>
                         )}
                         <p className="text-xs text-slate-400 mt-1">This is a simulation. No real connection is made.</p>
@@ -1,11 +1,17 @@
-import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { UserFunction, DbConnection, EditorType, SqlLibrary } from '../../lib/types';
+import React, { useState, useRef, useMemo } from 'react';
+import { UserFunction, DbConnection, EditorType, SqlLibrary, TemplatePartial, TemplateTestCase, TemplateEngine, VariableScenario, WorkspaceScope } from '../../lib/types';
 import { CodeEditor, CodeEditorRef } from '../shared-ui/CodeEditor';
 import { ToolsPanel } from '../shared-ui/ToolsPanel';
+import { TemplateEngineSelect } from '../shared-ui/TemplateEngineSelect';
+import { TemplateExportModal } from '../shared-ui/TemplateExportModal';
+import { TemplateIssuesPanel } from '../shared-ui/TemplateIssuesPanel';
+import { useTemplatePreview } from '../shared-ui/useTemplatePreview';
 import { ConnectionManagerModal } from './ConnectionManagerModal';
-import { Settings, Database, Play, Loader2, X, RefreshCw, Wand2 } from 'lucide-react';
-import { interpolateString, insertIntoNativeInput } from '../../lib/utils';
+import { Settings, Database, Play, Loader2, X, RefreshCw, Wand2, FileOutput } from 'lucide-react';
+import { insertIntoNativeInput } from '../../lib/utils';
+import { interpolateInSandbox } from '../../lib/sandbox-client';
 import { DEFAULT_SQL_DIALECT_DATA } from '../../lib/constants';
+import { EMPTY_SCOPE } from '../../lib/environments';
 
 interface DbQueryEditorProps {
     content: string;
@@ -14,8 +20,24 @@ interface DbQueryEditorProps {
     // Store Props
     variablesJson: string;
     onVariablesChange: (json: string) => void;
+    variablesSchema?: string;
+    onVariablesSchemaChange?: (schema: string) => void;
+    sharedModule?: string;
+    onSharedModuleChange?: (code: string) => void;
+    // The active environment and the vault
+    scope?: WorkspaceScope;
     functions: UserFunction[];
-    onFunctionsChange: (funcs: UserFunction[]) => void;
+    onFunctionsChange: (funcs: React.SetStateAction<UserFunction[]>) => void;
+    partials?: TemplatePartial[];
+    onPartialsChange?: (partials: TemplatePartial[]) => void;
+    tests?: TemplateTestCase[];
+    onTestsChange?: (tests: TemplateTestCase[]) => void;
+    templateEngine?: TemplateEngine;
+    onTemplateEngineChange?: (engine: TemplateEngine) => void;
+    scenarios?: VariableScenario[];
+    activeScenarioId?: string;
+    onScenariosChange?: (scenarios: VariableScenario[]) => void;
+    onActiveScenarioChange?: (id: string) => void;
 
     // DB Props
     connections: DbConnection[];
@@ -51,8 +73,23 @@ export const DbQueryEditor: React.FC<DbQueryEditorProps> = ({
     onChange, 
     variablesJson = '{}',
     onVariablesChange,
+    variablesSchema,
+    onVariablesSchemaChange,
+    sharedModule,
+    onSharedModuleChange,
+    scope = EMPTY_SCOPE,
     functions = [],
     onFunctionsChange,
+    partials = [],
+    onPartialsChange,
+    tests = [],
+    onTestsChange,
+    templateEngine,
+    onTemplateEngineChange,
+    scenarios,
+    activeScenarioId,
+    onScenariosChange,
+    onActiveScenarioChange,
     connections = [],
     activeConnectionId,
     onActiveConnectionChange,
@@ -71,8 +108,7 @@ export const DbQueryEditor: React.FC<DbQueryEditorProps> = ({
     showAi = true
 }) => {
     const [isManagerOpen, setIsManagerOpen] = useState(false);
-    const [interpolatedQuery, setInterpolatedQuery] = useState('');
-    const [missingFunctions, setMissingFunctions] = useState<string[]>([]);
+    const [isExportOpen, setIsExportOpen] = useState(false);
 
     // Internal Variable Parsing
     const variablesObj = useMemo(() => {
@@ -88,28 +124,19 @@ export const DbQueryEditor: React.FC<DbQueryEditorProps> = ({
 
     const activeConnection = connections.find(c => c.id === activeConnectionId);
     
-    // Check for missing functions
-    useEffect(() => {
-        const regex = /{{#func:([a-zA-Z0-9_]+)\(/g;
-        const missing: Set<string> = new Set();
-        let match;
-        while ((match = regex.exec(content)) !== null) {
-            const funcName = match[1];
-            if (!functions.some(f => f.name === funcName)) {
-                missing.add(funcName);
-            }
-        }
-        setMissingFunctions(Array.from(missing));
-    }, [content, functions]);
-
-    useEffect(() => {
-        try {
-            const result = interpolateString(content, variablesObj, functions);
-            setInterpolatedQuery(result);
-        } catch (e: any) {
-            setInterpolatedQuery(`Error interpolating variables: ${e.message}`);
-        }
-    }, [content, variablesObj, functions]);
+    // The query always renders, it is what runs against the connection
+    const { analysis, completion, issues, output, error } = useTemplatePreview({
+        template: content,
+        context: variablesObj,
+        variablesSchema,
+        functions,
+        sharedModule,
+        partials,
+        engine: templateEngine,
+        escape: 'sql',
+        scope
+    });
+    const interpolatedQuery = error !== null ? `Error interpolating variables: ${error}` : output;
 
     const handleExecute = () => {
         if (activeConnection) {
@@ -191,18 +218,33 @@ export const DbQueryEditor: React.FC<DbQueryEditorProps> = ({
                                 >
                                     <Wand2 size={14} />
                                 </button>
-                                <span className="text-teal-600 font-mono text-[10px]">Handlebars Supported</span>
+                                {(templateEngine ?? 'handlebars') === 'handlebars' && (
+                                    <button 
+                                        onClick={() => setIsExportOpen(true)}
+                                        className="text-slate-400 hover:text-teal-600 hover:bg-teal-50 p-0.5 rounded transition-colors"
+                                        title="Export to Jinja2 / Liquid"
+                                    >
+                                        <FileOutput size={14} />
+                                    </button>
+                                )}
+                                <TemplateEngineSelect value={templateEngine} onChange={onTemplateEngineChange} />
                             </div>
                         </div>
                         <div className="flex-1 min-h-0 relative">
                             <CodeEditor 
                                 ref={editorRef}
-                                language="sql" 
+                                language="handlebars-sql" 
                                 value={content} 
                                 onChange={(val) => onChange(val || '')} 
                                 readOnly={isExecuting}
+                                markers={issues}
+                                completion={completion}
                             />
                         </div>
+                        <TemplateIssuesPanel
+                            issues={issues}
+                            onSelect={issue => editorRef.current?.revealPosition(issue.line, issue.column)}
+                        />
                     </div>
 
                     {/* Preview / Results Panel */}
@@ -297,11 +339,28 @@ export const DbQueryEditor: React.FC<DbQueryEditorProps> = ({
             <ToolsPanel 
                 variablesJson={variablesJson}
                 onVariablesChange={onVariablesChange}
+                variablesSchema={variablesSchema}
+                onVariablesSchemaChange={onVariablesSchemaChange}
+                sharedModule={sharedModule}
+                onSharedModuleChange={onSharedModuleChange}
+                scope={scope}
                 functions={functions}
                 onFunctionsChange={onFunctionsChange}
                 activeEditorType={EditorType.DB_QUERY}
                 sqlDialect={activeConnection?.dialect}
-                missingFunctions={missingFunctions}
+                missingFunctions={analysis.missingFunctions}
+                partials={partials}
+                onPartialsChange={onPartialsChange}
+                tests={tests}
+                onTestsChange={onTestsChange}
+                scenarios={scenarios}
+                activeScenarioId={activeScenarioId}
+                onScenariosChange={onScenariosChange}
+                onActiveScenarioChange={onActiveScenarioChange}
+                template={content}
+                escapeMode="sql"
+                templateEngine={templateEngine}
+                missingPartials={analysis.missingPartials}
                 sqlLibrary={sqlLibrary}
                 onInsert={handleInsert}
                 onUpdateContent={(val) => onChange(val)}
@@ -311,11 +370,26 @@ export const DbQueryEditor: React.FC<DbQueryEditorProps> = ({
                 showChat={showAi}
             />
 
+            <TemplateExportModal
+                isOpen={isExportOpen}
+                template={content}
+                escape="sql"
+                functions={functions}
+                language="handlebars-sql"
+                fileName="query"
+                onSelectWarning={warning => {
+                    setIsExportOpen(false);
+                    editorRef.current?.revealPosition(warning.line, warning.column);
+                }}
+                onClose={() => setIsExportOpen(false)}
+            />
+
             <ConnectionManagerModal 
                 isOpen={isManagerOpen}
                 connections={connections}
                 onClose={() => setIsManagerOpen(false)}
                 onUpdateConnections={onUpdateConnections}
+                resolveConnectionString={value => interpolateInSandbox(value, variablesObj, functions, { escape: 'none', sharedModule, scope, request: true })}
             />
         </div>
     );
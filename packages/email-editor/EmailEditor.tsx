@@ -1,9 +1,15 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { interpolateString, insertIntoNativeInput } from '../../lib/utils';
-import { UserFunction, EditorType, EmailSnippetGroup, HostImage, DbConnection, EmailMessageState, EmailMeta } from '../../lib/types';
+import { insertIntoNativeInput } from '../../lib/utils';
+import { UserFunction, EditorType, EmailSnippetGroup, HostImage, DbConnection, EmailMessageState, EmailMeta, TemplatePartial, TemplateTestCase, TemplateEngine, VariableScenario, WorkspaceScope } from '../../lib/types';
+import { EMPTY_SCOPE } from '../../lib/environments';
 import { CodeEditor, CodeEditorRef } from '../shared-ui/CodeEditor';
 import { ToolsPanel } from '../shared-ui/ToolsPanel';
-import { PanelRightClose, PanelRightOpen, Wand2, Mail, Database, ChevronDown, ChevronRight } from 'lucide-react';
+import { TemplateEngineSelect } from '../shared-ui/TemplateEngineSelect';
+import { TemplateExportModal } from '../shared-ui/TemplateExportModal';
+import { TemplateIssuesPanel } from '../shared-ui/TemplateIssuesPanel';
+import { useTemplatePreview } from '../shared-ui/useTemplatePreview';
+import { hostImagesContext } from '../../lib/documents';
+import { PanelRightClose, PanelRightOpen, Wand2, Mail, Database, ChevronDown, ChevronRight, FileOutput } from 'lucide-react';
 import { DEFAULT_EMAIL_SNIPPET_GROUPS } from '../../lib/constants';
 
 interface EmailEditorProps {
@@ -13,8 +19,24 @@ interface EmailEditorProps {
     // Store Props
     variablesJson: string;
     onVariablesChange: (json: string) => void;
+    variablesSchema?: string;
+    onVariablesSchemaChange?: (schema: string) => void;
+    sharedModule?: string;
+    onSharedModuleChange?: (code: string) => void;
+    // The active environment and the vault
+    scope?: WorkspaceScope;
     functions: UserFunction[];
-    onFunctionsChange: (funcs: UserFunction[]) => void;
+    onFunctionsChange: (funcs: React.SetStateAction<UserFunction[]>) => void;
+    partials?: TemplatePartial[];
+    onPartialsChange?: (partials: TemplatePartial[]) => void;
+    tests?: TemplateTestCase[];
+    onTestsChange?: (tests: TemplateTestCase[]) => void;
+    templateEngine?: TemplateEngine;
+    onTemplateEngineChange?: (engine: TemplateEngine) => void;
+    scenarios?: VariableScenario[];
+    activeScenarioId?: string;
+    onScenariosChange?: (scenarios: VariableScenario[]) => void;
+    onActiveScenarioChange?: (id: string) => void;
     
     // Config
     emailBlockGroups?: EmailSnippetGroup[];
@@ -42,8 +64,23 @@ export const EmailEditor: React.FC<EmailEditorProps> = ({
     onChange, 
     variablesJson = '{}',
     onVariablesChange,
+    variablesSchema,
+    onVariablesSchemaChange,
+    sharedModule,
+    onSharedModuleChange,
+    scope = EMPTY_SCOPE,
     functions = [],
     onFunctionsChange,
+    partials = [],
+    onPartialsChange,
+    tests = [],
+    onTestsChange,
+    templateEngine,
+    onTemplateEngineChange,
+    scenarios,
+    activeScenarioId,
+    onScenariosChange,
+    onActiveScenarioChange,
     emailBlockGroups = DEFAULT_EMAIL_SNIPPET_GROUPS,
     hostImages = [],
     onAddImage,
@@ -60,22 +97,11 @@ export const EmailEditor: React.FC<EmailEditorProps> = ({
     // Destructure content state
     const { html, meta } = content;
 
-    const [resolvedMeta, setResolvedMeta] = useState({
-        to: '',
-        from: '',
-        subject: '',
-        cc: '',
-        bcc: '',
-        replyTo: ''
-    });
-
     const [isMetaCollapsed, setIsMetaCollapsed] = useState(false);
 
     // Preview State
-    const [previewContent, setPreviewContent] = useState<string>('');
-    const [error, setError] = useState<string | null>(null);
     const [isPreviewOpen, setIsPreviewOpen] = useState(true);
-    const [missingFunctions, setMissingFunctions] = useState<string[]>([]);
+    const [isExportOpen, setIsExportOpen] = useState(false);
 
     // Internal Variable Parsing
     const variablesObj = useMemo(() => {
@@ -139,68 +165,32 @@ export const EmailEditor: React.FC<EmailEditorProps> = ({
         };
     }, [isResizing, stopResizing]);
 
-    // Check for missing functions
-    useEffect(() => {
-        const safeFunctions = Array.isArray(functions) ? functions : [];
-        const regex = /{{#func:([a-zA-Z0-9_]+)\(/g;
-        const missing: Set<string> = new Set();
-        let match;
-        while ((match = regex.exec(html)) !== null) {
-            const funcName = match[1];
-            if (!safeFunctions.some(f => f.name === funcName)) {
-                missing.add(funcName);
-            }
-        }
-        
-        const legacyRegex = /{{\s*func\s+['"]([a-zA-Z0-9_]+)['"]/g;
-        while ((match = legacyRegex.exec(html)) !== null) {
-            const funcName = match[1];
-            if (!safeFunctions.some(f => f.name === funcName)) {
-                missing.add(funcName);
-            }
-        }
-        setMissingFunctions(Array.from(missing));
-    }, [html, functions]);
+    // Host images are exposed to templates as {{images.<name>}}, in the preview and in tests
+    const imagesContext = useMemo(() => hostImagesContext(hostImages || []), [hostImages]);
+
+    const renderContext = useMemo(() => ({ ...variablesObj, ...imagesContext }), [variablesObj, imagesContext]);
+
+    // Meta fields render as plain text in the same sandbox run as the body
+    const metaFields = useMemo(() => [meta.to, meta.from, meta.subject, meta.cc, meta.bcc, meta.replyTo], [meta]);
+
+    const { analysis, completion, issues, output: previewContent, error, fields } = useTemplatePreview({
+        template: html,
+        context: renderContext,
+        variablesSchema,
+        functions,
+        sharedModule,
+        partials,
+        engine: templateEngine,
+        escape: 'html',
+        scope,
+        enabled: enablePreview,
+        fields: metaFields
+    });
 
-    useEffect(() => {
-        if (!enablePreview) return;
-        try {
-            const imagesContext = (hostImages || []).reduce((acc, img) => {
-                acc[img.name] = img.url;
-                return acc;
-            }, {} as Record<string, string>);
-
-            const combinedContext = {
-                ...variablesObj,
-                images: imagesContext
-            };
-
-            const interpolated = interpolateString(html, combinedContext, functions || []);
-            setPreviewContent(interpolated);
-
-            // Interpolate Meta Fields
-            const safeInterpolate = (tmpl: string) => {
-                try {
-                    return interpolateString(tmpl, combinedContext, functions || []);
-                } catch {
-                    return tmpl;
-                }
-            };
-
-            setResolvedMeta({
-                to: safeInterpolate(meta.to),
-                from: safeInterpolate(meta.from),
-                subject: safeInterpolate(meta.subject),
-                cc: safeInterpolate(meta.cc),
-                bcc: safeInterpolate(meta.bcc),
-                replyTo: safeInterpolate(meta.replyTo)
-            });
-
-            setError(null);
-        } catch (e: any) {
-            setError(e.message);
-        }
-    }, [html, variablesObj, functions, hostImages, meta, enablePreview]);
+    const resolvedMeta = useMemo(() => {
+        const [to = '', from = '', subject = '', cc = '', bcc = '', replyTo = ''] = fields;
+        return { to, from, subject, cc, bcc, replyTo };
+    }, [fields]);
 
     const handleInsert = (text: string) => {
         // Prioritize Monaco Editor if it has focus
@@ -333,7 +323,16 @@ export const EmailEditor: React.FC<EmailEditorProps> = ({
                                 >
                                     <Wand2 size={14} />
                                 </button>
-                                <span className="text-teal-600 font-mono text-[10px]">Handlebars</span>
+                                {(templateEngine ?? 'handlebars') === 'handlebars' && (
+                                    <button 
+                                        onClick={() => setIsExportOpen(true)}
+                                        className="text-slate-400 hover:text-teal-600 hover:bg-teal-50 p-0.5 rounded transition-colors"
+                                        title="Export to Jinja2 / Liquid"
+                                    >
+                                        <FileOutput size={14} />
+                                    </button>
+                                )}
+                                <TemplateEngineSelect value={templateEngine} onChange={onTemplateEngineChange} />
                                 {enablePreview && (
                                     <button 
                                         onClick={() => setIsPreviewOpen(!isPreviewOpen)}
@@ -351,8 +350,14 @@ export const EmailEditor: React.FC<EmailEditorProps> = ({
                                 language={'handlebars'} 
                                 value={html} 
                                 onChange={(val) => onChange({ ...content, html: val || '' })} 
+                                markers={issues}
+                                completion={completion}
                             />
                         </div>
+                        <TemplateIssuesPanel
+                            issues={issues}
+                            onSelect={issue => editorRef.current?.revealPosition(issue.line, issue.column)}
+                        />
                     </div>
 
                     {/* Resizable Preview */}
@@ -422,10 +427,28 @@ export const EmailEditor: React.FC<EmailEditorProps> = ({
             <ToolsPanel 
                 variablesJson={variablesJson}
                 onVariablesChange={onVariablesChange}
+                variablesSchema={variablesSchema}
+                onVariablesSchemaChange={onVariablesSchemaChange}
+                sharedModule={sharedModule}
+                onSharedModuleChange={onSharedModuleChange}
+                scope={scope}
                 functions={functions}
                 onFunctionsChange={onFunctionsChange}
                 activeEditorType={EditorType.EMAIL_HTML}
-                missingFunctions={missingFunctions}
+                missingFunctions={analysis.missingFunctions}
+                partials={partials}
+                onPartialsChange={onPartialsChange}
+                tests={tests}
+                onTestsChange={onTestsChange}
+                scenarios={scenarios}
+                activeScenarioId={activeScenarioId}
+                onScenariosChange={onScenariosChange}
+                onActiveScenarioChange={onActiveScenarioChange}
+                template={html}
+                escapeMode="html"
+                templateEngine={templateEngine}
+                templateContext={imagesContext}
+                missingPartials={analysis.missingPartials}
                 emailBlockGroups={emailBlockGroups}
                 hostImages={hostImages}
                 onAddImage={onAddImage}
@@ -439,6 +462,20 @@ export const EmailEditor: React.FC<EmailEditorProps> = ({
                 showImages={showImages}
                 showChat={showAi}
             />
+
+            <TemplateExportModal
+                isOpen={isExportOpen}
+                template={html}
+                escape="html"
+                functions={functions}
+                language="handlebars"
+                fileName="email"
+                onSelectWarning={warning => {
+                    setIsExportOpen(false);
+                    editorRef.current?.revealPosition(warning.line, warning.column);
+                }}
+                onClose={() => setIsExportOpen(false)}
+            />
         </div>
     );
 };
\ No newline at end of file
@@ -1,9 +1,15 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { interpolateString, insertIntoNativeInput } from '../../lib/utils';
-import { UserFunction, EditorType, HostImage } from '../../lib/types';
+import { insertIntoNativeInput } from '../../lib/utils';
+import { UserFunction, EditorType, HostImage, TemplatePartial, TemplateTestCase, TemplateEngine, VariableScenario, WorkspaceScope } from '../../lib/types';
+import { EMPTY_SCOPE } from '../../lib/environments';
 import { CodeEditor, CodeEditorRef } from '../shared-ui/CodeEditor';
 import { ToolsPanel } from '../shared-ui/ToolsPanel';
-import { PanelRightClose, PanelRightOpen, Wand2, Globe } from 'lucide-react';
+import { TemplateEngineSelect } from '../shared-ui/TemplateEngineSelect';
+import { TemplateExportModal } from '../shared-ui/TemplateExportModal';
+import { TemplateIssuesPanel } from '../shared-ui/TemplateIssuesPanel';
+import { useTemplatePreview } from '../shared-ui/useTemplatePreview';
+import { hostImagesContext } from '../../lib/documents';
+import { PanelRightClose, PanelRightOpen, Wand2, Globe, FileOutput } from 'lucide-react';
 
 interface HtmlEditorProps {
     content: string;
@@ -12,8 +18,24 @@ interface HtmlEditorProps {
     // Store Props
     variablesJson: string;
     onVariablesChange: (json: string) => void;
+    variablesSchema?: string;
+    onVariablesSchemaChange?: (schema: string) => void;
+    sharedModule?: string;
+    onSharedModuleChange?: (code: string) => void;
+    // The active environment and the vault
+    scope?: WorkspaceScope;
     functions: UserFunction[];
-    onFunctionsChange: (funcs: UserFunction[]) => void;
+    onFunctionsChange: (funcs: React.SetStateAction<UserFunction[]>) => void;
+    partials?: TemplatePartial[];
+    onPartialsChange?: (partials: TemplatePartial[]) => void;
+    tests?: TemplateTestCase[];
+    onTestsChange?: (tests: TemplateTestCase[]) => void;
+    templateEngine?: TemplateEngine;
+    onTemplateEngineChange?: (engine: TemplateEngine) => void;
+    scenarios?: VariableScenario[];
+    activeScenarioId?: string;
+    onScenariosChange?: (scenarios: VariableScenario[]) => void;
+    onActiveScenarioChange?: (id: string) => void;
     
     // Optional
     hostImages?: HostImage[];
@@ -37,8 +59,23 @@ export const HtmlEditor: React.FC<HtmlEditorProps> = ({
     onChange, 
     variablesJson = '{}',
     onVariablesChange,
+    variablesSchema,
+    onVariablesSchemaChange,
+    sharedModule,
+    onSharedModuleChange,
+    scope = EMPTY_SCOPE,
     functions = [],
     onFunctionsChange,
+    partials = [],
+    onPartialsChange,
+    tests = [],
+    onTestsChange,
+    templateEngine,
+    onTemplateEngineChange,
+    scenarios,
+    activeScenarioId,
+    onScenariosChange,
+    onActiveScenarioChange,
     hostImages = [],
     onAddImage,
     onDeleteImage,
@@ -51,10 +88,8 @@ export const HtmlEditor: React.FC<HtmlEditorProps> = ({
     showAi = true
 }) => {
     // Preview State
-    const [previewContent, setPreviewContent] = useState<string>('');
-    const [error, setError] = useState<string | null>(null);
     const [isPreviewOpen, setIsPreviewOpen] = useState(true);
-    const [missingFunctions, setMissingFunctions] = useState<string[]>([]);
+    const [isExportOpen, setIsExportOpen] = useState(false);
 
     // Internal Variable Parsing
     const variablesObj = useMemo(() => {
@@ -118,41 +153,23 @@ export const HtmlEditor: React.FC<HtmlEditorProps> = ({
         };
     }, [isResizing, stopResizing]);
 
-    // Check for missing functions
-    useEffect(() => {
-        const safeFunctions = Array.isArray(functions) ? functions : [];
-        const regex = /{{#func:([a-zA-Z0-9_]+)\(/g;
-        const missing: Set<string> = new Set();
-        let match;
-        while ((match = regex.exec(content)) !== null) {
-            const funcName = match[1];
-            if (!safeFunctions.some(f => f.name === funcName)) {
-                missing.add(funcName);
-            }
-        }
-        setMissingFunctions(Array.from(missing));
-    }, [content, functions]);
+    // Host images are exposed to templates as {{images.<name>}}, in the preview and in tests
+    const imagesContext = useMemo(() => hostImagesContext(hostImages || []), [hostImages]);
 
-    useEffect(() => {
-        if (!enablePreview) return;
-        try {
-            const imagesContext = (hostImages || []).reduce((acc, img) => {
-                acc[img.name] = img.url;
-                return acc;
-            }, {} as Record<string, string>);
-
-            const combinedContext = {
-                ...variablesObj,
-                images: imagesContext
-            };
+    const renderContext = useMemo(() => ({ ...variablesObj, ...imagesContext }), [variablesObj, imagesContext]);
 
-            const interpolated = interpolateString(content, combinedContext, functions || []);
-            setPreviewContent(interpolated);
-            setError(null);
-        } catch (e: any) {
-            setError(e.message);
-        }
-    }, [content, variablesObj, functions, hostImages, enablePreview]);
+    const { analysis, completion, issues, output: previewContent, error } = useTemplatePreview({
+        template: content,
+        context: renderContext,
+        variablesSchema,
+        functions,
+        sharedModule,
+        partials,
+        engine: templateEngine,
+        escape: 'html',
+        scope,
+        enabled: enablePreview,
+    });
 
     const handleInsert = (text: string) => {
         // Prioritize Monaco Editor if it has focus
@@ -190,7 +207,16 @@ export const HtmlEditor: React.FC<HtmlEditorProps> = ({
                                 >
                                     <Wand2 size={14} />
                                 </button>
-                                <span className="text-teal-600 font-mono text-[10px]">Handlebars</span>
+                                {(templateEngine ?? 'handlebars') === 'handlebars' && (
+                                    <button 
+                                        onClick={() => setIsExportOpen(true)}
+                                        className="text-slate-400 hover:text-teal-600 hover:bg-teal-50 p-0.5 rounded transition-colors"
+                                        title="Export to Jinja2 / Liquid"
+                                    >
+                                        <FileOutput size={14} />
+                                    </button>
+                                )}
+                                <TemplateEngineSelect value={templateEngine} onChange={onTemplateEngineChange} />
                                 {enablePreview && (
                                     <button 
                                         onClick={() => setIsPreviewOpen(!isPreviewOpen)}
@@ -208,8 +234,14 @@ export const HtmlEditor: React.FC<HtmlEditorProps> = ({
                                 language={'html'} 
                                 value={content} 
                                 onChange={(val) => onChange(val || '')} 
+                                markers={issues}
+                                completion={completion}
                             />
                         </div>
+                        <TemplateIssuesPanel
+                            issues={issues}
+                            onSelect={issue => editorRef.current?.revealPosition(issue.line, issue.column)}
+                        />
                     </div>
 
                     {/* Resizable Preview */}
@@ -257,10 +289,28 @@ export const HtmlEditor: React.FC<HtmlEditorProps> = ({
             <ToolsPanel 
                 variablesJson={variablesJson}
                 onVariablesChange={onVariablesChange}
+                variablesSchema={variablesSchema}
+                onVariablesSchemaChange={onVariablesSchemaChange}
+                sharedModule={sharedModule}
+                onSharedModuleChange={onSharedModuleChange}
+                scope={scope}
                 functions={functions}
                 onFunctionsChange={onFunctionsChange}
                 activeEditorType={EditorType.HTML_PAGE}
-                missingFunctions={missingFunctions}
+                missingFunctions={analysis.missingFunctions}
+                partials={partials}
+                onPartialsChange={onPartialsChange}
+                tests={tests}
+                onTestsChange={onTestsChange}
+                scenarios={scenarios}
+                activeScenarioId={activeScenarioId}
+                onScenariosChange={onScenariosChange}
+                onActiveScenarioChange={onActiveScenarioChange}
+                template={content}
+                escapeMode="html"
+                templateEngine={templateEngine}
+                templateContext={imagesContext}
+                missingPartials={analysis.missingPartials}
                 hostImages={hostImages}
                 onAddImage={onAddImage}
                 onDeleteImage={onDeleteImage}
@@ -273,6 +323,20 @@ export const HtmlEditor: React.FC<HtmlEditorProps> = ({
                 showImages={showImages}
                 showChat={showAi}
             />
+
+            <TemplateExportModal
+                isOpen={isExportOpen}
+                template={content}
+                escape="html"
+                functions={functions}
+                language="html"
+                fileName="page"
+                onSelectWarning={warning => {
+                    setIsExportOpen(false);
+                    editorRef.current?.revealPosition(warning.line, warning.column);
+                }}
+                onClose={() => setIsExportOpen(false)}
+            />
         </div>
     );
 };
\ No newline at end of file
@@ -1,9 +1,14 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { interpolateString, insertIntoNativeInput } from '../../lib/utils';
-import { UserFunction, EditorType } from '../../lib/types';
+import { insertIntoNativeInput } from '../../lib/utils';
+import { UserFunction, EditorType, TemplatePartial, TemplateTestCase, TemplateEngine, VariableScenario, WorkspaceScope } from '../../lib/types';
+import { EMPTY_SCOPE } from '../../lib/environments';
 import { CodeEditor, CodeEditorRef } from '../shared-ui/CodeEditor';
 import { ToolsPanel } from '../shared-ui/ToolsPanel';
-import { PanelRightClose, PanelRightOpen, Wand2 } from 'lucide-react';
+import { TemplateEngineSelect } from '../shared-ui/TemplateEngineSelect';
+import { TemplateExportModal } from '../shared-ui/TemplateExportModal';
+import { TemplateIssuesPanel } from '../shared-ui/TemplateIssuesPanel';
+import { useTemplatePreview } from '../shared-ui/useTemplatePreview';
+import { PanelRightClose, PanelRightOpen, Wand2, FileOutput } from 'lucide-react';
 
 interface JsonEditorProps {
     content: string;
@@ -12,8 +17,24 @@ interface JsonEditorProps {
     // Store Props
     variablesJson: string;
     onVariablesChange: (json: string) => void;
+    variablesSchema?: string;
+    onVariablesSchemaChange?: (schema: string) => void;
+    sharedModule?: string;
+    onSharedModuleChange?: (code: string) => void;
+    // The active environment and the vault
+    scope?: WorkspaceScope;
     functions: UserFunction[];
-    onFunctionsChange: (funcs: UserFunction[]) => void;
+    onFunctionsChange: (funcs: React.SetStateAction<UserFunction[]>) => void;
+    partials?: TemplatePartial[];
+    onPartialsChange?: (partials: TemplatePartial[]) => void;
+    tests?: TemplateTestCase[];
+    onTestsChange?: (tests: TemplateTestCase[]) => void;
+    templateEngine?: TemplateEngine;
+    onTemplateEngineChange?: (engine: TemplateEngine) => void;
+    scenarios?: VariableScenario[];
+    activeScenarioId?: string;
+    onScenariosChange?: (scenarios: VariableScenario[]) => void;
+    onActiveScenarioChange?: (id: string) => void;
     
     // AI Prop
     onAiAssist?: (prompt: string) => Promise<string>;
@@ -25,23 +46,39 @@ interface JsonEditorProps {
     showAi?: boolean;
 }
 
+// The preview shows the output pretty-printed; output that does not parse is an issue
+const formatJson = (output: string) => JSON.stringify(JSON.parse(output), null, 2);
+
 export const JsonEditor: React.FC<JsonEditorProps> = ({ 
     content = '', 
     onChange, 
     variablesJson = '{}',
     onVariablesChange,
+    variablesSchema,
+    onVariablesSchemaChange,
+    sharedModule,
+    onSharedModuleChange,
+    scope = EMPTY_SCOPE,
     functions = [],
     onFunctionsChange,
+    partials = [],
+    onPartialsChange,
+    tests = [],
+    onTestsChange,
+    templateEngine,
+    onTemplateEngineChange,
+    scenarios,
+    activeScenarioId,
+    onScenariosChange,
+    onActiveScenarioChange,
     onAiAssist,
     enablePreview = true,
     showVariables = true,
     showFunctions = true,
     showAi = true
 }) => {
-    const [preview, setPreview] = useState<string>('');
-    const [error, setError] = useState<string | null>(null);
     const [isPreviewOpen, setIsPreviewOpen] = useState(true);
-    const [missingFunctions, setMissingFunctions] = useState<string[]>([]);
+    const [isExportOpen, setIsExportOpen] = useState(false);
     
     // Internal Variable Parsing
     const variablesObj = useMemo(() => {
@@ -105,46 +142,20 @@ export const JsonEditor: React.FC<JsonEditorProps> = ({
         };
     }, [isResizing, stopResizing]);
 
-    // Check for missing functions
-    useEffect(() => {
-        const regex = /{{#func:([a-zA-Z0-9_]+)\(/g;
-        const missing: Set<string> = new Set();
-        let match;
-        while ((match = regex.exec(content)) !== null) {
-            const funcName = match[1];
-            if (!functions.some(f => f.name === funcName)) {
-                missing.add(funcName);
-            }
-        }
-        
-        const legacyRegex = /{{\s*func\s+['"]([a-zA-Z0-9_]+)['"]/g;
-        while ((match = legacyRegex.exec(content)) !== null) {
-            const funcName = match[1];
-            if (!functions.some(f => f.name === funcName)) {
-                missing.add(funcName);
-            }
-        }
-
-        setMissingFunctions(Array.from(missing));
-    }, [content, functions]);
-
-    useEffect(() => {
-        if (!enablePreview) return;
-        try {
-            const interpolated = interpolateString(content, variablesObj, functions);
-            const parsed = JSON.parse(interpolated);
-            setPreview(JSON.stringify(parsed, null, 2));
-            setError(null);
-        } catch (e: any) {
-            setError(e.message);
-            try {
-                const interpolated = interpolateString(content, variablesObj, functions);
-                setPreview(interpolated); 
-            } catch (handlebarsError: any) {
-                setPreview(`Template Error: ${handlebarsError.message}`);
-            }
-        }
-    }, [content, variablesObj, functions, enablePreview]);
+    const { analysis, completion, issues, output: preview, error } = useTemplatePreview({
+        template: content,
+        context: variablesObj,
+        variablesSchema,
+        functions,
+        sharedModule,
+        partials,
+        engine: templateEngine,
+        escape: 'json',
+        scope,
+        enabled: enablePreview,
+        format: formatJson,
+        showErrors: true
+    });
 
     const handleInsert = (text: string) => {
         if (insertIntoNativeInput(document.activeElement, text)) return;
@@ -170,7 +181,16 @@ export const JsonEditor: React.FC<JsonEditorProps> = ({
                                 >
                                     <Wand2 size={14} />
                                 </button>
-                                <span className="text-teal-600 font-mono text-[10px]">Handlebars</span>
+                                {(templateEngine ?? 'handlebars') === 'handlebars' && (
+                                    <button 
+                                        onClick={() => setIsExportOpen(true)}
+                                        className="text-slate-400 hover:text-teal-600 hover:bg-teal-50 p-0.5 rounded transition-colors"
+                                        title="Export to Jinja2 / Liquid"
+                                    >
+                                        <FileOutput size={14} />
+                                    </button>
+                                )}
+                                <TemplateEngineSelect value={templateEngine} onChange={onTemplateEngineChange} />
                                 {enablePreview && (
                                     <button 
                                         onClick={() => setIsPreviewOpen(!isPreviewOpen)}
@@ -185,11 +205,17 @@ export const JsonEditor: React.FC<JsonEditorProps> = ({
                         <div className="flex-1 min-h-0 relative">
                             <CodeEditor 
                                 ref={editorRef}
-                                language="json" 
+                                language="handlebars-json" 
                                 value={content} 
                                 onChange={(val) => onChange(val || '')} 
+                                markers={issues}
+                                completion={completion}
                             />
                         </div>
+                        <TemplateIssuesPanel
+                            issues={issues}
+                            onSelect={issue => editorRef.current?.revealPosition(issue.line, issue.column)}
+                        />
                     </div>
                     
                     {/* Resizable Preview Panel */}
@@ -236,10 +262,27 @@ export const JsonEditor: React.FC<JsonEditorProps> = ({
             <ToolsPanel 
                 variablesJson={variablesJson}
                 onVariablesChange={onVariablesChange}
+                variablesSchema={variablesSchema}
+                onVariablesSchemaChange={onVariablesSchemaChange}
+                sharedModule={sharedModule}
+                onSharedModuleChange={onSharedModuleChange}
+                scope={scope}
                 functions={functions}
                 onFunctionsChange={onFunctionsChange}
                 activeEditorType={EditorType.JSON_REST}
-                missingFunctions={missingFunctions}
+                missingFunctions={analysis.missingFunctions}
+                partials={partials}
+                onPartialsChange={onPartialsChange}
+                tests={tests}
+                onTestsChange={onTestsChange}
+                scenarios={scenarios}
+                activeScenarioId={activeScenarioId}
+                onScenariosChange={onScenariosChange}
+                onActiveScenarioChange={onActiveScenarioChange}
+                template={content}
+                escapeMode="json"
+                templateEngine={templateEngine}
+                missingPartials={analysis.missingPartials}
                 onInsert={handleInsert}
                 onUpdateContent={(val) => onChange(val)}
                 onAiAssist={onAiAssist}
@@ -247,6 +290,20 @@ export const JsonEditor: React.FC<JsonEditorProps> = ({
                 showFunctions={showFunctions}
                 showChat={showAi}
             />
+
+            <TemplateExportModal
+                isOpen={isExportOpen}
+                template={content}
+                escape="json"
+                functions={functions}
+                language="handlebars-json"
+                fileName="body"
+                onSelectWarning={warning => {
+                    setIsExportOpen(false);
+                    editorRef.current?.revealPosition(warning.line, warning.column);
+                }}
+                onClose={() => setIsExportOpen(false)}
+            />
         </div>
     );
 };
\ No newline at end of file
@@ -1,8 +1,10 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { X, Save, Trash2, Server, Plus, Terminal, Link as LinkIcon, Database, Shield, ExternalLink, Loader2, CheckCircle2, AlertTriangle, Search, RefreshCw, Globe, FileJson, MoveVertical } from 'lucide-react';
-import { McpConnection, RestParam } from '../../lib/types';
+import { McpConnection, RestParam, WorkspaceScope } from '../../lib/types';
 import { KeyValueEditor } from '../shared-ui/KeyValueEditor';
 import { CodeEditor } from '../shared-ui/CodeEditor';
+import { resolveSecretReferences } from '../../lib/vault';
+import { EMPTY_SCOPE } from '../../lib/environments';
 
 interface McpConnectionModalProps {
   isOpen: boolean;
@@ -12,6 +14,8 @@ interface McpConnectionModalProps {
   allowLocal?: boolean;
   initialType?: 'sse' | 'stdio';
   initialEditingId?: string | null;
+  resolveUrl?: (url: string) => Promise<string>; // Fills in the variables of the server URL in the sandbox, e.g. of the active environment
+  scope?: WorkspaceScope; // The vault the OAuth client secret can refer to
 }
 
 // Generate random string for state/pkce
@@ -55,7 +59,9 @@ export const McpConnectionModal: React.FC<McpConnectionModalProps> = ({
   onUpdateConnections,
   allowLocal = false,
   initialType = 'sse',
-  initialEditingId
+  initialEditingId,
+  resolveUrl = async url => url,
+  scope = EMPTY_SCOPE
 }) => {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [formData, setFormData] = useState<McpConnection>({
@@ -285,10 +291,11 @@ export const McpConnectionModal: React.FC<McpConnectionModalProps> = ({
       setOauthError(null);
 
       try {
+          const serverUrl = await resolveUrl(formData.url);
           // 1. Try to fetch the URL to check for 401 and headers
           let metadataUrl = '';
           try {
-              const res = await fetch(formData.url, { method: 'HEAD' });
+              const res = await fetch(serverUrl, { method: 'HEAD' });
               const authHeader = res.headers.get('www-authenticate');
               if (res.status === 401 && authHeader) {
                   const match = authHeader.match(/resource_metadata="([^"]+)"/);
@@ -301,11 +308,11 @@ export const McpConnectionModal: React.FC<McpConnectionModalProps> = ({
           }
 
           if (!metadataUrl) {
-              if (formData.url.includes('supabase.com')) {
+              if (serverUrl.includes('supabase.com')) {
                   metadataUrl = 'https://mcp.supabase.com/.well-known/oauth-protected-resource/mcp';
               } else {
                   try {
-                      const u = new URL(formData.url);
+                      const u = new URL(serverUrl);
                       metadataUrl = `${u.origin}/.well-known/oauth-authorization-server`;
                   } catch {}
               }
@@ -463,7 +470,7 @@ export const McpConnectionModal: React.FC<McpConnectionModalProps> = ({
               redirect_uri: redirectUrl || window.location.origin,
               client_id: clientId,
           });
-          if (clientSecret) bodyParams.append('client_secret', clientSecret);
+          if (clientSecret) bodyParams.append('client_secret', resolveSecretReferences(clientSecret, scope));
           const response = await fetch(tokenUrl, {
               method: 'POST',
               headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'application/json' },
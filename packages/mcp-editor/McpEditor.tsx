@@ -1,14 +1,16 @@
-import React, { useState, useMemo, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { 
     Play, Server, Box, Terminal, 
     Wifi, CheckCircle2, AlertCircle, RefreshCw, Loader2, Hammer, Power, ChevronRight, Plug, Link as LinkIcon, Settings, Database, Globe,
     PanelRightClose, PanelRightOpen
 } from 'lucide-react';
-import { McpState, UserFunction, EditorType, RestParam, McpToolDefinition, McpConnection } from '../../lib/types';
+import { McpState, UserFunction, EditorType, RestParam, McpToolDefinition, McpConnection, WorkspaceScope } from '../../lib/types';
 import { CodeEditor } from '../shared-ui/CodeEditor';
 import { KeyValueEditor } from '../shared-ui/KeyValueEditor';
 import { ToolsPanel } from '../shared-ui/ToolsPanel';
-import { interpolateString, insertIntoNativeInput } from '../../lib/utils';
+import { insertIntoNativeInput } from '../../lib/utils';
+import { interpolateInSandbox } from '../../lib/sandbox-client';
+import { EMPTY_SCOPE } from '../../lib/environments';
 import { McpConnectionModal } from './McpConnectionModal';
 
 interface McpEditorProps {
@@ -24,8 +26,14 @@ interface McpEditorProps {
     // Store Props
     variablesJson: string;
     onVariablesChange: (json: string) => void;
+    variablesSchema?: string;
+    onVariablesSchemaChange?: (schema: string) => void;
+    sharedModule?: string;
+    onSharedModuleChange?: (code: string) => void;
+    // The active environment and the vault
+    scope?: WorkspaceScope;
     functions: UserFunction[];
-    onFunctionsChange: (funcs: UserFunction[]) => void;
+    onFunctionsChange: (funcs: React.SetStateAction<UserFunction[]>) => void;
     
     // Services
     onAiAssist?: (prompt: string) => Promise<string>;
@@ -46,6 +54,11 @@ export const McpEditor: React.FC<McpEditorProps> = ({
     onActiveConnectionChange,
     variablesJson = '{}', 
     onVariablesChange, 
+    variablesSchema,
+    onVariablesSchemaChange,
+    sharedModule,
+    onSharedModuleChange,
+    scope = EMPTY_SCOPE,
     functions = [],
     onFunctionsChange,
     onAiAssist,
@@ -80,6 +93,11 @@ export const McpEditor: React.FC<McpEditorProps> = ({
         }
     }, [variablesJson]);
 
+    // Renders a URL, header or argument in the sandbox, where the active environment and the vault
+    // secrets ({{ secret.NAME }}) resolve
+    const renderRequestPart = (template: string) =>
+        interpolateInSandbox(template, variablesObj, functions, { escape: 'none', sharedModule, scope, request: true });
+
     const activeConnection = connections.find(c => c.id === activeConnectionId);
     const isLocalConnection = activeConnection?.type === 'stdio';
 
@@ -110,18 +128,18 @@ export const McpEditor: React.FC<McpEditorProps> = ({
         }
     }, [activeConnectionId]);
 
-    const getAuthHeaders = () => {
+    const getAuthHeaders = async () => {
         if (!activeConnection || !activeConnection.auth) return {};
         const headers: Record<string, string> = {};
         const { auth } = activeConnection;
 
         if (auth.type === 'basic' && auth.basic) {
-            const user = interpolateString(auth.basic.username || '', variablesObj, functions);
-            const pass = interpolateString(auth.basic.password || '', variablesObj, functions);
+            const user = await renderRequestPart(auth.basic.username || '');
+            const pass = await renderRequestPart(auth.basic.password || '');
             const b64 = btoa(`${user}:${pass}`);
             headers['Authorization'] = `Basic ${b64}`;
         } else if (auth.type === 'bearer' && auth.bearer) {
-            const token = interpolateString(auth.bearer.token || '', variablesObj, functions);
+            const token = await renderRequestPart(auth.bearer.token || '');
             headers['Authorization'] = `Bearer ${token}`;
         }
         // Note: OAuth2 sets type to 'bearer' via applyAccessToken in the new logic
@@ -136,6 +154,9 @@ export const McpEditor: React.FC<McpEditorProps> = ({
         return url;
     };
 
+    // The server URL can use variables, e.g. {{api.baseUrl}}/sse of the active environment
+    const resolveServerUrl = async () => (activeConnection ? renderRequestPart(activeConnection.url) : '');
+
     // RPC Call - Supports both Direct HTTP Response and Async SSE Response
     const rpcCall = async (method: string, params: any = {}, endpoint: string) => {
         const id = Date.now();
@@ -153,11 +174,11 @@ export const McpEditor: React.FC<McpEditorProps> = ({
         
         // Add headers from active connection
         if (activeConnection) {
-            activeConnection.headers.forEach(h => { 
-                if(h.enabled) reqHeaders[h.key] = interpolateString(h.value, variablesObj, functions); 
-            });
+            for (const h of activeConnection.headers) { 
+                if(h.enabled) reqHeaders[h.key] = await renderRequestPart(h.value); 
+            }
             // Merge explicit auth headers
-            Object.assign(reqHeaders, getAuthHeaders());
+            Object.assign(reqHeaders, await getAuthHeaders());
         }
 
         // Create a promise that waits for the SSE response
@@ -238,7 +259,7 @@ export const McpEditor: React.FC<McpEditorProps> = ({
     };
 
     // 1. Connect (SSE)
-    const handleConnect = () => {
+    const handleConnect = async () => {
         if (!activeConnection || isLocalConnection) return;
         
         // Close existing
@@ -260,7 +281,8 @@ export const McpEditor: React.FC<McpEditorProps> = ({
         }
 
         try {
-            const es = new EventSource(getProxiedUrl(activeConnection.url));
+            const serverUrl = await resolveServerUrl();
+            const es = new EventSource(getProxiedUrl(serverUrl));
             eventSourceRef.current = es;
 
             let endpointTimeout: any;
@@ -272,7 +294,7 @@ export const McpEditor: React.FC<McpEditorProps> = ({
                 endpointTimeout = setTimeout(() => {
                     if (!postEndpoint) {
                         console.warn("No endpoint event received. Falling back to Server URL.");
-                        handleEndpointDiscovery(activeConnection.url);
+                        handleEndpointDiscovery(serverUrl);
                     }
                 }, 5000);
             };
@@ -328,7 +350,7 @@ export const McpEditor: React.FC<McpEditorProps> = ({
         // Resolve URI relative to serverUrl (use original URL, not proxy wrapper for resolution)
         let finalEndpoint = uri;
         try {
-            finalEndpoint = new URL(uri, activeConnection.url).toString();
+            finalEndpoint = new URL(uri, await resolveServerUrl()).toString();
         } catch {
             // keep as is if invalid
         }
@@ -375,11 +397,11 @@ export const McpEditor: React.FC<McpEditorProps> = ({
         };
 
         if (activeConnection) {
-            activeConnection.headers.forEach(h => { 
-                if(h.enabled) reqHeaders[h.key] = interpolateString(h.value, variablesObj, functions); 
-            });
+            for (const h of activeConnection.headers) { 
+                if(h.enabled) reqHeaders[h.key] = await renderRequestPart(h.value); 
+            }
             // Merge explicit auth headers
-            Object.assign(reqHeaders, getAuthHeaders());
+            Object.assign(reqHeaders, await getAuthHeaders());
         }
         
         await fetch(getProxiedUrl(endpoint), {
@@ -463,9 +485,9 @@ export const McpEditor: React.FC<McpEditorProps> = ({
         try {
             // Build Args Object
             const argsObj: Record<string, any> = {};
-            config.args.forEach(arg => {
+            for (const arg of config.args) {
                 if (arg.enabled) {
-                    let val: any = interpolateString(arg.value, variablesObj, functions);
+                    let val: any = await renderRequestPart(arg.value);
                     // Attempt to cast to number/boolean if it looks like one
                     if (!isNaN(Number(val)) && val.trim() !== '') val = Number(val);
                     else if (val === 'true') val = true;
@@ -473,7 +495,7 @@ export const McpEditor: React.FC<McpEditorProps> = ({
                     
                     argsObj[arg.key] = val;
                 }
-            });
+            }
 
             const response = await rpcCall('tools/call', {
                 name: config.toolName,
@@ -719,6 +741,11 @@ export const McpEditor: React.FC<McpEditorProps> = ({
             <ToolsPanel 
                 variablesJson={variablesJson}
                 onVariablesChange={onVariablesChange}
+                variablesSchema={variablesSchema}
+                onVariablesSchemaChange={onVariablesSchemaChange}
+                sharedModule={sharedModule}
+                onSharedModuleChange={onSharedModuleChange}
+                scope={scope}
                 functions={functions}
                 onFunctionsChange={onFunctionsChange}
                 activeEditorType={EditorType.MCP_CLIENT}
@@ -735,6 +762,8 @@ export const McpEditor: React.FC<McpEditorProps> = ({
                 onClose={() => setIsManagerOpen(false)}
                 onUpdateConnections={onUpdateConnections}
                 allowLocal={enableLocalServers}
+                resolveUrl={renderRequestPart}
+                scope={scope}
             />
         </div>
     );
@@ -6,23 +6,36 @@ import {
   FileCode, Send, RefreshCw, X, Search, Globe, Box,
   PanelLeftClose, PanelLeftOpen, Loader2, Trash2, Key, Target, Beaker
 } from 'lucide-react';
-import { RestRequest, RestResponse, RestMethod, ApiSource, UserFunction, EditorType, NamedAuthConfig, RestParam } from '../../lib/types';
+import { RestRequest, RestResponse, RestMethod, ApiSource, UserFunction, EditorType, NamedAuthConfig, RestParam, WorkspaceScope, EscapeMode } from '../../lib/types';
 import { CodeEditor, CodeEditorRef } from '../shared-ui/CodeEditor';
 import { KeyValueEditor } from '../shared-ui/KeyValueEditor';
 import { ToolsPanel } from '../shared-ui/ToolsPanel';
-import { interpolateString, insertIntoNativeInput } from '../../lib/utils';
+import { insertIntoNativeInput } from '../../lib/utils';
+import { interpolateInSandbox } from '../../lib/sandbox-client';
+import { EMPTY_SCOPE } from '../../lib/environments';
 import { AuthManagerModal } from './AuthManagerModal';
 import { TreeView } from '../shared-ui/TreeView';
 
 interface RestEditorProps {
   variablesJson: string;
   onVariablesChange: (json: string) => void;
+  variablesSchema?: string;
+  onVariablesSchemaChange?: (schema: string) => void;
+  sharedModule?: string;
+  onSharedModuleChange?: (code: string) => void;
+  // The active environment and the vault
+  scope?: WorkspaceScope;
   functions: UserFunction[];
-  onFunctionsChange: (funcs: UserFunction[]) => void;
+  onFunctionsChange: (funcs: React.SetStateAction<UserFunction[]>) => void;
   authCredentials: NamedAuthConfig[];
   onAuthCredentialsChange: (creds: NamedAuthConfig[]) => void;
   apiSources: ApiSource[];
   onApiSourcesChange: (sources: ApiSource[]) => void;
+  // Saved with the workspace
+  requests: RestRequest[];
+  onRequestsChange: (requests: RestRequest[]) => void;
+  activeRequestId: string;
+  onActiveRequestIdChange: (id: string) => void;
   onAiAssist?: (prompt: string) => Promise<string>;
   
   // Visibility
@@ -32,23 +45,6 @@ interface RestEditorProps {
   showAi?: boolean;
 }
 
-const DEFAULT_REQUEST: RestRequest = {
-  id: 'req_default',
-  name: 'New Custom Request',
-  meta: { origin: 'custom' },
-  method: 'GET',
-  url: 'https://httpbin.org/get',
-  pathParams: [],
-  params: [],
-  headers: [
-    { id: 'h1', key: 'Content-Type', value: 'application/json', enabled: true },
-    { id: 'h2', key: 'Accept', value: 'application/json', enabled: true }
-  ],
-  auth: { type: 'none' },
-  bodyType: 'json',
-  body: '{\n  "key": "value"\n}'
-};
-
 // --- Schema Parsing Helpers ---
 
 const resolveRef = (ref: string, root: any): any => {
@@ -228,12 +224,21 @@ const parseOpenApiPaths = (spec: any): any[] => {
 export const RestEditor: React.FC<RestEditorProps> = ({
   variablesJson = '{}',
   onVariablesChange,
+  variablesSchema,
+  onVariablesSchemaChange,
+  sharedModule,
+  onSharedModuleChange,
+  scope = EMPTY_SCOPE,
   functions = [],
   onFunctionsChange,
   authCredentials = [],
   onAuthCredentialsChange,
   apiSources = [],
   onApiSourcesChange,
+  requests,
+  onRequestsChange,
+  activeRequestId,
+  onActiveRequestIdChange,
   onAiAssist,
   enablePreview = true,
   showVariables = true,
@@ -250,15 +255,18 @@ export const RestEditor: React.FC<RestEditorProps> = ({
   // Internal Variable Parsing
   const variablesObj = useMemo(() => {
     try {
-        return JSON.parse(variablesJson);
+      return JSON.parse(variablesJson);
     } catch {
-        return {};
+      return {};
     }
   }, [variablesJson]);
 
+  // Renders a part of the request in the sandbox, where the active environment and the vault secrets
+  // ({{ secret.NAME }}) resolve; everything but the body is plain text
+  const renderRequestPart = (template: string, escape: EscapeMode = 'none') =>
+    interpolateInSandbox(template, variablesObj, functions, { escape, sharedModule, scope, request: true });
+
   // --- Request State ---
-  const [requests, setRequests] = useState<RestRequest[]>([DEFAULT_REQUEST]);
-  const [activeRequestId, setActiveRequestId] = useState<string>(DEFAULT_REQUEST.id);
   const [activeTab, setActiveTab] = useState<'params' | 'auth' | 'headers' | 'body'>('params');
   const [response, setResponse] = useState<RestResponse | null>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -298,7 +306,7 @@ export const RestEditor: React.FC<RestEditorProps> = ({
             };
         });
         
-        setRequests(prev => prev.map(r => r.id === activeRequestId ? { ...r, pathParams: newPathParams } : r));
+        onRequestsChange(requests.map(r => r.id === activeRequestId ? { ...r, pathParams: newPathParams } : r));
     }
 
   }, [activeRequest?.url, activeRequestId]);
@@ -531,13 +539,13 @@ export const RestEditor: React.FC<RestEditorProps> = ({
           }
       }
 
-      setRequests(prev => [...prev, newReq]);
-      setActiveRequestId(newReq.id);
+      onRequestsChange([...requests, newReq]);
+      onActiveRequestIdChange(newReq.id);
       setActiveTab(endpoint.method === 'GET' ? 'params' : 'body');
   };
 
   const updateRequest = (field: keyof RestRequest, value: any) => {
-    setRequests(prev => prev.map(r => 
+    onRequestsChange(requests.map(r => 
       r.id === activeRequestId ? { ...r, [field]: value } : r
     ));
   };
@@ -548,49 +556,50 @@ export const RestEditor: React.FC<RestEditorProps> = ({
     const startTime = Date.now();
 
     try {
-        // Interpolate URL and Body
-        let processedUrl = interpolateString(activeRequest.url, variablesObj, functions);
-        const interpolatedBody = activeRequest.body ? interpolateString(activeRequest.body, variablesObj, functions) : undefined;
+        // Interpolate URL and Body; the body is escaped for its own format, everything else is plain text
+        const bodyEscape = activeRequest.bodyType === 'json' ? 'json' : activeRequest.bodyType === 'xml' ? 'xml' : 'none';
+        let processedUrl = await renderRequestPart(activeRequest.url);
+        const interpolatedBody = activeRequest.body ? await renderRequestPart(activeRequest.body, bodyEscape) : undefined;
         
         // Fill Path Params (Before creating URL object to avoid encoding issues on braces)
-        activeRequest.pathParams.forEach(p => {
+        for (const p of activeRequest.pathParams) {
              if (p.enabled && p.key) {
-                 const val = interpolateString(p.value, variablesObj, functions);
+                 const val = await renderRequestPart(p.value);
                  processedUrl = processedUrl.split(`{${p.key}}`).join(val);
              }
-        });
+        }
 
         // Build URL with Query Params
         const urlObj = new URL(processedUrl);
-        activeRequest.params.forEach(p => {
+        for (const p of activeRequest.params) {
             if (p.enabled && p.key) {
-                const val = interpolateString(p.value, variablesObj, functions);
+                const val = await renderRequestPart(p.value);
                 urlObj.searchParams.append(p.key, val);
             }
-        });
+        }
         
         let finalUrl = urlObj.toString();
 
         // Headers
         const headers: Record<string, string> = {};
-        activeRequest.headers.forEach(h => {
+        for (const h of activeRequest.headers) {
             if (h.enabled && h.key) {
-                headers[h.key] = interpolateString(h.value, variablesObj, functions);
+                headers[h.key] = await renderRequestPart(h.value);
             }
-        });
+        }
 
         // Auth
         if (activeRequest.auth.type === 'basic') {
-            const user = interpolateString(activeRequest.auth.username || '', variablesObj, functions);
-            const pass = interpolateString(activeRequest.auth.password || '', variablesObj, functions);
+            const user = await renderRequestPart(activeRequest.auth.username || '');
+            const pass = await renderRequestPart(activeRequest.auth.password || '');
             const b64 = btoa(`${user}:${pass}`);
             headers['Authorization'] = `Basic ${b64}`;
         } else if (activeRequest.auth.type === 'bearer') {
-            const token = interpolateString(activeRequest.auth.token || '', variablesObj, functions);
+            const token = await renderRequestPart(activeRequest.auth.token || '');
             headers['Authorization'] = `Bearer ${token}`;
         } else if (activeRequest.auth.type === 'apiKey') {
             const key = activeRequest.auth.apiKeyKey || '';
-            const val = interpolateString(activeRequest.auth.apiKeyValue || '', variablesObj, functions);
+            const val = await renderRequestPart(activeRequest.auth.apiKeyValue || '');
             if (activeRequest.auth.apiKeyIn === 'header') {
                 headers[key] = val;
             } else {
@@ -1104,6 +1113,11 @@ export const RestEditor: React.FC<RestEditorProps> = ({
        <ToolsPanel 
             variablesJson={variablesJson}
             onVariablesChange={onVariablesChange}
+            variablesSchema={variablesSchema}
+            onVariablesSchemaChange={onVariablesSchemaChange}
+            sharedModule={sharedModule}
+            onSharedModuleChange={onSharedModuleChange}
+            scope={scope}
             functions={functions}
             onFunctionsChange={onFunctionsChange}
             activeEditorType={EditorType.REST_API}
@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { UserFunction, EditorType } from '../../lib/types';
-import { executeScript, insertIntoNativeInput } from '../../lib/utils';
-import { Play, PanelRightClose, PanelRightOpen, ChevronDown, ChevronRight, Wand2, RefreshCw } from 'lucide-react';
+import { UserFunction, EditorType, ScriptExecutionResult, WorkspaceScope } from '../../lib/types';
+import { insertIntoNativeInput } from '../../lib/utils';
+import { executeScriptInSandbox } from '../../lib/sandbox-client';
+import { EMPTY_SCOPE, applyEnvironment } from '../../lib/environments';
+import { Play, PanelRightClose, PanelRightOpen, ChevronDown, ChevronRight, Wand2, RefreshCw, Loader2, Clock } from 'lucide-react';
 import { TreeView } from '../shared-ui/TreeView';
 import { CodeEditor, CodeEditorRef } from '../shared-ui/CodeEditor';
 import { ToolsPanel } from '../shared-ui/ToolsPanel';
@@ -13,8 +15,14 @@ interface ScriptEditorProps {
     // Store Props
     variablesJson: string;
     onVariablesChange: (json: string) => void;
+    variablesSchema?: string;
+    onVariablesSchemaChange?: (schema: string) => void;
+    sharedModule?: string;
+    onSharedModuleChange?: (code: string) => void;
+    // The active environment and the vault
+    scope?: WorkspaceScope;
     functions: UserFunction[];
-    onFunctionsChange: (funcs: UserFunction[]) => void;
+    onFunctionsChange: (funcs: React.SetStateAction<UserFunction[]>) => void;
     
     // Optional
     onUpdateVariables?: (newVars: Record<string, any>) => void;
@@ -34,6 +42,11 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
     onChange, 
     variablesJson = '{}',
     onVariablesChange,
+    variablesSchema,
+    onVariablesSchemaChange,
+    sharedModule,
+    onSharedModuleChange,
+    scope = EMPTY_SCOPE,
     functions = [],
     onFunctionsChange,
     onUpdateVariables,
@@ -43,7 +56,8 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
     showFunctions = true,
     showAi = true
 }) => {
-    const [executionResult, setExecutionResult] = useState<{ logs: string[], result: any, error?: string } | null>(null);
+    const [executionResult, setExecutionResult] = useState<ScriptExecutionResult | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
     const [isSidebarOpen, setIsSidebarOpen] = useState(true);
     const [isConsoleOpen, setIsConsoleOpen] = useState(true);
     const [isContextOpen, setIsContextOpen] = useState(true);
@@ -110,10 +124,7 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
         };
     }, [isResizing, stopResizing]);
 
-    const runScript = () => {
-        const result = executeScript(content, variablesObj, functions);
-        setExecutionResult(result);
-        
+    const runScript = async () => {
         // Ensure sidebar and console are open to see results
         if (!isSidebarOpen) {
             setIsSidebarOpen(true);
@@ -121,6 +132,20 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
         if (!isConsoleOpen && !isContextOpen) {
             setIsConsoleOpen(true);
         }
+
+        setIsRunning(true);
+        setExecutionResult({ logs: [], result: undefined });
+        try {
+            // Logs stream in while the script runs in the worker sandbox; its input has the active environment laid over it
+            const result = await executeScriptInSandbox(content, applyEnvironment(variablesObj, scope.environment), functions, { sharedModule }, entry => {
+                setExecutionResult(prev => prev ? { ...prev, logs: [...prev.logs, entry] } : prev);
+            });
+            setExecutionResult(result);
+        } catch (e: any) {
+            setExecutionResult(prev => ({ logs: prev?.logs || [], result: undefined, error: e.message }));
+        } finally {
+            setIsRunning(false);
+        }
     };
 
     const toggleSidebar = () => {
@@ -163,9 +188,10 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
                             </div>
                             <button 
                                 onClick={runScript} 
-                                className="flex items-center gap-2 text-xs bg-teal-600 hover:bg-teal-700 text-white px-3 py-1.5 rounded-lg transition-colors font-medium shadow-sm shadow-teal-600/20"
+                                disabled={isRunning}
+                                className="flex items-center gap-2 text-xs bg-teal-600 hover:bg-teal-700 text-white px-3 py-1.5 rounded-lg transition-colors font-medium shadow-sm shadow-teal-600/20 disabled:opacity-60 disabled:cursor-not-allowed"
                             >
-                                <Play size={12} /> Run
+                                {isRunning ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />} Run
                             </button>
                         </div>
 
@@ -211,13 +237,15 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
                                             {isConsoleOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
                                             <span>Console</span>
                                         </div>
-                                        {executionResult?.error && <span className="text-red-400">Error</span>}
+                                        {executionResult?.error && <span className="text-red-400">{executionResult.timedOut ? 'Timed Out' : 'Error'}</span>}
                                     </div>
                                     
                                     {isConsoleOpen && (
                                         <div className="flex-1 p-3 overflow-y-auto font-mono text-xs space-y-1">
                                             {!executionResult ? (
                                                 <div className="text-slate-600 italic">Run script to see logs...</div>
+                                            ) : executionResult.logs.length === 0 && isRunning ? (
+                                                <div className="text-slate-600 italic">Running...</div>
                                             ) : executionResult.logs.length === 0 ? (
                                                 <div className="text-slate-600 italic">No logs emitted.</div>
                                             ) : (
@@ -228,11 +256,16 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
                                                     </div>
                                                 ))
                                             )}
-                                            {executionResult?.error && (
+                                            {executionResult?.error && (executionResult.timedOut ? (
+                                                <div className="text-amber-400 mt-2 pt-2 border-t border-amber-900/30 flex items-center gap-2">
+                                                    <Clock size={12} className="shrink-0" />
+                                                    {executionResult.error}. The script was stopped.
+                                                </div>
+                                            ) : (
                                                 <div className="text-red-400 mt-2 pt-2 border-t border-red-900/30">
                                                     Runtime Error: {executionResult.error}
                                                 </div>
-                                            )}
+                                            ))}
                                         </div>
                                     )}
                                 </div>
@@ -252,7 +285,9 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
                                     
                                     {isContextOpen && (
                                         <div className="flex-1 p-3 overflow-y-auto">
-                                            {executionResult ? (
+                                            {isRunning ? (
+                                                <div className="text-slate-400 text-sm italic">Running in sandbox...</div>
+                                            ) : executionResult ? (
                                                 executionResult.result !== undefined ? (
                                                     <TreeView data={executionResult.result} label="Output" defaultOpen={true} />
                                                 ) : (
@@ -274,6 +309,11 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
             <ToolsPanel 
                 variablesJson={variablesJson}
                 onVariablesChange={onVariablesChange}
+                variablesSchema={variablesSchema}
+                onVariablesSchemaChange={onVariablesSchemaChange}
+                sharedModule={sharedModule}
+                onSharedModuleChange={onSharedModuleChange}
+                scope={scope}
                 functions={functions}
                 onFunctionsChange={onFunctionsChange}
                 activeEditorType={EditorType.SCRIPT_JS}
@@ -1,5 +1,18 @@
-import React, { useRef, useImperativeHandle, forwardRef } from 'react';
+import React, { useRef, useEffect, useImperativeHandle, forwardRef } from 'react';
 import Editor, { loader } from '@monaco-editor/react';
+import { TemplateIssue, UserFunction } from '../../lib/types';
+import {
+  TemplateCompletionContext,
+  TemplateCompletionKind,
+  TemplateHover,
+  getTemplateCompletions,
+  getTemplateSignature,
+  getTemplateHover,
+  getTemplateInlineValues
+} from '../../lib/template-completion';
+import { callFunctionInSandbox } from '../../lib/sandbox-client';
+import { formatSignature } from '../../lib/function-types';
+import { TemplateLanguage, isTemplateLanguage, formatTemplateLines, registerTemplateLanguages } from '../../lib/handlebars-languages';
 
 // Configure Monaco loader to use jsdelivr for stable worker loading
 loader.config({
@@ -12,76 +25,304 @@ export interface CodeEditorRef {
   insertText: (text: string) => void;
   format: () => void;
   hasTextFocus: () => boolean;
+  revealPosition: (line: number, column: number) => void;
 }
 
-interface CodeEditorProps {
+export interface CodeEditorProps {
   value: string;
-  language: 'json' | 'html' | 'javascript' | 'sql' | 'xml' | 'handlebars' | 'text' | 'yaml' | 'markdown';
+  // handlebars-* languages mix Handlebars into the host syntax instead of flagging {{ }} as errors
+  language: 'json' | 'html' | 'javascript' | 'sql' | 'xml' | 'handlebars' | 'text' | 'yaml' | 'markdown' | TemplateLanguage;
   onChange: (value: string | undefined) => void;
   readOnly?: boolean;
+  // Shown as squiggles in the editor and in its hover
+  markers?: TemplateIssue[];
+  // Enables suggestions inside {{ }}, plus hovers and inline values of expressions
+  completion?: TemplateCompletionContext;
+  // Type-checks a JavaScript snippet as if wrapped in prefix and suffix (see functionCheckSource)
+  typeCheck?: { prefix: string; suffix: string };
 }
 
-// Custom formatter for JSON mixed with Handlebars
-// This avoids using the strict JSON formatter which breaks on {{ }} syntax
-const formatHandlebarsJsonLines = (text: string): string => {
-    const lines = text.split('\n');
-    let indentLevel = 0;
-    const indentSize = 2;
-    
-    return lines.map(line => {
-        const trimmed = line.trim();
-        if (!trimmed) return '';
-        
-        // Detect dedent triggers at start of line
-        // Matches: }, ], {{/..., {{else..., {{^...
-        const isDedent = /^([}\]],?|\{\{\/|\{\{else|\{\{\^)/.test(trimmed);
-        
-        if (isDedent) {
-            indentLevel = Math.max(0, indentLevel - 1);
+const MARKER_OWNER = 'template';
+
+// Converts issues to Monaco markers; without an end position the word at the issue is marked
+const toMonacoMarkers = (monaco: any, model: any, issues: TemplateIssue[]) => {
+    const lineCount = model.getLineCount();
+    return issues.map(issue => {
+        const line = Math.min(Math.max(issue.line, 1), lineCount);
+        let startColumn = issue.column;
+        let endLine = issue.endLine ?? line;
+        let endColumn = issue.endColumn;
+
+        if (issue.kind === 'output') {
+            // Output problems point at a whole template line
+            startColumn = model.getLineFirstNonWhitespaceColumn(line) || 1;
+            endColumn = model.getLineMaxColumn(line);
+        } else if (endColumn === undefined || (endLine === line && endColumn <= startColumn)) {
+            const word = model.getWordAtPosition({ lineNumber: line, column: startColumn });
+            endLine = line;
+            endColumn = word ? word.endColumn : model.getLineMaxColumn(line);
+        }
+
+        return {
+            severity: issue.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+            message: issue.message,
+            startLineNumber: line,
+            startColumn,
+            endLineNumber: endLine,
+            endColumn
+        };
+    });
+};
+
+// Completion contexts of the mounted editors by model URI. Monaco providers are
+// global per language, so each one is registered once and looks up its editor here.
+const completionContexts = new Map<string, TemplateCompletionContext>();
+const languagesWithProviders = new Set<string>();
+// Fired when a context changes so inline values refresh without an edit
+let inlayHintsChanged: any = null;
+
+const MAX_HOVER_VALUE = 1500;
+
+const jsonBlock = (value: any) => {
+    const text = JSON.stringify(value, null, 2) ?? String(value);
+    return '```json\n' + (text.length > MAX_HOVER_VALUE ? `${text.slice(0, MAX_HOVER_VALUE)}\n...` : text) + '\n```';
+};
+
+// Markdown for a template hover; user function calls are evaluated in the sandbox
+const hoverContents = async (hover: TemplateHover, functions: UserFunction[], sharedModule?: string): Promise<{ value: string }[]> => {
+    if (hover.kind === 'helper') {
+        return [{ value: `\`${hover.type}\`` }, { value: hover.description || '' }];
+    }
+
+    if (hover.kind === 'function' && hover.func) {
+        const contents = [{ value: `**\`${formatSignature(hover.func)}\`** user function` }];
+        if (hover.func.description) contents.push({ value: hover.func.description });
+        if (hover.func.testStatus === 'failed') contents.push({ value: '**Fails its tests** (last run in the Functions panel)' });
+        if (!hover.argsResolved) {
+            contents.push({ value: '_The arguments cannot be resolved from the variables, so the function is not evaluated._' });
+            return contents;
         }
-        
-        const indentedLine = ' '.repeat(indentLevel * indentSize) + trimmed;
-        
-        // Detect indent triggers for the NEXT line
-        
-        // 1. JSON Structural Openers: Ends with { or [
-        if (trimmed.endsWith('{') || trimmed.endsWith('[')) {
-            indentLevel++;
+        try {
+            const result = await callFunctionInSandbox(hover.func, hover.args || [], { functions, sharedModule });
+            contents.push({ value: `Returns for \`${hover.expression}\`:\n\n${jsonBlock(result)}` });
+        } catch (e: any) {
+            contents.push({ value: `Throws: ${e.message}` });
+        }
+        return contents;
+    }
+
+    const contents = [{ value: `**\`${hover.expression}\`** · ${hover.type}` }];
+    if (hover.value !== undefined) contents.push({ value: jsonBlock(hover.value) });
+    if (hover.description) contents.push({ value: hover.description });
+    if (hover.note) contents.push({ value: `_${hover.note}_` });
+    return contents;
+};
+
+const completionItemKind = (monaco: any, kind: TemplateCompletionKind) => {
+    const kinds = monaco.languages.CompletionItemKind;
+    switch (kind) {
+        case 'variable': return kinds.Field;
+        case 'data': return kinds.Constant;
+        case 'helper': return kinds.Function;
+        case 'function': return kinds.Method;
+        case 'partial': return kinds.Module;
+        default: return kinds.Keyword;
+    }
+};
+
+const registerTemplateProviders = (monaco: any, language: string) => {
+    if (languagesWithProviders.has(language)) return;
+    languagesWithProviders.add(language);
+
+    monaco.languages.registerCompletionItemProvider(language, {
+        triggerCharacters: ['{', '.', '>', '@', '/', '#', ':', '('],
+        provideCompletionItems: (model: any, position: any) => {
+            const context = completionContexts.get(model.uri.toString());
+            const result = context && getTemplateCompletions(model.getValue(), model.getOffsetAt(position), context);
+            if (!result) return { suggestions: [] };
+
+            const start = model.getPositionAt(result.replaceFrom);
+            const range = new monaco.Range(start.lineNumber, start.column, position.lineNumber, position.column);
+            return {
+                suggestions: result.items.map((item, i) => ({
+                    label: item.label,
+                    kind: completionItemKind(monaco, item.kind),
+                    insertText: item.insertText,
+                    insertTextRules: item.snippet ? monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet : undefined,
+                    detail: item.detail,
+                    documentation: item.documentation,
+                    // Keep the scope order: variables first, then data, helpers and functions
+                    sortText: String(i).padStart(4, '0'),
+                    range
+                }))
+            };
+        }
+    });
+
+    monaco.languages.registerHoverProvider(language, {
+        provideHover: async (model: any, position: any) => {
+            const context = completionContexts.get(model.uri.toString());
+            const hover = context && getTemplateHover(model.getValue(), model.getOffsetAt(position), context);
+            if (!hover) return null;
+            const start = model.getPositionAt(hover.start);
+            const end = model.getPositionAt(hover.end);
+            return {
+                range: new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column),
+                contents: await hoverContents(hover, context.functions, context.sharedModule)
+            };
         }
-        
-        // 2. Handlebars Block Openers: {{#... or {{^... 
-        // But NOT if the block is closed on the same line (inline block)
-        // e.g. {{#each x}}...{{/each}} should not increase indent
-        const isHbBlockStart = /^\{\{\s*[#^]/.test(trimmed);
-        const hasHbBlockEnd = /\{\{\s*\//.test(trimmed);
-        
-        if (isHbBlockStart && !hasHbBlockEnd) {
-             indentLevel++;
+    });
+
+    inlayHintsChanged ??= new monaco.Emitter();
+    monaco.languages.registerInlayHintsProvider(language, {
+        onDidChangeInlayHints: inlayHintsChanged.event,
+        provideInlayHints: (model: any, range: any) => {
+            const context = completionContexts.get(model.uri.toString());
+            const values = context ? getTemplateInlineValues(model.getValue(), context) : [];
+            return {
+                hints: values
+                    .map(({ offset, label }) => ({ position: model.getPositionAt(offset), label: `= ${label}` }))
+                    .filter(({ position }) => range.containsPosition(position))
+                    .map(({ position, label }) => ({
+                        position,
+                        label,
+                        kind: monaco.languages.InlayHintKind.Type,
+                        paddingLeft: true
+                    })),
+                dispose: () => {}
+            };
         }
-        
-        // 3. Handlebars Control Flow: {{else}}
-        // The 'else' line itself was dedented above, but the content following it should be indented
-        if (/^\{\{\s*else/.test(trimmed)) {
-            indentLevel++;
+    });
+
+    monaco.languages.registerSignatureHelpProvider(language, {
+        signatureHelpTriggerCharacters: [' ', '(', ','],
+        signatureHelpRetriggerCharacters: [' ', ','],
+        provideSignatureHelp: (model: any, position: any) => {
+            const context = completionContexts.get(model.uri.toString());
+            const signature = context && getTemplateSignature(model.getValue(), model.getOffsetAt(position), context);
+            if (!signature) return null;
+            return {
+                value: {
+                    signatures: [{
+                        label: signature.label,
+                        documentation: signature.documentation,
+                        parameters: signature.params.map(param => ({ label: param }))
+                    }],
+                    activeSignature: 0,
+                    activeParameter: signature.activeParameter
+                },
+                dispose: () => {}
+            };
         }
+    });
+};
+
+const TYPE_CHECK_OWNER = 'typecheck';
+// A function body is checked in a hidden model; a top-level return is only an error outside of it
+const TOP_LEVEL_RETURN = 1108;
 
-        return indentedLine;
-    }).join('\n');
+// TypeScript messages can be a chain of nested explanations
+const flattenDiagnostic = (message: any): string =>
+    typeof message === 'string' ? message : [message.messageText, ...(message.next || []).map(flattenDiagnostic)].join('\n  ');
+
+const typeCheckUri = (monaco: any, model: any) => monaco.Uri.parse(`file:///typecheck/${model.id}.js`);
+
+/**
+ * Runs the TypeScript worker on prefix + snippet + suffix in a hidden model and
+ * places its diagnostics on the snippet. Diagnostics in the wrapper itself
+ * (e.g. an unknown type in a @param) are shown on the first line.
+ */
+const typeCheckSnippet = async (monaco: any, model: any, { prefix, suffix }: { prefix: string; suffix: string }) => {
+    const version = model.getVersionId();
+    const uri = typeCheckUri(monaco, model);
+    const source = prefix + model.getValue() + suffix;
+    const checkModel = monaco.editor.getModel(uri) || monaco.editor.createModel(source, 'javascript', uri);
+    if (checkModel.getValue() !== source) checkModel.setValue(source);
+
+    const getWorker = await monaco.languages.typescript.getJavaScriptWorker();
+    const worker = await getWorker(uri);
+    const diagnostics = [
+        ...(await worker.getSyntacticDiagnostics(uri.toString())),
+        ...(await worker.getSemanticDiagnostics(uri.toString()))
+    ];
+    if (model.isDisposed() || model.getVersionId() !== version) return;
+
+    const length = model.getValueLength();
+    const clamp = (offset: number) => Math.min(Math.max(offset - prefix.length, 0), length);
+    monaco.editor.setModelMarkers(model, TYPE_CHECK_OWNER, diagnostics.map((d: any) => {
+        const start = model.getPositionAt(clamp(d.start ?? 0));
+        const end = model.getPositionAt(clamp((d.start ?? 0) + (d.length ?? 0)));
+        const empty = start.lineNumber === end.lineNumber && start.column === end.column;
+        return {
+            severity: d.category === 1 ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+            message: flattenDiagnostic(d.messageText),
+            code: String(d.code),
+            startLineNumber: start.lineNumber,
+            startColumn: start.column,
+            endLineNumber: end.lineNumber,
+            endColumn: empty ? model.getLineMaxColumn(end.lineNumber) : end.column
+        };
+    }));
 };
 
-export const CodeEditor = forwardRef<CodeEditorRef, CodeEditorProps>(({ value = '', language, onChange, readOnly = false }, ref) => {
+export const CodeEditor = forwardRef<CodeEditorRef, CodeEditorProps>(({ value = '', language, onChange, readOnly = false, markers, completion, typeCheck }, ref) => {
   const editorRef = useRef<any>(null);
+  const monacoRef = useRef<any>(null);
+  const modelUriRef = useRef<string | null>(null);
+  // Hidden model of the type check, disposed with the editor
+  const typeCheckUriRef = useRef<any>(null);
+
+  const applyMarkers = () => {
+    const model = editorRef.current?.getModel();
+    if (!model || !monacoRef.current) return;
+    monacoRef.current.editor.setModelMarkers(model, MARKER_OWNER, toMonacoMarkers(monacoRef.current, model, markers || []));
+  };
+
+  // Markers refer to the current text, so they are refreshed on edits as well
+  useEffect(() => {
+    applyMarkers();
+  }, [markers, value]);
+
+  useEffect(() => {
+    if (!modelUriRef.current) return;
+    if (completion) completionContexts.set(modelUriRef.current, completion);
+    else completionContexts.delete(modelUriRef.current);
+    inlayHintsChanged?.fire();
+  }, [completion]);
+
+  useEffect(() => () => {
+    if (modelUriRef.current) completionContexts.delete(modelUriRef.current);
+  }, []);
+
+  // Debounced, since every run sends the whole source to the worker
+  useEffect(() => {
+    const monaco = monacoRef.current;
+    const model = editorRef.current?.getModel();
+    if (!monaco || !model) return;
+    if (!typeCheck) {
+      monaco.editor.setModelMarkers(model, TYPE_CHECK_OWNER, []);
+      return;
+    }
+    const timer = setTimeout(() => {
+      typeCheckSnippet(monaco, model, typeCheck).catch(() => {});
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [typeCheck, value]);
+
+  useEffect(() => () => {
+    if (typeCheckUriRef.current) monacoRef.current?.editor.getModel(typeCheckUriRef.current)?.dispose();
+  }, []);
 
   const performFormat = async () => {
     if (editorRef.current) {
       const model = editorRef.current.getModel();
       const text = model.getValue();
 
-      // If it looks like a Handlebars template in JSON, use custom indentation formatter
-      // This prevents the JSON formatter from destroying the template structure (e.g. adding extra braces)
-      // and prevents breaking inline blocks by preserving existing line breaks.
-      if (language === 'json' && text.includes('{{')) {
-          const formatted = formatHandlebarsJsonLines(text);
+      // Templates use the line-based formatter: the host formatters destroy the template structure
+      // (e.g. adding extra braces) and would break inline blocks, so existing line breaks are kept.
+      // Plain JSON containing {{ }} is treated as a JSON template.
+      if (isTemplateLanguage(language) || (language === 'json' && text.includes('{{'))) {
+          const formatted = formatTemplateLines(text, isTemplateLanguage(language) ? language : 'handlebars-json');
           if (formatted !== text) {
              editorRef.current.setValue(formatted);
           }
@@ -110,11 +351,35 @@ export const CodeEditor = forwardRef<CodeEditorRef, CodeEditorProps>(({ value =
     },
     hasTextFocus: () => {
       return editorRef.current ? editorRef.current.hasTextFocus() : false;
+    },
+    revealPosition: (line: number, column: number) => {
+      if (editorRef.current) {
+        const position = { lineNumber: line, column };
+        editorRef.current.setPosition(position);
+        editorRef.current.revealPositionInCenterIfOutsideViewport(position);
+        editorRef.current.focus();
+      }
     }
   }));
 
   const handleEditorDidMount = (editor: any, monaco: any) => {
     editorRef.current = editor;
+    monacoRef.current = monaco;
+    applyMarkers();
+
+    modelUriRef.current = editor.getModel()?.uri.toString() ?? null;
+    registerTemplateProviders(monaco, language);
+    if (completion && modelUriRef.current) completionContexts.set(modelUriRef.current, completion);
+
+    if (typeCheck) {
+        const defaults = monaco.languages.typescript.javascriptDefaults;
+        const options = defaults.getDiagnosticsOptions();
+        if (!(options.diagnosticCodesToIgnore || []).includes(TOP_LEVEL_RETURN)) {
+            defaults.setDiagnosticsOptions({ ...options, diagnosticCodesToIgnore: [...(options.diagnosticCodesToIgnore || []), TOP_LEVEL_RETURN] });
+        }
+        typeCheckUriRef.current = typeCheckUri(monaco, editor.getModel());
+        typeCheckSnippet(monaco, editor.getModel(), typeCheck).catch(() => {});
+    }
 
     // Bind Ctrl+F to Format Document
     editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyF, () => {
@@ -130,6 +395,11 @@ export const CodeEditor = forwardRef<CodeEditorRef, CodeEditorProps>(({ value =
         { token: 'string.value', foreground: '475569' }, // slate-600
         { token: 'number', foreground: '7c3aed' }, // violet
         { token: 'keyword', foreground: '0f766e', fontStyle: 'bold' }, // teal-700
+        { token: 'delimiter.handlebars', foreground: 'c2410c', fontStyle: 'bold' }, // orange-700
+        { token: 'keyword.handlebars', foreground: 'c2410c', fontStyle: 'bold' },
+        { token: 'variable.handlebars', foreground: 'b45309' }, // amber-700
+        { token: 'variable.predefined.handlebars', foreground: 'b45309', fontStyle: 'italic' },
+        { token: 'comment.handlebars', foreground: '94a3b8', fontStyle: 'italic' }, // slate-400
       ],
       colors: {
         'editor.background': '#ffffff',
@@ -188,6 +458,7 @@ export const CodeEditor = forwardRef<CodeEditorRef, CodeEditorProps>(({ value =
         language={language}
         value={value || ''}
         onChange={onChange}
+        beforeMount={registerTemplateLanguages}
         onMount={handleEditorDidMount}
         options={{
           minimap: { enabled: false },
@@ -206,6 +477,8 @@ export const CodeEditor = forwardRef<CodeEditorRef, CodeEditorProps>(({ value =
           // Disable auto-formatting to prevent accidental breakage of Handlebars syntax
           formatOnPaste: false,
           formatOnType: false,
+          // Templates often sit inside JSON/YAML strings, where Monaco suggests nothing by default
+          quickSuggestions: completion ? { other: true, strings: true, comments: false } : undefined,
         }}
       />
     </div>
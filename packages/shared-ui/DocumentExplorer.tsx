@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { DocumentEditorType, DocumentsByEditor, EditorDocument, EditorType } from '../../lib/types';
+import { DOCUMENT_EDITORS, DOCUMENT_EDITOR_TYPES } from '../../lib/editor-documents';
+import { Plus, Pencil, Copy, Trash2, FileText } from 'lucide-react';
+
+export interface DocumentActions {
+  onOpen: (type: DocumentEditorType, id: string) => void;
+  onCreate: (type: DocumentEditorType) => void;
+  onRename: (type: DocumentEditorType, id: string, name: string) => void;
+  onDuplicate: (type: DocumentEditorType, id: string) => void;
+  onDelete: (type: DocumentEditorType, id: string) => void;
+}
+
+// Inline name editor: Enter or leaving the field commits, Escape cancels
+export const DocumentNameInput = ({ name, onCommit, onCancel, className = '' }: {
+  name: string;
+  onCommit: (name: string) => void;
+  onCancel: () => void;
+  className?: string;
+}) => {
+  const [draft, setDraft] = useState(name);
+  const commit = () => (draft.trim() && draft !== name ? onCommit(draft) : onCancel());
+  return (
+    <input
+      autoFocus
+      value={draft}
+      onChange={e => setDraft(e.target.value)}
+      onFocus={e => e.target.select()}
+      onBlur={commit}
+      onClick={e => e.stopPropagation()}
+      onKeyDown={e => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') onCancel();
+      }}
+      className={`px-1 py-0.5 text-xs border border-teal-400 rounded outline-none bg-white text-slate-700 ${className}`}
+    />
+  );
+};
+
+interface DocumentExplorerProps {
+  documents: DocumentsByEditor;
+  activeEditor: EditorType;
+  activeDocumentIds: Partial<Record<DocumentEditorType, string>>;
+  actions: DocumentActions;
+}
+
+export const DocumentExplorer: React.FC<DocumentExplorerProps> = ({ documents, activeEditor, activeDocumentIds, actions }) => {
+  const [renaming, setRenaming] = useState<string | null>(null);
+
+  return (
+    <div className="w-60 shrink-0 border-r border-slate-200 bg-white flex flex-col min-h-0">
+      <div className="px-3 py-2 text-xs font-bold text-slate-500 uppercase tracking-wider border-b border-slate-100">Documents</div>
+      <div className="flex-1 overflow-y-auto py-1">
+        {DOCUMENT_EDITOR_TYPES.map(type => {
+          const list = documents[type] as EditorDocument[];
+          const activeId = activeDocumentIds[type] ?? list[0]?.id;
+          return (
+            <div key={type} className="mb-1">
+              <div className="group flex items-center justify-between px-3 py-1 text-[11px] font-semibold text-slate-400 uppercase">
+                <span>{DOCUMENT_EDITORS[type].label} <span className="font-normal">({list.length})</span></span>
+                <button
+                  onClick={() => actions.onCreate(type)}
+                  className="p-0.5 rounded text-slate-400 hover:text-teal-600 hover:bg-slate-100 opacity-0 group-hover:opacity-100 transition-opacity"
+                  title={`New ${DOCUMENT_EDITORS[type].label} document`}
+                >
+                  <Plus size={12} />
+                </button>
+              </div>
+              {list.map(doc => {
+                const isActive = type === activeEditor && doc.id === activeId;
+                const key = `${type}:${doc.id}`;
+                return (
+                  <div
+                    key={doc.id}
+                    onClick={() => actions.onOpen(type, doc.id)}
+                    onDoubleClick={() => setRenaming(key)}
+                    className={`group flex items-center gap-1.5 pl-5 pr-2 py-1 text-xs cursor-pointer ${
+                      isActive ? 'bg-teal-50 text-teal-700' : doc.id === activeId ? 'text-slate-700 hover:bg-slate-50' : 'text-slate-500 hover:bg-slate-50'
+                    }`}
+                  >
+                    <FileText size={12} className={isActive ? 'text-teal-600 shrink-0' : 'text-slate-300 shrink-0'} />
+                    {renaming === key ? (
+                      <DocumentNameInput
+                        name={doc.name}
+                        onCommit={name => {
+                          actions.onRename(type, doc.id, name);
+                          setRenaming(null);
+                        }}
+                        onCancel={() => setRenaming(null)}
+                        className="flex-1 min-w-0"
+                      />
+                    ) : (
+                      <span className="flex-1 truncate" title={doc.name}>{doc.name}</span>
+                    )}
+                    {renaming !== key && (
+                      <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <IconButton title="Rename" onClick={() => setRenaming(key)}><Pencil size={11} /></IconButton>
+                        <IconButton title="Duplicate" onClick={() => actions.onDuplicate(type, doc.id)}><Copy size={11} /></IconButton>
+                        {list.length > 1 && (
+                          <IconButton title="Delete" onClick={() => actions.onDelete(type, doc.id)} danger><Trash2 size={11} /></IconButton>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+const IconButton = ({ title, onClick, danger, children }: { title: string; onClick: () => void; danger?: boolean; children: React.ReactNode }) => (
+  <button
+    onClick={e => {
+      e.stopPropagation();
+      onClick();
+    }}
+    className={`p-0.5 rounded text-slate-400 hover:bg-slate-200 ${danger ? 'hover:text-red-500' : 'hover:text-slate-600'}`}
+    title={title}
+  >
+    {children}
+  </button>
+);
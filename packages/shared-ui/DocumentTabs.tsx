@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { DocumentEditorType, EditorDocument } from '../../lib/types';
+import { DOCUMENT_EDITORS } from '../../lib/editor-documents';
+import { Plus, Copy, X, FolderTree, History } from 'lucide-react';
+import { DocumentActions, DocumentNameInput } from './DocumentExplorer';
+
+interface DocumentTabsProps {
+  editorType: DocumentEditorType;
+  documents: EditorDocument[];
+  activeDocumentId: string;
+  actions: DocumentActions;
+  isExplorerOpen: boolean;
+  onToggleExplorer: () => void;
+  onShowHistory: () => void;
+}
+
+// Tab strip of the open editor's documents; double-click a tab to rename it
+export const DocumentTabs: React.FC<DocumentTabsProps> = ({
+  editorType,
+  documents,
+  activeDocumentId,
+  actions,
+  isExplorerOpen,
+  onToggleExplorer,
+  onShowHistory
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+
+  return (
+    <div className="h-9 shrink-0 flex items-stretch bg-slate-100 border-b border-slate-200">
+      <button
+        onClick={onToggleExplorer}
+        className={`px-3 border-r border-slate-200 transition-colors ${isExplorerOpen ? 'text-teal-600 bg-white' : 'text-slate-400 hover:text-slate-600'}`}
+        title={isExplorerOpen ? 'Hide documents' : 'Show all documents'}
+      >
+        <FolderTree size={14} />
+      </button>
+      <div className="flex items-stretch overflow-x-auto">
+        {documents.map(doc => {
+          const isActive = doc.id === activeDocumentId;
+          return (
+            <div
+              key={doc.id}
+              onClick={() => actions.onOpen(editorType, doc.id)}
+              onDoubleClick={() => setRenamingId(doc.id)}
+              className={`group flex items-center gap-1.5 pl-3 pr-1.5 text-xs border-r border-slate-200 cursor-pointer whitespace-nowrap ${
+                isActive ? 'bg-white text-slate-800 font-medium' : 'text-slate-500 hover:bg-slate-50'
+              }`}
+            >
+              {renamingId === doc.id ? (
+                <DocumentNameInput
+                  name={doc.name}
+                  onCommit={name => {
+                    actions.onRename(editorType, doc.id, name);
+                    setRenamingId(null);
+                  }}
+                  onCancel={() => setRenamingId(null)}
+                  className="w-36"
+                />
+              ) : (
+                <span className="max-w-[12rem] truncate" title="Double-click to rename">{doc.name}</span>
+              )}
+              <button
+                onClick={e => {
+                  e.stopPropagation();
+                  actions.onDuplicate(editorType, doc.id);
+                }}
+                className={`p-0.5 rounded text-slate-400 hover:text-slate-600 hover:bg-slate-200 ${isActive ? '' : 'opacity-0 group-hover:opacity-100'}`}
+                title="Duplicate"
+              >
+                <Copy size={11} />
+              </button>
+              {documents.length > 1 && (
+                <button
+                  onClick={e => {
+                    e.stopPropagation();
+                    actions.onDelete(editorType, doc.id);
+                  }}
+                  className={`p-0.5 rounded text-slate-400 hover:text-red-500 hover:bg-slate-200 ${isActive ? '' : 'opacity-0 group-hover:opacity-100'}`}
+                  title="Delete"
+                >
+                  <X size={11} />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <button
+        onClick={() => actions.onCreate(editorType)}
+        className="px-2.5 text-slate-400 hover:text-teal-600 transition-colors"
+        title={`New ${DOCUMENT_EDITORS[editorType].label} document`}
+      >
+        <Plus size={14} />
+      </button>
+      <button
+        onClick={onShowHistory}
+        className="ml-auto px-3 flex items-center gap-1.5 text-xs text-slate-400 hover:text-teal-600 border-l border-slate-200 transition-colors"
+        title="Versions and checkpoints of the open document"
+      >
+        <History size={14} /> History
+      </button>
+    </div>
+  );
+};
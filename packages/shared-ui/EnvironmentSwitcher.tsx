@@ -0,0 +1,38 @@
+import React from 'react';
+import { Environment } from '../../lib/types';
+import { Layers, Settings2 } from 'lucide-react';
+
+interface EnvironmentSwitcherProps {
+  environments: Environment[];
+  activeEnvironmentId: string | null;
+  onChange: (id: string | null) => void;
+  onManage: () => void;
+}
+
+const NONE = '';
+
+// Global environment picker; its variables are laid over every scenario, so requests and previews target that environment
+export const EnvironmentSwitcher: React.FC<EnvironmentSwitcherProps> = ({ environments, activeEnvironmentId, onChange, onManage }) => (
+  <div className="flex items-center gap-1">
+    <label className="flex items-center gap-2 text-xs font-medium text-slate-500" title="Environment">
+      <Layers size={16} className={activeEnvironmentId ? 'text-teal-600' : 'text-slate-400'} />
+      <select
+        value={activeEnvironmentId ?? NONE}
+        onChange={e => onChange(e.target.value === NONE ? null : e.target.value)}
+        className="bg-slate-100 border border-slate-200 rounded-md px-2 py-1.5 text-sm text-slate-700 focus:outline-none focus:border-teal-500 focus:ring-1 focus:ring-teal-500/20 max-w-[12rem]"
+      >
+        <option value={NONE}>No environment</option>
+        {environments.map(environment => (
+          <option key={environment.id} value={environment.id}>{environment.name}</option>
+        ))}
+      </select>
+    </label>
+    <button
+      onClick={onManage}
+      className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-md transition-colors"
+      title="Manage environments"
+    >
+      <Settings2 size={14} />
+    </button>
+  </div>
+);
@@ -0,0 +1,220 @@
+import React, { useState, useEffect } from 'react';
+import { Environment, EnvironmentVariable } from '../../lib/types';
+import { createEnvironment, createEnvironmentVariable } from '../../lib/environments';
+import { X, Layers, Plus, Trash2, CopyPlus, Eye, EyeOff, KeyRound, CheckSquare, Square, CheckCircle2 } from 'lucide-react';
+
+interface EnvironmentsModalProps {
+  isOpen: boolean;
+  environments: Environment[];
+  activeEnvironmentId: string | null;
+  onChange: (environments: Environment[]) => void;
+  onActivate: (id: string | null) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'px-2 py-1.5 text-sm border border-slate-200 rounded-md bg-white focus:outline-none focus:border-teal-500';
+
+const VariableRow: React.FC<{
+  variable: EnvironmentVariable;
+  onChange: (variable: EnvironmentVariable) => void;
+  onDelete: () => void;
+}> = ({ variable, onChange, onDelete }) => {
+  const [isRevealed, setIsRevealed] = useState(false);
+  return (
+    <li className={`px-3 py-2 flex items-center gap-2 ${variable.enabled ? '' : 'opacity-50'}`}>
+      <button
+        onClick={() => onChange({ ...variable, enabled: !variable.enabled })}
+        className="text-slate-400 hover:text-teal-600"
+        title={variable.enabled ? 'Disable' : 'Enable'}
+      >
+        {variable.enabled ? <CheckSquare size={14} className="text-teal-600" /> : <Square size={14} />}
+      </button>
+      <input
+        value={variable.key}
+        onChange={e => onChange({ ...variable, key: e.target.value })}
+        placeholder="api.baseUrl"
+        className={`w-56 font-mono text-xs ${inputClass}`}
+      />
+      <input
+        type={variable.secret && !isRevealed ? 'password' : 'text'}
+        value={variable.value}
+        onChange={e => onChange({ ...variable, value: e.target.value })}
+        placeholder="Value"
+        className={`flex-1 min-w-0 font-mono text-xs ${inputClass}`}
+      />
+      {variable.secret && (
+        <button onClick={() => setIsRevealed(!isRevealed)} className="p-1 rounded text-slate-400 hover:text-slate-600 hover:bg-slate-100" title={isRevealed ? 'Hide' : 'Reveal'}>
+          {isRevealed ? <EyeOff size={12} /> : <Eye size={12} />}
+        </button>
+      )}
+      <button
+        onClick={() => onChange({ ...variable, secret: !variable.secret })}
+        className={`p-1 rounded hover:bg-slate-100 ${variable.secret ? 'text-amber-600' : 'text-slate-400 hover:text-slate-600'}`}
+        title={variable.secret ? 'Secret: hidden, masked in previews and redacted on export' : 'Mark as secret'}
+      >
+        <KeyRound size={12} />
+      </button>
+      <button onClick={onDelete} className="p-1 rounded text-slate-400 hover:text-red-500 hover:bg-slate-100" title="Delete">
+        <Trash2 size={12} />
+      </button>
+    </li>
+  );
+};
+
+// Create and edit the environments; the one picked in the header is laid over the variables of every scenario
+export const EnvironmentsModal: React.FC<EnvironmentsModalProps> = ({
+  isOpen,
+  environments,
+  activeEnvironmentId,
+  onChange,
+  onActivate,
+  onClose
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(activeEnvironmentId);
+
+  // Opens on the active environment
+  useEffect(() => {
+    if (isOpen) setSelectedId(activeEnvironmentId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const selected = environments.find(e => e.id === selectedId) ?? environments[0];
+
+  const updateSelected = (change: Partial<Environment>) =>
+    onChange(environments.map(e => (e.id === selected.id ? { ...e, ...change } : e)));
+
+  const updateVariable = (variable: EnvironmentVariable) =>
+    updateSelected({ variables: selected.variables.map(v => (v.id === variable.id ? variable : v)) });
+
+  const handleAdd = (from?: Environment) => {
+    const environment = createEnvironment(from ? `${from.name} copy` : `Environment ${environments.length + 1}`, from);
+    onChange([...environments, environment]);
+    setSelectedId(environment.id);
+  };
+
+  const handleDelete = (environment: Environment) => {
+    if (!window.confirm(`Delete the environment '${environment.name}'?`)) return;
+    onChange(environments.filter(e => e.id !== environment.id));
+    if (environment.id === selectedId) setSelectedId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl flex flex-col h-[75vh] border border-slate-200 overflow-hidden">
+
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 bg-white flex-shrink-0">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <Layers size={18} className="text-teal-600" /> Environments
+            </h2>
+            <p className="text-sm text-slate-400">
+              Keys are paths into the variables, e.g. <code className="font-mono">api.baseUrl</code>; credentials can refer to the vault as <code className="font-mono">{'{{ secret.NAME }}'}</code>
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex">
+          <div className="w-56 shrink-0 border-r border-slate-100 flex flex-col bg-slate-50">
+            <div className="flex-1 overflow-y-auto">
+              {environments.map(environment => (
+                <div
+                  key={environment.id}
+                  onClick={() => setSelectedId(environment.id)}
+                  className={`group px-3 py-2 border-b border-slate-100 cursor-pointer flex items-center gap-2 text-sm ${
+                    environment.id === selected?.id ? 'bg-teal-50 text-slate-800' : 'text-slate-600 hover:bg-white'
+                  }`}
+                >
+                  <span className="flex-1 truncate">{environment.name}</span>
+                  {environment.id === activeEnvironmentId && <CheckCircle2 size={12} className="text-teal-600 shrink-0" />}
+                  <button
+                    onClick={e => {
+                      e.stopPropagation();
+                      handleAdd(environment);
+                    }}
+                    className="p-0.5 rounded text-slate-400 hover:text-slate-600 hover:bg-slate-200 opacity-0 group-hover:opacity-100"
+                    title="Duplicate"
+                  >
+                    <CopyPlus size={11} />
+                  </button>
+                  <button
+                    onClick={e => {
+                      e.stopPropagation();
+                      handleDelete(environment);
+                    }}
+                    className="p-0.5 rounded text-slate-400 hover:text-red-500 hover:bg-slate-200 opacity-0 group-hover:opacity-100"
+                    title="Delete"
+                  >
+                    <Trash2 size={11} />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => handleAdd()}
+              className="m-3 px-3 py-1.5 text-xs font-medium text-teal-700 bg-teal-50 hover:bg-teal-100 rounded-md transition-colors flex items-center justify-center gap-1"
+            >
+              <Plus size={12} /> New environment
+            </button>
+          </div>
+
+          <div className="flex-1 min-w-0 flex flex-col bg-slate-50">
+            {selected ? (
+              <>
+                <div className="px-4 py-3 border-b border-slate-100 bg-white flex items-center gap-3">
+                  <input
+                    value={selected.name}
+                    onChange={e => updateSelected({ name: e.target.value })}
+                    className={`flex-1 font-medium ${inputClass}`}
+                  />
+                  <button
+                    onClick={() => onActivate(selected.id === activeEnvironmentId ? null : selected.id)}
+                    className={`px-3 py-1.5 text-xs font-medium rounded-md transition-colors ${
+                      selected.id === activeEnvironmentId ? 'text-slate-600 hover:bg-slate-100' : 'text-white bg-teal-600 hover:bg-teal-700'
+                    }`}
+                  >
+                    {selected.id === activeEnvironmentId ? 'Deactivate' : 'Activate'}
+                  </button>
+                </div>
+                <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-3">
+                  <ul className="bg-white border border-slate-200 rounded-lg divide-y divide-slate-50">
+                    {selected.variables.length === 0 && <li className="px-3 py-2 text-xs text-slate-400">No variables yet.</li>}
+                    {selected.variables.map(variable => (
+                      <VariableRow
+                        key={variable.id}
+                        variable={variable}
+                        onChange={updateVariable}
+                        onDelete={() => updateSelected({ variables: selected.variables.filter(v => v.id !== variable.id) })}
+                      />
+                    ))}
+                  </ul>
+                  <button
+                    onClick={() => updateSelected({ variables: [...selected.variables, createEnvironmentVariable()] })}
+                    className="self-start px-3 py-1.5 text-xs font-medium text-teal-700 bg-teal-50 hover:bg-teal-100 rounded-md transition-colors flex items-center gap-1"
+                  >
+                    <Plus size={12} /> Add variable
+                  </button>
+                  <p className="text-xs text-slate-400">
+                    Values written as JSON keep their type, e.g. <code className="font-mono">8080</code> or <code className="font-mono">true</code>; anything else is text.
+                  </p>
+                </div>
+              </>
+            ) : (
+              <div className="h-full flex items-center justify-center text-sm text-slate-400">No environments</div>
+            )}
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex justify-end gap-3 bg-white flex-shrink-0">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
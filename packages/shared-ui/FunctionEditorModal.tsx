@@ -1,11 +1,17 @@
-import React, { useState, useEffect } from 'react';
-import { UserFunction } from '../../lib/types';
-import { X, Save, Play, AlertCircle } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { UserFunction, FunctionTestCase, FunctionTestResult } from '../../lib/types';
+import { X, Save, Play, AlertCircle, Loader2, Plus, Trash2, CheckCircle2, XCircle } from 'lucide-react';
 import { CodeEditor } from './CodeEditor';
+import { callFunctionInSandbox } from '../../lib/sandbox-client';
+import { sharedModuleExports } from '../../lib/sandbox';
+import { parseParamList, formatParamList, functionCheckSource } from '../../lib/function-types';
+import { parseTestArgs, formatTestValue, runFunctionTests, testStatusOf } from '../../lib/function-tests';
 
 interface FunctionEditorModalProps {
   isOpen: boolean;
   initialFunction?: UserFunction;
+  functions?: UserFunction[]; // The other functions, callable from the body
+  sharedModule?: string;
   onClose: () => void;
   onSave: (func: UserFunction) => void;
 }
@@ -13,42 +19,88 @@ interface FunctionEditorModalProps {
 export const FunctionEditorModal: React.FC<FunctionEditorModalProps> = ({
   isOpen,
   initialFunction,
+  functions = [],
+  sharedModule = '',
   onClose,
   onSave,
 }) => {
   const [name, setName] = useState('');
   const [params, setParams] = useState('');
+  const [returnType, setReturnType] = useState('');
+  const [description, setDescription] = useState('');
   const [body, setBody] = useState('');
   
   // Test State
   const [testArgs, setTestArgs] = useState<Record<string, string>>({});
   const [testOutput, setTestOutput] = useState<string | null>(null);
   const [testError, setTestError] = useState<string | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+
+  // Stored test cases and the results of their last run against the draft
+  const [tests, setTests] = useState<FunctionTestCase[]>([]);
+  const [testResults, setTestResults] = useState<Record<string, FunctionTestResult>>({});
+  const [isRunningTests, setIsRunningTests] = useState(false);
 
   useEffect(() => {
     if (isOpen) {
       if (initialFunction) {
         setName(initialFunction.name);
-        setParams(initialFunction.params.join(', '));
+        setParams(formatParamList(initialFunction));
+        setReturnType(initialFunction.returnType || '');
+        setDescription(initialFunction.description || '');
         setBody(initialFunction.body);
         // Initialize test args based on params
         const initialArgs: Record<string, string> = {};
         initialFunction.params.forEach(p => initialArgs[p] = '');
         setTestArgs(initialArgs);
+        setTests(initialFunction.tests || []);
       } else {
         setName('myFunction');
-        setParams('a, b');
+        setParams('a: number, b: number');
+        setReturnType('number');
+        setDescription('');
         setBody('return a + b;');
         setTestArgs({ a: '10', b: '20' });
+        setTests([]);
       }
       setTestOutput(null);
       setTestError(null);
     }
   }, [isOpen, initialFunction]);
 
+  // "amount: number, currency?: string" -> names and types
+  const parsedParams = useMemo(() => parseParamList(params), [params]);
+
+  const buildFunction = (id: string): UserFunction => ({
+    id,
+    name,
+    params: parsedParams.params,
+    // Types are only stored when at least one is given
+    ...(parsedParams.paramTypes.some(Boolean) ? { paramTypes: parsedParams.paramTypes } : {}),
+    ...(returnType.trim() ? { returnType: returnType.trim() } : {}),
+    ...(description.trim() ? { description: description.trim() } : {}),
+    body,
+    ...(tests.length > 0 ? { tests } : {})
+  });
+
+  // Results only describe the draft they were run against
+  useEffect(() => {
+    setTestResults({});
+  }, [body, params, tests, functions, sharedModule]);
+
+  // The body is checked as the JSDoc-typed function it becomes
+  const typeCheck = useMemo(
+    () => functionCheckSource(
+      { id: '', name, params: parsedParams.params, paramTypes: parsedParams.paramTypes, returnType, description, body: '' },
+      functions.filter(f => f.id !== initialFunction?.id),
+      sharedModuleExports(sharedModule)
+    ),
+    [name, parsedParams, returnType, description, functions, initialFunction, sharedModule]
+  );
+
   // Update test args when params string changes
   useEffect(() => {
-    const paramList = params.split(',').map(p => p.trim()).filter(Boolean);
+    const paramList = parsedParams.params;
     setTestArgs(prev => {
         const next: Record<string, string> = {};
         paramList.forEach(p => {
@@ -56,45 +108,61 @@ export const FunctionEditorModal: React.FC<FunctionEditorModalProps> = ({
         });
         return next;
     });
-  }, [params]);
+  }, [parsedParams]);
 
   if (!isOpen) return null;
 
   const handleSave = () => {
-    const newFunc: UserFunction = {
-      id: initialFunction?.id || Date.now().toString(),
-      name,
-      params: params.split(',').map(p => p.trim()).filter(Boolean),
-      body
-    };
-    onSave(newFunc);
+    const func = buildFunction(initialFunction?.id || Date.now().toString());
+    // The status is kept only when every test ran against this exact draft
+    const results = tests.map(t => testResults[t.id]).filter(Boolean);
+    const testStatus = results.length > 0 && results.length === tests.length ? testStatusOf(results) : undefined;
+    onSave(testStatus ? { ...func, testStatus } : func);
     onClose();
   };
 
-  const handleRunTest = () => {
+  const siblings = functions.filter(f => f.id !== initialFunction?.id);
+
+  const handleRunTest = async () => {
+      setIsTesting(true);
       try {
-          const paramList = params.split(',').map(p => p.trim()).filter(Boolean);
-          const args = paramList.map(p => {
-              const val = testArgs[p];
-              // Try to parse JSON/Number, fallback to string
-              try {
-                  if (val === 'true') return true;
-                  if (val === 'false') return false;
-                  if (val === 'null') return null;
-                  if (!isNaN(Number(val)) && val.trim() !== '') return Number(val);
-                  if (val.startsWith('{') || val.startsWith('[')) return JSON.parse(val);
-              } catch {}
-              return val;
-          });
-
-          // eslint-disable-next-line no-new-func
-          const func = new Function(...paramList, body);
-          const result = func(...args);
+          const func = buildFunction('test');
+          const args = parseTestArgs(func, parsedParams.params.map(p => testArgs[p]));
+
+          // Runs in the worker sandbox so a runaway loop cannot freeze the modal
+          const result = await callFunctionInSandbox(func, args, { functions: siblings, sharedModule });
           setTestOutput(typeof result === 'object' ? JSON.stringify(result, null, 2) : String(result));
           setTestError(null);
       } catch (e: any) {
           setTestError(e.message);
           setTestOutput(null);
+      } finally {
+          setIsTesting(false);
+      }
+  };
+
+  // Stores the current arguments and output as a test case
+  const handleSaveAsTest = () => {
+      if (testOutput === null) return;
+      setTests(prev => [...prev, {
+          id: Date.now().toString(),
+          name: `Test ${prev.length + 1}`,
+          args: parsedParams.params.map(p => testArgs[p] || ''),
+          expected: testOutput
+      }]);
+  };
+
+  const updateTest = (id: string, changes: Partial<FunctionTestCase>) => {
+      setTests(prev => prev.map(t => (t.id === id ? { ...t, ...changes } : t)));
+  };
+
+  const handleRunAllTests = async () => {
+      setIsRunningTests(true);
+      try {
+          const results = await runFunctionTests(buildFunction('test'), siblings, { sharedModule });
+          setTestResults(Object.fromEntries(results.map(r => [r.testId, r])));
+      } finally {
+          setIsRunningTests(false);
       }
   };
 
@@ -126,23 +194,42 @@ export const FunctionEditorModal: React.FC<FunctionEditorModalProps> = ({
                         />
                     </div>
                     <div className="col-span-2">
-                        <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-1.5">Parameters (comma sep.)</label>
+                        <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-1.5">Parameters (comma sep., optional types)</label>
                         <input 
                             className="w-full bg-white border border-slate-300 rounded-lg px-3 py-2 text-sm font-mono focus:outline-none focus:border-teal-500 focus:ring-1 focus:ring-teal-500/20 text-slate-800"
                             value={params}
                             onChange={e => setParams(e.target.value)}
-                            placeholder="a, b"
+                            placeholder="amount: number, currency?: string"
+                        />
+                    </div>
+                    <div className="col-span-1">
+                        <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-1.5">Return Type</label>
+                        <input 
+                            className="w-full bg-white border border-slate-300 rounded-lg px-3 py-2 text-sm font-mono focus:outline-none focus:border-teal-500 focus:ring-1 focus:ring-teal-500/20 text-slate-800"
+                            value={returnType}
+                            onChange={e => setReturnType(e.target.value)}
+                            placeholder="string"
+                        />
+                    </div>
+                    <div className="col-span-2">
+                        <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-1.5">Description</label>
+                        <input 
+                            className="w-full bg-white border border-slate-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-teal-500 focus:ring-1 focus:ring-teal-500/20 text-slate-800"
+                            value={description}
+                            onChange={e => setDescription(e.target.value)}
+                            placeholder="Shown in autocompletion and offered to agents as the tool description"
                         />
                     </div>
                  </div>
                  
                  <div className="flex-1 flex flex-col min-h-0">
-                    <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-1.5">Body (JavaScript)</label>
+                    <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-1.5">Body (JavaScript, type-checked)</label>
                     <div className="flex-1 border border-slate-300 rounded-lg overflow-hidden relative">
                         <CodeEditor 
                             language="javascript" 
                             value={body} 
                             onChange={(val) => setBody(val || '')} 
+                            typeCheck={typeCheck}
                         />
                     </div>
                  </div>
@@ -160,7 +247,12 @@ export const FunctionEditorModal: React.FC<FunctionEditorModalProps> = ({
                         <div className="space-y-3">
                             {Object.entries(testArgs).map(([key, val]) => (
                                 <div key={key}>
-                                    <label className="text-xs font-bold text-slate-400 font-mono block mb-1">{key}</label>
+                                    <label className="text-xs font-bold text-slate-400 font-mono block mb-1">
+                                        {key}
+                                        {parsedParams.paramTypes[parsedParams.params.indexOf(key)] && (
+                                            <span className="font-normal text-slate-300">: {parsedParams.paramTypes[parsedParams.params.indexOf(key)]}</span>
+                                        )}
+                                    </label>
                                     <input 
                                         className="w-full bg-slate-50 border border-slate-200 rounded px-2 py-1.5 text-sm font-mono focus:border-teal-400 focus:outline-none focus:bg-white transition-colors"
                                         value={val}
@@ -175,17 +267,90 @@ export const FunctionEditorModal: React.FC<FunctionEditorModalProps> = ({
                             No parameters defined.
                         </div>
                     )}
+
+                    {/* Stored test cases, saved with the function */}
+                    <div className="mt-6">
+                        <div className="flex items-center justify-between mb-2">
+                            <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">Test Cases ({tests.length})</label>
+                            <button
+                                onClick={handleRunAllTests}
+                                disabled={isRunningTests || tests.length === 0}
+                                className="text-xs flex items-center gap-1 text-teal-600 hover:text-teal-700 hover:bg-teal-50 px-2 py-1 rounded font-medium transition-colors disabled:opacity-50"
+                                title="Run all test cases"
+                            >
+                                {isRunningTests ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />} Run All
+                            </button>
+                        </div>
+                        {tests.length === 0 && (
+                            <div className="text-slate-400 text-xs italic p-3 text-center bg-slate-50 rounded-lg border border-slate-100">
+                                Run a test and save it to keep it with the function.
+                            </div>
+                        )}
+                        <div className="space-y-2">
+                            {tests.map(test => {
+                                const result = testResults[test.id];
+                                return (
+                                    <div key={test.id} className={`p-2 rounded-lg border bg-white ${result && !result.passed ? 'border-red-200' : 'border-slate-200'}`}>
+                                        <div className="flex items-center gap-2">
+                                            {result && (result.passed
+                                                ? <CheckCircle2 size={14} className="text-emerald-500 shrink-0" />
+                                                : <XCircle size={14} className="text-red-500 shrink-0" />)}
+                                            <input
+                                                className="flex-1 min-w-0 text-sm font-semibold text-slate-700 bg-transparent focus:outline-none focus:bg-slate-50 rounded px-1"
+                                                value={test.name}
+                                                onChange={e => updateTest(test.id, { name: e.target.value })}
+                                            />
+                                            <button
+                                                onClick={() => setTests(prev => prev.filter(t => t.id !== test.id))}
+                                                className="p-1 text-slate-300 hover:text-red-600 transition-colors"
+                                                title="Delete Test"
+                                            >
+                                                <Trash2 size={12} />
+                                            </button>
+                                        </div>
+                                        <div className="text-[10px] font-mono text-slate-400 truncate px-1 mt-1" title={test.args.join(', ')}>
+                                            ({parsedParams.params.map((p, i) => `${p}=${test.args[i] ?? ''}`).join(', ')})
+                                        </div>
+                                        <div className="flex items-center gap-1 mt-1 px-1">
+                                            <span className="text-[10px] text-slate-400 shrink-0">Expected</span>
+                                            <input
+                                                className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded px-1.5 py-0.5 text-xs font-mono focus:border-teal-400 focus:outline-none focus:bg-white"
+                                                value={test.expected}
+                                                onChange={e => updateTest(test.id, { expected: e.target.value })}
+                                            />
+                                        </div>
+                                        {result && !result.passed && (
+                                            <div className="text-[10px] font-mono text-red-600 mt-1 px-1 break-all">
+                                                {result.error !== undefined ? `Throws: ${result.error}` : `Got: ${formatTestValue(result.actual)}`}
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
                  </div>
 
                  <div className="pt-4 border-t border-slate-100 mt-auto">
                      <button 
                         onClick={handleRunTest}
-                        className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-900 text-white rounded-lg text-sm font-medium transition-colors mb-4"
+                        disabled={isTesting}
+                        className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-900 text-white rounded-lg text-sm font-medium transition-colors mb-4 disabled:opacity-60 disabled:cursor-not-allowed"
                      >
-                         <Play size={14} /> Run Test
+                         {isTesting ? <Loader2 size={14} className="animate-spin" /> : <Play size={14} />} Run Test
                      </button>
 
-                     <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-1.5">Output</label>
+                     <div className="flex items-center justify-between mb-1.5">
+                         <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">Output</label>
+                         <button
+                            onClick={handleSaveAsTest}
+                            disabled={testOutput === null}
+                            className="text-xs flex items-center gap-1 text-teal-600 hover:text-teal-700 hover:bg-teal-50 px-2 py-0.5 rounded font-medium transition-colors disabled:opacity-40"
+                            title="Save the arguments and this output as a test case"
+                         >
+                             <Plus size={12} /> Save as Test
+                         </button>
+                     </div>
                      <div className={`p-3 rounded-lg border text-sm font-mono min-h-[100px] whitespace-pre-wrap break-all overflow-y-auto max-h-[200px] ${testError ? 'bg-red-50 border-red-200 text-red-700' : 'bg-slate-50 border-slate-200 text-slate-700'}`}>
                          {testError ? (
                              <div className="flex gap-2 items-start">
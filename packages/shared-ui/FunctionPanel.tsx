@@ -1,23 +1,48 @@
 import React, { useState } from 'react';
-import { UserFunction, EditorType } from '../../lib/types';
-import { Plus, Trash2, Edit2 } from 'lucide-react';
+import { UserFunction, EditorType, FunctionTestResult, TemplateEngine } from '../../lib/types';
+import { Plus, Trash2, Edit2, ChevronDown, ChevronRight, FunctionSquare, Package, Play, Loader2, CheckCircle2, XCircle } from 'lucide-react';
 import { FunctionEditorModal } from './FunctionEditorModal';
+import { SharedModuleModal } from './SharedModuleModal';
+import { sharedModuleExports } from '../../lib/sandbox';
+import { STANDARD_HELPER_GROUPS } from '../../lib/helpers';
+import { formatParamList } from '../../lib/function-types';
+import { runFunctionTests, testStatusOf } from '../../lib/function-tests';
+import { functionCallSnippet } from '../../lib/template-engines';
 
 interface FunctionPanelProps {
   functions: UserFunction[];
-  onUpdateFunctions: (funcs: UserFunction[]) => void;
+  onUpdateFunctions: (funcs: React.SetStateAction<UserFunction[]>) => void;
+  sharedModule?: string;
+  onSharedModuleChange?: (code: string) => void;
   activeEditorType?: EditorType;
+  templateEngine?: TemplateEngine;
   onInsert?: (text: string) => void;
 }
 
 export const FunctionPanel: React.FC<FunctionPanelProps> = ({ 
   functions = [], 
   onUpdateFunctions, 
+  sharedModule = '',
+  onSharedModuleChange,
   activeEditorType, 
+  templateEngine,
   onInsert 
 }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingFunc, setEditingFunc] = useState<UserFunction | undefined>(undefined);
+  const [isModuleOpen, setIsModuleOpen] = useState(false);
+  const [testResults, setTestResults] = useState<Record<string, FunctionTestResult[]>>({});
+  const [isRunningTests, setIsRunningTests] = useState(false);
+
+  const testedFunctions = functions.filter(f => f.tests?.length);
+  const [openHelperGroups, setOpenHelperGroups] = useState<Record<string, boolean>>({});
+
+  // Built-in helpers only exist in Handlebars templates, not in the Script editor
+  const showHelpers = activeEditorType !== EditorType.SCRIPT_JS && (templateEngine ?? 'handlebars') === 'handlebars';
+
+  const toggleHelperGroup = (id: string) => {
+    setOpenHelperGroups(prev => ({ ...prev, [id]: !prev[id] }));
+  };
 
   const handleEdit = (func: UserFunction) => {
     setEditingFunc(func);
@@ -30,6 +55,11 @@ export const FunctionPanel: React.FC<FunctionPanelProps> = ({
   };
 
   const handleSave = (func: UserFunction) => {
+    // Results of the previous run no longer describe the edited function
+    setTestResults(prev => {
+      const { [func.id]: _edited, ...rest } = prev;
+      return rest;
+    });
     let newFunctions = [...functions];
     const existingIndex = newFunctions.findIndex(f => f.id === func.id);
     
@@ -42,17 +72,36 @@ export const FunctionPanel: React.FC<FunctionPanelProps> = ({
     onUpdateFunctions(newFunctions);
   };
 
+  // Runs the tests of every function and stores the outcome on the functions,
+  // so calls to a failing function are flagged in the editors
+  const runAllTests = async () => {
+    setIsRunningTests(true);
+    try {
+      const results: Record<string, FunctionTestResult[]> = {};
+      for (const func of testedFunctions) {
+        results[func.id] = await runFunctionTests(func, functions, { sharedModule });
+      }
+      setTestResults(results);
+      // Merged by id into the current functions, which may have changed while the tests ran
+      onUpdateFunctions(current => current.map(f => {
+        if (!results[f.id]) return f;
+        return { ...f, testStatus: testStatusOf(results[f.id]) };
+      }));
+    } finally {
+      setIsRunningTests(false);
+    }
+  };
+
   const deleteFunction = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
     onUpdateFunctions(functions.filter(f => f.id !== id));
   };
 
   const getInsertText = (func: UserFunction) => {
-    let text = `${func.name}(${func.params.join(', ')})`;
-    if (activeEditorType !== EditorType.SCRIPT_JS) {
-        text = `{{#func:${text}}}`;
+    if (activeEditorType === EditorType.SCRIPT_JS) {
+        return `${func.name}(${func.params.join(', ')})`;
     }
-    return text;
+    return functionCallSnippet(templateEngine, func);
   };
 
   const handleDragStart = (e: React.DragEvent, func: UserFunction) => {
@@ -61,6 +110,11 @@ export const FunctionPanel: React.FC<FunctionPanelProps> = ({
     e.dataTransfer.effectAllowed = 'copy';
   };
 
+  const handleHelperDragStart = (e: React.DragEvent, text: string) => {
+    e.dataTransfer.setData('text/plain', text);
+    e.dataTransfer.effectAllowed = 'copy';
+  };
+
   const handleClick = (func: UserFunction) => {
       if (onInsert) {
           onInsert(getInsertText(func));
@@ -70,6 +124,37 @@ export const FunctionPanel: React.FC<FunctionPanelProps> = ({
   return (
     <div className="flex flex-col h-full bg-slate-50/30 relative group">
       <div className="flex-1 overflow-y-auto p-4 space-y-3 pb-20">
+        {onSharedModuleChange && (
+            <div 
+                onClick={() => setIsModuleOpen(true)}
+                className="flex items-center gap-2 px-3 py-2 bg-white rounded-xl border border-dashed border-slate-300 hover:border-teal-400 cursor-pointer transition-colors select-none"
+                title="Code shared by all functions and scripts"
+            >
+                <Package size={14} className="text-teal-600 shrink-0" />
+                <span className="text-xs font-bold text-slate-600">Shared Module</span>
+                <span className="ml-auto text-[10px] font-mono text-slate-400 truncate">
+                    {sharedModuleExports(sharedModule).join(', ') || 'no exports'}
+                </span>
+            </div>
+        )}
+
+        {testedFunctions.length > 0 && (
+            <div className="flex items-center justify-between px-1">
+                <div className="flex items-center gap-3 text-xs font-bold">
+                    <span className="flex items-center gap-1 text-emerald-600"><CheckCircle2 size={12} /> {testedFunctions.filter(f => f.testStatus === 'passed').length}</span>
+                    <span className="flex items-center gap-1 text-red-600"><XCircle size={12} /> {testedFunctions.filter(f => f.testStatus === 'failed').length}</span>
+                </div>
+                <button
+                    onClick={runAllTests}
+                    disabled={isRunningTests}
+                    className="text-xs flex items-center gap-1 text-teal-600 hover:text-teal-700 hover:bg-teal-50 px-2 py-1 rounded font-medium transition-colors disabled:opacity-50"
+                    title="Run the tests of all functions"
+                >
+                    {isRunningTests ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />} Run Function Tests
+                </button>
+            </div>
+        )}
+
         {functions.map(func => (
           <div 
             key={func.id}
@@ -82,9 +167,21 @@ export const FunctionPanel: React.FC<FunctionPanelProps> = ({
             <div className="flex justify-between items-start mb-2">
                 <div className="font-mono text-sm text-teal-700 font-semibold flex items-center gap-2">
                     {func.name}
-                    <span className="text-xs font-normal text-slate-400">({func.params.join(', ')})</span>
+                    <span className="text-xs font-normal text-slate-400">({formatParamList(func)}){func.returnType ? `: ${func.returnType}` : ''}</span>
                 </div>
+                {func.tests?.length ? (
+                    <span
+                        className={`flex items-center gap-1 text-[10px] font-bold px-1.5 py-0.5 rounded-full shrink-0 group-hover/card:opacity-0 transition-opacity ${func.testStatus === 'passed' ? 'bg-emerald-50 text-emerald-600' : func.testStatus === 'failed' ? 'bg-red-50 text-red-600' : 'bg-slate-100 text-slate-400'}`}
+                        title={func.testStatus ? `Tests ${func.testStatus}` : 'Tests not run since the last change'}
+                    >
+                        {func.testStatus === 'passed' ? <CheckCircle2 size={10} /> : func.testStatus === 'failed' ? <XCircle size={10} /> : null}
+                        {testResults[func.id]
+                            ? `${testResults[func.id].filter(r => r.passed).length}/${func.tests.length}`
+                            : `${func.tests.length} test${func.tests.length === 1 ? '' : 's'}`}
+                    </span>
+                ) : null}
             </div>
+            {func.description && <p className="text-xs text-slate-500 mb-2">{func.description}</p>}
             <pre className="text-xs text-slate-500 bg-slate-50 border border-slate-100 p-2 rounded-lg overflow-hidden max-h-16 whitespace-pre-wrap font-mono pointer-events-none opacity-80">
                 {func.body}
             </pre>
@@ -115,6 +212,52 @@ export const FunctionPanel: React.FC<FunctionPanelProps> = ({
                 No functions defined.<br/>Click + to add one.
             </div>
         )}
+
+        {/* Built-in Helper Library */}
+        {showHelpers && (
+            <div className="pt-2">
+                <div className="text-xs font-bold text-slate-500 uppercase tracking-wider px-1 mb-2">Built-in Helpers</div>
+                {STANDARD_HELPER_GROUPS.map(group => (
+                    <div key={group.id} className="mb-1">
+                        <div 
+                            onClick={() => toggleHelperGroup(group.id)}
+                            className="flex items-center gap-2 px-2 py-1.5 cursor-pointer hover:bg-slate-100 rounded text-slate-500 font-bold text-xs uppercase tracking-wide select-none transition-colors"
+                        >
+                            {openHelperGroups[group.id] ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                            {group.title}
+                            <span className="ml-auto text-[10px] font-normal text-slate-400">{group.helpers.length}</span>
+                        </div>
+
+                        {openHelperGroups[group.id] && (
+                            <div className="mt-1 space-y-1 pl-2">
+                                {group.helpers.map(helper => (
+                                    <div 
+                                        key={helper.name}
+                                        draggable
+                                        onDragStart={(e) => handleHelperDragStart(e, helper.example)}
+                                        onClick={() => onInsert?.(helper.example)}
+                                        className="group flex items-start gap-2 p-2 bg-white rounded border border-slate-200 hover:border-teal-400 hover:shadow-sm cursor-pointer active:cursor-grabbing transition-all select-none"
+                                        title={helper.example}
+                                    >
+                                        <div className="mt-0.5 text-slate-400 group-hover:text-teal-500">
+                                            <FunctionSquare size={14} />
+                                        </div>
+                                        <div className="min-w-0 flex-1">
+                                            <div className="font-mono text-xs text-teal-700 font-semibold truncate">
+                                                {helper.signature}
+                                            </div>
+                                            <div className="text-[10px] text-slate-500 leading-tight mt-0.5">
+                                                {helper.desc}
+                                            </div>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+        )}
       </div>
       
       {/* Floating Action Button */}
@@ -131,9 +274,20 @@ export const FunctionPanel: React.FC<FunctionPanelProps> = ({
       <FunctionEditorModal 
         isOpen={isModalOpen} 
         initialFunction={editingFunc} 
+        functions={functions}
+        sharedModule={sharedModule}
         onSave={handleSave} 
         onClose={() => setIsModalOpen(false)} 
       />
+
+      {onSharedModuleChange && (
+        <SharedModuleModal
+          isOpen={isModuleOpen}
+          initialCode={sharedModule}
+          onSave={onSharedModuleChange}
+          onClose={() => setIsModuleOpen(false)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,123 @@
+import React, { useState, useEffect } from 'react';
+import { TemplatePartial } from '../../lib/types';
+import { X, Save, AlertCircle } from 'lucide-react';
+import { CodeEditor } from './CodeEditor';
+
+interface PartialEditorModalProps {
+  isOpen: boolean;
+  initialPartial?: TemplatePartial;
+  existingNames?: string[];
+  onClose: () => void;
+  onSave: (partial: TemplatePartial) => void;
+}
+
+const PARTIAL_NAME = /^[a-zA-Z_][a-zA-Z0-9_\-/]*$/;
+
+export const PartialEditorModal: React.FC<PartialEditorModalProps> = ({
+  isOpen,
+  initialPartial,
+  existingNames = [],
+  onClose,
+  onSave,
+}) => {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [content, setContent] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(initialPartial?.name || 'myPartial');
+      setDescription(initialPartial?.description || '');
+      setContent(initialPartial?.content || '');
+    }
+  }, [isOpen, initialPartial]);
+
+  if (!isOpen) return null;
+
+  const nameError = !PARTIAL_NAME.test(name)
+    ? 'Use letters, digits, _, - or /'
+    : name !== initialPartial?.name && existingNames.includes(name)
+      ? `A partial named '${name}' already exists`
+      : null;
+
+  const handleSave = () => {
+    if (nameError) return;
+    onSave({
+      id: initialPartial?.id || Date.now().toString(),
+      name,
+      description: description.trim() || undefined,
+      content
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl flex flex-col h-[75vh] border border-slate-200 overflow-hidden">
+
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 bg-white flex-shrink-0">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800">{initialPartial?.id ? 'Edit Partial' : 'New Partial'}</h2>
+            <p className="text-sm text-slate-400">Reusable template fragment, included with {'{{> name}}'} in every editor</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex flex-col min-h-0 bg-slate-50 p-6 gap-4">
+          <div className="grid grid-cols-3 gap-4 flex-shrink-0">
+            <div className="col-span-1">
+              <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-1.5">Partial Name</label>
+              <input
+                className={`w-full bg-white border rounded-lg px-3 py-2 text-sm font-mono focus:outline-none focus:ring-1 text-slate-800 ${nameError ? 'border-red-300 focus:border-red-400 focus:ring-red-400/20' : 'border-slate-300 focus:border-teal-500 focus:ring-teal-500/20'}`}
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder="footer"
+              />
+              {nameError && (
+                <div className="flex items-center gap-1 text-[11px] text-red-600 mt-1">
+                  <AlertCircle size={12} /> {nameError}
+                </div>
+              )}
+            </div>
+            <div className="col-span-2">
+              <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-1.5">Description</label>
+              <input
+                className="w-full bg-white border border-slate-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-teal-500 focus:ring-1 focus:ring-teal-500/20 text-slate-800"
+                value={description}
+                onChange={e => setDescription(e.target.value)}
+                placeholder="Parameters: {{> name title=...}}"
+              />
+            </div>
+          </div>
+
+          <div className="flex-1 flex flex-col min-h-0">
+            <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-1.5">Template (Handlebars)</label>
+            <div className="flex-1 border border-slate-300 rounded-lg overflow-hidden relative">
+              <CodeEditor
+                language="handlebars"
+                value={content}
+                onChange={(val) => setContent(val || '')}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex justify-end gap-3 bg-white flex-shrink-0">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!!nameError}
+            className="flex items-center gap-2 px-6 py-2 bg-teal-600 hover:bg-teal-700 text-white rounded-lg text-sm font-medium shadow-sm shadow-teal-600/20 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save size={16} />
+            Save Partial
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { TemplatePartial } from '../../lib/types';
+import { Plus, Trash2, Edit2 } from 'lucide-react';
+import { PartialEditorModal } from './PartialEditorModal';
+
+interface PartialsPanelProps {
+  partials: TemplatePartial[];
+  onUpdatePartials: (partials: TemplatePartial[]) => void;
+  onInsert?: (text: string) => void;
+}
+
+export const PartialsPanel: React.FC<PartialsPanelProps> = ({
+  partials = [],
+  onUpdatePartials,
+  onInsert
+}) => {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingPartial, setEditingPartial] = useState<TemplatePartial | undefined>(undefined);
+
+  const handleEdit = (partial: TemplatePartial) => {
+    setEditingPartial(partial);
+    setIsModalOpen(true);
+  };
+
+  const handleCreate = () => {
+    setEditingPartial(undefined);
+    setIsModalOpen(true);
+  };
+
+  const handleSave = (partial: TemplatePartial) => {
+    const existingIndex = partials.findIndex(p => p.id === partial.id);
+    if (existingIndex >= 0) {
+      onUpdatePartials(partials.map(p => (p.id === partial.id ? partial : p)));
+    } else {
+      onUpdatePartials([...partials, partial]);
+    }
+  };
+
+  const deletePartial = (id: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    onUpdatePartials(partials.filter(p => p.id !== id));
+  };
+
+  const getInsertText = (partial: TemplatePartial) => `{{> ${partial.name}}}`;
+
+  const handleDragStart = (e: React.DragEvent, partial: TemplatePartial) => {
+    e.dataTransfer.setData('text/plain', getInsertText(partial));
+    e.dataTransfer.effectAllowed = 'copy';
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-slate-50/30 relative group">
+      <div className="flex-1 overflow-y-auto p-4 space-y-3 pb-20">
+        {partials.map(partial => (
+          <div
+            key={partial.id}
+            draggable
+            onDragStart={(e) => handleDragStart(e, partial)}
+            onClick={() => onInsert?.(getInsertText(partial))}
+            className="p-4 bg-white rounded-xl border border-slate-200 shadow-sm hover:shadow-md hover:border-teal-300 transition-all cursor-pointer group/card relative select-none"
+            title="Click or drag to insert partial"
+          >
+            <div className="font-mono text-sm text-teal-700 font-semibold mb-1">
+                {'{{> '}{partial.name}{'}}'}
+            </div>
+            {partial.description && (
+                <div className="text-xs text-slate-500 mb-2 leading-snug">{partial.description}</div>
+            )}
+            <pre className="text-xs text-slate-500 bg-slate-50 border border-slate-100 p-2 rounded-lg overflow-hidden max-h-16 whitespace-pre-wrap font-mono pointer-events-none opacity-80">
+                {partial.content}
+            </pre>
+
+            <div className="absolute top-2 right-2 flex items-center gap-1 opacity-0 group-hover/card:opacity-100 transition-opacity">
+                <button
+                    onClick={(e) => { e.stopPropagation(); handleEdit(partial); }}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    className="p-1.5 hover:bg-teal-50 rounded text-slate-400 hover:text-teal-600 transition-colors"
+                    title="Edit Partial"
+                >
+                    <Edit2 size={14} />
+                </button>
+                <button
+                    onClick={(e) => deletePartial(partial.id, e)}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    className="p-1.5 hover:bg-red-50 rounded text-slate-400 hover:text-red-600 transition-colors"
+                    title="Delete Partial"
+                >
+                    <Trash2 size={14} />
+                </button>
+            </div>
+          </div>
+        ))}
+
+        {partials.length === 0 && (
+            <div className="text-center p-8 text-slate-400 text-sm border-2 border-dashed border-slate-200 rounded-xl">
+                No partials defined.<br/>Click + to add a header, footer or any shared block.
+            </div>
+        )}
+      </div>
+
+      {/* Floating Action Button */}
+      <div className="absolute bottom-6 left-0 right-0 flex justify-center z-10 pointer-events-none">
+          <button
+            onClick={handleCreate}
+            className="pointer-events-auto flex items-center gap-2 px-4 py-2.5 bg-teal-600 hover:bg-teal-700 text-white rounded-full shadow-lg shadow-teal-600/30 transition-all transform hover:scale-105 active:scale-95 font-bold text-sm"
+          >
+            <Plus size={16} />
+            <span>Add Partial</span>
+          </button>
+      </div>
+
+      <PartialEditorModal
+        isOpen={isModalOpen}
+        initialPartial={editingPartial}
+        existingNames={partials.map(p => p.name)}
+        onSave={handleSave}
+        onClose={() => setIsModalOpen(false)}
+      />
+    </div>
+  );
+};
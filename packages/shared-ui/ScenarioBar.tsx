@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { VariableScenario } from '../../lib/types';
+import { Plus, Trash2, Columns } from 'lucide-react';
+
+interface ScenarioBarProps {
+  scenarios: VariableScenario[];
+  activeScenarioId: string;
+  onScenariosChange: (scenarios: VariableScenario[]) => void;
+  onActiveScenarioChange: (id: string) => void;
+  // Opens the side-by-side view; hidden when there is no template to render
+  onCompare?: () => void;
+}
+
+export const ScenarioBar: React.FC<ScenarioBarProps> = ({
+  scenarios,
+  activeScenarioId,
+  onScenariosChange,
+  onActiveScenarioChange,
+  onCompare
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const active = scenarios.find(s => s.id === activeScenarioId) || scenarios[0];
+
+  // New scenarios start as a copy of the active one
+  const addScenario = () => {
+    const scenario: VariableScenario = {
+      id: Date.now().toString(),
+      name: `${active.name} copy`,
+      variablesJson: active.variablesJson
+    };
+    onScenariosChange([...scenarios, scenario]);
+    onActiveScenarioChange(scenario.id);
+    setRenamingId(scenario.id);
+    setDraftName(scenario.name);
+  };
+
+  const deleteScenario = (id: string) => {
+    const remaining = scenarios.filter(s => s.id !== id);
+    if (remaining.length === 0) return;
+    onScenariosChange(remaining);
+    if (id === activeScenarioId) onActiveScenarioChange(remaining[0].id);
+  };
+
+  const commitRename = () => {
+    const name = draftName.trim();
+    if (renamingId && name) {
+      onScenariosChange(scenarios.map(s => (s.id === renamingId ? { ...s, name } : s)));
+    }
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="border-b border-slate-100 bg-white px-3 py-2 flex-shrink-0">
+      <div className="flex items-center justify-between mb-1.5">
+        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Scenarios</span>
+        <div className="flex items-center gap-1">
+          {onCompare && (
+            <button
+              onClick={onCompare}
+              className="text-[10px] flex items-center gap-1 text-teal-600 hover:text-teal-700 hover:bg-teal-50 px-1.5 py-0.5 rounded font-medium transition-colors"
+              title="Render all scenarios side by side"
+            >
+              <Columns size={12} /> Render all
+            </button>
+          )}
+          <button
+            onClick={addScenario}
+            className="p-1 hover:bg-teal-50 rounded text-slate-400 hover:text-teal-600 transition-colors"
+            title="Duplicate the active scenario"
+          >
+            <Plus size={12} />
+          </button>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-1.5">
+        {scenarios.map(scenario => {
+          const isActive = scenario.id === active.id;
+          if (scenario.id === renamingId) {
+            return (
+              <input
+                key={scenario.id}
+                autoFocus
+                value={draftName}
+                onChange={e => setDraftName(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setRenamingId(null);
+                }}
+                className="text-xs px-2 py-1 rounded-full border border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500/20 w-32"
+              />
+            );
+          }
+          return (
+            <div
+              key={scenario.id}
+              onClick={() => onActiveScenarioChange(scenario.id)}
+              onDoubleClick={() => { setRenamingId(scenario.id); setDraftName(scenario.name); }}
+              className={`group/chip flex items-center gap-1 text-xs pl-2.5 pr-1.5 py-1 rounded-full border cursor-pointer select-none transition-colors
+                ${isActive
+                  ? 'bg-teal-50 border-teal-300 text-teal-700 font-semibold'
+                  : 'bg-white border-slate-200 text-slate-500 hover:border-teal-200 hover:text-slate-700'}`}
+              title="Click to use, double-click to rename"
+            >
+              <span className="truncate max-w-[8rem]">{scenario.name}</span>
+              {scenarios.length > 1 && (
+                <button
+                  onClick={e => { e.stopPropagation(); deleteScenario(scenario.id); }}
+                  className="opacity-0 group-hover/chip:opacity-100 p-0.5 rounded-full hover:bg-red-50 text-slate-400 hover:text-red-600 transition-opacity"
+                  title="Delete Scenario"
+                >
+                  <Trash2 size={10} />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+import React, { useState, useEffect } from 'react';
+import { VariableScenario, UserFunction, TemplatePartial, EscapeMode, TemplateEngine, WorkspaceScope } from '../../lib/types';
+import { renderInSandbox, isSandboxAbort } from '../../lib/sandbox-client';
+import { EMPTY_SCOPE } from '../../lib/environments';
+import { X, Loader2, AlertCircle, Check } from 'lucide-react';
+import { CodeEditor } from './CodeEditor';
+
+interface ScenarioCompareModalProps {
+  isOpen: boolean;
+  scenarios: VariableScenario[];
+  activeScenarioId: string;
+  template: string;
+  escape: EscapeMode;
+  engine?: TemplateEngine;
+  functions: UserFunction[];
+  sharedModule?: string;
+  partials?: TemplatePartial[];
+  // Merged over every scenario, e.g. hosted images
+  context?: Record<string, any>;
+  // The active environment and the vault, laid over every scenario like in the preview
+  scope?: WorkspaceScope;
+  onSelectScenario: (id: string) => void;
+  onClose: () => void;
+}
+
+const OUTPUT_LANGUAGES: Record<EscapeMode, 'json' | 'yaml' | 'xml' | 'html' | 'sql' | 'text'> = {
+  json: 'json',
+  yaml: 'yaml',
+  xml: 'xml',
+  html: 'html',
+  sql: 'sql',
+  none: 'text'
+};
+
+export const ScenarioCompareModal: React.FC<ScenarioCompareModalProps> = ({
+  isOpen,
+  scenarios,
+  activeScenarioId,
+  template,
+  escape,
+  engine,
+  functions,
+  sharedModule,
+  partials = [],
+  context,
+  scope = EMPTY_SCOPE,
+  onSelectScenario,
+  onClose
+}) => {
+  const [outputs, setOutputs] = useState<Record<string, { output?: string; error?: string }>>({});
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const controller = new AbortController();
+    setOutputs({});
+
+    const run = async () => {
+      for (const scenario of scenarios) {
+        let outcome: { output?: string; error?: string };
+        try {
+          const vars = JSON.parse(scenario.variablesJson || '{}');
+          outcome = await renderInSandbox(template, { ...vars, ...context }, functions, {
+            signal: controller.signal,
+            escape,
+            partials,
+            engine,
+            sharedModule,
+            scope
+          });
+        } catch (e: any) {
+          if (isSandboxAbort(e)) throw e;
+          // Invalid scenario JSON or sandbox timeout
+          outcome = { error: e.message };
+        }
+        setOutputs(prev => ({ ...prev, [scenario.id]: outcome }));
+      }
+    };
+
+    run().catch(() => {});
+    return () => controller.abort();
+  }, [isOpen, scenarios, template, escape, engine, functions, sharedModule, partials, context, scope]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-7xl flex flex-col h-[85vh] border border-slate-200 overflow-hidden">
+
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 bg-white flex-shrink-0">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800">All Scenarios</h2>
+            <p className="text-sm text-slate-400">The current template rendered with each variable scenario</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 bg-slate-50 p-6 flex gap-4 overflow-x-auto">
+          {scenarios.map(scenario => {
+            const result = outputs[scenario.id];
+            const isActive = scenario.id === activeScenarioId;
+            return (
+              <div key={scenario.id} className="flex flex-col min-h-0 min-w-[22rem] flex-1">
+                <div className="flex items-center justify-between mb-1.5">
+                  <span className="text-xs font-bold text-slate-500 uppercase tracking-wider truncate">{scenario.name}</span>
+                  {isActive ? (
+                    <span className="flex items-center gap-1 text-[10px] text-teal-600 font-medium"><Check size={12} /> Active</span>
+                  ) : (
+                    <button
+                      onClick={() => { onSelectScenario(scenario.id); onClose(); }}
+                      className="text-[10px] text-teal-600 hover:text-teal-700 hover:bg-teal-50 px-1.5 py-0.5 rounded font-medium transition-colors"
+                    >
+                      Use this scenario
+                    </button>
+                  )}
+                </div>
+                <div className={`flex-1 min-h-0 bg-white border rounded-lg overflow-hidden ${isActive ? 'border-teal-300' : 'border-slate-200'}`}>
+                  {!result ? (
+                    <div className="h-full flex items-center justify-center text-slate-300">
+                      <Loader2 size={20} className="animate-spin" />
+                    </div>
+                  ) : result.error !== undefined ? (
+                    <div className="m-3 flex items-start gap-1.5 text-xs text-red-600 bg-red-50 border border-red-100 rounded p-2 break-words">
+                      <AlertCircle size={12} className="shrink-0 mt-0.5" />
+                      <span>{result.error}</span>
+                    </div>
+                  ) : (
+                    <CodeEditor language={OUTPUT_LANGUAGES[escape]} value={result.output || ''} onChange={() => {}} readOnly />
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex justify-end gap-3 bg-white flex-shrink-0">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import React from 'react';
+import { VariableScenario } from '../../lib/types';
+import { Users } from 'lucide-react';
+
+interface ScenarioSwitcherProps {
+  scenarios: VariableScenario[];
+  activeScenarioId: string;
+  onChange: (id: string) => void;
+}
+
+// Global dataset picker; switching re-renders the active editor with that scenario's variables
+export const ScenarioSwitcher: React.FC<ScenarioSwitcherProps> = ({ scenarios, activeScenarioId, onChange }) => (
+  <label className="flex items-center gap-2 text-xs font-medium text-slate-500" title="Variable scenario">
+    <Users size={16} className="text-slate-400" />
+    <select
+      value={activeScenarioId}
+      onChange={e => onChange(e.target.value)}
+      className="bg-slate-100 border border-slate-200 rounded-md px-2 py-1.5 text-sm text-slate-700 focus:outline-none focus:border-teal-500 focus:ring-1 focus:ring-teal-500/20 max-w-[12rem]"
+    >
+      {scenarios.map(scenario => (
+        <option key={scenario.id} value={scenario.id}>{scenario.name}</option>
+      ))}
+    </select>
+  </label>
+);
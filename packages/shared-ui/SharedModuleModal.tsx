@@ -0,0 +1,135 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Save, Play, AlertCircle, CheckCircle2, Loader2, Package } from 'lucide-react';
+import { CodeEditor } from './CodeEditor';
+import { executeScriptInSandbox } from '../../lib/sandbox-client';
+import { sharedModuleExports } from '../../lib/sandbox';
+import { FUNCTION_LIBRARY_GROUPS } from '../../lib/function-library';
+
+interface SharedModuleModalProps {
+  isOpen: boolean;
+  initialCode: string;
+  onClose: () => void;
+  onSave: (code: string) => void;
+}
+
+export const SharedModuleModal: React.FC<SharedModuleModalProps> = ({
+  isOpen,
+  initialCode,
+  onClose,
+  onSave,
+}) => {
+  const [code, setCode] = useState('');
+  const [checkResult, setCheckResult] = useState<{ ok: boolean; message: string } | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setCode(initialCode);
+      setCheckResult(null);
+    }
+  }, [isOpen, initialCode]);
+
+  const exportedNames = useMemo(() => sharedModuleExports(code), [code]);
+
+  if (!isOpen) return null;
+
+  const handleSave = () => {
+    onSave(code);
+    onClose();
+  };
+
+  // Loads the module in the worker sandbox, where a broken module fails every run
+  const handleCheck = async () => {
+    setIsChecking(true);
+    try {
+      const result = await executeScriptInSandbox('return null;', {}, [], { sharedModule: code });
+      setCheckResult(result.error
+        ? { ok: false, message: result.error }
+        : { ok: true, message: exportedNames.length > 0 ? `Loaded, exports ${exportedNames.join(', ')}` : 'Loaded, but nothing is exported' });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-6xl flex flex-col h-[85vh] border border-slate-200 overflow-hidden">
+
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 bg-white flex-shrink-0">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800">Shared Module</h2>
+            <p className="text-sm text-slate-400">Code shared by every user function and script; exported names are in scope everywhere</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Left: Editor */}
+          <div className="flex-1 flex flex-col min-h-0 bg-slate-50 p-6 gap-4 border-r border-slate-200">
+            <div className="flex-1 flex flex-col min-h-0">
+              <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-1.5">Module (JavaScript, use export const / function)</label>
+              <div className="flex-1 border border-slate-300 rounded-lg overflow-hidden relative">
+                <CodeEditor
+                  language="javascript"
+                  value={code}
+                  onChange={(val) => setCode(val || '')}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center gap-3 flex-shrink-0">
+              <button
+                onClick={handleCheck}
+                disabled={isChecking}
+                className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-900 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+              >
+                {isChecking ? <Loader2 size={14} className="animate-spin" /> : <Play size={14} />} Check Module
+              </button>
+              {checkResult && (
+                <div className={`flex items-start gap-2 text-sm font-mono min-w-0 ${checkResult.ok ? 'text-teal-700' : 'text-red-700'}`}>
+                  {checkResult.ok ? <CheckCircle2 size={16} className="shrink-0 mt-0.5" /> : <AlertCircle size={16} className="shrink-0 mt-0.5" />}
+                  <span className="break-all">{checkResult.message}</span>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Right: Library Reference */}
+          <div className="w-[350px] flex flex-col min-h-0 bg-white p-6 gap-4 overflow-hidden flex-shrink-0">
+            <div className="flex items-center gap-2 text-slate-800 font-bold border-b border-slate-100 pb-2">
+              <Package size={16} className="text-teal-600" />
+              Utility Library
+            </div>
+            <div className="flex-1 overflow-y-auto pr-1 space-y-4">
+              {FUNCTION_LIBRARY_GROUPS.map(group => (
+                <div key={group.id}>
+                  <div className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">{group.title}</div>
+                  <div className="space-y-1.5">
+                    {group.helpers.map(helper => (
+                      <div key={helper.name} className="p-2 bg-slate-50 rounded border border-slate-100" title={helper.example}>
+                        <div className="font-mono text-xs text-teal-700 font-semibold break-all">{helper.signature}</div>
+                        <div className="text-[10px] text-slate-500 leading-tight mt-0.5">{helper.desc}</div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex justify-end gap-3 bg-white flex-shrink-0">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors">
+            Cancel
+          </button>
+          <button onClick={handleSave} className="flex items-center gap-2 px-6 py-2 bg-teal-600 hover:bg-teal-700 text-white rounded-lg text-sm font-medium shadow-sm shadow-teal-600/20 transition-all">
+            <Save size={16} />
+            Save Module
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
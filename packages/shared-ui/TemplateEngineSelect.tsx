@@ -0,0 +1,28 @@
+import React from 'react';
+import { TemplateEngine } from '../../lib/types';
+import { TEMPLATE_ENGINES, engineLabel } from '../../lib/template-engines';
+
+interface TemplateEngineSelectProps {
+  value?: TemplateEngine; // Defaults to Handlebars
+  // Without a handler the engine is only shown
+  onChange?: (engine: TemplateEngine) => void;
+}
+
+export const TemplateEngineSelect: React.FC<TemplateEngineSelectProps> = ({ value, onChange }) => {
+  if (!onChange) {
+    return <span className="text-teal-600 font-mono text-[10px]">{engineLabel(value)}</span>;
+  }
+
+  return (
+    <select
+      value={value ?? 'handlebars'}
+      onChange={(e) => onChange(e.target.value as TemplateEngine)}
+      className="text-teal-600 font-mono text-[10px] bg-transparent border border-transparent hover:border-slate-200 rounded px-0.5 cursor-pointer outline-none focus:border-teal-400"
+      title={TEMPLATE_ENGINES.find(e => e.id === (value ?? 'handlebars'))?.description}
+    >
+      {TEMPLATE_ENGINES.map(engine => (
+        <option key={engine.id} value={engine.id}>{engine.label}</option>
+      ))}
+    </select>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useState, useMemo } from 'react';
+import { EscapeMode, UserFunction } from '../../lib/types';
+import { EXPORT_TARGETS, ExportTarget, ExportWarning, exportTemplate } from '../../lib/template-export';
+import { X, AlertTriangle, AlertCircle, Copy, Check, Download } from 'lucide-react';
+import { CodeEditor, CodeEditorProps } from './CodeEditor';
+
+interface TemplateExportModalProps {
+  isOpen: boolean;
+  template: string;
+  escape: EscapeMode;
+  functions: UserFunction[];
+  // Highlighting of the converted template, usually the source editor's language
+  language: CodeEditorProps['language'];
+  // File name without extension for the download
+  fileName?: string;
+  onSelectWarning?: (warning: ExportWarning) => void;
+  onClose: () => void;
+}
+
+export const TemplateExportModal: React.FC<TemplateExportModalProps> = ({
+  isOpen,
+  template,
+  escape,
+  functions,
+  language,
+  fileName = 'template',
+  onSelectWarning,
+  onClose
+}) => {
+  const [target, setTarget] = useState<ExportTarget>('jinja2');
+  const [copied, setCopied] = useState(false);
+
+  const result = useMemo(
+    () => (isOpen ? exportTemplate(template, target, { escape, functions }) : undefined),
+    [isOpen, template, target, escape, functions]
+  );
+
+  if (!isOpen || !result) return null;
+
+  const extension = EXPORT_TARGETS.find(t => t.id === target)!.extension;
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(result.output);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([result.output], { type: 'text/plain' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${fileName}.${extension}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl flex flex-col h-[85vh] border border-slate-200 overflow-hidden">
+
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 bg-white flex-shrink-0">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800">Export Template</h2>
+            <p className="text-sm text-slate-400">The Handlebars template converted for a backend template engine</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 bg-slate-50 p-6 flex flex-col gap-3">
+          <div className="flex items-center gap-1 flex-shrink-0">
+            {EXPORT_TARGETS.map(t => (
+              <button
+                key={t.id}
+                onClick={() => setTarget(t.id)}
+                className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+                  target === t.id ? 'bg-teal-600 text-white' : 'text-slate-600 hover:bg-slate-200'
+                }`}
+              >
+                {t.label}
+              </button>
+            ))}
+          </div>
+
+          {result.error !== undefined ? (
+            <div className="flex items-start gap-1.5 text-xs text-red-600 bg-red-50 border border-red-100 rounded p-2 break-words">
+              <AlertCircle size={12} className="shrink-0 mt-0.5" />
+              <span>The template does not parse: {result.error}</span>
+            </div>
+          ) : (
+            <div className="flex-1 min-h-0 bg-white border border-slate-200 rounded-lg overflow-hidden">
+              <CodeEditor language={language} value={result.output} onChange={() => {}} readOnly />
+            </div>
+          )}
+
+          {result.warnings.length > 0 && (
+            <div className="max-h-40 overflow-y-auto bg-white border border-amber-200 rounded-lg divide-y divide-slate-50 flex-shrink-0">
+              {result.warnings.map((warning, i) => (
+                <button
+                  key={`${warning.line}:${warning.column}:${i}`}
+                  onClick={() => onSelectWarning?.(warning)}
+                  className="w-full text-left px-3 py-1.5 flex items-start gap-2 text-xs hover:bg-slate-50 transition-colors"
+                  title="Go to position"
+                >
+                  <AlertTriangle size={12} className="text-amber-500 shrink-0 mt-0.5" />
+                  <span className="flex-1 text-slate-700 break-words">{warning.message}</span>
+                  <span className="font-mono text-[10px] text-slate-400 shrink-0 mt-0.5">Ln {warning.line}, Col {warning.column}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex justify-end gap-3 bg-white flex-shrink-0">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors">
+            Close
+          </button>
+          <button
+            onClick={handleCopy}
+            disabled={result.error !== undefined}
+            className="px-4 py-2 text-sm font-medium text-slate-700 border border-slate-200 hover:bg-slate-50 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            {copied ? <Check size={14} /> : <Copy size={14} />} Copy
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={result.error !== undefined}
+            className="px-4 py-2 text-sm font-medium text-white bg-teal-600 hover:bg-teal-700 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            <Download size={14} /> Download .{extension}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { TemplateIssue } from '../../lib/types';
+import { AlertTriangle, XCircle, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface TemplateIssuesPanelProps {
+  issues: TemplateIssue[];
+  onSelect?: (issue: TemplateIssue) => void;
+}
+
+export const TemplateIssuesPanel: React.FC<TemplateIssuesPanelProps> = ({ issues = [], onSelect }) => {
+  const [isOpen, setIsOpen] = useState(true);
+
+  if (issues.length === 0) return null;
+
+  const errorCount = issues.filter(i => i.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+
+  return (
+    <div className="mt-2 bg-white border border-slate-200 rounded-lg shadow-sm overflow-hidden flex-shrink-0">
+      <div
+        className="px-3 py-1.5 flex items-center justify-between cursor-pointer hover:bg-slate-50 select-none"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <div className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase tracking-wider">
+          {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+          <span>Problems</span>
+        </div>
+        <div className="flex items-center gap-3 text-[10px] font-bold">
+          {errorCount > 0 && (
+            <span className="flex items-center gap-1 text-red-600">
+              <XCircle size={12} /> {errorCount}
+            </span>
+          )}
+          {warningCount > 0 && (
+            <span className="flex items-center gap-1 text-amber-600">
+              <AlertTriangle size={12} /> {warningCount}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className="max-h-32 overflow-y-auto border-t border-slate-100 divide-y divide-slate-50">
+          {issues.map((issue, i) => (
+            <button
+              key={`${issue.line}:${issue.column}:${i}`}
+              onClick={() => onSelect?.(issue)}
+              className="w-full text-left px-3 py-1.5 flex items-start gap-2 text-xs hover:bg-slate-50 transition-colors"
+              title="Go to position"
+            >
+              {issue.severity === 'error'
+                ? <XCircle size={12} className="text-red-500 shrink-0 mt-0.5" />
+                : <AlertTriangle size={12} className="text-amber-500 shrink-0 mt-0.5" />}
+              <span className="flex-1 text-slate-700 break-words">{issue.message}</span>
+              <span className="font-mono text-[10px] text-slate-400 shrink-0 mt-0.5">Ln {issue.line}, Col {issue.column}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,202 @@
+import React, { useState, useEffect } from 'react';
+import { TemplateTestCase, TemplateAssertion, TemplateAssertionKind } from '../../lib/types';
+import { ASSERTION_LABELS, ASSERTIONS_WITH_EXPECTED } from '../../lib/template-tests';
+import { X, Save, Plus, Trash2, AlertCircle } from 'lucide-react';
+import { CodeEditor } from './CodeEditor';
+
+interface TestCaseEditorModalProps {
+  isOpen: boolean;
+  initialTest?: TemplateTestCase;
+  // Fixture for new tests, usually the shared variables
+  defaultVariablesJson: string;
+  onClose: () => void;
+  onSave: (test: TemplateTestCase) => void;
+}
+
+const ASSERTION_KINDS = Object.keys(ASSERTION_LABELS) as TemplateAssertionKind[];
+
+export const TestCaseEditorModal: React.FC<TestCaseEditorModalProps> = ({
+  isOpen,
+  initialTest,
+  defaultVariablesJson,
+  onClose,
+  onSave,
+}) => {
+  const [name, setName] = useState('');
+  const [variablesJson, setVariablesJson] = useState('{}');
+  const [useSnapshot, setUseSnapshot] = useState(false);
+  const [expectedOutput, setExpectedOutput] = useState('');
+  const [assertions, setAssertions] = useState<TemplateAssertion[]>([]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(initialTest?.name || 'New test');
+      setVariablesJson(initialTest?.variablesJson ?? defaultVariablesJson);
+      setUseSnapshot(initialTest?.expectedOutput !== undefined);
+      setExpectedOutput(initialTest?.expectedOutput || '');
+      setAssertions(initialTest?.assertions || []);
+    }
+  }, [isOpen, initialTest, defaultVariablesJson]);
+
+  if (!isOpen) return null;
+
+  let fixtureError: string | null = null;
+  try {
+    JSON.parse(variablesJson);
+  } catch (e: any) {
+    fixtureError = e.message;
+  }
+
+  const updateAssertion = (id: string, changes: Partial<TemplateAssertion>) => {
+    setAssertions(prev => prev.map(a => (a.id === id ? { ...a, ...changes } : a)));
+  };
+
+  const addAssertion = () => {
+    setAssertions(prev => [...prev, { id: Date.now().toString(), kind: 'contains', expected: '' }]);
+  };
+
+  const handleSave = () => {
+    if (fixtureError || !name.trim()) return;
+    onSave({
+      id: initialTest?.id || Date.now().toString(),
+      name: name.trim(),
+      variablesJson,
+      expectedOutput: useSnapshot ? expectedOutput : undefined,
+      // Drop values that the assertion kind does not use
+      assertions: assertions.map(a => ({
+        id: a.id,
+        kind: a.kind,
+        path: a.kind === 'json-path-equals' ? a.path || '$' : undefined,
+        expected: ASSERTIONS_WITH_EXPECTED.includes(a.kind) ? a.expected || '' : undefined
+      }))
+    });
+    onClose();
+  };
+
+  const inputClass = "w-full bg-white border border-slate-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-teal-500 focus:ring-1 focus:ring-teal-500/20 text-slate-800";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-5xl flex flex-col h-[85vh] border border-slate-200 overflow-hidden">
+
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 bg-white flex-shrink-0">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800">{initialTest ? 'Edit Test' : 'New Test'}</h2>
+            <p className="text-sm text-slate-400">Renders the template with this fixture and checks the output</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex flex-col min-h-0 bg-slate-50 p-6 gap-4 overflow-y-auto">
+          <div className="flex-shrink-0">
+            <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-1.5">Test Name</label>
+            <input className={inputClass} value={name} onChange={e => setName(e.target.value)} placeholder="Renders the premium variant" />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 flex-shrink-0 h-72">
+            <div className="flex flex-col min-h-0">
+              <label className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center justify-between mb-1.5">
+                <span>Variables Fixture (JSON)</span>
+                {fixtureError && (
+                  <span className="flex items-center gap-1 text-[10px] text-red-600 normal-case tracking-normal font-medium">
+                    <AlertCircle size={12} /> Invalid JSON
+                  </span>
+                )}
+              </label>
+              <div className="flex-1 min-h-0">
+                <CodeEditor language="json" value={variablesJson} onChange={val => setVariablesJson(val || '')} />
+              </div>
+            </div>
+            <div className="flex flex-col min-h-0">
+              <label className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2 mb-1.5 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={useSnapshot}
+                  onChange={e => setUseSnapshot(e.target.checked)}
+                  className="accent-teal-600"
+                />
+                <span>Expected Output (Snapshot)</span>
+              </label>
+              <div className={`flex-1 min-h-0 ${useSnapshot ? '' : 'opacity-40 pointer-events-none'}`}>
+                <CodeEditor language="text" value={expectedOutput} onChange={val => setExpectedOutput(val || '')} />
+              </div>
+            </div>
+          </div>
+
+          <div className="flex-shrink-0">
+            <div className="flex items-center justify-between mb-1.5">
+              <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">Assertions</label>
+              <button
+                onClick={addAssertion}
+                className="text-xs flex items-center gap-1 text-teal-600 hover:text-teal-700 hover:bg-teal-50 px-2 py-1 rounded font-medium transition-colors"
+              >
+                <Plus size={12} /> Add Assertion
+              </button>
+            </div>
+            <div className="space-y-2">
+              {assertions.map(assertion => (
+                <div key={assertion.id} className="flex items-center gap-2 bg-white border border-slate-200 rounded-lg p-2">
+                  <select
+                    className="bg-white border border-slate-300 rounded-lg px-2 py-1.5 text-sm text-slate-700 focus:outline-none focus:border-teal-500"
+                    value={assertion.kind}
+                    onChange={e => updateAssertion(assertion.id, { kind: e.target.value as TemplateAssertionKind })}
+                  >
+                    {ASSERTION_KINDS.map(kind => (
+                      <option key={kind} value={kind}>{ASSERTION_LABELS[kind]}</option>
+                    ))}
+                  </select>
+                  {assertion.kind === 'json-path-equals' && (
+                    <input
+                      className={`${inputClass} font-mono !w-56`}
+                      value={assertion.path || ''}
+                      onChange={e => updateAssertion(assertion.id, { path: e.target.value })}
+                      placeholder="$.order.items[0].sku"
+                    />
+                  )}
+                  {ASSERTIONS_WITH_EXPECTED.includes(assertion.kind) ? (
+                    <input
+                      className={`${inputClass} font-mono`}
+                      value={assertion.expected || ''}
+                      onChange={e => updateAssertion(assertion.id, { expected: e.target.value })}
+                      placeholder={assertion.kind === 'json-path-equals' ? 'JSON value, e.g. "MK-850" or 2' : assertion.kind === 'matches' ? 'Regular expression' : 'Text'}
+                    />
+                  ) : (
+                    <div className="flex-1 text-xs text-slate-400">Checks that the output parses</div>
+                  )}
+                  <button
+                    onClick={() => setAssertions(prev => prev.filter(a => a.id !== assertion.id))}
+                    className="p-1.5 hover:bg-red-50 rounded text-slate-400 hover:text-red-600 transition-colors"
+                    title="Remove Assertion"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+              {assertions.length === 0 && (
+                <div className="text-center p-4 text-slate-400 text-xs border-2 border-dashed border-slate-200 rounded-lg">
+                  No assertions. The test only checks the snapshot, or that the template renders.
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex justify-end gap-3 bg-white flex-shrink-0">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!!fixtureError || !name.trim()}
+            className="flex items-center gap-2 px-6 py-2 bg-teal-600 hover:bg-teal-700 text-white rounded-lg text-sm font-medium shadow-sm shadow-teal-600/20 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save size={16} />
+            Save Test
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,247 @@
+import React, { useState, useEffect } from 'react';
+import { TemplateTestCase, TemplateTestResult, UserFunction, TemplatePartial, EscapeMode, TemplateEngine } from '../../lib/types';
+import { renderInSandbox, isSandboxAbort } from '../../lib/sandbox-client';
+import { EMPTY_SCOPE } from '../../lib/environments';
+import { evaluateTemplateTest, fixtureContext, describeAssertion } from '../../lib/template-tests';
+import { Plus, Trash2, Edit2, CheckCircle2, XCircle, Loader2, Play, ChevronDown, ChevronRight, Camera } from 'lucide-react';
+import { TestCaseEditorModal } from './TestCaseEditorModal';
+
+interface TestsPanelProps {
+  tests: TemplateTestCase[];
+  onUpdateTests: (tests: TemplateTestCase[]) => void;
+  template: string;
+  escape: EscapeMode;
+  engine?: TemplateEngine;
+  functions: UserFunction[];
+  sharedModule?: string;
+  partials?: TemplatePartial[];
+  // Fixtures see these vault secrets masked; the environment does not apply to them
+  secretNames?: string[];
+  // Merged over every fixture, e.g. hosted images
+  context?: Record<string, any>;
+  variablesJson: string;
+}
+
+const NO_SECRETS: string[] = [];
+
+export const TestsPanel: React.FC<TestsPanelProps> = ({
+  tests = [],
+  onUpdateTests,
+  template,
+  escape,
+  engine,
+  functions = [],
+  sharedModule,
+  partials = [],
+  secretNames = NO_SECRETS,
+  context,
+  variablesJson
+}) => {
+  const [results, setResults] = useState<Record<string, TemplateTestResult>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const [runCount, setRunCount] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingTest, setEditingTest] = useState<TemplateTestCase | undefined>(undefined);
+
+  // Re-run whenever the template or its inputs change, like the previews do
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsRunning(true);
+
+    const run = async () => {
+      const next: Record<string, TemplateTestResult> = {};
+      for (const test of tests) {
+        try {
+          const outcome = await renderInSandbox(template, fixtureContext(test, context), functions, {
+            signal: controller.signal,
+            escape,
+            partials,
+            engine,
+            sharedModule,
+            scope: { ...EMPTY_SCOPE, secretNames }
+          });
+          next[test.id] = evaluateTemplateTest(test, outcome);
+        } catch (e: any) {
+          if (isSandboxAbort(e)) throw e;
+          // Invalid fixture or sandbox timeout
+          next[test.id] = evaluateTemplateTest(test, { error: e.message });
+        }
+      }
+      setResults(next);
+      setIsRunning(false);
+    };
+
+    run().catch((e: any) => {
+      if (!isSandboxAbort(e)) setIsRunning(false);
+    });
+    return () => controller.abort();
+  }, [template, tests, functions, sharedModule, partials, secretNames, escape, engine, context, runCount]);
+
+  const handleSave = (test: TemplateTestCase) => {
+    const exists = tests.some(t => t.id === test.id);
+    onUpdateTests(exists ? tests.map(t => (t.id === test.id ? test : t)) : [...tests, test]);
+  };
+
+  const handleEdit = (test: TemplateTestCase, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setEditingTest(test);
+    setIsModalOpen(true);
+  };
+
+  const handleCreate = () => {
+    setEditingTest(undefined);
+    setIsModalOpen(true);
+  };
+
+  const deleteTest = (id: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    onUpdateTests(tests.filter(t => t.id !== id));
+  };
+
+  // Accepts the current output as the new snapshot
+  const acceptSnapshot = (test: TemplateTestCase, output: string) => {
+    onUpdateTests(tests.map(t => (t.id === test.id ? { ...t, expectedOutput: output } : t)));
+  };
+
+  const passedCount = tests.filter(t => results[t.id]?.passed).length;
+  const failedCount = tests.filter(t => results[t.id] && !results[t.id].passed).length;
+
+  return (
+    <div className="flex flex-col h-full bg-slate-50/30 relative group">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-slate-100 bg-white flex-shrink-0">
+        <div className="flex items-center gap-3 text-xs font-bold">
+          <span className="flex items-center gap-1 text-emerald-600"><CheckCircle2 size={12} /> {passedCount}</span>
+          <span className="flex items-center gap-1 text-red-600"><XCircle size={12} /> {failedCount}</span>
+          {isRunning && <Loader2 size={12} className="animate-spin text-slate-400" />}
+        </div>
+        <button
+          onClick={() => setRunCount(c => c + 1)}
+          disabled={isRunning || tests.length === 0}
+          className="text-xs flex items-center gap-1 text-teal-600 hover:text-teal-700 hover:bg-teal-50 px-2 py-1 rounded font-medium transition-colors disabled:opacity-50"
+          title="Run all tests"
+        >
+          <Play size={12} /> Run
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3 pb-20">
+        {tests.map(test => {
+          const result = results[test.id];
+          const isExpanded = expandedId === test.id;
+          return (
+            <div
+              key={test.id}
+              className={`bg-white rounded-xl border shadow-sm transition-all group/card relative ${result && !result.passed ? 'border-red-200' : 'border-slate-200'}`}
+            >
+              <div
+                className="p-3 flex items-start gap-2 cursor-pointer select-none"
+                onClick={() => setExpandedId(isExpanded ? null : test.id)}
+              >
+                {!result
+                  ? <Loader2 size={14} className="animate-spin text-slate-300 shrink-0 mt-0.5" />
+                  : result.passed
+                    ? <CheckCircle2 size={14} className="text-emerald-500 shrink-0 mt-0.5" />
+                    : <XCircle size={14} className="text-red-500 shrink-0 mt-0.5" />}
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-semibold text-slate-700 truncate pr-12">{test.name}</div>
+                  <div className="text-[10px] text-slate-400">
+                    {test.expectedOutput !== undefined ? 'Snapshot' : 'No snapshot'} · {test.assertions.length} assertion{test.assertions.length === 1 ? '' : 's'}
+                  </div>
+                </div>
+                {isExpanded ? <ChevronDown size={14} className="text-slate-400 shrink-0" /> : <ChevronRight size={14} className="text-slate-400 shrink-0" />}
+              </div>
+
+              <div className="absolute top-2 right-7 flex items-center gap-1 opacity-0 group-hover/card:opacity-100 transition-opacity">
+                <button
+                  onClick={(e) => handleEdit(test, e)}
+                  className="p-1.5 hover:bg-teal-50 rounded text-slate-400 hover:text-teal-600 transition-colors"
+                  title="Edit Test"
+                >
+                  <Edit2 size={14} />
+                </button>
+                <button
+                  onClick={(e) => deleteTest(test.id, e)}
+                  className="p-1.5 hover:bg-red-50 rounded text-slate-400 hover:text-red-600 transition-colors"
+                  title="Delete Test"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+
+              {isExpanded && result && (
+                <div className="border-t border-slate-100 p-3 space-y-2 text-xs">
+                  {result.error && (
+                    <div className="text-red-600 bg-red-50 border border-red-100 rounded p-2 break-words">{result.error}</div>
+                  )}
+                  {result.failures.map((failure, i) => (
+                    <div key={i} className="flex items-start gap-1.5 text-red-600">
+                      <XCircle size={12} className="shrink-0 mt-0.5" />
+                      <span className="break-words">{failure}</span>
+                    </div>
+                  ))}
+                  {test.assertions.length > 0 && result.passed && (
+                    <ul className="text-slate-500 space-y-0.5">
+                      {test.assertions.map(a => (
+                        <li key={a.id} className="flex items-center gap-1.5 font-mono text-[11px]">
+                          <CheckCircle2 size={11} className="text-emerald-500 shrink-0" /> {describeAssertion(a)}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {result.diff && (
+                    <pre className="font-mono text-[11px] bg-slate-50 border border-slate-100 rounded max-h-64 overflow-auto">
+                      {result.diff.map((line, i) => (
+                        <div
+                          key={i}
+                          className={`px-2 whitespace-pre ${line.type === 'added' ? 'bg-emerald-50 text-emerald-700' : line.type === 'removed' ? 'bg-red-50 text-red-700' : 'text-slate-500'}`}
+                        >
+                          {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+                        </div>
+                      ))}
+                    </pre>
+                  )}
+
+                  {result.output !== undefined && (result.diff || test.expectedOutput === undefined) && (
+                    <button
+                      onClick={() => acceptSnapshot(test, result.output!)}
+                      className="flex items-center gap-1 text-[11px] text-teal-600 hover:text-teal-700 hover:bg-teal-50 px-2 py-1 rounded font-medium transition-colors"
+                    >
+                      <Camera size={12} /> {test.expectedOutput === undefined ? 'Save output as snapshot' : 'Accept output as new snapshot'}
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {tests.length === 0 && (
+          <div className="text-center p-8 text-slate-400 text-sm border-2 border-dashed border-slate-200 rounded-xl">
+            No tests for this template.<br/>Add one to check its output against a fixture.
+          </div>
+        )}
+      </div>
+
+      {/* Floating Action Button */}
+      <div className="absolute bottom-6 left-0 right-0 flex justify-center z-10 pointer-events-none">
+        <button
+          onClick={handleCreate}
+          className="pointer-events-auto flex items-center gap-2 px-4 py-2.5 bg-teal-600 hover:bg-teal-700 text-white rounded-full shadow-lg shadow-teal-600/30 transition-all transform hover:scale-105 active:scale-95 font-bold text-sm"
+        >
+          <Plus size={16} />
+          <span>Add Test</span>
+        </button>
+      </div>
+
+      <TestCaseEditorModal
+        isOpen={isModalOpen}
+        initialTest={editingTest}
+        defaultVariablesJson={variablesJson}
+        onSave={handleSave}
+        onClose={() => setIsModalOpen(false)}
+      />
+    </div>
+  );
+};
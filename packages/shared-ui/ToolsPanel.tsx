@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { UserFunction, EditorType, SqlDialect, EmailSnippetGroup, SqlLibrary, XmlSnippetGroup, HostImage } from '../../lib/types';
-import { Braces, Code2, PanelRightClose, PanelRightOpen, Edit2, AlertTriangle, Plus, Layout, FileCode, Sparkles, Image as ImageIcon } from 'lucide-react';
+import { UserFunction, EditorType, SqlDialect, EmailSnippetGroup, SqlLibrary, XmlSnippetGroup, HostImage, TemplatePartial, TemplateTestCase, EscapeMode, TemplateEngine, VariableScenario, WorkspaceScope } from '../../lib/types';
+import { Braces, Code2, PanelRightClose, PanelRightOpen, Edit2, AlertTriangle, Plus, Layout, FileCode, Sparkles, Puzzle, FlaskConical, Image as ImageIcon } from 'lucide-react';
 import { VariableTree } from './VariableTree';
 import { FunctionPanel } from './FunctionPanel';
 import { SqlFunctionPanel } from '../db-query-editor/SqlFunctionPanel';
@@ -10,12 +10,27 @@ import { ImageGalleryPanel } from '../html-editor/ImageGalleryPanel';
 import { AiChatPanel, ChatMessage } from './AiChatPanel';
 import { VariablesEditorModal } from './VariablesEditorModal';
 import { FunctionEditorModal } from './FunctionEditorModal';
+import { PartialsPanel } from './PartialsPanel';
+import { PartialEditorModal } from './PartialEditorModal';
+import { TestsPanel } from './TestsPanel';
+import { ScenarioBar } from './ScenarioBar';
+import { parseSchema, validateAgainstSchema } from '../../lib/json-schema';
+import { ScenarioCompareModal } from './ScenarioCompareModal';
+import { EMPTY_SCOPE } from '../../lib/environments';
 
 interface ToolsPanelProps {
   variablesJson: string;
   onVariablesChange: (json: string) => void;
+  // Optional JSON Schema describing the variables
+  variablesSchema?: string;
+  onVariablesSchemaChange?: (schema: string) => void;
   functions: UserFunction[];
-  onFunctionsChange: (funcs: UserFunction[]) => void;
+  onFunctionsChange: (funcs: React.SetStateAction<UserFunction[]>) => void;
+  // Workspace module shared by all functions and scripts
+  sharedModule?: string;
+  onSharedModuleChange?: (code: string) => void;
+  // The active environment and the vault, for scenario comparisons and tests
+  scope?: WorkspaceScope;
   activeEditorType?: EditorType;
   
   // SQL specific
@@ -32,6 +47,26 @@ interface ToolsPanelProps {
   xmlBlockGroups?: XmlSnippetGroup[];
 
   missingFunctions?: string[];
+
+  // Partials (workspace-wide template fragments)
+  partials?: TemplatePartial[];
+  onPartialsChange?: (partials: TemplatePartial[]) => void;
+  missingPartials?: string[];
+
+  // Template tests of the active editor, rendered like its preview
+  tests?: TemplateTestCase[];
+  onTestsChange?: (tests: TemplateTestCase[]) => void;
+  template?: string;
+  escapeMode?: EscapeMode;
+  // Also decides how functions are inserted
+  templateEngine?: TemplateEngine;
+  templateContext?: Record<string, any>;
+
+  // Named variable datasets; variablesJson is the active one
+  scenarios?: VariableScenario[];
+  activeScenarioId?: string;
+  onScenariosChange?: (scenarios: VariableScenario[]) => void;
+  onActiveScenarioChange?: (id: string) => void;
   
   // Insertion Handler (Appends to cursor)
   onInsert?: (text: string) => void;
@@ -48,6 +83,8 @@ interface ToolsPanelProps {
   // Visibility Controls
   showVariables?: boolean;
   showFunctions?: boolean;
+  showPartials?: boolean;
+  showTests?: boolean;
   showBlocks?: boolean;
   showImages?: boolean;
   showChat?: boolean;
@@ -56,8 +93,13 @@ interface ToolsPanelProps {
 export const ToolsPanel: React.FC<ToolsPanelProps> = ({
   variablesJson = '{}',
   onVariablesChange,
+  variablesSchema = '',
+  onVariablesSchemaChange,
   functions = [],
   onFunctionsChange,
+  sharedModule = '',
+  onSharedModuleChange,
+  scope = EMPTY_SCOPE,
   activeEditorType,
   sqlDialect,
   sqlLibrary,
@@ -67,12 +109,27 @@ export const ToolsPanel: React.FC<ToolsPanelProps> = ({
   onDeleteImage,
   xmlBlockGroups,
   missingFunctions = [],
+  partials = [],
+  onPartialsChange,
+  missingPartials = [],
+  tests = [],
+  onTestsChange,
+  template,
+  escapeMode = 'html',
+  templateEngine,
+  templateContext,
+  scenarios = [],
+  activeScenarioId,
+  onScenariosChange,
+  onActiveScenarioChange,
   onInsert,
   onUpdateContent,
   onAiAssist,
   runTrigger,
   showVariables = true,
   showFunctions = true,
+  showPartials = true,
+  showTests = true,
   showBlocks = true,
   showImages = true,
   showChat = true
@@ -81,24 +138,30 @@ export const ToolsPanel: React.FC<ToolsPanelProps> = ({
   const isSqlMode = activeEditorType === EditorType.DB_QUERY;
   const isHtmlMode = activeEditorType === EditorType.EMAIL_HTML;
   const isXmlMode = activeEditorType === EditorType.XML_TEMPLATE;
+  // Partials are only offered to editors that pass the workspace store down
+  const hasPartials = showPartials && !!onPartialsChange;
+  const hasTests = showTests && !!onTestsChange && template !== undefined;
+  const hasScenarios = scenarios.length > 0 && !!onScenariosChange && !!onActiveScenarioChange;
 
   // Determine available tabs based on props and mode
   const availableTabs = useMemo(() => {
     const tabs: string[] = [];
     if (showVariables) tabs.push('variables');
     if (showFunctions) tabs.push('functions');
+    if (hasPartials) tabs.push('partials');
+    if (hasTests) tabs.push('tests');
     if ((isHtmlMode || isXmlMode) && showBlocks) tabs.push('blocks');
     if (isHtmlMode && showImages) tabs.push('images');
     if (showChat) tabs.push('chat');
     return tabs;
-  }, [showVariables, showFunctions, showBlocks, showImages, showChat, isHtmlMode, isXmlMode]);
+  }, [showVariables, showFunctions, hasPartials, hasTests, showBlocks, showImages, showChat, isHtmlMode, isXmlMode]);
 
   // If no tabs are available, don't render the panel
   if (availableTabs.length === 0) {
       return null;
   }
 
-  const [activeTab, setActiveTab] = useState<'variables' | 'functions' | 'blocks' | 'images' | 'chat'>('variables');
+  const [activeTab, setActiveTab] = useState<'variables' | 'functions' | 'partials' | 'tests' | 'blocks' | 'images' | 'chat'>('variables');
   
   // Ensure active tab is valid
   useEffect(() => {
@@ -116,11 +179,15 @@ export const ToolsPanel: React.FC<ToolsPanelProps> = ({
   });
 
   const [isVariableModalOpen, setIsVariableModalOpen] = useState(false);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
   
   // Quick Add Function State
   const [newFuncName, setNewFuncName] = useState<string | undefined>(undefined);
   const [isFuncModalOpen, setIsFuncModalOpen] = useState(false);
 
+  // Quick Add Partial State
+  const [newPartialName, setNewPartialName] = useState<string | undefined>(undefined);
+
   // Chat State
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [isAiLoading, setIsAiLoading] = useState(false);
@@ -143,6 +210,13 @@ export const ToolsPanel: React.FC<ToolsPanelProps> = ({
     }
   }, [variablesJson]);
 
+  const schema = useMemo(() => parseSchema(variablesSchema), [variablesSchema]);
+
+  const schemaErrors = useMemo(
+    () => (schema && !variableError ? validateAgainstSchema(variablesObj, schema) : []),
+    [schema, variablesObj, variableError]
+  );
+
   // Auto-collapse on resize when crossing threshold
   useEffect(() => {
     let prevWidth = window.innerWidth;
@@ -167,6 +241,14 @@ export const ToolsPanel: React.FC<ToolsPanelProps> = ({
     }
   }, [missingFunctions.length, showFunctions]);
 
+  // Same for missing partials
+  useEffect(() => {
+    if (missingPartials.length > 0 && hasPartials) {
+        setActiveTab('partials');
+        setIsCollapsed(false);
+    }
+  }, [missingPartials.length, hasPartials]);
+
   // Handle external run trigger for Agent mode
   useEffect(() => {
     if (runTrigger && runTrigger.message && showChat) {
@@ -224,6 +306,10 @@ export const ToolsPanel: React.FC<ToolsPanelProps> = ({
       onFunctionsChange([...functions, func]);
   };
 
+  const handleSavePartial = (partial: TemplatePartial) => {
+      onPartialsChange?.([...partials, partial]);
+  };
+
   const handleSendMessage = async (text: string) => {
     if (!onAiAssist) return;
 
@@ -286,14 +372,34 @@ export const ToolsPanel: React.FC<ToolsPanelProps> = ({
     if (activeTab === 'variables' && showVariables) {
       return (
         <div className="flex flex-col h-full relative">
+          {hasScenarios && (
+            <ScenarioBar
+              scenarios={scenarios}
+              activeScenarioId={activeScenarioId || scenarios[0].id}
+              onScenariosChange={onScenariosChange!}
+              onActiveScenarioChange={onActiveScenarioChange!}
+              onCompare={template !== undefined ? () => setIsCompareOpen(true) : undefined}
+            />
+          )}
           {variableError && (
             <div className="bg-red-50 border-b border-red-100 p-2 text-xs text-red-600 font-medium break-all">
               Error: {variableError}
             </div>
           )}
+          {schemaErrors.length > 0 && (
+            <button
+              onClick={() => setIsVariableModalOpen(true)}
+              className="bg-amber-50 border-b border-amber-100 p-2 text-xs text-amber-700 font-medium text-left flex items-center gap-1.5 hover:bg-amber-100/60 transition-colors"
+              title={schemaErrors.map(e => `${e.path || '(root)'}: ${e.message}`).join('\n')}
+            >
+              <AlertTriangle size={12} className="shrink-0" />
+              {schemaErrors.length} schema violation{schemaErrors.length === 1 ? '' : 's'} in the variables
+            </button>
+          )}
           <div className="flex-1 overflow-hidden pb-20 pt-2">
             <VariableTree 
               data={variablesObj} 
+              schema={schema}
               editorType={activeEditorType}
               onInsert={onInsert}
             />
@@ -311,6 +417,58 @@ export const ToolsPanel: React.FC<ToolsPanelProps> = ({
       );
     }
 
+    if (activeTab === 'partials' && hasPartials) {
+      return (
+        <div className="flex flex-col h-full">
+          {/* Missing Partials Alert */}
+          {missingPartials.length > 0 && (
+            <div className="bg-amber-50 border-b border-amber-100 p-3 flex flex-col gap-2 animate-in fade-in slide-in-from-top-2">
+              <div className="flex items-center gap-2 text-xs font-bold text-amber-700">
+                <AlertTriangle size={14} />
+                <span>Missing Partials Detected</span>
+              </div>
+              <div className="space-y-1">
+                {missingPartials.map(name => (
+                  <div key={name} className="flex items-center justify-between bg-white border border-amber-200 rounded px-2 py-1">
+                    <span className="text-xs font-mono text-amber-800">{name}</span>
+                    <button 
+                      onClick={() => setNewPartialName(name)}
+                      className="text-[10px] flex items-center gap-1 bg-amber-100 hover:bg-amber-200 text-amber-800 px-1.5 py-0.5 rounded font-medium transition-colors"
+                    >
+                      <Plus size={10} /> Add
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          <PartialsPanel
+            partials={partials}
+            onUpdatePartials={onPartialsChange!}
+            onInsert={onInsert}
+          />
+        </div>
+      );
+    }
+
+    if (activeTab === 'tests' && hasTests) {
+      return (
+        <TestsPanel
+          tests={tests}
+          onUpdateTests={onTestsChange!}
+          template={template!}
+          escape={escapeMode}
+          engine={templateEngine}
+          functions={functions}
+          sharedModule={sharedModule}
+          partials={partials}
+          secretNames={scope.secretNames}
+          context={templateContext}
+          variablesJson={variablesJson}
+        />
+      );
+    }
+
     if (activeTab === 'blocks' && ((isXmlMode || isHtmlMode) && showBlocks)) {
         if (isXmlMode) {
           return <XmlToolboxPanel snippetGroups={xmlBlockGroups} onInsert={onInsert} />;
@@ -362,7 +520,10 @@ export const ToolsPanel: React.FC<ToolsPanelProps> = ({
           <FunctionPanel 
             functions={functions} 
             onUpdateFunctions={onFunctionsChange}
+            sharedModule={sharedModule}
+            onSharedModuleChange={onSharedModuleChange}
             activeEditorType={activeEditorType} 
+            templateEngine={templateEngine}
             onInsert={onInsert}
           />
         </div>
@@ -411,8 +572,10 @@ export const ToolsPanel: React.FC<ToolsPanelProps> = ({
             
             {!isCollapsed && (
             <div className="flex flex-1">
-                {showVariables && <TabButton id="variables" icon={<Braces size={16} />} label="Variables" />}
+                {showVariables && <TabButton id="variables" icon={<Braces size={16} />} label="Variables" badgeCount={schemaErrors.length} />}
                 {showFunctions && <TabButton id="functions" icon={<Code2 size={16} />} label={isSqlMode ? 'SQL Functions' : 'User Functions'} badgeCount={missingFunctions.length} />}
+                {hasPartials && <TabButton id="partials" icon={<Puzzle size={16} />} label="Partials" badgeCount={missingPartials.length} />}
+                {hasTests && <TabButton id="tests" icon={<FlaskConical size={16} />} label="Tests" />}
                 {((isHtmlMode || isXmlMode) && showBlocks) && (
                      <TabButton id="blocks" icon={isXmlMode ? <FileCode size={16} /> : <Layout size={16} />} label="Building Blocks" />
                 )}
@@ -456,6 +619,27 @@ export const ToolsPanel: React.FC<ToolsPanelProps> = ({
                         )}
                     </button>
                 )}
+                {hasPartials && (
+                    <button 
+                        onClick={() => { setIsCollapsed(false); setActiveTab('partials'); }}
+                        className={`p-2 rounded-lg ${activeTab === 'partials' ? 'bg-teal-50 text-teal-600' : 'text-slate-400 hover:text-slate-600'} relative`}
+                        title="Partials"
+                    >
+                        <Puzzle size={18} />
+                        {missingPartials.length > 0 && (
+                            <span className="absolute -top-1 -right-1 flex h-3 w-3 rounded-full bg-red-500 border-2 border-white"></span>
+                        )}
+                    </button>
+                )}
+                {hasTests && (
+                    <button 
+                        onClick={() => { setIsCollapsed(false); setActiveTab('tests'); }}
+                        className={`p-2 rounded-lg ${activeTab === 'tests' ? 'bg-teal-50 text-teal-600' : 'text-slate-400 hover:text-slate-600'}`}
+                        title="Tests"
+                    >
+                        <FlaskConical size={18} />
+                    </button>
+                )}
                 {((isHtmlMode || isXmlMode) && showBlocks) && (
                   <button 
                     onClick={() => { setIsCollapsed(false); setActiveTab('blocks'); }}
@@ -498,14 +682,44 @@ export const ToolsPanel: React.FC<ToolsPanelProps> = ({
             initialValue={variablesJson}
             onClose={() => setIsVariableModalOpen(false)}
             onSave={onVariablesChange}
+            initialSchema={variablesSchema}
+            onSaveSchema={onVariablesSchemaChange}
         />
 
+        {hasScenarios && template !== undefined && (
+            <ScenarioCompareModal
+                isOpen={isCompareOpen}
+                scenarios={scenarios}
+                activeScenarioId={activeScenarioId || scenarios[0].id}
+                template={template}
+                escape={escapeMode}
+                engine={templateEngine}
+                functions={functions}
+                sharedModule={sharedModule}
+                partials={partials}
+                context={templateContext}
+                scope={scope}
+                onSelectScenario={onActiveScenarioChange!}
+                onClose={() => setIsCompareOpen(false)}
+            />
+        )}
+
         <FunctionEditorModal 
             isOpen={isFuncModalOpen}
             initialFunction={newFuncName ? { id: '', name: newFuncName, params: ['arg1'], body: '// return ...' } : undefined}
+            functions={functions}
+            sharedModule={sharedModule}
             onClose={() => { setIsFuncModalOpen(false); setNewFuncName(undefined); }}
             onSave={handleSaveFunc}
         />
+
+        <PartialEditorModal
+            isOpen={newPartialName !== undefined}
+            initialPartial={newPartialName ? { id: '', name: newPartialName, content: '' } : undefined}
+            existingNames={partials.map(p => p.name)}
+            onClose={() => setNewPartialName(undefined)}
+            onSave={handleSavePartial}
+        />
       </div>
     </div>
   );
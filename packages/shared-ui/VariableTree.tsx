@@ -1,9 +1,12 @@
 import React, { useState } from 'react';
-import { VariableNode, EditorType } from '../../lib/types';
+import { VariableNode, EditorType, JsonSchema } from '../../lib/types';
+import { resolveSchema, schemaTypes } from '../../lib/json-schema';
 import { ChevronRight, ChevronDown, Braces, Box, Hash, Type, ToggleLeft, List, AlertCircle } from 'lucide-react';
 
 interface Props {
   data: Record<string, any>;
+  // Optional workspace schema; adds declared fields, required markers and enums
+  schema?: JsonSchema;
   editorType?: EditorType;
   onInsert?: (text: string) => void;
 }
@@ -14,20 +17,45 @@ const getType = (value: any): VariableNode['type'] => {
   return typeof value as VariableNode['type'];
 };
 
-const buildTree = (data: any, prefix = ''): VariableNode[] => {
-  if (typeof data !== 'object' || data === null) return [];
-  
-  return Object.keys(data).map((key) => {
-    const value = data[key];
+// Node type from the schema when the sample has no value
+const getSchemaType = (schema: JsonSchema | undefined): VariableNode['type'] => {
+  const type = schemaTypes(schema).find(t => t !== 'null') || schemaTypes(schema)[0];
+  if (type === 'integer') return 'number';
+  return type || 'null';
+};
+
+const buildTree = (data: any, schema?: JsonSchema, root?: JsonSchema, prefix = ''): VariableNode[] => {
+  const s = root ? resolveSchema(schema, root) : undefined;
+  const properties = s?.properties || {};
+  if ((typeof data !== 'object' || data === null) && !s?.properties) return [];
+
+  // Declared fields first, in schema order, then whatever else the sample has
+  const sample = typeof data === 'object' && data !== null ? data : {};
+  const keys = Array.from(new Set([...Object.keys(properties), ...Object.keys(sample)]));
+
+  return keys.map((key) => {
+    const inSample = key in sample;
+    const value = sample[key];
     const path = prefix ? `${prefix}.${key}` : key;
-    const type = getType(value);
+    const fieldSchema = root ? resolveSchema(properties[key], root) : undefined;
+    const type = inSample ? getType(value) : getSchemaType(fieldSchema);
     const node: VariableNode = { key, path, type, value };
+
+    if (fieldSchema) {
+      node.required = (s?.required || []).includes(key);
+      node.enum = fieldSchema.enum;
+      node.description = fieldSchema.description || fieldSchema.title;
+      node.inSample = inSample;
+    }
     
-    if (type === 'object' && value !== null) {
-      node.children = buildTree(value, path);
-    } else if (type === 'array' && value.length > 0) {
-      if (typeof value[0] === 'object') {
-         node.children = buildTree(value[0], `${path}.[0]`);
+    if (type === 'object') {
+      node.children = buildTree(value, fieldSchema, root, path);
+    } else if (type === 'array') {
+      const itemSchema = fieldSchema?.items;
+      if (Array.isArray(value) && value.length > 0 && typeof value[0] === 'object') {
+         node.children = buildTree(value[0], itemSchema, root, `${path}.[0]`);
+      } else if (itemSchema) {
+         node.children = buildTree(undefined, itemSchema, root, `${path}.[0]`);
       }
     }
     return node;
@@ -103,7 +131,7 @@ const TreeNode: React.FC<{ node: VariableNode; editorType?: EditorType; onInsert
         draggable
         onDragStart={handleDragStart}
         onClick={handleClick}
-        title={`Click or drag to insert: ${getInsertText()}`}
+        title={`${node.description ? `${node.description}\n` : ''}Click or drag to insert: ${getInsertText()}`}
       >
         <div 
           onClick={(e) => {
@@ -118,16 +146,25 @@ const TreeNode: React.FC<{ node: VariableNode; editorType?: EditorType; onInsert
         
         <TypeIcon type={node.type} />
         
-        <span className="text-sm font-mono text-slate-700 font-medium group-hover:text-teal-900">
+        <span className={`text-sm font-mono font-medium group-hover:text-teal-900 ${node.inSample === false ? 'text-slate-400 italic' : 'text-slate-700'}`}>
           {node.key}
+          {node.required && <span className="text-red-500" title="Required">*</span>}
         </span>
         
         {/* Helper text for value preview (truncated) */}
-        {!isExpandable && (
+        {!isExpandable && node.inSample !== false && (
              <span className="text-xs text-slate-400 truncate max-w-[80px]">
                {String(node.value)}
              </span>
         )}
+        {!isExpandable && node.inSample === false && (
+             <span className="text-[10px] text-slate-400 italic truncate">not in sample</span>
+        )}
+        {node.enum && node.enum.length > 0 && (
+             <span className="text-[10px] text-purple-600 bg-purple-50 border border-purple-100 rounded px-1 truncate max-w-[120px]" title={`One of: ${node.enum.map(v => JSON.stringify(v)).join(', ')}`}>
+               {node.enum.map(v => String(v)).join(' | ')}
+             </span>
+        )}
       </div>
       
       {isOpen && node.children && (
@@ -141,8 +178,8 @@ const TreeNode: React.FC<{ node: VariableNode; editorType?: EditorType; onInsert
   );
 };
 
-export const VariableTree: React.FC<Props> = ({ data = {}, editorType, onInsert }) => {
-  const tree = buildTree(data);
+export const VariableTree: React.FC<Props> = ({ data = {}, schema, editorType, onInsert }) => {
+  const tree = buildTree(data, schema, schema);
 
   return (
     <div className="h-full overflow-y-auto p-2">
@@ -1,12 +1,16 @@
-import React, { useState, useEffect } from 'react';
-import { X, Save, RotateCcw } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Save, RotateCcw, AlertCircle, CheckCircle2 } from 'lucide-react';
 import { CodeEditor } from './CodeEditor';
+import { validateAgainstSchema } from '../../lib/json-schema';
 
 interface VariablesEditorModalProps {
   isOpen: boolean;
   initialValue: string;
   onClose: () => void;
   onSave: (newValue: string) => void;
+  // JSON Schema of the variables; the Schema tab is shown when it can be saved
+  initialSchema?: string;
+  onSaveSchema?: (schema: string) => void;
 }
 
 export const VariablesEditorModal: React.FC<VariablesEditorModalProps> = ({
@@ -14,19 +18,44 @@ export const VariablesEditorModal: React.FC<VariablesEditorModalProps> = ({
   initialValue,
   onClose,
   onSave,
+  initialSchema = '',
+  onSaveSchema,
 }) => {
   const [value, setValue] = useState(initialValue);
+  const [schema, setSchema] = useState(initialSchema);
+  const [activeTab, setActiveTab] = useState<'data' | 'schema'>('data');
   
   // Sync value when modal opens or initialValue changes externally
   useEffect(() => {
     if (isOpen) {
       setValue(initialValue);
+      setSchema(initialSchema);
     }
-  }, [isOpen, initialValue]);
+  }, [isOpen, initialValue, initialSchema]);
+
+  // Parse errors first, then schema violations of the data
+  const validation = useMemo(() => {
+    let data: any;
+    try {
+      data = JSON.parse(value);
+    } catch (e: any) {
+      return { dataError: e.message as string, schemaError: null, errors: [] };
+    }
+    if (!schema.trim()) return { dataError: null, schemaError: null, errors: [] };
+    let parsedSchema: any;
+    try {
+      parsedSchema = JSON.parse(schema);
+    } catch (e: any) {
+      return { dataError: null, schemaError: e.message as string, errors: [] };
+    }
+    return { dataError: null, schemaError: null, errors: validateAgainstSchema(data, parsedSchema) };
+  }, [value, schema]);
 
   if (!isOpen) return null;
 
-  const isDirty = value !== initialValue;
+  const hasSchema = !!onSaveSchema;
+  const isDirty = value !== initialValue || (hasSchema && schema !== initialSchema);
+  const hasSchemaText = hasSchema && !!schema.trim();
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
@@ -46,19 +75,62 @@ export const VariablesEditorModal: React.FC<VariablesEditorModalProps> = ({
           </button>
         </div>
 
+        {hasSchema && (
+          <div className="flex px-6 border-b border-slate-100 bg-white gap-4">
+            {(['data', 'schema'] as const).map(tab => (
+              <button
+                key={tab}
+                onClick={() => setActiveTab(tab)}
+                className={`py-2 text-sm font-medium border-b-2 transition-colors ${activeTab === tab ? 'border-teal-500 text-teal-700' : 'border-transparent text-slate-400 hover:text-slate-600'}`}
+              >
+                {tab === 'data' ? 'Data' : 'Schema'}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Editor Content */}
         <div className="flex-1 p-0 min-h-0 bg-slate-50">
-             <CodeEditor 
-                language="json" 
-                value={value} 
-                onChange={(val) => setValue(val || '')} 
-            />
+             {activeTab === 'schema' && hasSchema ? (
+               <CodeEditor
+                  language="json"
+                  value={schema}
+                  onChange={(val) => setSchema(val || '')}
+              />
+             ) : (
+               <CodeEditor 
+                  language="json" 
+                  value={value} 
+                  onChange={(val) => setValue(val || '')} 
+              />
+             )}
         </div>
 
+        {/* Validation */}
+        {(validation.dataError || validation.schemaError || hasSchemaText) && (
+          <div className="max-h-32 overflow-y-auto border-t border-slate-100 bg-white px-6 py-2 text-xs space-y-1">
+            {validation.dataError && (
+              <div className="flex items-start gap-1.5 text-red-600"><AlertCircle size={12} className="shrink-0 mt-0.5" /> Invalid JSON: {validation.dataError}</div>
+            )}
+            {validation.schemaError && (
+              <div className="flex items-start gap-1.5 text-red-600"><AlertCircle size={12} className="shrink-0 mt-0.5" /> Invalid schema: {validation.schemaError}</div>
+            )}
+            {validation.errors.map((error, i) => (
+              <div key={i} className="flex items-start gap-1.5 text-amber-700">
+                <AlertCircle size={12} className="shrink-0 mt-0.5" />
+                <span><span className="font-mono">{error.path || '(root)'}</span>: {error.message}</span>
+              </div>
+            ))}
+            {hasSchemaText && !validation.dataError && !validation.schemaError && validation.errors.length === 0 && (
+              <div className="flex items-center gap-1.5 text-emerald-600"><CheckCircle2 size={12} /> Data matches the schema</div>
+            )}
+          </div>
+        )}
+
         {/* Footer Actions */}
         <div className="px-6 py-4 border-t border-slate-100 flex justify-between items-center bg-white">
            <button
-             onClick={() => setValue(initialValue)}
+             onClick={() => { setValue(initialValue); setSchema(initialSchema); }}
              disabled={!isDirty}
              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors
                ${isDirty 
@@ -80,12 +152,13 @@ export const VariablesEditorModal: React.FC<VariablesEditorModalProps> = ({
              </button>
              <button
                onClick={() => {
-                 if (onSave) onSave(value);
+                 if (onSave && value !== initialValue) onSave(value);
+                 if (onSaveSchema && schema !== initialSchema) onSaveSchema(schema);
                  onClose();
                }}
-               disabled={!isDirty}
+               disabled={!isDirty || !!validation.schemaError}
                className={`flex items-center gap-2 px-6 py-2 rounded-lg text-sm font-medium shadow-sm transition-all
-                ${isDirty
+                ${isDirty && !validation.schemaError
                     ? 'bg-teal-600 hover:bg-teal-700 text-white shadow-teal-600/20'
                     : 'bg-slate-200 text-slate-400 cursor-not-allowed'
                 }`}
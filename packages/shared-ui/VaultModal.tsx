@@ -0,0 +1,267 @@
+import React, { useState } from 'react';
+import { EncryptedVault, RedactedSecret } from '../../lib/types';
+import { SECRET_NAME_PATTERN, VaultSecrets, secretReference } from '../../lib/vault';
+import { X, Lock, LockOpen, KeyRound, Eye, EyeOff, Copy, Trash2, Plus, AlertCircle, ShieldCheck, ArrowRightLeft } from 'lucide-react';
+
+interface VaultModalProps {
+  isOpen: boolean;
+  vault: EncryptedVault | null;
+  secrets: VaultSecrets | null; // Null while the vault is locked
+  plaintextSecrets: RedactedSecret[]; // Fields that still hold a secret in plain text
+  onCreate: (passphrase: string) => Promise<void>;
+  onUnlock: (passphrase: string) => Promise<void>;
+  onLock: () => void;
+  onChangePassphrase: (passphrase: string) => Promise<void>;
+  onSecretsChange: (secrets: VaultSecrets) => Promise<void>;
+  onMoveSecrets: () => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClass = 'px-2 py-1.5 text-sm border border-slate-200 rounded-md bg-white focus:outline-none focus:border-teal-500';
+
+const primaryButtonClass = 'px-4 py-2 text-sm font-medium text-white bg-teal-600 hover:bg-teal-700 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50';
+
+// New passphrase with a confirmation, for creating the vault and changing its passphrase
+const PassphraseForm = ({ label, onSubmit }: { label: string; onSubmit: (passphrase: string) => void }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const mismatch = confirmation !== '' && passphrase !== confirmation;
+  return (
+    <div className="flex flex-col gap-2">
+      <input type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)} placeholder="Passphrase" className={inputClass} autoFocus />
+      <input type="password" value={confirmation} onChange={e => setConfirmation(e.target.value)} placeholder="Repeat the passphrase" className={inputClass} />
+      {mismatch && <span className="text-xs text-red-500">The passphrases differ</span>}
+      <button onClick={() => onSubmit(passphrase)} disabled={!passphrase || passphrase !== confirmation} className={`${primaryButtonClass} self-start`}>
+        <ShieldCheck size={14} /> {label}
+      </button>
+    </div>
+  );
+};
+
+const SecretRow: React.FC<{ name: string; value: string; onDelete: () => void }> = ({ name, value, onDelete }) => {
+  const [isRevealed, setIsRevealed] = useState(false);
+  return (
+    <li className="px-3 py-2 flex items-center gap-2 text-sm">
+      <KeyRound size={12} className="text-slate-400 shrink-0" />
+      <span className="w-48 shrink-0 font-mono text-xs text-slate-700 truncate" title={name}>{name}</span>
+      <span className="flex-1 min-w-0 font-mono text-xs text-slate-500 truncate">{isRevealed ? value : '••••••••'}</span>
+      <button onClick={() => setIsRevealed(!isRevealed)} className="p-1 rounded text-slate-400 hover:text-slate-600 hover:bg-slate-100" title={isRevealed ? 'Hide' : 'Reveal'}>
+        {isRevealed ? <EyeOff size={12} /> : <Eye size={12} />}
+      </button>
+      <button
+        onClick={() => navigator.clipboard?.writeText(secretReference(name))}
+        className="p-1 rounded text-slate-400 hover:text-slate-600 hover:bg-slate-100"
+        title={`Copy ${secretReference(name)}`}
+      >
+        <Copy size={12} />
+      </button>
+      <button onClick={onDelete} className="p-1 rounded text-slate-400 hover:text-red-500 hover:bg-slate-100" title="Delete">
+        <Trash2 size={12} />
+      </button>
+    </li>
+  );
+};
+
+// Create, unlock and edit the encrypted vault; templates and connection fields refer to its secrets as {{ secret.NAME }}
+export const VaultModal: React.FC<VaultModalProps> = ({
+  isOpen,
+  vault,
+  secrets,
+  plaintextSecrets,
+  onCreate,
+  onUnlock,
+  onLock,
+  onChangePassphrase,
+  onSecretsChange,
+  onMoveSecrets,
+  onClose
+}) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [newName, setNewName] = useState('');
+  const [newValue, setNewValue] = useState('');
+  const [isChangingPassphrase, setIsChangingPassphrase] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  // Key derivation takes a moment; errors such as a wrong passphrase are shown in the modal
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (e: any) {
+      setError(e?.message ?? String(e));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const nameError = !newName
+    ? null
+    : !SECRET_NAME_PATTERN.test(newName)
+      ? 'Letters, digits and _ only, not starting with a digit'
+      : secrets && newName in secrets ? 'A secret with this name exists' : null;
+
+  const handleAdd = () => {
+    if (!secrets || !newName || nameError) return;
+    run(async () => {
+      await onSecretsChange({ ...secrets, [newName]: newValue });
+      setNewName('');
+      setNewValue('');
+    });
+  };
+
+  const handleDelete = (name: string) => {
+    if (!secrets) return;
+    const { [name]: _deleted, ...rest } = secrets;
+    run(() => onSecretsChange(rest));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl flex flex-col max-h-[85vh] border border-slate-200 overflow-hidden">
+
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 bg-white flex-shrink-0">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              {secrets ? <LockOpen size={18} className="text-teal-600" /> : <Lock size={18} className="text-slate-400" />} Secret Vault
+            </h2>
+            <p className="text-sm text-slate-400">
+              Refer to a secret as <code className="font-mono">{'{{ secret.NAME }}'}</code>; previews, exports and AI prompts only see it masked
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto bg-slate-50 p-6 flex flex-col gap-4">
+          {error && (
+            <div className="flex items-start gap-1.5 text-xs text-red-600 bg-red-50 border border-red-100 rounded p-2 break-words">
+              <AlertCircle size={12} className="shrink-0 mt-0.5" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {!vault && (
+            <>
+              <p className="text-sm text-slate-600">
+                Secrets are encrypted in this browser under a passphrase. The passphrase is not stored and cannot be recovered.
+              </p>
+              <PassphraseForm label={isBusy ? 'Creating...' : 'Create vault'} onSubmit={p => run(() => onCreate(p))} />
+            </>
+          )}
+
+          {vault && !secrets && (
+            <>
+              <p className="text-sm text-slate-600">
+                The vault holds {vault.names.length} secret{vault.names.length === 1 ? '' : 's'}. Unlock it to send requests that use them.
+              </p>
+              <div className="flex gap-2">
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={e => setPassphrase(e.target.value)}
+                  onKeyDown={e => e.key === 'Enter' && passphrase && run(() => onUnlock(passphrase).then(() => setPassphrase('')))}
+                  placeholder="Passphrase"
+                  className={`flex-1 ${inputClass}`}
+                  autoFocus
+                />
+                <button
+                  onClick={() => run(() => onUnlock(passphrase).then(() => setPassphrase('')))}
+                  disabled={!passphrase || isBusy}
+                  className={primaryButtonClass}
+                >
+                  <LockOpen size={14} /> {isBusy ? 'Unlocking...' : 'Unlock'}
+                </button>
+              </div>
+              {vault.names.length > 0 && (
+                <ul className="text-xs font-mono text-slate-500 bg-white border border-slate-200 rounded-lg divide-y divide-slate-50">
+                  {vault.names.map(name => <li key={name} className="px-3 py-1.5">{name}</li>)}
+                </ul>
+              )}
+            </>
+          )}
+
+          {vault && secrets && (
+            <>
+              <ul className="bg-white border border-slate-200 rounded-lg divide-y divide-slate-50">
+                {Object.keys(secrets).length === 0 && <li className="px-3 py-2 text-xs text-slate-400">The vault is empty.</li>}
+                {Object.keys(secrets).sort().map(name => (
+                  <SecretRow key={name} name={name} value={secrets[name]} onDelete={() => handleDelete(name)} />
+                ))}
+              </ul>
+
+              <div className="flex flex-col gap-1">
+                <div className="flex gap-2">
+                  <input value={newName} onChange={e => setNewName(e.target.value)} placeholder="STRIPE_KEY" className={`w-48 font-mono ${inputClass}`} />
+                  <input
+                    type="password"
+                    value={newValue}
+                    onChange={e => setNewValue(e.target.value)}
+                    onKeyDown={e => e.key === 'Enter' && handleAdd()}
+                    placeholder="Value"
+                    className={`flex-1 ${inputClass}`}
+                  />
+                  <button onClick={handleAdd} disabled={!newName || !!nameError || isBusy} className={primaryButtonClass}>
+                    <Plus size={14} /> Add
+                  </button>
+                </div>
+                {nameError && <span className="text-xs text-red-500">{nameError}</span>}
+              </div>
+
+              {plaintextSecrets.length > 0 && (
+                <div className="flex flex-col gap-2 bg-amber-50 border border-amber-100 rounded-lg p-3">
+                  <span className="text-xs text-amber-700">
+                    These fields hold secrets in plain text. Moving them replaces each one with a reference to a new vault secret.
+                  </span>
+                  <ul className="max-h-32 overflow-y-auto text-xs text-slate-600 bg-white border border-slate-200 rounded divide-y divide-slate-50">
+                    {plaintextSecrets.map((secret, i) => (
+                      <li key={i} className="px-3 py-1.5 flex items-center gap-2">
+                        <span className="flex-1 truncate">{secret.location}</span>
+                        <span className="font-mono text-[10px] text-slate-400">{secret.field}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  <button onClick={() => run(onMoveSecrets)} disabled={isBusy} className={`${primaryButtonClass} self-start`}>
+                    <ArrowRightLeft size={14} /> Move into the vault
+                  </button>
+                </div>
+              )}
+
+              {isChangingPassphrase && (
+                <PassphraseForm
+                  label="Change passphrase"
+                  onSubmit={p => run(async () => {
+                    await onChangePassphrase(p);
+                    setIsChangingPassphrase(false);
+                  })}
+                />
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex justify-end gap-3 bg-white flex-shrink-0">
+          {vault && secrets && (
+            <>
+              {!isChangingPassphrase && (
+                <button onClick={() => setIsChangingPassphrase(true)} className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors">
+                  Change passphrase
+                </button>
+              )}
+              <button onClick={onLock} className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors flex items-center gap-2">
+                <Lock size={14} /> Lock
+              </button>
+            </>
+          )}
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,247 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import { DocumentEditorType, DocumentVersion, EditorDocument, PersistedAppState, VersionRestoreOptions } from '../../lib/types';
+import {
+  VersionPart,
+  createVersion,
+  deleteVersion,
+  loadHistory,
+  recordVersion,
+  versionLanguage,
+  versionText
+} from '../../lib/document-history';
+import { X, History, Bookmark, Trash2, RotateCcw, AlertCircle, Loader2 } from 'lucide-react';
+
+interface VersionHistoryModalProps {
+  isOpen: boolean;
+  editorType: DocumentEditorType;
+  document: EditorDocument;
+  appState: PersistedAppState;
+  onRestore: (version: DocumentVersion, options: VersionRestoreOptions) => void;
+  onClose: () => void;
+}
+
+const CURRENT = 'current';
+
+const PARTS: { id: VersionPart; label: string }[] = [
+  { id: 'document', label: 'Document' },
+  { id: 'variables', label: 'Variables' },
+  { id: 'functions', label: 'Functions & Partials' }
+];
+
+const formatTime = (time: number) => new Date(time).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const versionTitle = (version: DocumentVersion) => version.label || (version.kind === 'checkpoint' ? 'Checkpoint' : 'Saved');
+
+// Versions of the open document: pick one to compare against the current state or another version, then restore it
+export const VersionHistoryModal: React.FC<VersionHistoryModalProps> = ({ isOpen, editorType, document, appState, onRestore, onClose }) => {
+  const [versions, setVersions] = useState<DocumentVersion[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState(CURRENT);
+  const [part, setPart] = useState<VersionPart>('document');
+  const [checkpointName, setCheckpointName] = useState('');
+  const [options, setOptions] = useState<VersionRestoreOptions>({ variables: true, functions: true });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setVersions(null);
+    setError(null);
+    setCompareId(CURRENT);
+    loadHistory(editorType, document.id)
+      .then(history => {
+        if (cancelled) return;
+        setVersions(history);
+        setSelectedId(history[0]?.id ?? null);
+      })
+      .catch((e: any) => !cancelled && setError(e?.message ?? String(e)));
+    return () => { cancelled = true; };
+  }, [isOpen, editorType, document.id]);
+
+  const current = useMemo(() => createVersion(document, appState, 'auto'), [document, appState]);
+
+  if (!isOpen) return null;
+
+  const selected = versions?.find(v => v.id === selectedId);
+  const compared = compareId === CURRENT ? current : versions?.find(v => v.id === compareId) ?? current;
+
+  const update = (change: Promise<DocumentVersion[]>) =>
+    change.then(setVersions).catch((e: any) => setError(e?.message ?? String(e)));
+
+  const handleCheckpoint = () => {
+    const version = createVersion(document, appState, 'checkpoint', checkpointName);
+    setCheckpointName('');
+    setSelectedId(version.id);
+    update(recordVersion(editorType, version));
+  };
+
+  const handleDelete = (version: DocumentVersion) => {
+    if (version.id === selectedId) setSelectedId(null);
+    if (version.id === compareId) setCompareId(CURRENT);
+    update(deleteVersion(editorType, document.id, version.id));
+  };
+
+  const handleRestore = () => {
+    if (!selected) return;
+    onRestore(selected, options);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-6xl flex flex-col h-[85vh] border border-slate-200 overflow-hidden">
+
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 bg-white flex-shrink-0">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <History size={18} className="text-teal-600" /> History of '{document.name}'
+            </h2>
+            <p className="text-sm text-slate-400">Versions are saved automatically; checkpoints are named and kept</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex">
+          <div className="w-72 shrink-0 border-r border-slate-100 flex flex-col bg-slate-50">
+            <div className="p-3 border-b border-slate-100 flex gap-2">
+              <input
+                value={checkpointName}
+                onChange={e => setCheckpointName(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleCheckpoint()}
+                placeholder="Checkpoint name"
+                className="flex-1 min-w-0 px-2 py-1.5 text-xs border border-slate-200 rounded-md bg-white focus:outline-none focus:border-teal-500"
+              />
+              <button
+                onClick={handleCheckpoint}
+                disabled={versions === null}
+                className="px-2.5 py-1.5 text-xs font-medium text-white bg-teal-600 hover:bg-teal-700 rounded-md transition-colors flex items-center gap-1 disabled:opacity-50"
+                title="Save the current state as a named checkpoint"
+              >
+                <Bookmark size={12} /> Save
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto">
+              {error && (
+                <div className="m-3 flex items-start gap-1.5 text-xs text-red-600 bg-red-50 border border-red-100 rounded p-2 break-words">
+                  <AlertCircle size={12} className="shrink-0 mt-0.5" />
+                  <span>{error}</span>
+                </div>
+              )}
+              {versions === null && !error && (
+                <div className="p-4 flex items-center gap-2 text-xs text-slate-400">
+                  <Loader2 size={12} className="animate-spin" /> Loading history...
+                </div>
+              )}
+              {versions?.length === 0 && (
+                <p className="p-4 text-xs text-slate-400">No versions yet. Edits are recorded once they are saved.</p>
+              )}
+              {versions?.map(version => (
+                <div
+                  key={version.id}
+                  onClick={() => setSelectedId(version.id)}
+                  className={`group px-3 py-2 border-b border-slate-100 cursor-pointer flex items-start gap-2 ${
+                    version.id === selectedId ? 'bg-teal-50' : 'hover:bg-white'
+                  }`}
+                >
+                  {version.kind === 'checkpoint'
+                    ? <Bookmark size={12} className="text-teal-600 shrink-0 mt-0.5" />
+                    : <History size={12} className="text-slate-300 shrink-0 mt-0.5" />}
+                  <div className="flex-1 min-w-0">
+                    <div className={`text-xs truncate ${version.kind === 'checkpoint' ? 'font-medium text-slate-700' : 'text-slate-600'}`}>
+                      {versionTitle(version)}
+                    </div>
+                    <div className="text-[10px] text-slate-400">
+                      {formatTime(version.createdAt)} · {version.scenario.name}
+                    </div>
+                  </div>
+                  <button
+                    onClick={e => {
+                      e.stopPropagation();
+                      handleDelete(version);
+                    }}
+                    className="p-0.5 rounded text-slate-400 hover:text-red-500 hover:bg-slate-200 opacity-0 group-hover:opacity-100"
+                    title="Delete version"
+                  >
+                    <Trash2 size={11} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex-1 min-w-0 flex flex-col">
+            <div className="px-4 py-2 border-b border-slate-100 flex items-center justify-between gap-3">
+              <div className="flex items-center gap-1">
+                {PARTS.map(p => (
+                  <button
+                    key={p.id}
+                    onClick={() => setPart(p.id)}
+                    className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+                      part === p.id ? 'bg-teal-600 text-white' : 'text-slate-600 hover:bg-slate-200'
+                    }`}
+                  >
+                    {p.label}
+                  </button>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 text-xs text-slate-500">
+                Compare with
+                <select
+                  value={compareId}
+                  onChange={e => setCompareId(e.target.value)}
+                  className="bg-slate-100 border border-slate-200 rounded-md px-2 py-1 text-xs text-slate-700 focus:outline-none focus:border-teal-500 max-w-[16rem]"
+                >
+                  <option value={CURRENT}>Current state</option>
+                  {versions?.filter(v => v.id !== selectedId).map(v => (
+                    <option key={v.id} value={v.id}>{versionTitle(v)} · {formatTime(v.createdAt)}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <div className="flex-1 min-h-0">
+              {selected ? (
+                <DiffEditor
+                  original={versionText(editorType, selected, part)}
+                  modified={versionText(editorType, compared, part)}
+                  language={versionLanguage(editorType, part)}
+                  options={{ readOnly: true, originalEditable: false, renderSideBySide: true, minimap: { enabled: false }, fontSize: 13, scrollBeyondLastLine: false, automaticLayout: true }}
+                />
+              ) : (
+                <div className="h-full flex items-center justify-center text-sm text-slate-400">Select a version to compare</div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex items-center justify-between gap-3 bg-white flex-shrink-0">
+          <div className="flex items-center gap-4 text-sm text-slate-700">
+            <span className="text-xs text-slate-400">Restore with:</span>
+            <label className="flex items-center gap-2 cursor-pointer select-none">
+              <input type="checkbox" checked={options.variables} onChange={e => setOptions({ ...options, variables: e.target.checked })} className="accent-teal-600" />
+              Variables of {selected ? `'${selected.scenario.name}'` : 'the scenario'}
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer select-none">
+              <input type="checkbox" checked={options.functions} onChange={e => setOptions({ ...options, functions: e.target.checked })} className="accent-teal-600" />
+              Functions, shared module & partials
+            </label>
+          </div>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors">
+              Close
+            </button>
+            <button
+              onClick={handleRestore}
+              disabled={!selected}
+              className="px-4 py-2 text-sm font-medium text-white bg-teal-600 hover:bg-teal-700 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+            >
+              <RotateCcw size={14} /> Restore
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,226 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { PersistedAppState, RedactedSecret, WorkspaceFile } from '../../lib/types';
+import { WorkspaceImportMode, createWorkspaceFile, importWorkspace, parseWorkspace } from '../../lib/workspace-bundle';
+import { X, Download, Upload, AlertCircle, KeyRound, ShieldAlert } from 'lucide-react';
+
+interface WorkspaceBundleModalProps {
+  isOpen: boolean;
+  appState: PersistedAppState;
+  onImport: (state: PersistedAppState) => void;
+  onClose: () => void;
+}
+
+// What a workspace file contains, for the export and import summaries
+const summarize = (workspace: WorkspaceFile): string[] => {
+  const count = (items: unknown[] | undefined, noun: string) => (items?.length ? `${items.length} ${noun}${items.length === 1 ? '' : 's'}` : null);
+  return [
+    count(Object.values(workspace.documents).flat(), 'document'),
+    count(workspace.scenarios, 'scenario'),
+    count(workspace.environments, 'environment'),
+    count(workspace.functions, 'function'),
+    count(workspace.partials, 'partial'),
+    count(workspace.dbConnections, 'DB connection'),
+    count(workspace.mcpConnections, 'MCP connection'),
+    count(workspace.authCredentials, 'credential'),
+    count(workspace.apiSources, 'API source'),
+    count(workspace.hostImages, 'image'),
+    workspace.vault ? 'an encrypted secret vault' : null
+  ].filter((part): part is string => part !== null);
+};
+
+const SecretList = ({ secrets }: { secrets: RedactedSecret[] }) => (
+  <ul className="max-h-32 overflow-y-auto text-xs text-slate-600 divide-y divide-slate-50 bg-white border border-slate-200 rounded-lg">
+    {secrets.map((secret, i) => (
+      <li key={i} className="px-3 py-1.5 flex items-center gap-2">
+        <KeyRound size={12} className="text-slate-400 shrink-0" />
+        <span className="flex-1 truncate">{secret.location}</span>
+        <span className="font-mono text-[10px] text-slate-400">{secret.field}</span>
+      </li>
+    ))}
+  </ul>
+);
+
+export const WorkspaceBundleModal: React.FC<WorkspaceBundleModalProps> = ({ isOpen, appState, onImport, onClose }) => {
+  const [tab, setTab] = useState<'export' | 'import'>('export');
+  const [includeSecrets, setIncludeSecrets] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [imported, setImported] = useState<{ workspace?: WorkspaceFile; error?: string } | null>(null);
+  const [mode, setMode] = useState<WorkspaceImportMode>('merge');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const exported = useMemo(
+    () => (isOpen && tab === 'export' ? createWorkspaceFile(appState, { includeSecrets }) : undefined),
+    [isOpen, tab, appState, includeSecrets]
+  );
+
+  // Dry run of the import, for the placeholders no local secret fills in
+  const preview = useMemo(
+    () => (imported?.workspace ? importWorkspace(appState, imported.workspace, mode) : undefined),
+    [imported, appState, mode]
+  );
+
+  if (!isOpen) return null;
+
+  const handleDownload = () => {
+    if (!exported) return;
+    const url = URL.createObjectURL(new Blob([JSON.stringify(exported, null, 2)], { type: 'application/json' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'workspace.json';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      setImported({ workspace: parseWorkspace(await file.text()) });
+    } catch (err: any) {
+      setImported({ error: err.message });
+    }
+  };
+
+  const handleImport = () => {
+    if (!preview) return;
+    onImport(preview.state);
+    setImported(null);
+    setFileName(null);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-xl flex flex-col max-h-[85vh] border border-slate-200 overflow-hidden">
+
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 bg-white flex-shrink-0">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800">Workspace File</h2>
+            <p className="text-sm text-slate-400">Hand the complete setup to a colleague, or load theirs</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto bg-slate-50 p-6 flex flex-col gap-4">
+          <div className="flex items-center gap-1">
+            {(['export', 'import'] as const).map(t => (
+              <button
+                key={t}
+                onClick={() => setTab(t)}
+                className={`px-3 py-1 text-xs font-medium rounded-md capitalize transition-colors ${
+                  tab === t ? 'bg-teal-600 text-white' : 'text-slate-600 hover:bg-slate-200'
+                }`}
+              >
+                {t}
+              </button>
+            ))}
+          </div>
+
+          {tab === 'export' && exported && (
+            <>
+              <p className="text-sm text-slate-600">{summarize(exported).join(', ')}.</p>
+              <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer select-none">
+                <input type="checkbox" checked={includeSecrets} onChange={e => setIncludeSecrets(e.target.checked)} className="accent-teal-600" />
+                Include secrets
+              </label>
+              {includeSecrets ? (
+                <div className="flex items-start gap-1.5 text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded p-2">
+                  <ShieldAlert size={12} className="shrink-0 mt-0.5" />
+                  <span>Passwords, tokens and connection strings are written in plain text. Only share the file over a secure channel.</span>
+                </div>
+              ) : exported.redactedSecrets && exported.redactedSecrets.length > 0 ? (
+                <div className="flex flex-col gap-1.5">
+                  <span className="text-xs text-slate-500">These secrets are replaced with <code className="font-mono">__REDACTED__</code>:</span>
+                  <SecretList secrets={exported.redactedSecrets} />
+                </div>
+              ) : (
+                <span className="text-xs text-slate-500">No field holds a secret in plain text.</span>
+              )}
+              {appState.vault && (
+                <span className="text-xs text-slate-500">
+                  {includeSecrets
+                    ? 'The secret vault is included, still encrypted; the recipient needs its passphrase.'
+                    : 'The secret vault is left out; {{ secret.NAME }} references stay in the file.'}
+                </span>
+              )}
+            </>
+          )}
+
+          {tab === 'import' && (
+            <>
+              <input type="file" accept=".json,application/json" ref={fileInputRef} className="hidden" onChange={handleFileChange} />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="w-full py-6 border-2 border-dashed border-slate-200 rounded-lg text-slate-400 hover:border-teal-400 hover:text-teal-600 hover:bg-teal-50/50 transition-all text-xs font-medium flex flex-col items-center justify-center gap-2"
+              >
+                <Upload size={20} />
+                {fileName || 'Click to select a workspace file'}
+              </button>
+
+              {imported?.error !== undefined && (
+                <div className="flex items-start gap-1.5 text-xs text-red-600 bg-red-50 border border-red-100 rounded p-2 break-words">
+                  <AlertCircle size={12} className="shrink-0 mt-0.5" />
+                  <span>{imported.error}</span>
+                </div>
+              )}
+
+              {imported?.workspace && preview && (
+                <>
+                  <p className="text-sm text-slate-600">{summarize(imported.workspace).join(', ')}.</p>
+                  <div className="flex flex-col gap-2 text-sm text-slate-700">
+                    <label className="flex items-start gap-2 cursor-pointer select-none">
+                      <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} className="accent-teal-600 mt-1" />
+                      <span>
+                        Merge
+                        <span className="block text-xs text-slate-400">Items with the same id are replaced, everything else is kept; so is a local secret vault</span>
+                      </span>
+                    </label>
+                    <label className="flex items-start gap-2 cursor-pointer select-none">
+                      <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} className="accent-teal-600 mt-1" />
+                      <span>
+                        Overwrite
+                        <span className="block text-xs text-slate-400">Every part the file contains replaces the current one</span>
+                      </span>
+                    </label>
+                  </div>
+                  {preview.unresolved.length > 0 && (
+                    <div className="flex flex-col gap-1.5">
+                      <span className="text-xs text-amber-700">These secrets stay placeholders; fill them in after the import:</span>
+                      <SecretList secrets={preview.unresolved} />
+                    </div>
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex justify-end gap-3 bg-white flex-shrink-0">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors">
+            Close
+          </button>
+          {tab === 'export' ? (
+            <button
+              onClick={handleDownload}
+              className="px-4 py-2 text-sm font-medium text-white bg-teal-600 hover:bg-teal-700 rounded-lg transition-colors flex items-center gap-2"
+            >
+              <Download size={14} /> Download
+            </button>
+          ) : (
+            <button
+              onClick={handleImport}
+              disabled={!preview}
+              className="px-4 py-2 text-sm font-medium text-white bg-teal-600 hover:bg-teal-700 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+            >
+              <Upload size={14} /> Import
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
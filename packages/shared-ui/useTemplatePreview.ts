@@ -0,0 +1,128 @@
+import { useEffect, useMemo, useState } from 'react';
+import { UserFunction, TemplatePartial, TemplateIssue, TemplateEngine, EscapeMode, WorkspaceScope } from '../../lib/types';
+import { interpolateManyInSandbox, isSandboxAbort } from '../../lib/sandbox-client';
+import { analyzeTemplate, mapOutputError, mergeRenderIssues } from '../../lib/template-analyzer';
+import { parseSchema } from '../../lib/json-schema';
+import { EMPTY_SCOPE, previewContext } from '../../lib/environments';
+
+interface TemplatePreviewOptions {
+  template: string;
+  // What the template renders against, also what the analyzer and suggestions resolve names from
+  context: Record<string, any>;
+  variablesSchema?: string;
+  functions?: UserFunction[];
+  sharedModule?: string;
+  partials?: TemplatePartial[];
+  engine?: TemplateEngine;
+  escape: EscapeMode;
+  // The active environment and the vault; the preview and the analysis see the secrets masked
+  scope?: WorkspaceScope;
+  // No render runs while the preview is hidden; the analysis still does
+  enabled?: boolean;
+  // Plain-text templates rendered in the same run, e.g. email headers; each falls back to its source on error
+  fields?: string[];
+  // Turns the output into what the preview shows; a throw is an invalid output, placed on its template line.
+  // Keep it stable (a module-level function): a new one reruns the render.
+  format?: (output: string) => string;
+  // Validates the output without changing it; a returned error is placed on its template line
+  check?: (output: string) => Error | undefined;
+  // Code previews show the error in place of the output; others keep the last good output
+  showErrors?: boolean;
+}
+
+interface PreviewState {
+  output: string;
+  error: string | null;
+  renderIssues: TemplateIssue[];
+  fields: string[];
+}
+
+const INITIAL_STATE: PreviewState = { output: '', error: null, renderIssues: [], fields: [] };
+
+/**
+ * What every template editor derives from its template: the analyzer
+ * findings, the {{ }} suggestions and the sandboxed preview. Rendering runs in
+ * the worker sandbox; a newer edit aborts the pending run. `issues` are the
+ * analyzer findings plus what the last render reported.
+ */
+export const useTemplatePreview = ({
+  template,
+  context,
+  variablesSchema,
+  functions,
+  sharedModule,
+  partials,
+  engine,
+  escape,
+  scope = EMPTY_SCOPE,
+  enabled = true,
+  fields,
+  format,
+  check,
+  showErrors = false
+}: TemplatePreviewOptions) => {
+  const [state, setState] = useState<PreviewState>(INITIAL_STATE);
+
+  const schema = useMemo(() => parseSchema(variablesSchema), [variablesSchema]);
+
+  // The environment and {{ secret.NAME }} of the vault are known to every template
+  const variables = useMemo(() => previewContext(context, scope), [context, scope]);
+
+  // Template problems (unknown variables/helpers, missing functions) from the shared AST analyzer
+  const analysis = useMemo(
+    () => analyzeTemplate(template, { variables, functions: functions || [], partials, schema, engine }),
+    [template, variables, functions, partials, schema, engine]
+  );
+
+  // Suggestions inside {{ }} resolve against the same context as the analyzer
+  const completion = useMemo(
+    () => ({ variables, schema, functions: functions || [], sharedModule, partials, engine }),
+    [variables, schema, functions, sharedModule, partials, engine]
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+    const extra = fields ?? [];
+    const controller = new AbortController();
+    interpolateManyInSandbox([template, ...extra], context, functions || [], {
+      signal: controller.signal,
+      escape: [escape, ...extra.map(() => 'none' as const)],
+      partials,
+      engine,
+      sharedModule,
+      scope,
+      lineMap: Boolean(format || check)
+    })
+      .then(([{ output = '', error, issue, lineMap }, ...fieldResults]) => {
+        const renderedFields = fieldResults.map((r, i) => (r.error === undefined ? r.output ?? '' : extra[i]));
+        if (error !== undefined) {
+          setState(previous => ({
+            output: showErrors ? error : previous.output,
+            error,
+            renderIssues: issue ? [issue] : [],
+            fields: renderedFields
+          }));
+          return;
+        }
+        try {
+          const formatted = format ? format(output) : output;
+          // An invalid output still previews, with the issue on the template line that produced it
+          const invalid = check?.(formatted);
+          const outputIssue = invalid ? mapOutputError(invalid, output, lineMap) : undefined;
+          setState({ output: formatted, error: null, renderIssues: outputIssue ? [outputIssue] : [], fields: renderedFields });
+        } catch (e: any) {
+          const outputIssue = mapOutputError(e, output, lineMap);
+          setState({ output, error: e.message, renderIssues: outputIssue ? [outputIssue] : [], fields: renderedFields });
+        }
+      })
+      .catch((e: any) => {
+        if (isSandboxAbort(e)) return;
+        setState(previous => ({ ...previous, output: showErrors ? e.message : previous.output, error: e.message, renderIssues: [] }));
+      });
+    return () => controller.abort();
+  }, [template, context, functions, sharedModule, partials, engine, escape, scope, enabled, fields, format, check, showErrors]);
+
+  const issues = useMemo(() => mergeRenderIssues(analysis.issues, state.renderIssues), [analysis, state.renderIssues]);
+
+  return { analysis, completion, issues, output: state.output, error: state.error, fields: state.fields };
+};
@@ -1,9 +1,14 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { interpolateString, insertIntoNativeInput } from '../../lib/utils';
-import { UserFunction, EditorType, DbConnection, SmsMessageState, SmsMeta } from '../../lib/types';
+import { insertIntoNativeInput } from '../../lib/utils';
+import { UserFunction, EditorType, DbConnection, SmsMessageState, SmsMeta, TemplatePartial, TemplateTestCase, TemplateEngine, VariableScenario, WorkspaceScope } from '../../lib/types';
+import { EMPTY_SCOPE } from '../../lib/environments';
 import { CodeEditor, CodeEditorRef } from '../shared-ui/CodeEditor';
 import { ToolsPanel } from '../shared-ui/ToolsPanel';
-import { PanelRightClose, PanelRightOpen, Wand2, MessageSquare, Database, ChevronDown, ChevronRight } from 'lucide-react';
+import { TemplateEngineSelect } from '../shared-ui/TemplateEngineSelect';
+import { TemplateExportModal } from '../shared-ui/TemplateExportModal';
+import { TemplateIssuesPanel } from '../shared-ui/TemplateIssuesPanel';
+import { useTemplatePreview } from '../shared-ui/useTemplatePreview';
+import { PanelRightClose, PanelRightOpen, Wand2, MessageSquare, Database, ChevronDown, ChevronRight, FileOutput } from 'lucide-react';
 
 interface SmsEditorProps {
     content: SmsMessageState;
@@ -12,8 +17,24 @@ interface SmsEditorProps {
     // Store Props
     variablesJson: string;
     onVariablesChange: (json: string) => void;
+    variablesSchema?: string;
+    onVariablesSchemaChange?: (schema: string) => void;
+    sharedModule?: string;
+    onSharedModuleChange?: (code: string) => void;
+    // The active environment and the vault
+    scope?: WorkspaceScope;
     functions: UserFunction[];
-    onFunctionsChange: (funcs: UserFunction[]) => void;
+    onFunctionsChange: (funcs: React.SetStateAction<UserFunction[]>) => void;
+    partials?: TemplatePartial[];
+    onPartialsChange?: (partials: TemplatePartial[]) => void;
+    tests?: TemplateTestCase[];
+    onTestsChange?: (tests: TemplateTestCase[]) => void;
+    templateEngine?: TemplateEngine;
+    onTemplateEngineChange?: (engine: TemplateEngine) => void;
+    scenarios?: VariableScenario[];
+    activeScenarioId?: string;
+    onScenariosChange?: (scenarios: VariableScenario[]) => void;
+    onActiveScenarioChange?: (id: string) => void;
     
     // Connections
     connections: DbConnection[];
@@ -33,8 +54,23 @@ export const SmsEditor: React.FC<SmsEditorProps> = ({
     onChange, 
     variablesJson = '{}',
     onVariablesChange,
+    variablesSchema,
+    onVariablesSchemaChange,
+    sharedModule,
+    onSharedModuleChange,
+    scope = EMPTY_SCOPE,
     functions = [],
     onFunctionsChange,
+    partials = [],
+    onPartialsChange,
+    tests = [],
+    onTestsChange,
+    templateEngine,
+    onTemplateEngineChange,
+    scenarios,
+    activeScenarioId,
+    onScenariosChange,
+    onActiveScenarioChange,
     connections = [],
     onAiAssist,
     enablePreview = true,
@@ -48,10 +84,8 @@ export const SmsEditor: React.FC<SmsEditorProps> = ({
     const [isMetaCollapsed, setIsMetaCollapsed] = useState(false);
 
     // Preview State
-    const [previewContent, setPreviewContent] = useState<string>('');
-    const [error, setError] = useState<string | null>(null);
     const [isPreviewOpen, setIsPreviewOpen] = useState(true);
-    const [missingFunctions, setMissingFunctions] = useState<string[]>([]);
+    const [isExportOpen, setIsExportOpen] = useState(false);
 
     // Internal Variable Parsing
     const variablesObj = useMemo(() => {
@@ -115,39 +149,18 @@ export const SmsEditor: React.FC<SmsEditorProps> = ({
         };
     }, [isResizing, stopResizing]);
 
-    // Check for missing functions
-    useEffect(() => {
-        const safeFunctions = Array.isArray(functions) ? functions : [];
-        const regex = /{{#func:([a-zA-Z0-9_]+)\(/g;
-        const missing: Set<string> = new Set();
-        let match;
-        while ((match = regex.exec(body)) !== null) {
-            const funcName = match[1];
-            if (!safeFunctions.some(f => f.name === funcName)) {
-                missing.add(funcName);
-            }
-        }
-        
-        const legacyRegex = /{{\s*func\s+['"]([a-zA-Z0-9_]+)['"]/g;
-        while ((match = legacyRegex.exec(body)) !== null) {
-            const funcName = match[1];
-            if (!safeFunctions.some(f => f.name === funcName)) {
-                missing.add(funcName);
-            }
-        }
-        setMissingFunctions(Array.from(missing));
-    }, [body, functions]);
-
-    useEffect(() => {
-        if (!enablePreview) return;
-        try {
-            const interpolated = interpolateString(body, variablesObj, functions || []);
-            setPreviewContent(interpolated);
-            setError(null);
-        } catch (e: any) {
-            setError(e.message);
-        }
-    }, [body, variablesObj, functions, enablePreview]);
+    const { analysis, completion, issues, output: previewContent, error } = useTemplatePreview({
+        template: body,
+        context: variablesObj,
+        variablesSchema,
+        functions,
+        sharedModule,
+        partials,
+        engine: templateEngine,
+        escape: 'none',
+        scope,
+        enabled: enablePreview
+    });
 
     const handleInsert = (text: string) => {
         if (insertIntoNativeInput(document.activeElement, text)) return;
@@ -241,7 +254,16 @@ export const SmsEditor: React.FC<SmsEditorProps> = ({
                                 >
                                     <Wand2 size={14} />
                                 </button>
-                                <span className="text-teal-600 font-mono text-[10px]">Handlebars</span>
+                                {(templateEngine ?? 'handlebars') === 'handlebars' && (
+                                    <button 
+                                        onClick={() => setIsExportOpen(true)}
+                                        className="text-slate-400 hover:text-teal-600 hover:bg-teal-50 p-0.5 rounded transition-colors"
+                                        title="Export to Jinja2 / Liquid"
+                                    >
+                                        <FileOutput size={14} />
+                                    </button>
+                                )}
+                                <TemplateEngineSelect value={templateEngine} onChange={onTemplateEngineChange} />
                                 {enablePreview && (
                                     <button 
                                         onClick={() => setIsPreviewOpen(!isPreviewOpen)}
@@ -259,8 +281,14 @@ export const SmsEditor: React.FC<SmsEditorProps> = ({
                                 language={'handlebars'}
                                 value={body} 
                                 onChange={(val) => onChange({ ...content, body: val || '' })} 
+                                markers={issues}
+                                completion={completion}
                             />
                         </div>
+                        <TemplateIssuesPanel
+                            issues={issues}
+                            onSelect={issue => editorRef.current?.revealPosition(issue.line, issue.column)}
+                        />
                     </div>
 
                     {/* Resizable Preview */}
@@ -332,10 +360,27 @@ export const SmsEditor: React.FC<SmsEditorProps> = ({
             <ToolsPanel 
                 variablesJson={variablesJson}
                 onVariablesChange={onVariablesChange}
+                variablesSchema={variablesSchema}
+                onVariablesSchemaChange={onVariablesSchemaChange}
+                sharedModule={sharedModule}
+                onSharedModuleChange={onSharedModuleChange}
+                scope={scope}
                 functions={functions}
                 onFunctionsChange={onFunctionsChange}
                 activeEditorType={EditorType.SMS_MSG}
-                missingFunctions={missingFunctions}
+                missingFunctions={analysis.missingFunctions}
+                partials={partials}
+                onPartialsChange={onPartialsChange}
+                tests={tests}
+                onTestsChange={onTestsChange}
+                scenarios={scenarios}
+                activeScenarioId={activeScenarioId}
+                onScenariosChange={onScenariosChange}
+                onActiveScenarioChange={onActiveScenarioChange}
+                template={body}
+                escapeMode="none"
+                templateEngine={templateEngine}
+                missingPartials={analysis.missingPartials}
                 onInsert={handleInsert}
                 onUpdateContent={(val) => onChange({ ...content, body: val })}
                 onAiAssist={onAiAssist}
@@ -343,6 +388,20 @@ export const SmsEditor: React.FC<SmsEditorProps> = ({
                 showFunctions={showFunctions}
                 showChat={showAi}
             />
+
+            <TemplateExportModal
+                isOpen={isExportOpen}
+                template={body}
+                escape="none"
+                functions={functions}
+                language="handlebars"
+                fileName="sms"
+                onSelectWarning={warning => {
+                    setIsExportOpen(false);
+                    editorRef.current?.revealPosition(warning.line, warning.column);
+                }}
+                onClose={() => setIsExportOpen(false)}
+            />
         </div>
     );
 };
\ No newline at end of file